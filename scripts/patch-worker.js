@@ -37,5 +37,51 @@ export { WebSocketDO };
   console.log('✓ WebSocketDO already exported');
 }
 
+// Add AgentDO export if not present
+if (!workerContent.includes('export { AgentDO }')) {
+  const agentExport = `
+import { AgentDO } from '../src/workers/agent-do';
+export { AgentDO };
+`;
+
+  workerContent += agentExport;
+  console.log('✓ Added AgentDO Durable Object export');
+} else {
+  console.log('✓ AgentDO already exported');
+}
+
+// Add RunStreamDO export if not present
+if (!workerContent.includes('export { RunStreamDO }')) {
+  const runStreamExport = `
+import { RunStreamDO } from '../src/workers/run-stream-do';
+export { RunStreamDO };
+`;
+
+  workerContent += runStreamExport;
+  console.log('✓ Added RunStreamDO Durable Object export');
+} else {
+  console.log('✓ RunStreamDO already exported');
+}
+
+// Route sandbox preview hosts through the preview gate before the Next.js handler
+if (!workerContent.includes('handlePreviewRequest')) {
+  if (!workerContent.includes('export default {')) {
+    throw new Error('Could not find the default export of the worker to wrap with the preview gate');
+  }
+  workerContent = workerContent.replace('export default {', 'const nextWorker = {');
+  workerContent += `
+import { handlePreviewRequest } from '../src/workers/preview-proxy';
+export default {
+  ...nextWorker,
+  async fetch(request, env, ctx) {
+    return (await handlePreviewRequest(request, env)) ?? nextWorker.fetch(request, env, ctx);
+  },
+};
+`;
+  console.log('✓ Added preview gate to the worker fetch handler');
+} else {
+  console.log('✓ Preview gate already added');
+}
+
 fs.writeFileSync(workerPath, workerContent);
 console.log('Worker patching complete!');
\ No newline at end of file
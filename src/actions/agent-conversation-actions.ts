@@ -0,0 +1,160 @@
+"use server";
+
+import { z } from "zod";
+import { requireApiAuth } from "@/lib/auth";
+import {
+  createAgentConversation,
+  deleteAgentConversation,
+  getAgentConversations,
+  renameAgentConversation,
+  setAgentConversationArchived,
+} from "@/server/agent-conversations";
+import { ZSAError, createServerAction } from "zsa";
+
+const listConversationsSchema = z.object({
+  includeArchived: z.boolean().default(false),
+});
+
+const createConversationSchema = z.object({
+  firstMessage: z.string().max(10000, "Message is too long").optional(),
+});
+
+const conversationIdSchema = z.object({
+  conversationId: z.string().min(1, "Conversation ID is required"),
+});
+
+const renameConversationSchema = conversationIdSchema.extend({
+  title: z.string().trim().min(1, "Title is required").max(255, "Title is too long"),
+});
+
+const archiveConversationSchema = conversationIdSchema.extend({
+  archived: z.boolean(),
+});
+
+/**
+ * List the current user's agent conversations
+ */
+export const getAgentConversationsAction = createServerAction()
+  .input(listConversationsSchema)
+  .handler(async ({ input }) => {
+    try {
+      const session = await requireApiAuth();
+      const conversations = await getAgentConversations({
+        userId: session.user.id,
+        includeArchived: input.includeArchived,
+      });
+      return { success: true, data: conversations };
+    } catch (error) {
+      console.error("Failed to list conversations:", error);
+
+      if (error instanceof ZSAError) {
+        throw error;
+      }
+
+      throw new ZSAError(
+        "INTERNAL_SERVER_ERROR",
+        "Failed to list conversations"
+      );
+    }
+  });
+
+/**
+ * Start a new conversation, titled after its first message
+ */
+export const createAgentConversationAction = createServerAction()
+  .input(createConversationSchema)
+  .handler(async ({ input }) => {
+    try {
+      const session = await requireApiAuth();
+      const conversation = await createAgentConversation({
+        userId: session.user.id,
+        firstMessage: input.firstMessage,
+      });
+      return { success: true, data: conversation };
+    } catch (error) {
+      console.error("Failed to create conversation:", error);
+
+      if (error instanceof ZSAError) {
+        throw error;
+      }
+
+      throw new ZSAError(
+        "INTERNAL_SERVER_ERROR",
+        "Failed to create conversation"
+      );
+    }
+  });
+
+export const renameAgentConversationAction = createServerAction()
+  .input(renameConversationSchema)
+  .handler(async ({ input }) => {
+    try {
+      const session = await requireApiAuth();
+      const conversation = await renameAgentConversation({
+        userId: session.user.id,
+        conversationId: input.conversationId,
+        title: input.title,
+      });
+      return { success: true, data: conversation };
+    } catch (error) {
+      console.error("Failed to rename conversation:", error);
+
+      if (error instanceof ZSAError) {
+        throw error;
+      }
+
+      throw new ZSAError(
+        "INTERNAL_SERVER_ERROR",
+        "Failed to rename conversation"
+      );
+    }
+  });
+
+export const archiveAgentConversationAction = createServerAction()
+  .input(archiveConversationSchema)
+  .handler(async ({ input }) => {
+    try {
+      const session = await requireApiAuth();
+      const conversation = await setAgentConversationArchived({
+        userId: session.user.id,
+        conversationId: input.conversationId,
+        archived: input.archived,
+      });
+      return { success: true, data: conversation };
+    } catch (error) {
+      console.error("Failed to archive conversation:", error);
+
+      if (error instanceof ZSAError) {
+        throw error;
+      }
+
+      throw new ZSAError(
+        "INTERNAL_SERVER_ERROR",
+        "Failed to archive conversation"
+      );
+    }
+  });
+
+export const deleteAgentConversationAction = createServerAction()
+  .input(conversationIdSchema)
+  .handler(async ({ input }) => {
+    try {
+      const session = await requireApiAuth();
+      await deleteAgentConversation({
+        userId: session.user.id,
+        conversationId: input.conversationId,
+      });
+      return { success: true };
+    } catch (error) {
+      console.error("Failed to delete conversation:", error);
+
+      if (error instanceof ZSAError) {
+        throw error;
+      }
+
+      throw new ZSAError(
+        "INTERNAL_SERVER_ERROR",
+        "Failed to delete conversation"
+      );
+    }
+  });
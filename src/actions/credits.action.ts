@@ -1,34 +1,46 @@
 'use server';
 
 import { requireVerifiedEmail } from "@/utils/auth";
+import { requireTeamPermission } from "@/utils/team-auth";
 import {
   getCreditTransactions,
-  updateUserCredits,
-  logTransaction,
+  grantCredits,
   getCreditPackage,
+  getTeamMemberCreditUsage,
+  setMemberCreditCap,
 } from "@/utils/credits";
-import { CREDIT_TRANSACTION_TYPE } from "@/db/schema";
+import { CREDIT_TRANSACTION_TYPE, TEAM_PERMISSIONS } from "@/db/schema";
 import { getStripe } from "@/lib/stripe";
 import { MAX_TRANSACTIONS_PER_PAGE, CREDITS_EXPIRATION_YEARS } from "@/constants";
 import ms from "ms";
 import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
 
 // Action types
+// `teamId` selects a team's credit pool instead of the user's own credits
 type GetTransactionsInput = {
   page: number;
   limit?: number;
+  teamId?: string;
 };
 
 type CreatePaymentIntentInput = {
   packageId: string;
+  teamId?: string;
 };
 
 type PurchaseCreditsInput = {
   packageId: string;
   paymentIntentId: string;
+  teamId?: string;
 };
 
-export async function getTransactions({ page, limit = MAX_TRANSACTIONS_PER_PAGE }: GetTransactionsInput) {
+type SetMemberCreditCapInput = {
+  teamId: string;
+  userId: string;
+  monthlyCreditCap: number | null;
+};
+
+export async function getTransactions({ page, limit = MAX_TRANSACTIONS_PER_PAGE, teamId }: GetTransactionsInput) {
   return withRateLimit(async () => {
     if (page < 1 || limit < 1) {
       throw new Error("Invalid page or limit");
@@ -48,8 +60,13 @@ export async function getTransactions({ page, limit = MAX_TRANSACTIONS_PER_PAGE
       throw new Error("Unauthorized");
     }
 
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
     const result = await getCreditTransactions({
       userId: session.user.id,
+      teamId,
       page,
       limit,
     });
@@ -65,13 +82,17 @@ export async function getTransactions({ page, limit = MAX_TRANSACTIONS_PER_PAGE
   }, RATE_LIMITS.PURCHASE);
 }
 
-export async function createPaymentIntent({ packageId }: CreatePaymentIntentInput) {
+export async function createPaymentIntent({ packageId, teamId }: CreatePaymentIntentInput) {
   return withRateLimit(async () => {
     const session = await requireVerifiedEmail();
     if (!session) {
       throw new Error("Unauthorized");
     }
 
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
     try {
       const creditPackage = getCreditPackage(packageId);
       if (!creditPackage) {
@@ -89,6 +110,7 @@ export async function createPaymentIntent({ packageId }: CreatePaymentIntentInpu
           userId: session.user.id,
           packageId: creditPackage.id,
           credits: creditPackage.credits.toString(),
+          ...(teamId ? { teamId } : {}),
         },
       });
 
@@ -100,13 +122,17 @@ export async function createPaymentIntent({ packageId }: CreatePaymentIntentInpu
   }, RATE_LIMITS.PURCHASE);
 }
 
-export async function confirmPayment({ packageId, paymentIntentId }: PurchaseCreditsInput) {
+export async function confirmPayment({ packageId, paymentIntentId, teamId }: PurchaseCreditsInput) {
   return withRateLimit(async () => {
     const session = await requireVerifiedEmail();
     if (!session) {
       throw new Error("Unauthorized");
     }
 
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
     try {
       const creditPackage = getCreditPackage(packageId);
       if (!creditPackage) {
@@ -124,20 +150,23 @@ export async function confirmPayment({ packageId, paymentIntentId }: PurchaseCre
       if (
         paymentIntent.metadata.userId !== session.user.id ||
         paymentIntent.metadata.packageId !== packageId ||
+        (paymentIntent.metadata.teamId ?? undefined) !== teamId ||
         parseInt(paymentIntent.metadata.credits) !== creditPackage.credits
       ) {
         throw new Error("Invalid payment intent");
       }
 
-      // Add credits and log transaction
-      await updateUserCredits(session.user.id, creditPackage.credits);
-      await logTransaction({
+      // Add credits and log transaction. Keyed by the payment intent so the
+      // Stripe webhook for the same payment doesn't grant the credits again
+      await grantCredits({
         userId: session.user.id,
+        teamId,
         amount: creditPackage.credits,
         description: `Purchased ${creditPackage.credits} credits`,
         type: CREDIT_TRANSACTION_TYPE.PURCHASE,
         expirationDate: new Date(Date.now() + ms(`${CREDITS_EXPIRATION_YEARS} years`)),
-        paymentIntentId: paymentIntent?.id
+        paymentIntentId: paymentIntent.id,
+        idempotencyKey: `purchase:${paymentIntent.id}`,
       });
 
       return { success: true };
@@ -147,3 +176,28 @@ export async function confirmPayment({ packageId, paymentIntentId }: PurchaseCre
     }
   }, RATE_LIMITS.PURCHASE);
 }
+
+export async function getTeamCreditUsage({ teamId }: { teamId: string }) {
+  return withRateLimit(async () => {
+    await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+
+    return getTeamMemberCreditUsage(teamId);
+  }, RATE_LIMITS.PURCHASE);
+}
+
+export async function updateMemberCreditCap({ teamId, userId, monthlyCreditCap }: SetMemberCreditCapInput) {
+  return withRateLimit(async () => {
+    await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+
+    if (monthlyCreditCap !== null && (!Number.isInteger(monthlyCreditCap) || monthlyCreditCap < 0)) {
+      throw new Error("Invalid credit cap");
+    }
+
+    const membership = await setMemberCreditCap({ teamId, userId, monthlyCreditCap });
+    if (!membership) {
+      throw new Error("Member not found");
+    }
+
+    return { success: true };
+  }, RATE_LIMITS.PURCHASE);
+}
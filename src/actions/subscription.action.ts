@@ -0,0 +1,132 @@
+'use server';
+
+import { requireVerifiedEmail } from "@/utils/auth";
+import { requireTeamPermission } from "@/utils/team-auth";
+import { getPlan, getActivePlan } from "@/utils/plans";
+import {
+  getPlanPriceId,
+  getSubscriberPlanState,
+  setStripeCustomerId,
+} from "@/utils/subscriptions";
+import { TEAM_PERMISSIONS } from "@/db/schema";
+import { getStripe } from "@/lib/stripe";
+import { FREE_PLAN_ID, SITE_URL } from "@/constants";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+
+// `teamId` selects a team's plan instead of the user's own
+type CreateSubscriptionCheckoutInput = {
+  planId: string;
+  teamId?: string;
+};
+
+type CreateBillingPortalSessionInput = {
+  teamId?: string;
+};
+
+const PLAN_PAGE_URL = `${SITE_URL}/dashboard/billing/plan`;
+
+function getPlanPageUrl(teamId?: string) {
+  return teamId ? `${PLAN_PAGE_URL}?wallet=${encodeURIComponent(teamId)}` : PLAN_PAGE_URL;
+}
+
+async function requirePlanSubscriber(teamId?: string) {
+  const session = await requireVerifiedEmail();
+  if (!session) {
+    throw new Error("Unauthorized");
+  }
+
+  if (teamId) {
+    await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+  }
+
+  return { userId: session.user.id, email: session.user.email, teamId };
+}
+
+export async function createSubscriptionCheckout({ planId, teamId }: CreateSubscriptionCheckoutInput) {
+  return withRateLimit(async () => {
+    const subscriber = await requirePlanSubscriber(teamId);
+
+    const plan = getPlan(planId);
+    if (!plan || plan.id === FREE_PLAN_ID) {
+      throw new Error("Invalid plan");
+    }
+
+    if ((plan.subscriber === "team") !== Boolean(teamId)) {
+      throw new Error(teamId ? "This plan is for individual users" : "This plan is for teams");
+    }
+
+    const priceId = getPlanPriceId(plan);
+    if (!priceId) {
+      throw new Error("This plan is not available");
+    }
+
+    const state = await getSubscriberPlanState(subscriber);
+    if (!state) {
+      throw new Error("Not found");
+    }
+
+    // Changing or canceling an existing plan goes through the billing portal
+    if (getActivePlan(state).id !== FREE_PLAN_ID) {
+      throw new Error("Already subscribed to a plan");
+    }
+
+    try {
+      const stripe = getStripe();
+
+      let customerId = state.stripeCustomerId;
+      if (!customerId) {
+        const customer = await stripe.customers.create({
+          email: subscriber.email ?? undefined,
+          metadata: {
+            userId: subscriber.userId,
+            ...(teamId ? { teamId } : {}),
+          },
+        });
+        customerId = customer.id;
+        await setStripeCustomerId({ ...subscriber, stripeCustomerId: customerId });
+      }
+
+      const checkoutSession = await stripe.checkout.sessions.create({
+        mode: "subscription",
+        customer: customerId,
+        line_items: [{ price: priceId, quantity: 1 }],
+        subscription_data: {
+          metadata: {
+            userId: subscriber.userId,
+            ...(teamId ? { teamId } : {}),
+          },
+        },
+        success_url: getPlanPageUrl(teamId),
+        cancel_url: getPlanPageUrl(teamId),
+      });
+
+      return { url: checkoutSession.url };
+    } catch (error) {
+      console.error("Subscription checkout error:", error);
+      throw new Error("Failed to start checkout");
+    }
+  }, RATE_LIMITS.PURCHASE);
+}
+
+export async function createBillingPortalSession({ teamId }: CreateBillingPortalSessionInput) {
+  return withRateLimit(async () => {
+    const subscriber = await requirePlanSubscriber(teamId);
+
+    const state = await getSubscriberPlanState(subscriber);
+    if (!state?.stripeCustomerId) {
+      throw new Error("No subscription to manage");
+    }
+
+    try {
+      const portalSession = await getStripe().billingPortal.sessions.create({
+        customer: state.stripeCustomerId,
+        return_url: getPlanPageUrl(teamId),
+      });
+
+      return { url: portalSession.url };
+    } catch (error) {
+      console.error("Billing portal error:", error);
+      throw new Error("Failed to open billing portal");
+    }
+  }, RATE_LIMITS.PURCHASE);
+}
@@ -0,0 +1,18 @@
+"use server"
+
+import { createServerAction } from "zsa"
+import { z } from "zod"
+import { requireAdmin } from "@/utils/auth"
+import { clearCreditReview } from "@/utils/credits"
+
+export const clearCreditReviewAction = createServerAction()
+  .input(z.object({
+    userId: z.string().min(1),
+  }))
+  .handler(async ({ input }) => {
+    await requireAdmin()
+
+    await clearCreditReview(input.userId)
+
+    return { success: true }
+  })
@@ -4,7 +4,7 @@ import { createServerAction } from "zsa"
 import { getDB } from "@/db"
 import { requireAdmin } from "@/utils/auth"
 import { z } from "zod"
-import { sql } from "drizzle-orm"
+import { and, isNotNull, sql } from "drizzle-orm"
 import { userTable } from "@/db/schema"
 import { PAGE_SIZE_OPTIONS } from "../admin-constants"
 
@@ -12,6 +12,8 @@ const getUsersSchema = z.object({
   page: z.number().min(1).default(1),
   pageSize: z.number().min(1).max(Math.max(...PAGE_SIZE_OPTIONS)).default(PAGE_SIZE_OPTIONS[0]),
   emailFilter: z.string().optional(),
+  // Only accounts flagged for credit review
+  creditReview: z.boolean().optional(),
 })
 
 export const getUsersAction = createServerAction()
@@ -20,15 +22,16 @@ export const getUsersAction = createServerAction()
     await requireAdmin()
 
     const db = getDB()
-    const { page, pageSize, emailFilter } = input
+    const { page, pageSize, emailFilter, creditReview } = input
 
     // Calculate offset
     const offset = (page - 1) * pageSize
 
     // Build where clause
-    const whereClause = emailFilter
-      ? sql`${userTable.email} LIKE ${`%${emailFilter}%`}`
-      : undefined
+    const whereClause = and(
+      emailFilter ? sql`${userTable.email} LIKE ${`%${emailFilter}%`}` : undefined,
+      creditReview ? isNotNull(userTable.creditReviewFlaggedAt) : undefined,
+    )
 
     // Fetch total count
     const [{ count }] = await db
@@ -46,6 +49,7 @@ export const getUsersAction = createServerAction()
         role: true,
         emailVerified: true,
         createdAt: true,
+        creditReviewFlaggedAt: true,
       },
       where: whereClause,
       orderBy: (users, { desc }) => [desc(users.createdAt)],
@@ -62,6 +66,7 @@ export const getUsersAction = createServerAction()
         : null,
       role: user.role,
       status: user.emailVerified ? "active" as const : "inactive" as const,
+      needsCreditReview: Boolean(user.creditReviewFlaggedAt),
       createdAt: user.createdAt,
     }))
 
@@ -0,0 +1,57 @@
+"use server"
+
+import { createServerAction, ZSAError } from "zsa"
+import { z } from "zod"
+import { requireAdmin } from "@/utils/auth"
+import { STRIPE_EVENT_STATUS } from "@/db/schema"
+import { getStripeEvents, reprocessStripeEvent } from "@/utils/stripe-events"
+import { PAGE_SIZE_OPTIONS } from "../admin-constants"
+
+const getStripeEventsSchema = z.object({
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(1).max(Math.max(...PAGE_SIZE_OPTIONS)).default(PAGE_SIZE_OPTIONS[0]),
+  status: z.nativeEnum(STRIPE_EVENT_STATUS).optional(),
+  type: z.string().optional(),
+})
+
+export const getStripeEventsAction = createServerAction()
+  .input(getStripeEventsSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+
+    const { page, pageSize, status, type } = input
+    const { events, total } = await getStripeEvents({ page, pageSize, status, type: type || undefined })
+
+    return {
+      events,
+      totalCount: total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+    }
+  })
+
+export const reprocessStripeEventAction = createServerAction()
+  .input(z.object({
+    eventId: z.string().min(1),
+  }))
+  .handler(async ({ input }) => {
+    await requireAdmin()
+
+    let processed
+    try {
+      processed = await reprocessStripeEvent(input.eventId)
+    } catch (error) {
+      console.error(`Failed to reprocess Stripe event ${input.eventId}:`, error)
+      throw new ZSAError(
+        "INTERNAL_SERVER_ERROR",
+        error instanceof Error ? error.message : "Failed to reprocess event"
+      )
+    }
+
+    if (!processed) {
+      throw new ZSAError("CONFLICT", "Event was already processed or is being processed")
+    }
+
+    return { success: true }
+  })
@@ -5,6 +5,7 @@ import type { Route } from 'next'
 import {
   Shield,
   Activity,
+  Webhook,
 } from "lucide-react"
 
 import { NavMain } from "@/components/nav-main"
@@ -38,6 +39,11 @@ const adminNavItems: NavMainItem[] = [
     icon: Activity,
     isActive: true,
   },
+  {
+    title: "Stripe events",
+    url: "/admin/stripe-events",
+    icon: Webhook,
+  },
 ]
 
 export function AdminSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
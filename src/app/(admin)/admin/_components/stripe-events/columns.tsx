@@ -0,0 +1,130 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+import { MoreHorizontal } from "lucide-react"
+import { formatDistanceToNow, format } from "date-fns"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Badge } from "@/components/ui/badge"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+import { STRIPE_EVENT_STATUS, type StripeEvent } from "@/db/schema"
+
+const STATUS_BADGE_VARIANTS = {
+  [STRIPE_EVENT_STATUS.PROCESSED]: "default",
+  [STRIPE_EVENT_STATUS.PROCESSING]: "secondary",
+  [STRIPE_EVENT_STATUS.FAILED]: "destructive",
+} as const
+
+export function getColumns({
+  onViewPayload,
+  onReprocess,
+}: {
+  onViewPayload: (event: StripeEvent) => void
+  onReprocess: (event: StripeEvent) => void
+}): ColumnDef<StripeEvent>[] {
+  return [
+    {
+      accessorKey: "id",
+      header: "Event ID",
+      cell: ({ row }) => <span className="font-mono text-xs">{row.original.id}</span>,
+    },
+    {
+      accessorKey: "type",
+      header: "Type",
+    },
+    {
+      accessorKey: "status",
+      header: "Status",
+      cell: ({ row }) => {
+        const status = row.original.status as keyof typeof STRIPE_EVENT_STATUS
+        return (
+          <Badge variant={STATUS_BADGE_VARIANTS[status] ?? "secondary"}>
+            {status.toLowerCase()}
+          </Badge>
+        )
+      },
+    },
+    {
+      accessorKey: "attempts",
+      header: "Attempts",
+    },
+    {
+      accessorKey: "error",
+      header: "Error",
+      cell: ({ row }) => {
+        const error = row.original.error
+        if (!error) return null
+
+        return (
+          <Tooltip>
+            <TooltipTrigger className="max-w-xs truncate text-left text-red-500">
+              {error}
+            </TooltipTrigger>
+            <TooltipContent className="max-w-md">
+              <p>{error}</p>
+            </TooltipContent>
+          </Tooltip>
+        )
+      },
+    },
+    {
+      accessorKey: "createdAt",
+      header: "Received",
+      cell: ({ row }) => {
+        const date = row.original.createdAt
+        return (
+          <Tooltip>
+            <TooltipTrigger>
+              {formatDistanceToNow(new Date(date), { addSuffix: true })}
+            </TooltipTrigger>
+            <TooltipContent>
+              <p>{format(new Date(date), "PPpp")}</p>
+            </TooltipContent>
+          </Tooltip>
+        )
+      },
+    },
+    {
+      id: "actions",
+      cell: ({ row }) => {
+        const event = row.original
+
+        return (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" className="h-8 w-8 p-0">
+                <span className="sr-only">Open menu</span>
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Actions</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => onViewPayload(event)}>
+                View payload
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigator.clipboard.writeText(event.id)}>
+                Copy event ID
+              </DropdownMenuItem>
+              {event.status === STRIPE_EVENT_STATUS.FAILED && (
+                <DropdownMenuItem onClick={() => onReprocess(event)}>
+                  Process again
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )
+      },
+    },
+  ]
+}
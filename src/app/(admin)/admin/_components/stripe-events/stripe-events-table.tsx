@@ -0,0 +1,162 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useServerAction } from "zsa-react"
+import { useQueryState } from "nuqs"
+import { toast } from "sonner"
+import { DataTable } from "@/components/data-table"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { STRIPE_EVENT_STATUS, type StripeEvent } from "@/db/schema"
+import { getStripeEventsAction, reprocessStripeEventAction } from "../../_actions/stripe-events.action"
+import { PAGE_SIZE_OPTIONS } from "../../admin-constants"
+import { getColumns } from "./columns"
+
+const ALL_STATUSES = "all"
+
+function formatPayload(payload: string) {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2)
+  } catch {
+    return payload
+  }
+}
+
+export function StripeEventsTable() {
+  const [page, setPage] = useQueryState("page", { defaultValue: "1" })
+  const [pageSize, setPageSize] = useQueryState("pageSize", { defaultValue: PAGE_SIZE_OPTIONS[0].toString() })
+  const [status, setStatus] = useQueryState("status", { defaultValue: ALL_STATUSES })
+  const [typeFilter, setTypeFilter] = useQueryState("type", { defaultValue: "" })
+  const [payloadEvent, setPayloadEvent] = useState<StripeEvent | null>(null)
+
+  const { execute: fetchEvents, data, error, status: fetchStatus } = useServerAction(getStripeEventsAction, {
+    onError: () => {
+      toast.error("Failed to fetch Stripe events")
+    },
+  })
+
+  const refresh = useCallback(() => fetchEvents({
+    page: parseInt(page),
+    pageSize: parseInt(pageSize),
+    status: status === ALL_STATUSES ? undefined : status as keyof typeof STRIPE_EVENT_STATUS,
+    type: typeFilter,
+  }), [fetchEvents, page, pageSize, status, typeFilter])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const { execute: reprocessEvent } = useServerAction(reprocessStripeEventAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to process event")
+      refresh()
+    },
+    onSuccess: () => {
+      toast.success("Event processed")
+      refresh()
+    },
+  })
+
+  const columns = useMemo(() => getColumns({
+    onViewPayload: setPayloadEvent,
+    onReprocess: (event) => reprocessEvent({ eventId: event.id }),
+  }), [reprocessEvent])
+
+  const handlePageChange = (newPage: number) => {
+    setPage((newPage + 1).toString()) // Convert from 0-based to 1-based and store as string
+  }
+
+  const handlePageSizeChange = (newPageSize: number) => {
+    setPageSize(newPageSize.toString())
+    setPage("1") // Reset to first page when changing page size
+  }
+
+  return (
+    <div className="p-6 w-full min-w-0 flex flex-col overflow-hidden">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between flex-shrink-0">
+        <h1 className="text-3xl font-bold">Stripe events</h1>
+        <div className="flex flex-col gap-2 sm:flex-row">
+          <Input
+            placeholder="Filter by type, e.g. invoice.paid"
+            type="search"
+            value={typeFilter}
+            onChange={(event) => {
+              setTypeFilter(event.target.value)
+              setPage("1")
+            }}
+            className="max-w-sm"
+          />
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value)
+              setPage("1")
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+              {Object.values(STRIPE_EVENT_STATUS).map((value) => (
+                <SelectItem key={value} value={value} className="capitalize">
+                  {value.toLowerCase()}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="mt-8 flex-1 min-h-0">
+        <div className="space-y-4 h-full">
+          {fetchStatus === 'pending' || fetchStatus === 'idle' ? (
+            <div>Loading...</div>
+          ) : error ? (
+            <div>Error: Failed to fetch Stripe events</div>
+          ) : !data ? (
+            <div>No events found</div>
+          ) : (
+            <div className="w-full min-w-0">
+              <DataTable
+                columns={columns}
+                data={data.events}
+                pageCount={data.totalPages}
+                pageIndex={parseInt(page) - 1}
+                pageSize={parseInt(pageSize)}
+                onPageChange={handlePageChange}
+                onPageSizeChange={handlePageSizeChange}
+                totalCount={data.totalCount}
+                itemNameSingular="event"
+                itemNamePlural="events"
+                pageSizeOptions={PAGE_SIZE_OPTIONS}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={payloadEvent !== null} onOpenChange={(open) => !open && setPayloadEvent(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{payloadEvent?.type}</DialogTitle>
+          </DialogHeader>
+          <pre className="max-h-[60vh] overflow-auto rounded-md bg-muted p-4 text-xs">
+            {payloadEvent && formatPayload(payloadEvent.payload)}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,27 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { clearCreditReviewAction } from "../../_actions/credit-review.action"
+
+export function ClearCreditReviewButton({ userId }: { userId: string }) {
+  const router = useRouter()
+
+  const { execute, isPending } = useServerAction(clearCreditReviewAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to clear review flag")
+    },
+    onSuccess: () => {
+      toast.success("Marked as reviewed")
+      router.refresh()
+    },
+  })
+
+  return (
+    <Button variant="outline" size="sm" onClick={() => execute({ userId })} disabled={isPending}>
+      {isPending ? "Saving..." : "Mark as reviewed"}
+    </Button>
+  )
+}
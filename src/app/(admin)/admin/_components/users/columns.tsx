@@ -25,6 +25,7 @@ export type User = {
   name: string | null
   role: string
   status: "active" | "inactive"
+  needsCreditReview: boolean
   createdAt: Date
 }
 
@@ -55,9 +56,16 @@ export const columns: ColumnDef<User>[] = [
     cell: ({ row }) => {
       const status = row.getValue("status") as string
       return (
-        <Badge variant={status === "active" ? "default" : "destructive"}>
-          {status}
-        </Badge>
+        <div className="flex gap-1">
+          <Badge variant={status === "active" ? "default" : "destructive"}>
+            {status}
+          </Badge>
+          {row.original.needsCreditReview && (
+            <Badge variant="outline" className="border-orange-500 text-orange-600">
+              review
+            </Badge>
+          )}
+        </div>
       )
     },
   },
@@ -7,6 +7,7 @@ import { getUsersAction } from "../../_actions/get-users.action"
 import { useServerAction } from "zsa-react"
 import { toast } from "sonner"
 import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
 import { PAGE_SIZE_OPTIONS } from "../../admin-constants"
 import { useQueryState } from "nuqs"
 
@@ -14,6 +15,7 @@ export function UsersTable() {
   const [page, setPage] = useQueryState("page", { defaultValue: "1" })
   const [pageSize, setPageSize] = useQueryState("pageSize", { defaultValue: PAGE_SIZE_OPTIONS[0].toString() })
   const [emailFilter, setEmailFilter] = useQueryState("email", { defaultValue: "" })
+  const [creditReview, setCreditReview] = useQueryState("review", { defaultValue: "" })
 
   const { execute: fetchUsers, data, error, status } = useServerAction(getUsersAction, {
     onError: () => {
@@ -22,8 +24,8 @@ export function UsersTable() {
   })
 
   useEffect(() => {
-    fetchUsers({ page: parseInt(page), pageSize: parseInt(pageSize), emailFilter })
-  }, [fetchUsers, page, pageSize, emailFilter])
+    fetchUsers({ page: parseInt(page), pageSize: parseInt(pageSize), emailFilter, creditReview: creditReview === "1" })
+  }, [fetchUsers, page, pageSize, emailFilter, creditReview])
 
   const handlePageChange = (newPage: number) => {
     setPage((newPage + 1).toString()) // Convert from 0-based to 1-based and store as string
@@ -47,13 +49,24 @@ export function UsersTable() {
     <div className="p-6 w-full min-w-0 flex flex-col overflow-hidden">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between flex-shrink-0">
         <h1 className="text-3xl font-bold">Users</h1>
-        <Input
-          placeholder="Filter emails..."
-          type="search"
-          value={emailFilter}
-          onChange={(event) => handleEmailFilterChange(event.target.value)}
-          className="max-w-sm"
-        />
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <Button
+            variant={creditReview === "1" ? "default" : "outline"}
+            onClick={() => {
+              setCreditReview(creditReview === "1" ? null : "1")
+              setPage("1")
+            }}
+          >
+            Needs credit review
+          </Button>
+          <Input
+            placeholder="Filter emails..."
+            type="search"
+            value={emailFilter}
+            onChange={(event) => handleEmailFilterChange(event.target.value)}
+            className="max-w-sm"
+          />
+        </div>
       </div>
       <div className="mt-8 flex-1 min-h-0">
         <div className="space-y-4 h-full">
@@ -0,0 +1,23 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import { NuqsAdapter } from "nuqs/adapters/next/app"
+import { StripeEventsTable } from "../_components/stripe-events/stripe-events-table"
+
+export const metadata: Metadata = {
+  title: "Stripe Events",
+  description: "Inspect and re-process Stripe webhook events",
+}
+
+export default function StripeEventsPage() {
+  return (
+    <NuqsAdapter>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/stripe-events", label: "Stripe events" },
+        ]}
+      />
+      <StripeEventsTable />
+    </NuqsAdapter>
+  )
+}
@@ -15,9 +15,11 @@ import {
   MapPin,
   Smartphone,
   Globe,
-  Key
+  Key,
+  AlertTriangle
 } from "lucide-react"
 import type { InferSelectModel } from "drizzle-orm"
+import { ClearCreditReviewButton } from "../../_components/users/clear-credit-review-button"
 import type { creditTransactionTable, passKeyCredentialTable } from "@/db/schema"
 
 
@@ -111,6 +113,27 @@ export default async function UserDetailPage({ params }: UserDetailPageProps) {
           </CardHeader>
         </Card>
 
+        {/* Refunded or disputed credits that were already spent */}
+        {user.creditReviewFlaggedAt && (
+          <Card className="border-orange-500">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2 text-orange-600">
+                  <AlertTriangle className="h-5 w-5" />
+                  Needs credit review
+                </CardTitle>
+                <CardDescription>
+                  Flagged {format(user.creditReviewFlaggedAt, "PPpp")}
+                </CardDescription>
+              </div>
+              <ClearCreditReviewButton userId={user.id} />
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm whitespace-pre-line">{user.creditReviewReason}</p>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid gap-6 md:grid-cols-2">
           {/* Basic Information */}
           <Card>
@@ -0,0 +1,73 @@
+import { NextRequest } from "next/server";
+import { getSessionFromCookie } from "@/utils/auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { redirect } from "next/navigation";
+import { generateState } from "arctic";
+import {
+  GITHUB_STATE_COOKIE_OPTIONS,
+  createGitHubInstallationURL,
+  validateGitHubAuthorizationCode,
+} from "@/lib/sso/github-oauth";
+import { cookies } from "next/headers";
+import { GITHUB_OAUTH_STATE_COOKIE_NAME } from "@/constants";
+import { isGitHubEnabled } from "@/flags";
+import { saveGitHubConnection } from "@/server/github-connections";
+
+// Finish connecting a GitHub account and return to the git settings. Users who haven't
+// installed the GitHub App yet are sent to install it, GitHub then returns here again.
+export async function GET(request: NextRequest) {
+  return withRateLimit(async () => {
+    if (!(await isGitHubEnabled())) {
+      return redirect('/settings/git')
+    }
+
+    const session = await getSessionFromCookie()
+
+    if (!session) {
+      return redirect('/sign-in')
+    }
+
+    const code = request.nextUrl.searchParams.get("code")
+    const state = request.nextUrl.searchParams.get("state")
+
+    const cookieStore = await cookies()
+    const cookieState = cookieStore.get(GITHUB_OAUTH_STATE_COOKIE_NAME)?.value ?? null
+    cookieStore.delete(GITHUB_OAUTH_STATE_COOKIE_NAME)
+
+    // An organization owner has to approve the installation first
+    if (request.nextUrl.searchParams.get("setup_action") === "request") {
+      return redirect('/settings/git?github=requested')
+    }
+
+    if (!code || !state || state !== cookieState) {
+      return redirect('/settings/git?github=error')
+    }
+
+    let connection: Awaited<ReturnType<typeof saveGitHubConnection>>
+    try {
+      const tokens = await validateGitHubAuthorizationCode(code)
+      connection = await saveGitHubConnection({ userId: session.user.id, tokens })
+    } catch (error) {
+      console.error('Error connecting GitHub account', error)
+      return redirect('/settings/git?github=error')
+    }
+
+    if (connection) {
+      return redirect('/settings/git?github=connected')
+    }
+    // GitHub returned from installing the app, yet the user can't access the installation
+    if (request.nextUrl.searchParams.has("installation_id")) {
+      return redirect('/settings/git?github=error')
+    }
+
+    const installState = generateState()
+    cookieStore.set(GITHUB_OAUTH_STATE_COOKIE_NAME, installState, GITHUB_STATE_COOKIE_OPTIONS)
+
+    return new Response(null, {
+      status: 307,
+      headers: {
+        Location: createGitHubInstallationURL(installState).toString()
+      }
+    })
+  }, RATE_LIMITS.GITHUB_CONNECT)
+}
@@ -0,0 +1,45 @@
+import { getSessionFromCookie } from "@/utils/auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { redirect } from "next/navigation";
+import { generateState } from "arctic";
+import { GITHUB_STATE_COOKIE_OPTIONS, createGitHubAuthorizationURL } from "@/lib/sso/github-oauth";
+import { cookies } from "next/headers";
+import { GITHUB_OAUTH_STATE_COOKIE_NAME } from "@/constants";
+import { isGitHubEnabled } from "@/flags";
+
+// Start connecting a GitHub account to the signed-in user
+export async function GET() {
+  return withRateLimit(async () => {
+    if (!(await isGitHubEnabled())) {
+      console.error("GitHub App client ID, secret or slug is not set")
+      return redirect('/settings/git')
+    }
+
+    const session = await getSessionFromCookie()
+
+    if (!session) {
+      return redirect('/sign-in')
+    }
+
+    let authorizationUrl: null | URL = null
+
+    try {
+      const state = generateState();
+
+      authorizationUrl = createGitHubAuthorizationURL(state);
+
+      const cookieStore = await cookies()
+      cookieStore.set(GITHUB_OAUTH_STATE_COOKIE_NAME, state, GITHUB_STATE_COOKIE_OPTIONS)
+    } catch (error) {
+      console.error('Error generating GitHub OAuth state', error)
+      return redirect('/settings/git?github=error')
+    }
+
+    return new Response(null, {
+      status: 307,
+      headers: {
+        Location: authorizationUrl.toString()
+      }
+    });
+  }, RATE_LIMITS.GITHUB_CONNECT)
+}
@@ -3,7 +3,9 @@
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CREDIT_PACKAGES, FREE_MONTHLY_CREDITS } from "@/constants";
+import { CREDIT_PACKAGES } from "@/constants";
+import { getActivePlan } from "@/utils/plans";
+import Link from "next/link";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { StripePaymentForm } from "./stripe-payment-form";
 import { createPaymentIntent } from "@/actions/credits.action";
@@ -15,6 +17,7 @@ import { useRouter } from "next/navigation";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
+import { useBillingWallet, WalletSelector, type BillingTeam } from "./wallet-selector";
 type CreditPackage = typeof CREDIT_PACKAGES[number];
 
 export const getPackageIcon = (index: number) => {
@@ -32,19 +35,24 @@ const calculateSavings = (pkg: CreditPackage) => {
   return Math.round(savings);
 };
 
-export function CreditPackages() {
+export function CreditPackages({ teams }: { teams: BillingTeam[] }) {
   const router = useRouter();
+  const { teamId } = useBillingWallet();
+  const selectedTeam = teams.find((team) => team.id === teamId);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedPackage, setSelectedPackage] = useState<CreditPackage | null>(null);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const session = useSessionStore((state) => state);
   const transactionsRefresh = useTransactionStore((state) => state.triggerRefresh);
   const sessionIsLoading = session?.isLoading;
+  const sessionUser = session?.session?.user;
+  const activePlan = sessionUser ? getActivePlan(sessionUser) : undefined;
 
   const handlePurchase = async (pkg: CreditPackage) => {
     try {
       const { clientSecret } = await createPaymentIntent({
         packageId: pkg.id,
+        teamId: selectedTeam?.id,
       });
       setClientSecret(clientSecret);
       setSelectedPackage(pkg);
@@ -65,13 +73,18 @@ export function CreditPackages() {
   return (
     <>
       <Card>
-        <CardHeader>
-          <CardTitle>Credits</CardTitle>
+        <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between space-y-0">
+          <CardTitle>{selectedTeam ? `${selectedTeam.name} credits` : "Credits"}</CardTitle>
+          <WalletSelector teams={teams} />
         </CardHeader>
         <CardContent className="space-y-8">
           <div className="space-y-2">
             <div className="flex items-baseline gap-2">
-              {sessionIsLoading ? (
+              {selectedTeam ? (
+                <div className="text-3xl font-bold">
+                  {selectedTeam.creditBalance.toLocaleString()} credits
+                </div>
+              ) : sessionIsLoading ? (
                 <>
                   <Skeleton className="h-9 w-16" />
                   <Skeleton className="h-9 w-24" />
@@ -83,7 +96,14 @@ export function CreditPackages() {
               )}
             </div>
             <div className="text-sm text-muted-foreground">
-              You get {FREE_MONTHLY_CREDITS} free credits every month.
+              {selectedTeam
+                ? "Agent runs billed to this team use these credits."
+                : activePlan && `Your ${activePlan.name} plan includes ${activePlan.monthlyCredits.toLocaleString()} credits every month.`}{" "}
+              <Link
+                href={selectedTeam ? `/dashboard/billing/plan?wallet=${encodeURIComponent(selectedTeam.id)}` : "/dashboard/billing/plan"}
+                className="text-primary hover:underline">
+                {selectedTeam ? "View team plans" : "Change plan"}
+              </Link>
             </div>
           </div>
 
@@ -91,7 +111,9 @@ export function CreditPackages() {
 
           <div className="space-y-4">
             <div>
-              <h2 className="text-xl sm:text-2xl font-semibold">Top up your credits</h2>
+              <h2 className="text-xl sm:text-2xl font-semibold">
+                {selectedTeam ? "Top up team credits" : "Top up your credits"}
+              </h2>
               <p className="text-sm text-muted-foreground mt-2 sm:mt-3">
                 Purchase additional credits to use our services. The more credits you buy, the better the value.
               </p>
@@ -158,6 +180,7 @@ export function CreditPackages() {
           {(clientSecret && selectedPackage) && (
             <StripePaymentForm
               packageId={selectedPackage.id}
+              teamId={selectedTeam?.id}
               clientSecret={clientSecret}
               onSuccess={handleSuccess}
               onCancel={() => setIsDialogOpen(false)}
@@ -18,6 +18,8 @@ import { CREDITS_EXPIRATION_YEARS } from "@/constants";
 
 interface StripePaymentFormProps {
   packageId: string;
+  // Buy the credits for this team's pool
+  teamId?: string;
   clientSecret: string;
   onSuccess: () => void;
   onCancel: () => void;
@@ -25,7 +27,7 @@ interface StripePaymentFormProps {
   price: number;
 }
 
-function PaymentForm({ packageId, clientSecret, onSuccess, onCancel, credits, price }: StripePaymentFormProps) {
+function PaymentForm({ packageId, teamId, clientSecret, onSuccess, onCancel, credits, price }: StripePaymentFormProps) {
   const stripe = useStripe();
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
@@ -53,6 +55,7 @@ function PaymentForm({ packageId, clientSecret, onSuccess, onCancel, credits, pr
         if (paymentIntent.paymentIntent) {
           const { success } = await confirmPayment({
             packageId,
+            teamId,
             paymentIntentId: paymentIntent.paymentIntent.id,
           });
 
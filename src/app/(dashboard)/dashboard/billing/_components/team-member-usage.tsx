@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getTeamCreditUsage, updateMemberCreditCap } from "@/actions/credits.action";
+import { useTransactionStore } from "@/state/transaction";
+import { useBillingWallet } from "./wallet-selector";
+
+type MemberUsage = Awaited<ReturnType<typeof getTeamCreditUsage>>[number];
+
+function MemberCapInput({ teamId, member, onSaved }: { teamId: string; member: MemberUsage; onSaved: () => void }) {
+  const [value, setValue] = useState(member.monthlyCreditCap?.toString() ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const isChanged = value !== (member.monthlyCreditCap?.toString() ?? "");
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateMemberCreditCap({
+        teamId,
+        userId: member.userId,
+        // An empty cap means the member can use the whole pool
+        monthlyCreditCap: value.trim() === "" ? null : parseInt(value, 10),
+      });
+      toast.success("Spending cap updated");
+      onSaved();
+    } catch (error) {
+      console.error("Failed to update spending cap:", error);
+      toast.error("Failed to update spending cap");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="number"
+        min={0}
+        step={1}
+        placeholder="No cap"
+        className="w-28"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <Button size="sm" variant="outline" onClick={handleSave} disabled={!isChanged || isSaving}>
+        {isSaving ? "Saving..." : "Save"}
+      </Button>
+    </div>
+  );
+}
+
+export function TeamMemberUsage() {
+  const { teamId } = useBillingWallet();
+  const [members, setMembers] = useState<MemberUsage[] | null>(null);
+  const refreshTrigger = useTransactionStore((state) => state.refreshTrigger);
+
+  const fetchUsage = useCallback(async () => {
+    if (!teamId) return;
+
+    try {
+      setMembers(await getTeamCreditUsage({ teamId }));
+    } catch (error) {
+      console.error("Failed to fetch member usage:", error);
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    setMembers(null);
+    fetchUsage();
+  }, [fetchUsage, refreshTrigger]);
+
+  if (!teamId) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Member usage</CardTitle>
+        <CardDescription>
+          Team credits each member has used this month. Set a cap to limit how much a member can spend per month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {members === null ? (
+          <div className="space-y-4">
+            <Skeleton className="h-8 w-full" />
+            <Skeleton className="h-8 w-full" />
+          </div>
+        ) : (
+          <div className="relative overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Used this month</TableHead>
+                  <TableHead>Monthly cap</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => (
+                  <TableRow key={member.membershipId}>
+                    <TableCell>
+                      {[member.firstName, member.lastName].filter(Boolean).join(" ") || member.email}
+                    </TableCell>
+                    <TableCell>
+                      {member.usedThisMonth.toLocaleString()}
+                      {member.monthlyCreditCap !== null && ` / ${member.monthlyCreditCap.toLocaleString()}`}
+                    </TableCell>
+                    <TableCell>
+                      <MemberCapInput
+                        key={`${member.userId}:${member.monthlyCreditCap}`}
+                        teamId={teamId}
+                        member={member}
+                        onSaved={fetchUsage}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,9 +18,19 @@ import { format, isPast } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { useTransactionStore } from "@/state/transaction";
 import { useQueryState } from "nuqs";
+import { useBillingWallet } from "./wallet-selector";
 
 type TransactionData = Awaited<ReturnType<typeof getTransactions>>
 
+type Transaction = TransactionData["transactions"][number];
+
+function getMemberName(transaction: Transaction) {
+  const member = transaction.member;
+  if (!member) return "";
+
+  return [member.firstName, member.lastName].filter(Boolean).join(" ") || member.email || "";
+}
+
 function isTransactionExpired(transaction: TransactionData["transactions"][number]): boolean {
   return transaction.expirationDate ? isPast(new Date(transaction.expirationDate)) : false;
 }
@@ -30,12 +40,13 @@ export function TransactionHistory() {
   const [isLoading, setIsLoading] = useState(true);
   const [page, setPage] = useQueryState("page", { defaultValue: "1" });
   const refreshTrigger = useTransactionStore((state) => state.refreshTrigger);
+  const { teamId } = useBillingWallet();
 
   useEffect(() => {
     const fetchTransactions = async () => {
       setIsLoading(true);
       try {
-        const result = await getTransactions({ page: parseInt(page) });
+        const result = await getTransactions({ page: parseInt(page), teamId });
         setData(result);
       } catch (error) {
         console.error("Failed to fetch transactions:", error);
@@ -45,7 +56,7 @@ export function TransactionHistory() {
     };
 
     fetchTransactions();
-  }, [page, refreshTrigger]);
+  }, [page, teamId, refreshTrigger]);
 
   const handlePageChange = (newPage: number) => {
     setPage(newPage.toString());
@@ -84,6 +95,7 @@ export function TransactionHistory() {
                 <TableRow>
                   <TableHead>Date</TableHead>
                   <TableHead>Type</TableHead>
+                  {teamId && <TableHead>Member</TableHead>}
                   <TableHead>Amount</TableHead>
                   <TableHead>Description</TableHead>
                 </TableRow>
@@ -97,21 +109,22 @@ export function TransactionHistory() {
                     <TableCell className="capitalize">
                       {transaction.type.toLowerCase().replace("_", " ")}
                     </TableCell>
+                    {teamId && <TableCell>{getMemberName(transaction)}</TableCell>}
                     <TableCell
                       className={
-                        transaction.type === "USAGE"
+                        transaction.amount < 0
                           ? "text-red-500"
                           : isTransactionExpired(transaction)
                             ? "text-orange-500"
                             : "text-green-500"
                       }
                     >
-                      {transaction.type === "USAGE" ? "-" : "+"}
+                      {transaction.amount < 0 ? "-" : "+"}
                       {Math.abs(transaction.amount)}
                     </TableCell>
                     <TableCell>
                       {transaction.description}
-                      {transaction.type !== "USAGE" && transaction.expirationDate && (
+                      {transaction.amount > 0 && transaction.expirationDate && (
                         <Badge
                           variant="secondary"
                           className={`mt-1 ml-3 font-normal text-[0.75rem] leading-[1rem] ${isTransactionExpired(transaction)
@@ -127,7 +140,7 @@ export function TransactionHistory() {
                   </TableRow>
                 )) : (
                   <TableRow>
-                    <TableCell colSpan={4} className="h-24 text-center">No transactions found</TableCell>
+                    <TableCell colSpan={teamId ? 5 : 4} className="h-24 text-center">No transactions found</TableCell>
                   </TableRow>
                 )}
               </TableBody>
@@ -153,21 +166,26 @@ export function TransactionHistory() {
               <div className="flex items-center justify-between">
                 <span className="font-medium">
                   {transaction.description}
+                  {teamId && (
+                    <span className="block text-sm font-normal text-muted-foreground">
+                      {getMemberName(transaction)}
+                    </span>
+                  )}
                 </span>
                 <span
                   className={
-                    transaction.type === "USAGE"
+                    transaction.amount < 0
                       ? "text-red-500"
                       : isTransactionExpired(transaction)
                         ? "text-orange-500"
                         : "text-green-500"
                   }
                 >
-                  {transaction.type === "USAGE" ? "-" : "+"}
+                  {transaction.amount < 0 ? "-" : "+"}
                   {Math.abs(transaction.amount)}
                 </span>
               </div>
-              {transaction.type !== "USAGE" && transaction.expirationDate && (
+              {transaction.amount > 0 && transaction.expirationDate && (
                 <Badge
                   variant="secondary"
                   className={`self-start font-normal text-[0.75rem] leading-[1rem] ${isTransactionExpired(transaction)
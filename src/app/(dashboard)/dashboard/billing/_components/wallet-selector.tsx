@@ -0,0 +1,63 @@
+"use client";
+
+import { useQueryState } from "nuqs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const PERSONAL_WALLET = "personal";
+
+export interface BillingTeam {
+  id: string;
+  name: string;
+  creditBalance: number;
+}
+
+/**
+ * The credit pool the billing page is showing: the user's own credits or a team's.
+ * Returns the selected team ID, or undefined for personal credits.
+ */
+export function useBillingWallet() {
+  const [wallet, setWallet] = useQueryState("wallet", { defaultValue: PERSONAL_WALLET });
+
+  return {
+    teamId: wallet === PERSONAL_WALLET ? undefined : wallet,
+    setWallet,
+  };
+}
+
+export function WalletSelector({ teams }: { teams: Pick<BillingTeam, "id" | "name">[] }) {
+  const { teamId, setWallet } = useBillingWallet();
+  const [, setPage] = useQueryState("page", { defaultValue: "1" });
+
+  if (teams.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={teamId ?? PERSONAL_WALLET}
+      onValueChange={(value) => {
+        setWallet(value === PERSONAL_WALLET ? null : value);
+        // Transaction pages don't carry over between wallets
+        setPage(null);
+      }}
+    >
+      <SelectTrigger className="w-full sm:w-64">
+        <SelectValue placeholder="Select credits" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PERSONAL_WALLET}>Personal credits</SelectItem>
+        {teams.map((team) => (
+          <SelectItem key={team.id} value={team.id}>
+            {team.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
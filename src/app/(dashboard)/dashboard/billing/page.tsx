@@ -3,7 +3,10 @@ import { redirect } from "next/navigation";
 import { PageHeader } from "@/components/page-header";
 import { TransactionHistory } from "./_components/transaction-history";
 import { CreditPackages } from "./_components/credit-packages";
+import { TeamMemberUsage } from "./_components/team-member-usage";
 import { NuqsAdapter } from "nuqs/adapters/next/app";
+import { TEAM_PERMISSIONS } from "@/db/schema";
+import { getWalletBalance } from "@/utils/credits";
 
 export default async function BillingPage() {
   const session = await getSessionFromCookie();
@@ -12,6 +15,17 @@ export default async function BillingPage() {
     redirect("/sign-in");
   }
 
+  // Teams whose credit pool this user can manage
+  const billingTeams = await Promise.all(
+    (session.teams ?? [])
+      .filter((team) => team.permissions.includes(TEAM_PERMISSIONS.ACCESS_BILLING))
+      .map(async (team) => ({
+        id: team.id,
+        name: team.name,
+        creditBalance: await getWalletBalance({ userId: session.user.id, teamId: team.id }),
+      }))
+  );
+
   return (
     <>
       <PageHeader
@@ -26,14 +40,15 @@ export default async function BillingPage() {
           }
         ]}
       />
-      <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
-        <CreditPackages />
-        <div className="mt-4">
-          <NuqsAdapter>
+      <NuqsAdapter>
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <CreditPackages teams={billingTeams} />
+          <TeamMemberUsage />
+          <div className="mt-4">
             <TransactionHistory />
-          </NuqsAdapter>
+          </div>
         </div>
-      </div>
+      </NuqsAdapter>
     </>
   );
 }
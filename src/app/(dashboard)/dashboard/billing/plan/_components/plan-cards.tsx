@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Check } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FREE_PLAN_ID, SUBSCRIPTION_PLANS } from "@/constants";
+import { getActivePlan, type SubscriptionPlan } from "@/utils/plans";
+import { createBillingPortalSession, createSubscriptionCheckout } from "@/actions/subscription.action";
+import { useBillingWallet, WalletSelector } from "../../_components/wallet-selector";
+
+export interface PlanState {
+  planId: string | null;
+  planExpiresAt: Date | null;
+  hasStripeCustomer: boolean;
+}
+
+function formatMegabytes(megabytes: number) {
+  return megabytes >= 1024 ? `${megabytes / 1024} GB` : `${megabytes} MB`;
+}
+
+const SANDBOX_SIZE_LABELS: Record<SubscriptionPlan["sandboxSize"], string> = {
+  basic: "Basic sandbox",
+  standard: "Standard sandbox",
+  large: "Large sandbox",
+};
+
+function getPlanFeatures(plan: SubscriptionPlan) {
+  return [
+    `${plan.monthlyCredits.toLocaleString()} credits every month`,
+    `${plan.maxConcurrentRuns} concurrent agent ${plan.maxConcurrentRuns === 1 ? "run" : "runs"}`,
+    `Runs of up to ${plan.maxRunMinutes} minutes`,
+    SANDBOX_SIZE_LABELS[plan.sandboxSize],
+    `${formatMegabytes(plan.uploadQuotaMb)} of uploads per conversation`,
+    `${plan.snapshotRetention} workspace snapshots per conversation`,
+  ];
+}
+
+export function PlanCards({
+  personal,
+  teams,
+}: {
+  personal: PlanState;
+  teams: (PlanState & { id: string; name: string })[];
+}) {
+  const { teamId } = useBillingWallet();
+  const [pendingPlanId, setPendingPlanId] = useState<string | null>(null);
+
+  const selectedTeam = teams.find((team) => team.id === teamId);
+  const state = selectedTeam ?? personal;
+  const activePlan = getActivePlan(state);
+  const subscriber = selectedTeam ? "team" : "user";
+  const plans = SUBSCRIPTION_PLANS.filter((plan) => plan.id === FREE_PLAN_ID || plan.subscriber === subscriber);
+
+  const handleSubscribe = async (plan: SubscriptionPlan) => {
+    setPendingPlanId(plan.id);
+    try {
+      const { url } = await createSubscriptionCheckout({ planId: plan.id, teamId: selectedTeam?.id });
+      if (!url) {
+        throw new Error("No checkout URL");
+      }
+      window.location.href = url;
+    } catch (error) {
+      console.error("Failed to start checkout:", error);
+      toast.error("Failed to start checkout");
+      setPendingPlanId(null);
+    }
+  };
+
+  const handleManage = async () => {
+    setPendingPlanId(activePlan.id);
+    try {
+      const { url } = await createBillingPortalSession({ teamId: selectedTeam?.id });
+      window.location.href = url;
+    } catch (error) {
+      console.error("Failed to open billing portal:", error);
+      toast.error("Failed to open billing portal");
+      setPendingPlanId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{selectedTeam ? `${selectedTeam.name} plan` : "Your plan"}</CardTitle>
+          <CardDescription>
+            You are on the {activePlan.name} plan
+            {activePlan.id !== FREE_PLAN_ID && state.planExpiresAt
+              ? `, renewing on ${format(new Date(state.planExpiresAt), "MMM d, yyyy")}`
+              : ""}
+            .
+          </CardDescription>
+        </div>
+        <WalletSelector teams={teams} />
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 xl:grid-cols-3">
+          {plans.map((plan) => {
+            const isCurrent = plan.id === activePlan.id;
+
+            return (
+              <Card key={plan.id} className={`flex flex-col ${isCurrent ? "border-primary" : "bg-muted dark:bg-background"}`}>
+                <CardContent className="flex flex-col h-full pt-4 gap-6">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="text-xl sm:text-2xl font-bold">{plan.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {plan.price === 0 ? "Free" : `$${plan.price} / month`}
+                      </div>
+                    </div>
+                    {isCurrent && <Badge>Current plan</Badge>}
+                  </div>
+
+                  <ul className="space-y-2 text-sm">
+                    {getPlanFeatures(plan).map((feature) => (
+                      <li key={feature} className="flex items-center gap-2">
+                        <Check className="h-4 w-4 text-green-500" />
+                        {feature}
+                      </li>
+                    ))}
+                  </ul>
+
+                  <div className="flex-grow" />
+
+                  {isCurrent && plan.id !== FREE_PLAN_ID ? (
+                    <Button variant="outline" onClick={handleManage} disabled={pendingPlanId !== null}>
+                      {pendingPlanId === plan.id ? "Opening..." : "Manage subscription"}
+                    </Button>
+                  ) : plan.id !== FREE_PLAN_ID ? (
+                    <Button
+                      onClick={() => handleSubscribe(plan)}
+                      disabled={pendingPlanId !== null || activePlan.id !== FREE_PLAN_ID}
+                    >
+                      {pendingPlanId === plan.id ? "Redirecting..." : `Upgrade to ${plan.name}`}
+                    </Button>
+                  ) : state.hasStripeCustomer && activePlan.id !== FREE_PLAN_ID ? (
+                    <Button variant="ghost" onClick={handleManage} disabled={pendingPlanId !== null}>
+                      Cancel subscription
+                    </Button>
+                  ) : null}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
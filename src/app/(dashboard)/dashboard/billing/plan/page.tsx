@@ -0,0 +1,65 @@
+import { getSessionFromCookie } from "@/utils/auth";
+import { redirect } from "next/navigation";
+import { PageHeader } from "@/components/page-header";
+import { NuqsAdapter } from "nuqs/adapters/next/app";
+import { TEAM_PERMISSIONS } from "@/db/schema";
+import { getSubscriberPlanState } from "@/utils/subscriptions";
+import { PlanCards, type PlanState } from "./_components/plan-cards";
+
+async function getPlanState(wallet: { userId: string; teamId?: string }): Promise<PlanState> {
+  const state = await getSubscriberPlanState(wallet);
+
+  return {
+    planId: state?.planId ?? null,
+    planExpiresAt: state?.planExpiresAt ?? null,
+    hasStripeCustomer: Boolean(state?.stripeCustomerId),
+  };
+}
+
+export default async function PlanPage() {
+  const session = await getSessionFromCookie();
+
+  if (!session) {
+    redirect("/sign-in");
+  }
+
+  // Teams whose plan this user can manage
+  const [personal, teams] = await Promise.all([
+    getPlanState({ userId: session.user.id }),
+    Promise.all(
+      (session.teams ?? [])
+        .filter((team) => team.permissions.includes(TEAM_PERMISSIONS.ACCESS_BILLING))
+        .map(async (team) => ({
+          id: team.id,
+          name: team.name,
+          ...await getPlanState({ userId: session.user.id, teamId: team.id }),
+        }))
+    ),
+  ]);
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          {
+            href: "/dashboard",
+            label: "Dashboard"
+          },
+          {
+            href: "/dashboard/billing",
+            label: "Billing"
+          },
+          {
+            href: "/dashboard/billing/plan",
+            label: "Plan"
+          }
+        ]}
+      />
+      <NuqsAdapter>
+        <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+          <PlanCards personal={personal} teams={teams} />
+        </div>
+      </NuqsAdapter>
+    </>
+  );
+}
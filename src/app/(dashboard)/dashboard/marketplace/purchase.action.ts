@@ -81,6 +81,7 @@ export const purchaseAction = createServerAction()
           userId: session.userId,
           amount: itemDetails.credits,
           description: `Purchased ${input.itemType.toLowerCase()}: ${itemDetails.name}`,
+          idempotencyKey: `purchase-item:${session.userId}:${input.itemType}:${input.itemId}`,
         });
 
         // Then add item to user's purchased items
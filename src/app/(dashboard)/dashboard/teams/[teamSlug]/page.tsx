@@ -104,6 +104,7 @@ export default async function TeamDashboardPage({ params }: TeamPageProps) {
   // Check permissions
   const canInviteMembers = await hasTeamPermission(team.id, TEAM_PERMISSIONS.INVITE_MEMBERS);
   const canRemoveMembers = await hasTeamPermission(team.id, TEAM_PERMISSIONS.REMOVE_MEMBERS);
+  const canAccessBilling = await hasTeamPermission(team.id, TEAM_PERMISSIONS.ACCESS_BILLING);
 
   // Fetch team members
   const teamMembers = await getTeamMembers(team.id);
@@ -162,6 +163,14 @@ export default async function TeamDashboardPage({ params }: TeamPageProps) {
             <div className="p-6 border rounded-lg bg-card flex flex-col">
               <span className="text-sm font-medium text-muted-foreground">Team Credits</span>
               <span className="text-2xl font-bold">{team.creditBalance || 0}</span>
+              {canAccessBilling && (
+                <Link
+                  href={`/dashboard/billing?wallet=${encodeURIComponent(team.id)}`}
+                  className="text-sm text-primary hover:underline mt-2"
+                >
+                  Manage credits
+                </Link>
+              )}
             </div>
 
             <div className="p-6 border rounded-lg bg-card flex flex-col">
@@ -0,0 +1,55 @@
+"use server";
+
+import { createServerAction, ZSAError } from "zsa";
+import { z } from "zod";
+import { requireVerifiedEmail } from "@/utils/auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import {
+  deleteGitCredential,
+  getGitCredentials,
+  saveGitCredential,
+} from "@/server/git-credentials";
+import { gitCredentialSchema } from "@/schemas/git-credential.schema";
+
+async function requireUserId() {
+  const session = await requireVerifiedEmail();
+
+  if (!session?.user?.id) {
+    throw new ZSAError("NOT_AUTHORIZED", "Unauthorized");
+  }
+
+  return session.user.id;
+}
+
+export const getGitCredentialsAction = createServerAction()
+  .input(z.void())
+  .handler(async () => {
+    return withRateLimit(
+      async () => getGitCredentials(await requireUserId()),
+      RATE_LIMITS.SETTINGS
+    );
+  });
+
+export const saveGitCredentialAction = createServerAction()
+  .input(gitCredentialSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => saveGitCredential({ userId: await requireUserId(), ...input }),
+      RATE_LIMITS.SETTINGS
+    );
+  });
+
+export const deleteGitCredentialAction = createServerAction()
+  .input(z.object({
+    credentialId: z.string(),
+  }))
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => {
+        await deleteGitCredential({ userId: await requireUserId(), credentialId: input.credentialId });
+
+        return { success: true };
+      },
+      RATE_LIMITS.SETTINGS
+    );
+  });
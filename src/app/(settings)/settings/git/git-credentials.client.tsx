@@ -0,0 +1,191 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type * as z from "zod";
+import React from "react";
+import { useRouter } from "next/navigation";
+import { useServerAction } from "zsa-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { gitCredentialSchema } from "@/schemas/git-credential.schema";
+import { deleteGitCredentialAction, saveGitCredentialAction } from "./git-credentials.actions";
+
+interface GitCredentialSummary {
+  id: string;
+  host: string;
+  username: string;
+  updatedAt: Date;
+}
+
+export function GitCredentialsClient({ credentials }: { credentials: GitCredentialSummary[] }) {
+  const router = useRouter();
+  const dialogCloseRef = React.useRef<HTMLButtonElement>(null);
+
+  const form = useForm<z.infer<typeof gitCredentialSchema>>({
+    resolver: zodResolver(gitCredentialSchema),
+    defaultValues: { host: "github.com", username: "", token: "" },
+  });
+
+  const { execute: saveCredential, isPending: isSaving } = useServerAction(saveGitCredentialAction, {
+    onError: (error) => {
+      toast.error(error.err?.message)
+    },
+    onSuccess: ({ data }) => {
+      toast.success(`Saved credential for ${data.host}`)
+      form.reset({ host: "github.com", username: "", token: "" })
+      router.refresh()
+    }
+  });
+
+  const { execute: deleteCredential } = useServerAction(deleteGitCredentialAction, {
+    onError: (error) => {
+      toast.error(error.err?.message)
+    },
+    onSuccess: () => {
+      toast.success("Credential deleted")
+      dialogCloseRef.current?.click()
+      router.refresh()
+    }
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Git credentials</CardTitle>
+          <CardDescription>
+            The agent and the git panel use these to pull and push over HTTPS. Tokens are encrypted
+            and only handed to git for the duration of a command.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveCredential(values))} className="space-y-6">
+              <div className="grid gap-6 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="host"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Host</FormLabel>
+                      <FormControl>
+                        <Input placeholder="github.com" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="username"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Username</FormLabel>
+                      <FormControl>
+                        <Input autoComplete="off" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="token"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Access token</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      A personal access token with permission to read and write your repositories.
+                      Saving a credential for a host you already have replaces it.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={isSaving}>
+                  Save credential
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {credentials.map((credential) => (
+        <Card key={credential.id} className="bg-card/40">
+          <CardHeader>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="space-y-1">
+                <CardTitle className="text-base">{credential.host}</CardTitle>
+                <CardDescription>
+                  {credential.username} · updated {formatDistanceToNow(credential.updatedAt)} ago
+                </CardDescription>
+              </div>
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button size="sm" variant="destructive" className="w-full sm:w-auto">Delete</Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Delete credential?</DialogTitle>
+                    <DialogDescription>
+                      Pulling from and pushing to {credential.host} will stop working for private repositories.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DialogFooter className="mt-6 sm:mt-0">
+                    <DialogClose ref={dialogCloseRef} asChild>
+                      <Button variant="outline">Cancel</Button>
+                    </DialogClose>
+                    <Button
+                      variant="destructive"
+                      className="mb-4 sm:mb-0"
+                      onClick={() => deleteCredential({ credentialId: credential.id })}
+                    >
+                      Delete credential
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+}
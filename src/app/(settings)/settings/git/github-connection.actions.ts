@@ -0,0 +1,47 @@
+"use server";
+
+import { createServerAction, ZSAError } from "zsa";
+import { z } from "zod";
+import { requireVerifiedEmail } from "@/utils/auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { isGitHubEnabled } from "@/flags";
+import { deleteGitHubConnection, getGitHubConnection } from "@/server/github-connections";
+
+async function requireUserId() {
+  const session = await requireVerifiedEmail();
+
+  if (!session?.user?.id) {
+    throw new ZSAError("NOT_AUTHORIZED", "Unauthorized");
+  }
+
+  return session.user.id;
+}
+
+export const getGitHubConnectionAction = createServerAction()
+  .input(z.void())
+  .handler(async () => {
+    return withRateLimit(
+      async () => {
+        const userId = await requireUserId();
+
+        return {
+          enabled: await isGitHubEnabled(),
+          connection: await getGitHubConnection(userId) ?? null,
+        };
+      },
+      RATE_LIMITS.SETTINGS
+    );
+  });
+
+export const disconnectGitHubAction = createServerAction()
+  .input(z.void())
+  .handler(async () => {
+    return withRateLimit(
+      async () => {
+        await deleteGitHubConnection(await requireUserId());
+
+        return { success: true };
+      },
+      RATE_LIMITS.SETTINGS
+    );
+  });
@@ -0,0 +1,123 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useServerAction } from "zsa-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { disconnectGitHubAction } from "./github-connection.actions";
+
+interface GitHubConnectionSummary {
+  login: string;
+  createdAt: Date;
+}
+
+export function GitHubConnectionClient({
+  enabled,
+  connection,
+}: {
+  enabled: boolean;
+  connection: GitHubConnectionSummary | null;
+}) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const dialogCloseRef = React.useRef<HTMLButtonElement>(null);
+
+  // Result of the OAuth callback, which redirects back here
+  const result = searchParams.get("github");
+  React.useEffect(() => {
+    if (result === "connected") {
+      toast.success("GitHub account connected")
+    } else if (result === "requested") {
+      toast.info("Installation requested, connect again once an organization owner approved it")
+    } else if (result === "error") {
+      toast.error("Failed to connect your GitHub account")
+    }
+    if (result) {
+      router.replace("/settings/git")
+    }
+  }, [result, router]);
+
+  const { execute: disconnect, isPending: isDisconnecting } = useServerAction(disconnectGitHubAction, {
+    onError: (error) => {
+      toast.error(error.err?.message)
+    },
+    onSuccess: () => {
+      toast.success("GitHub account disconnected")
+      dialogCloseRef.current?.click()
+      router.refresh()
+    }
+  });
+
+  if (!enabled) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="space-y-1">
+            <CardTitle>GitHub</CardTitle>
+            <CardDescription>
+              {connection
+                ? `Connected as ${connection.login} ${formatDistanceToNow(connection.createdAt)} ago. `
+                : "Install the GitHub App to import its repositories into the workspace and open pull requests. "}
+              A saved credential for the same host takes precedence for pull and push.
+            </CardDescription>
+          </div>
+          {connection ? (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button size="sm" variant="destructive" className="w-full sm:w-auto">Disconnect</Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Disconnect GitHub?</DialogTitle>
+                  <DialogDescription>
+                    The agent will no longer be able to import repositories or open pull requests through the GitHub App. Uninstall the app on GitHub to revoke its access.
+                  </DialogDescription>
+                </DialogHeader>
+                <DialogFooter className="mt-6 sm:mt-0">
+                  <DialogClose ref={dialogCloseRef} asChild>
+                    <Button variant="outline">Cancel</Button>
+                  </DialogClose>
+                  <Button
+                    variant="destructive"
+                    className="mb-4 sm:mb-0"
+                    disabled={isDisconnecting}
+                    onClick={() => disconnect()}
+                  >
+                    Disconnect
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          ) : (
+            <Button size="sm" className="w-full sm:w-auto" asChild>
+              <Link href="/sso/github" prefetch={false}>Connect GitHub</Link>
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+    </Card>
+  );
+}
@@ -0,0 +1,28 @@
+import { redirect } from "next/navigation";
+import { GitCredentialsClient } from "./git-credentials.client";
+import { GitHubConnectionClient } from "./github-connection.client";
+import { getGitCredentialsAction } from "./git-credentials.actions";
+import { getGitHubConnectionAction } from "./github-connection.actions";
+
+export const metadata = {
+  title: "Git",
+  description: "Manage the credentials the agent uses to pull and push",
+};
+
+export default async function GitSettingsPage() {
+  const [[credentials, error], [github, githubError]] = await Promise.all([
+    getGitCredentialsAction(),
+    getGitHubConnectionAction(),
+  ])
+
+  if (error || githubError) {
+    return redirect('/')
+  }
+
+  return (
+    <div className="space-y-6">
+      <GitHubConnectionClient enabled={github.enabled} connection={github.connection} />
+      <GitCredentialsClient credentials={credentials} />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { redirect } from "next/navigation";
+import { TEAM_PERMISSIONS } from "@/db/schema";
+import { requireVerifiedEmail } from "@/utils/auth";
+import { SecretsClient } from "./secrets.client";
+import { getSecretsAction } from "./secrets.actions";
+
+export const metadata = {
+  title: "Secrets",
+  description: "Manage the secrets exposed to your sandboxes",
+};
+
+export default async function SecretsPage() {
+  const session = await requireVerifiedEmail();
+  const [secrets, error] = await getSecretsAction({})
+
+  if (!session || error) {
+    return redirect('/')
+  }
+
+  // Teams whose secrets the user can manage
+  const teams = (session.teams ?? [])
+    .filter((team) => team.permissions.includes(TEAM_PERMISSIONS.MANAGE_SECRETS))
+    .map((team) => ({ id: team.id, name: team.name }));
+
+  return <SecretsClient personalSecrets={secrets} teams={teams} />;
+}
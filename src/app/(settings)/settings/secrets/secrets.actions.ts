@@ -0,0 +1,64 @@
+"use server";
+
+import { createServerAction, ZSAError } from "zsa";
+import { z } from "zod";
+import { requireVerifiedEmail } from "@/utils/auth";
+import { requireTeamPermission } from "@/utils/team-auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { TEAM_PERMISSIONS } from "@/db/schema";
+import { deleteSecret, getSecrets, saveSecret } from "@/server/secrets";
+import { secretSchema } from "@/schemas/secret.schema";
+
+const secretScopeSchema = z.object({
+  teamId: z.string().min(1).max(100).optional(),
+});
+
+// Personal secrets need a verified user, team secrets the permission to manage them
+async function requireSecretAccess(teamId?: string) {
+  const session = teamId
+    ? await requireTeamPermission(teamId, TEAM_PERMISSIONS.MANAGE_SECRETS)
+    : await requireVerifiedEmail();
+
+  if (!session?.user?.id) {
+    throw new ZSAError("NOT_AUTHORIZED", "Unauthorized");
+  }
+
+  return session.user.id;
+}
+
+export const getSecretsAction = createServerAction()
+  .input(secretScopeSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => getSecrets({ userId: await requireSecretAccess(input.teamId), teamId: input.teamId }),
+      RATE_LIMITS.SETTINGS
+    );
+  });
+
+export const saveSecretAction = createServerAction()
+  .input(secretSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => saveSecret({ userId: await requireSecretAccess(input.teamId), ...input }),
+      RATE_LIMITS.SETTINGS
+    );
+  });
+
+export const deleteSecretAction = createServerAction()
+  .input(secretScopeSchema.extend({
+    secretId: z.string(),
+  }))
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => {
+        await deleteSecret({
+          userId: await requireSecretAccess(input.teamId),
+          teamId: input.teamId,
+          secretId: input.secretId,
+        });
+
+        return { success: true };
+      },
+      RATE_LIMITS.SETTINGS
+    );
+  });
@@ -0,0 +1,229 @@
+"use client";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import type * as z from "zod";
+import React, { useEffect, useState } from "react";
+import { useServerAction } from "zsa-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { secretSchema } from "@/schemas/secret.schema";
+import { deleteSecretAction, getSecretsAction, saveSecretAction } from "./secrets.actions";
+
+const PERSONAL_SECRETS = "personal";
+
+const secretFormSchema = secretSchema.omit({ teamId: true });
+
+interface SecretSummary {
+  id: string;
+  name: string;
+  updatedAt: Date;
+}
+
+export function SecretsClient({
+  personalSecrets,
+  teams,
+}: {
+  personalSecrets: SecretSummary[];
+  teams: { id: string; name: string }[];
+}) {
+  const [teamId, setTeamId] = useState<string>();
+  const [secrets, setSecrets] = useState(personalSecrets);
+  const dialogCloseRef = React.useRef<HTMLButtonElement>(null);
+
+  const form = useForm<z.infer<typeof secretFormSchema>>({
+    resolver: zodResolver(secretFormSchema),
+    defaultValues: { name: "", value: "" },
+  });
+
+  const { execute: loadSecrets } = useServerAction(getSecretsAction, {
+    onError: (error) => {
+      toast.error(error.err?.message)
+    },
+    onSuccess: ({ data }) => {
+      setSecrets(data)
+    }
+  });
+
+  const { execute: saveSecret, isPending: isSaving } = useServerAction(saveSecretAction, {
+    onError: (error) => {
+      toast.error(error.err?.message)
+    },
+    onSuccess: ({ data }) => {
+      toast.success(`Saved ${data.name}`)
+      form.reset({ name: "", value: "" })
+      loadSecrets({ teamId })
+    }
+  });
+
+  const { execute: deleteSecret } = useServerAction(deleteSecretAction, {
+    onError: (error) => {
+      toast.error(error.err?.message)
+    },
+    onSuccess: () => {
+      toast.success("Secret deleted")
+      dialogCloseRef.current?.click()
+      loadSecrets({ teamId })
+    }
+  });
+
+  // Personal secrets come from the page, team secrets are loaded when a team is picked
+  useEffect(() => {
+    if (teamId) {
+      loadSecrets({ teamId })
+    } else {
+      setSecrets(personalSecrets)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [teamId, personalSecrets])
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Secrets</CardTitle>
+          <CardDescription>
+            API keys and tokens you pick in the chat are exposed to commands, processes and code
+            as environment variables. Values are encrypted and masked in output and history.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {teams.length > 0 && (
+            <Select
+              value={teamId ?? PERSONAL_SECRETS}
+              onValueChange={(value) => setTeamId(value === PERSONAL_SECRETS ? undefined : value)}
+            >
+              <SelectTrigger className="w-64" aria-label="Secrets of">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PERSONAL_SECRETS}>Personal secrets</SelectItem>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => saveSecret({ ...values, teamId }))} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="OPENAI_API_KEY" className="font-mono" autoComplete="off" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Saving a secret with an existing name replaces its value.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Value</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} className="font-mono" autoComplete="off" spellCheck={false} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={isSaving}>
+                  Save secret
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      {secrets.map((secret) => (
+        <Card key={secret.id} className="bg-card/40">
+          <CardHeader>
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+              <div className="space-y-1">
+                <CardTitle className="font-mono text-base">{secret.name}</CardTitle>
+                <CardDescription>
+                  Updated {formatDistanceToNow(secret.updatedAt)} ago
+                </CardDescription>
+              </div>
+              <Dialog>
+                <DialogTrigger asChild>
+                  <Button size="sm" variant="destructive" className="w-full sm:w-auto">Delete</Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Delete {secret.name}?</DialogTitle>
+                    <DialogDescription>
+                      Runs that pick this secret will fail until it is added again.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <DialogFooter className="mt-6 sm:mt-0">
+                    <DialogClose ref={dialogCloseRef} asChild>
+                      <Button variant="outline">Cancel</Button>
+                    </DialogClose>
+                    <Button
+                      variant="destructive"
+                      className="mb-4 sm:mb-0"
+                      onClick={() => deleteSecret({ secretId: secret.id, teamId })}
+                    >
+                      Delete secret
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </CardHeader>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -8,7 +8,9 @@ import {
   User,
   Smartphone,
   Lock,
-  LogOut
+  LogOut,
+  GitBranch,
+  KeyRound
 } from "lucide-react";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import {
@@ -48,6 +50,16 @@ const sidebarNavItems: SidebarNavItem[] = [
     href: "/settings/sessions",
     icon: Smartphone,
   },
+  {
+    title: "Git",
+    href: "/settings/git",
+    icon: GitBranch,
+  },
+  {
+    title: "Secrets",
+    href: "/settings/secrets",
+    icon: KeyRound,
+  },
   {
     title: "Change Password",
     href: "/forgot-password",
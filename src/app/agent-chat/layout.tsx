@@ -1,7 +1,20 @@
+import { Suspense } from "react";
+import { ConversationSidebar } from "@/components/AgentChat/ConversationSidebar";
+
 export default function AgentChatLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  return children;
-}
\ No newline at end of file
+  // The active conversation lives in the URL, so both sides read search params
+  return (
+    <div className="flex min-h-screen">
+      <Suspense>
+        <ConversationSidebar />
+      </Suspense>
+      <div className="flex-1 min-w-0">
+        <Suspense>{children}</Suspense>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,17 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { ChatInterface } from '@/components/AgentChat/ChatInterface';
+import { CONVERSATION_SEARCH_PARAM, getConversationHref } from '@/components/AgentChat/ConversationSidebar';
 import { RealtimeChatInterface } from '@/components/AgentChat/RealtimeChatInterface';
 import { Button } from '@/components/ui/button';
 
 export default function AgentChatPage() {
   const [useRealtime, setUseRealtime] = useState(false);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const conversationId = searchParams.get(CONVERSATION_SEARCH_PARAM) ?? undefined;
 
   return (
     <div className="container mx-auto py-8">
@@ -31,7 +36,20 @@ export default function AgentChatPage() {
         </div>
       </div>
 
-      {useRealtime ? <RealtimeChatInterface /> : <ChatInterface />}
+      {useRealtime ? (
+        <RealtimeChatInterface
+          // Each conversation has its own room, a new chat uses the caller's room
+          key={conversationId ?? 'own-room'}
+          room={conversationId ? `conversation:${conversationId}` : undefined}
+        />
+      ) : (
+        <ChatInterface
+          // Remount on switch so the selected conversation's history is loaded fresh
+          key={conversationId ?? 'new'}
+          conversationId={conversationId}
+          onConversationCreated={(id) => router.replace(getConversationHref(id))}
+        />
+      )}
     </div>
   );
 }
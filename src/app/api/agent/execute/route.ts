@@ -2,14 +2,25 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
 import { requireApiAuth } from '@/lib/auth';
 import { z } from 'zod';
-
+import { reserveCredits, settleReservation } from '@/utils/metering';
+import { getSandboxAccessErrorStatus, resolveSandbox } from '@/lib/sandbox-access';
+import { SANDBOX_EXECUTION_RESERVED_CREDITS } from '@/constants';
+import { createWorkspaceSnapshot, isDestructiveCommand } from '@/lib/workspace-snapshots';
+import { touchAgentConversation } from '@/server/agent-conversations';
+import { getSandboxSecrets } from '@/server/secrets';
+import { createSecretRedactor, execWithEnv, toEnvVars } from '@/lib/sandbox-secrets';
+import { secretNameSchema, secretNamesSchema } from '@/schemas/secret.schema';
 
 // Request validation schema
 const executeSchema = z.object({
   command: z.string().min(1, 'Command is required'),
   sessionId: z.string().optional(),
+  conversationId: z.string().min(1).max(100).optional(),
   cwd: z.string().optional(),
-  env: z.record(z.string()).optional(),
+  env: z.record(secretNameSchema, z.string()).optional(),
+  // Names of the user's or team's secrets to expose as environment variables
+  secrets: secretNamesSchema.optional(),
+  teamId: z.string().min(1).max(100).optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -45,35 +56,87 @@ export async function POST(request: NextRequest) {
       throw error;
     }
 
-    // Load getSandbox using eval to bypass webpack bundling
-    const { loadGetSandbox } = await import('@/lib/cloudflare-runtime');
-    const getSandbox = await loadGetSandbox();
-    
-    // Get user's sandbox instance
-    const sandboxId = validatedData.sessionId || `user-${userId}-sandbox`;
-    // Cast through unknown first due to CloudflareEnv type limitations
-    const envTyped = env as unknown as { Sandbox: Parameters<typeof getSandbox>[0] };
-    const sandboxStub = getSandbox(envTyped.Sandbox, sandboxId);
+    const { teamId } = validatedData;
 
-    // Execute the command directly using the sandbox stub
-    const result = await sandboxStub.exec(validatedData.command, { 
-      cwd: validatedData.cwd,
-      env: validatedData.env 
+    // Get the sandbox of the caller's team and conversation
+    const { sandbox: sandboxStub, scope, sandboxId } = await resolveSandbox(env, session, {
+      teamId,
+      conversationId: validatedData.conversationId,
+      sandboxId: validatedData.sessionId,
     });
+    const secrets = await getSandboxSecrets({ session, teamId, names: validatedData.secrets ?? [] });
+    const { redact } = createSecretRedactor(secrets);
+
+    // Hold credits for the command, the real cost is settled once it finishes
+    const reserved = await reserveCredits({
+      userId,
+      teamId,
+      runId: crypto.randomUUID(),
+      conversationId: validatedData.conversationId,
+      amount: SANDBOX_EXECUTION_RESERVED_CREDITS,
+    });
+    if (!reserved.success) {
+      return NextResponse.json(
+        { error: reserved.error, details: `You need at least ${SANDBOX_EXECUTION_RESERVED_CREDITS} credits to run a command.` },
+        { status: 402 }
+      );
+    }
+    const { reservation } = reserved;
+
+    // Keep a snapshot to go back to when a command can delete work. A failed snapshot
+    // doesn't block the command.
+    if (isDestructiveCommand(validatedData.command)) {
+      await createWorkspaceSnapshot({ sandbox: sandboxStub, scope, reason: 'before-command' })
+        .catch((snapshotError) => console.error('Failed to snapshot workspace:', snapshotError));
+    }
+
+    // Execute the command directly using the sandbox stub
+    const startedAt = Date.now();
+    let result;
+    try {
+      result = await execWithEnv(sandboxStub, validatedData.command, {
+        cwd: validatedData.cwd,
+        env: { ...validatedData.env, ...toEnvVars(secrets) },
+      });
+    } finally {
+      await settleReservation({
+        reservation,
+        usage: { sandboxSeconds: (Date.now() - startedAt) / 1000 },
+        description: 'Command execution',
+      }).catch((settleError) => console.error('Failed to settle credits:', settleError));
+    }
+
+    // Idle conversations are snapshotted by the scheduled job
+    if (validatedData.conversationId) {
+      await touchAgentConversation({
+        userId,
+        conversationId: validatedData.conversationId,
+        sandboxId,
+        teamId,
+      }).catch((touchError) => console.error('Failed to record conversation activity:', touchError));
+    }
     
-    // Return the formatted response
+    // Return the formatted response, with secret values masked
     return NextResponse.json({
       success: result.exitCode === 0,
       exitCode: result.exitCode,
-      stdout: result.stdout,
-      stderr: result.stderr,
-      command: result.command,
+      stdout: redact(result.stdout),
+      stderr: redact(result.stderr),
+      command: validatedData.command,
       duration: result.duration
     });
 
   } catch (error) {
     console.error('Execute command error:', error);
-    
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json(
+        { error: 'Access denied', details: (error as Error).message },
+        { status: accessStatus }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return NextResponse.json(
       { error: 'Command execution failed', details: errorMessage },
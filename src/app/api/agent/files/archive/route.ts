@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { downloadDirectory } from "@/lib/agent-helpers/fileDownload";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+
+// Download a directory of the caller's sandbox as a zip archive
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, (sandbox) => downloadDirectory(sandbox, request));
+}
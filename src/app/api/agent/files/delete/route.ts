@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { deleteFile } from "@/lib/agent-helpers/fileDelete";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+
+// Delete a file from the caller's sandbox
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, (sandbox) => deleteFile(sandbox, request));
+}
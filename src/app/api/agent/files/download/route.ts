@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { downloadFile } from "@/lib/agent-helpers/fileDownload";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+
+// Download a file from the caller's sandbox as raw bytes
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, (sandbox) => downloadFile(sandbox, request));
+}
@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { listFiles } from "@/lib/agent-helpers/fileList";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+
+// List a directory in the caller's sandbox, one level unless `options.recursive` is set
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, (sandbox) => listFiles(sandbox, request));
+}
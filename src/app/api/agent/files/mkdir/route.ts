@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { createDirectory } from "@/lib/agent-helpers/mkdir";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+
+// Create a directory in the caller's sandbox
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, (sandbox) => createDirectory(sandbox, request));
+}
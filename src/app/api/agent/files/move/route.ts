@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { moveFile } from "@/lib/agent-helpers/fileMove";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+
+// Move a file or directory in the caller's sandbox
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, (sandbox) => moveFile(sandbox, request));
+}
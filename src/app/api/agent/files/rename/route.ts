@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { renameFile } from "@/lib/agent-helpers/fileRename";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+
+// Rename a file or directory in the caller's sandbox
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, (sandbox) => renameFile(sandbox, request));
+}
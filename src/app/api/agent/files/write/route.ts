@@ -2,19 +2,21 @@ import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { requireApiAuth } from "@/lib/auth";
 import { z } from "zod";
+import { getSandboxAccessErrorStatus, resolveSandbox } from "@/lib/sandbox-access";
 
 const writeFileSchema = z.object({
   path: z.string().min(1, "Path is required"),
   content: z.string(),
   encoding: z.string().optional(),
   sessionId: z.string().optional(),
+  conversationId: z.string().min(1).max(100).optional(),
+  teamId: z.string().min(1).max(100).optional(),
 });
 
 export async function POST(request: NextRequest) {
   try {
     // Require authentication
     const session = await requireApiAuth();
-    const userId = session.user.id;
 
     // Get Cloudflare context
     const { env } = getCloudflareContext();
@@ -47,20 +49,17 @@ export async function POST(request: NextRequest) {
       path,
       content,
       encoding,
-      sessionId: requestSessionId,
+      sessionId,
+      conversationId,
+      teamId,
     } = validatedData;
 
-    // Load getSandbox using eval to bypass webpack bundling
-    const { loadGetSandbox } = await import("@/lib/cloudflare-runtime");
-    const getSandbox = await loadGetSandbox();
-
-    // Get user's sandbox instance
-    const sessionId = requestSessionId || `user-${userId}-sandbox`;
-    // Cast through unknown first due to CloudflareEnv type limitations
-    const envTyped = env as unknown as {
-      Sandbox: Parameters<typeof getSandbox>[0];
-    };
-    const sandboxStub = getSandbox(envTyped.Sandbox, sessionId);
+    // Get the sandbox of the caller's team and conversation
+    const { sandbox: sandboxStub } = await resolveSandbox(env, session, {
+      teamId,
+      conversationId,
+      sandboxId: sessionId,
+    });
 
     // Write the file
     await sandboxStub.writeFile(path, content, { encoding });
@@ -73,6 +72,14 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error("Write file error:", error);
 
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json(
+        { error: "Access denied", details: (error as Error).message },
+        { status: accessStatus }
+      );
+    }
+
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error occurred";
     return NextResponse.json(
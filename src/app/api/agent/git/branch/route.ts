@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { createGitBranch, gitBranchNameSchema, withGitRequest } from "@/lib/git-workspace";
+
+const branchSchema = z.object({
+  name: gitBranchNameSchema,
+  // Commit or branch to start from, HEAD by default
+  from: gitBranchNameSchema.optional(),
+  checkout: z.boolean().optional(),
+});
+
+// Create a branch and switch to it
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, branchSchema, async (sandbox, { repo, name, from, checkout }) => ({
+    branches: await createGitBranch(sandbox, repo, { name, from, checkout }),
+  }));
+}
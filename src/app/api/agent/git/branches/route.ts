@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { listGitBranches, withGitRequest } from "@/lib/git-workspace";
+
+// Local branches, with the current one marked
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, z.object({}), async (sandbox, { repo }) => ({
+    branches: await listGitBranches(sandbox, repo),
+  }));
+}
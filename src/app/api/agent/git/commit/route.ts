@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { commitGitChanges, getGitIdentity, withGitRequest } from "@/lib/git-workspace";
+
+const commitSchema = z.object({
+  message: z.string().trim().min(1, "Commit message is required").max(10000),
+});
+
+/**
+ * Commit the staged changes. Repositories without a configured author commit as the
+ * signed-in user.
+ */
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, commitSchema, (sandbox, { repo, message }, { session }) =>
+    commitGitChanges(sandbox, repo, { message, identity: getGitIdentity(session.user) })
+  );
+}
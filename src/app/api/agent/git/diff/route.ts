@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { getGitDiff, withGitRequest } from "@/lib/git-workspace";
+
+const diffSchema = z.object({
+  // Diff the index against HEAD instead of the working tree against the index
+  staged: z.boolean().optional(),
+  paths: z.array(z.string().min(1)).max(100).optional(),
+});
+
+// Changed files with their hunks
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, diffSchema, (sandbox, { repo, staged, paths }) =>
+    getGitDiff(sandbox, repo, { staged, paths })
+  );
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { gitBranchNameSchema, getGitIdentity, withGitRequest } from "@/lib/git-workspace";
+import { openPullRequest } from "@/lib/github-pull-requests";
+
+const pullRequestSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(256),
+  // Generated from the commits and changed files when omitted
+  body: z.string().max(65536).optional(),
+  base: gitBranchNameSchema.optional(),
+  branch: gitBranchNameSchema.optional(),
+});
+
+/**
+ * Commit pending changes, push the branch and open a pull request on GitHub with the
+ * caller's connected account
+ */
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, pullRequestSchema, (sandbox, { repo, title, body, base, branch }, { scope, session }) =>
+    openPullRequest({
+      sandbox,
+      userId: scope.userId,
+      repo,
+      title,
+      body,
+      base,
+      branch,
+      identity: getGitIdentity(session.user),
+    })
+  );
+}
@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { gitBranchNameSchema, pullGitChanges, withGitRequest } from "@/lib/git-workspace";
+
+const pullSchema = z.object({
+  remote: z.string().regex(/^[\w.-]+$/, "Invalid remote name").optional(),
+  branch: gitBranchNameSchema.optional(),
+});
+
+// Pull with the caller's stored git credentials
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, pullSchema, (sandbox, { repo, remote, branch }, { scope }) =>
+    pullGitChanges(sandbox, scope.userId, repo, { remote, branch })
+  );
+}
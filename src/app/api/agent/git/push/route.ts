@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { pushGitChanges, withGitRequest } from "@/lib/git-workspace";
+
+const pushSchema = z.object({
+  remote: z.string().regex(/^[\w.-]+$/, "Invalid remote name").optional(),
+  // Pushed with --force-with-lease
+  force: z.boolean().optional(),
+});
+
+// Push with the caller's stored git credentials
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, pushSchema, (sandbox, { repo, remote, force }, { scope }) =>
+    pushGitChanges(sandbox, scope.userId, repo, { remote, force })
+  );
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { stageGitFiles, withGitRequest } from "@/lib/git-workspace";
+
+const stageSchema = z.object({
+  // Every change is staged when no paths are given
+  paths: z.array(z.string().min(1)).max(1000).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, stageSchema, (sandbox, { repo, paths }) => stageGitFiles(sandbox, repo, paths));
+}
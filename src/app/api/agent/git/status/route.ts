@@ -0,0 +1,8 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { getGitStatus, withGitRequest } from "@/lib/git-workspace";
+
+// Branch, tracking info and changed files of a repository in the caller's sandbox
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, z.object({}), (sandbox, { repo }) => getGitStatus(sandbox, repo));
+}
@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { gitBranchNameSchema, switchGitBranch, withGitRequest } from "@/lib/git-workspace";
+
+const switchSchema = z.object({
+  name: gitBranchNameSchema,
+});
+
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, switchSchema, (sandbox, { repo, name }) => switchGitBranch(sandbox, repo, name));
+}
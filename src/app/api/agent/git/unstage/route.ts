@@ -0,0 +1,12 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { unstageGitFiles, withGitRequest } from "@/lib/git-workspace";
+
+const unstageSchema = z.object({
+  // Everything is unstaged when no paths are given
+  paths: z.array(z.string().min(1)).max(1000).optional(),
+});
+
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, unstageSchema, (sandbox, { repo, paths }) => unstageGitFiles(sandbox, repo, paths));
+}
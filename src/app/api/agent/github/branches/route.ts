@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiAuth } from "@/lib/auth";
+import { GitHubApiError } from "@/lib/github-client";
+import { getSandboxAccessErrorStatus } from "@/lib/sandbox-access";
+import { getGitHubClient } from "@/server/github-connections";
+import type { GitHubBranchListResponse } from "@/types/agent";
+
+const branchesQuerySchema = z.object({
+  owner: z.string().min(1),
+  repo: z.string().min(1),
+});
+
+// Branches of a repository of the caller's connected GitHub account
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireApiAuth();
+
+    const parsed = branchesQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const client = await getGitHubClient(session.user.id);
+    if (!client) {
+      return NextResponse.json({ error: "GitHub account not connected" }, { status: 409 });
+    }
+
+    const branches = await client.listBranches(parsed.data.owner, parsed.data.repo);
+
+    return NextResponse.json({ branches } satisfies GitHubBranchListResponse);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json({ error: "Access denied", details: errorMessage }, { status: accessStatus });
+    }
+    if (error instanceof GitHubApiError) {
+      return NextResponse.json(
+        { error: "GitHub request failed", details: errorMessage },
+        { status: error.status >= 500 ? 502 : 422 }
+      );
+    }
+
+    console.error("List GitHub branches error:", error);
+    return NextResponse.json(
+      { error: "Failed to list branches", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { DEFAULT_REPO_PATH, cloneGitRepository, gitBranchNameSchema, withGitRequest } from "@/lib/git-workspace";
+import { GitHubApiError } from "@/lib/github-client";
+import { getGitHubClient } from "@/server/github-connections";
+import type { GitHubCloneResponse } from "@/types/agent";
+
+const cloneSchema = z.object({
+  owner: z.string().min(1),
+  name: z.string().regex(/^[\w.-]+$/, "Invalid repository name"),
+  branch: gitBranchNameSchema.optional(),
+});
+
+/**
+ * Clone a repository of the caller's connected GitHub account into /workspace/<name> of
+ * the sandbox, checking out `branch` or the default branch
+ */
+export async function POST(request: NextRequest) {
+  return withGitRequest(request, cloneSchema, async (sandbox, { owner, name, branch }, { scope }) => {
+    const client = await getGitHubClient(scope.userId);
+    if (!client) {
+      throw new GitHubApiError("Connect your GitHub account in settings to import repositories", 401);
+    }
+
+    const repository = await client.getRepository(owner, name);
+    const path = `${DEFAULT_REPO_PATH}/${repository.name}`;
+    const status = await cloneGitRepository(sandbox, scope.userId, {
+      url: repository.cloneUrl,
+      directory: path,
+      branch,
+    });
+
+    return { path, status } satisfies GitHubCloneResponse;
+  });
+}
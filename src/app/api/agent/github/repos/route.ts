@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { requireApiAuth } from "@/lib/auth";
+import { GitHubApiError } from "@/lib/github-client";
+import { getSandboxAccessErrorStatus } from "@/lib/sandbox-access";
+import { getGitHubClient } from "@/server/github-connections";
+import type { GitHubRepositoryListResponse } from "@/types/agent";
+
+/**
+ * Repositories of the caller's connected GitHub account, most recently pushed first.
+ * `connected` is false when no account is connected.
+ */
+export async function GET() {
+  try {
+    const session = await requireApiAuth();
+    const client = await getGitHubClient(session.user.id);
+
+    if (!client) {
+      return NextResponse.json({ connected: false, repositories: [] } satisfies GitHubRepositoryListResponse);
+    }
+
+    const repositories = await client.listRepositories();
+
+    return NextResponse.json({ connected: true, repositories } satisfies GitHubRepositoryListResponse);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json({ error: "Access denied", details: errorMessage }, { status: accessStatus });
+    }
+    if (error instanceof GitHubApiError) {
+      return NextResponse.json(
+        { error: "GitHub request failed", details: errorMessage },
+        { status: error.status >= 500 ? 502 : 422 }
+      );
+    }
+
+    console.error("List GitHub repositories error:", error);
+    return NextResponse.json(
+      { error: "Failed to list repositories", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAuth } from "@/lib/auth";
+import { DEFAULT_CONVERSATION_ID, getAgentStub } from "@/lib/agent-conversation";
+
+function getConversationId(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  return searchParams.get("conversationId") || DEFAULT_CONVERSATION_ID;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    // Require authentication
+    const session = await requireApiAuth();
+
+    const conversation = getAgentStub({
+      userId: session.user.id,
+      conversationId: getConversationId(request),
+    });
+    const history = await conversation.getHistory();
+
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error("Load conversation history error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to load conversation history", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // Require authentication
+    const session = await requireApiAuth();
+
+    const conversation = getAgentStub({
+      userId: session.user.id,
+      conversationId: getConversationId(request),
+    });
+    await conversation.reset();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Clear conversation history error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to clear conversation history", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -3,23 +3,31 @@ import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { requireApiAuth } from "@/lib/auth";
 import { agentInterpretSchema } from "@/schemas/agent-interpret.schema";
 import { z } from "zod";
-import { getDB } from "@/db";
-import { userTable, creditTransactionTable, CREDIT_TRANSACTION_TYPE } from "@/db/schema";
-import { eq, sql } from "drizzle-orm";
+import { runAgentLoop } from "@/lib/agent-runner";
+import { getGitIdentity } from "@/lib/git-workspace";
+import { createToolCallCollector, getAgentStub, toModelMessages } from "@/lib/agent-conversation";
+import { touchAgentConversation } from "@/server/agent-conversations";
+import { getSandboxAccessErrorStatus, resolveSandbox } from "@/lib/sandbox-access";
+import { createSecretRedactor } from "@/lib/sandbox-secrets";
+import { startSharedRun, type SharedRunSession } from "@/lib/shared-runs";
+import { createRunEventStream } from "@/lib/run-streams";
+import { startRun, type RunSession } from "@/lib/runs";
+import { getRoomUserName } from "@/server/rooms";
+import { getSandboxSecrets } from "@/server/secrets";
+import type { AgentToolSandbox } from "@/lib/agent-tools";
+import type { AgentStreamEvent, AgentUsage } from "@/types/agent";
+import { releaseReservation, reserveCredits, settleReservation } from "@/utils/metering";
+import { AGENT_RUN_RESERVED_CREDITS } from "@/constants";
 
-const AGENT_EXECUTION_COST = 1; // Credits per execution
+type ToolOutputEvent = Extract<AgentStreamEvent, { type: "tool-output" }>;
 
 export async function POST(request: NextRequest) {
   try {
-    console.log("[API Interpret] Starting request processing");
-    
     // Require authentication
     const session = await requireApiAuth();
-    console.log("[API Interpret] Auth successful, user:", session.user.id);
 
     // Get Cloudflare context
     const { env } = getCloudflareContext();
-    console.log("[API Interpret] Got Cloudflare context, env keys:", Object.keys(env || {}));
 
     // Validate and parse request body
     let requestBody;
@@ -46,70 +54,9 @@ export async function POST(request: NextRequest) {
       throw error;
     }
 
-    const { message, code, language } = validatedData;
-    console.log("[API Interpret] Processing:", { message: message?.substring(0, 50), language });
+    const { message, code, language, conversationId, teamId, secrets: secretNames } = validatedData;
 
-    // Check and deduct credits before execution
-    const db = getDB();
-    
-    // Start transaction to atomically check and deduct credits
     const userId = session.user.id;
-    
-    // Get user's current credits
-    const user = await db
-      .select({ currentCredits: userTable.currentCredits })
-      .from(userTable)
-      .where(eq(userTable.id, userId))
-      .get();
-    
-    if (!user) {
-      return NextResponse.json(
-        {
-          result: "",
-          success: false,
-          error: "User not found",
-        } as import("@/types/agent").AgentInterpretResponse,
-        { status: 404 }
-      );
-    }
-    
-    // Check if user has enough credits
-    if (user.currentCredits < AGENT_EXECUTION_COST) {
-      console.log("[API Interpret] Insufficient credits:", user.currentCredits, "needed:", AGENT_EXECUTION_COST);
-      return NextResponse.json(
-        {
-          result: "",
-          success: false,
-          error: `Insufficient credits. You have ${user.currentCredits} credits, but need ${AGENT_EXECUTION_COST} credits to execute code.`,
-        } as import("@/types/agent").AgentInterpretResponse,
-        { status: 402 } // Payment Required
-      );
-    }
-    
-    // Deduct credits
-    console.log("[API Interpret] Deducting", AGENT_EXECUTION_COST, "credits from user");
-    await db
-      .update(userTable)
-      .set({ 
-        currentCredits: sql`${userTable.currentCredits} - ${AGENT_EXECUTION_COST}`,
-        updatedAt: new Date()
-      })
-      .where(eq(userTable.id, userId))
-      .run();
-    
-    // Record the credit transaction
-    await db
-      .insert(creditTransactionTable)
-      .values({
-        userId,
-        amount: -AGENT_EXECUTION_COST, // Negative for usage
-        remainingAmount: 0,
-        type: CREDIT_TRANSACTION_TYPE.USAGE,
-        description: `Agent code execution (${language})`,
-      })
-      .run();
-    
-    console.log("[API Interpret] Credits deducted successfully");
 
     // Check if Sandbox binding exists
     const envAny = env as unknown as { Sandbox?: unknown };
@@ -125,95 +72,214 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Load getSandbox using eval to bypass webpack bundling
-    console.log("[API Interpret] Loading getSandbox...");
-    const { loadGetSandbox } = await import("@/lib/cloudflare-runtime");
-    const getSandbox = await loadGetSandbox();
-    console.log("[API Interpret] getSandbox loaded successfully");
-
-    // Get sandbox instance using correct env property name
-    // Cast through unknown first due to CloudflareEnv type limitations
-    const envTyped = env as unknown as {
-      Sandbox: Parameters<typeof getSandbox>[0];
-    };
-    const sandboxId = `user-${session.user.id}-${Date.now()}`;
-    console.log("[API Interpret] Creating sandbox with ID:", sandboxId);
-    const sandbox = getSandbox(envTyped.Sandbox, sandboxId);
-
-    // Create code context
-    console.log("[API Interpret] Creating code context for language:", language);
-    let context;
+    // Get the sandbox of the caller's team and conversation, so files created by the agent
+    // persist between turns, and the secrets the user picked for the run
+    let resolved;
+    let secrets;
     try {
-      context = await sandbox.createCodeContext({
-        language,
-      });
+      resolved = await resolveSandbox(env, session, { teamId, conversationId });
+      secrets = await getSandboxSecrets({ session, teamId, names: secretNames ?? [] });
     } catch (error) {
-      console.error("[API Interpret] Failed to create code context:", error);
+      const accessStatus = getSandboxAccessErrorStatus(error);
+      if (!accessStatus) throw error;
+
       return NextResponse.json(
         {
           result: "",
           success: false,
-          error: `Failed to create code context: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error: (error as Error).message,
         } as import("@/types/agent").AgentInterpretResponse,
-        { status: 500 }
+        { status: accessStatus }
       );
     }
+    const { sandboxId } = resolved;
+    const sandbox = resolved.sandbox as unknown as AgentToolSandbox;
+    const { redact, redactDeep, redactStream } = createSecretRedactor(secrets);
 
-    // Execute code
-    console.log("[API Interpret] Executing code...");
-    const codeToExecute = code || message || "print('Hello from netM8 Agent!')";
-    let execution;
-    try {
-      execution = await sandbox.runCode(codeToExecute, {
-        context,
-        onStdout: (output: unknown) => {
-          const outputObj = output as { text?: string };
-          console.log("[API Interpret] Sandbox output:", outputObj.text);
-        },
-      });
-    } catch (error) {
-      console.error("[API Interpret] Execution failed:", error);
+    const prompt = code && code !== message
+      ? `${message ?? ""}\n\n\`\`\`${language}\n${code}\n\`\`\``.trim()
+      : (message || code || "");
+
+    // Hold credits for the run, the real cost is settled once it finishes
+    const runId = crypto.randomUUID();
+    const reserved = await reserveCredits({
+      userId,
+      teamId,
+      runId,
+      conversationId,
+      amount: AGENT_RUN_RESERVED_CREDITS,
+    });
+    if (!reserved.success) {
       return NextResponse.json(
         {
           result: "",
           success: false,
-          error: `Execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          error: `${reserved.error}. You need at least ${AGENT_RUN_RESERVED_CREDITS} credits to start an agent run.`,
         } as import("@/types/agent").AgentInterpretResponse,
-        { status: 500 }
+        { status: 402 } // Payment Required
       );
     }
+    const { reservation } = reserved;
 
-    console.log("[API Interpret] Execution completed, has error:", !!execution.error);
+    // Load the conversation history from the user's AgentDO and record the new turn
+    const conversation = getAgentStub({ userId, conversationId });
+    let history;
+    let run: RunSession;
+    try {
+      history = await conversation.getHistory();
+      if (history.sandboxId !== sandboxId) {
+        await conversation.linkSandbox(sandboxId);
+      }
+      await conversation.appendMessage({ role: "user", content: redact(prompt) });
+      if (conversationId) {
+        await touchAgentConversation({ userId, conversationId, sandboxId, teamId });
+      }
 
-    // Check if there was an execution error
-    if (execution.error) {
-      return NextResponse.json({
-        result: "",
-        outputs: execution.results,
-        success: false,
-        error: `${execution.error.name}: ${
-          execution.error.value
-        }\n${execution.error.traceback.join("\n")}`,
-      });
+      // Register the run so it can be canceled, and stopped at the plan's time limit
+      run = await startRun({ runId, kind: "agent", scope: resolved.scope, sandboxId, sandbox });
+    } catch (error) {
+      await releaseReservation(reservation);
+      throw error;
     }
 
-    // Combine stdout and any text results for the main result
-    const stdoutResult = execution.logs.stdout.join("\n");
-    const stderrResult =
-      execution.logs.stderr.length > 0 ? execution.logs.stderr.join("\n") : "";
-
-    // Extract any additional outputs from results (images, html, etc)
-    // Cast to unknown[] to avoid TypeScript deep instantiation issues
-    const outputs: unknown[] =
-      execution.results.length > 0 ? execution.results : [];
-
-    return NextResponse.json({
-      result: stderrResult
-        ? `${stdoutResult}\n[stderr]: ${stderrResult}`
-        : stdoutResult,
-      outputs: outputs.length > 0 ? outputs : undefined,
-      success: true,
-    } as import("@/types/agent").AgentInterpretResponse);
+    // Stream agent steps, tool calls and usage back as SSE. Secret values are masked before
+    // events are streamed or collected for the history.
+    const toolCallCollector = createToolCallCollector();
+
+    // Runs of a conversation are shared with the members of its room
+    let shared: SharedRunSession | undefined;
+    if (conversationId) {
+      try {
+        shared = await startSharedRun({
+          conversationId,
+          runId,
+          user: { id: userId, name: getRoomUserName(session) },
+        });
+      } catch (error) {
+        // The owner still gets the run, only the room misses it
+        console.error("[API Interpret] Failed to share the run:", error);
+      }
+    }
+
+    // Interjections of members who steer the run are kept in the history, under their name
+    const takeInterjections = (run: SharedRunSession) => async () => {
+      const interjections = await run.beforeStep();
+      const messages = interjections.map(({ user, text }) => ({
+        role: "user" as const,
+        content: `${user.name} interjects: ${text}`,
+      }));
+      for (const message of messages) {
+        await conversation.appendMessage({ role: "user", content: redact(message.content) });
+      }
+      return messages;
+    };
+
+    // Events are buffered for resuming the stream, and the run carries on when the
+    // connection drops; members of the room stop it
+    return createRunEventStream<AgentStreamEvent>({ runId, userId }, async (stream) => {
+      const emit = (event: AgentStreamEvent) => {
+        toolCallCollector.handle(event);
+        shared?.publish(event);
+        return stream.send(event);
+      };
+
+      // Text deltas and tool output arrive in chunks, so they are masked as streams and
+      // what is held back is sent before the events that end them
+      const textStream = redactStream();
+      const toolOutputs = new Map<string, { event: ToolOutputEvent; output: ReturnType<typeof redactStream> }>();
+
+      const flushToolOutput = async (toolCallId: string) => {
+        for (const [key, { event, output }] of toolOutputs) {
+          if (event.toolCallId !== toolCallId) continue;
+
+          toolOutputs.delete(key);
+          const text = output.flush();
+          if (text) await emit({ ...event, text });
+        }
+      };
+
+      const send = async (agentEvent: AgentStreamEvent) => {
+        if (agentEvent.type === "text-delta") {
+          const text = textStream.push(agentEvent.text);
+          return text ? emit({ ...agentEvent, text }) : undefined;
+        }
+
+        if (agentEvent.type === "tool-output") {
+          const key = `${agentEvent.toolCallId}:${agentEvent.stream}`;
+          const output = toolOutputs.get(key)?.output ?? redactStream();
+          toolOutputs.set(key, { event: agentEvent, output });
+          const text = output.push(agentEvent.text);
+          return text ? emit({ ...agentEvent, text }) : undefined;
+        }
+
+        const text = textStream.flush();
+        if (text) await emit({ type: "text-delta", text });
+        if (agentEvent.type === "tool-result" || agentEvent.type === "tool-error") {
+          await flushToolOutput(agentEvent.toolCallId);
+        }
+
+        return emit(redactDeep(agentEvent));
+      };
+
+      let usage: AgentUsage | undefined;
+      let finishReason = "error";
+      let text = "";
+      try {
+        const result = await runAgentLoop({
+          sandbox,
+          user: { id: userId, ...getGitIdentity(session.user) },
+          messages: [
+            ...toModelMessages(history.messages),
+            { role: "user", content: prompt },
+          ],
+          uploads: history.uploads,
+          secrets,
+          onEvent: send,
+          beforeStep: shared && takeInterjections(shared),
+          onCodeContext: run.trackCodeContext,
+          abortSignal: shared ? AbortSignal.any([run.signal, shared.signal]) : run.signal,
+        });
+        usage = result.usage;
+        finishReason = result.finishReason;
+        // The reply so far is kept with why the run was stopped
+        const stopReason = shared?.stoppedBy ? `Stopped by ${shared.stoppedBy.name}` : run.stopReason;
+        text = stopReason ? `${result.text}\n\n${stopReason}`.trim() : result.text;
+
+        await conversation.appendMessage({
+          role: "assistant",
+          content: redact(text),
+          toolCalls: toolCallCollector.toolCalls,
+          usage,
+        });
+      } catch (error) {
+        console.error("[API Interpret] Agent loop failed:", error);
+        const errorMessage = run.stopReason
+          ?? `Agent run failed: ${error instanceof Error ? redact(error.message) : "Unknown error"}`;
+        text = errorMessage;
+        await send({ type: "error", message: errorMessage });
+
+        // Keep whatever the agent did before failing in the history
+        await conversation.appendMessage({
+          role: "assistant",
+          content: `Error: ${errorMessage}`,
+          toolCalls: toolCallCollector.toolCalls,
+        }).catch((appendError) => console.error("[API Interpret] Failed to store error:", appendError));
+      } finally {
+        // Failed runs still pay for the sandbox time they used; token usage is only known on success
+        await settleReservation({
+          reservation,
+          usage: {
+            inputTokens: usage?.inputTokens,
+            outputTokens: usage?.outputTokens,
+            sandboxSeconds: toolCallCollector.sandboxSeconds,
+          },
+          description: "Agent run",
+        }).catch((settleError) => console.error("[API Interpret] Failed to settle credits:", settleError));
+        await shared?.finish({ finishReason, text: redact(text) })
+          .catch((finishError) => console.error("[API Interpret] Failed to end the shared run:", finishError));
+        await run.finish({ failed: finishReason === "error", output: redact(text) });
+      }
+    });
   } catch (error) {
     console.error("Sandbox execution error:", error);
 
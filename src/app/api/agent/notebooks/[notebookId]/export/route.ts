@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import { toIpynb } from "@/lib/ipynb";
+import { requireNotebook, toNotebook, withNotebookRequest } from "@/lib/notebooks";
+
+// Download a notebook as a Jupyter .ipynb file
+export async function GET(request: NextRequest, { params }: { params: Promise<{ notebookId: string }> }) {
+  const { notebookId } = await params;
+
+  return withNotebookRequest(request, z.object({}), async (_sandbox, _input, { store }) => {
+    const notebook = toNotebook(await requireNotebook(store, notebookId));
+    const filename = `${notebook.name}.ipynb`;
+
+    return new Response(JSON.stringify(toIpynb(notebook), null, 1), {
+      headers: {
+        "Content-Type": "application/x-ipynb+json",
+        "Content-Disposition": `attachment; filename="${filename.replace(/[^\w.\- ]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      },
+    });
+  });
+}
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireNotebook, restartNotebookKernel, toNotebook, withNotebookRequest } from "@/lib/notebooks";
+
+/**
+ * Restart the notebook's kernel. Variables are lost and execution counts start over;
+ * the new kernel starts with the next run and picks up changed secrets.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ notebookId: string }> }) {
+  const { notebookId } = await params;
+
+  return withNotebookRequest(request, z.object({}), async (sandbox, _input, { store, sandboxId }) => {
+    const notebook = await requireNotebook(store, notebookId);
+    await restartNotebookKernel({ sandbox, sandboxId, store, notebook });
+
+    return NextResponse.json(toNotebook(await requireNotebook(store, notebookId)));
+  });
+}
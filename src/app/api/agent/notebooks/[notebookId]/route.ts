@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { deleteNotebook, requireNotebook, toNotebook, withNotebookRequest } from "@/lib/notebooks";
+import { notebookUpdateSchema } from "@/schemas/notebook.schema";
+
+type NotebookRouteContext = { params: Promise<{ notebookId: string }> };
+
+// A notebook with its cells and their last outputs
+export async function GET(request: NextRequest, { params }: NotebookRouteContext) {
+  const { notebookId } = await params;
+
+  return withNotebookRequest(request, z.object({}), async (_sandbox, _input, { store }) =>
+    NextResponse.json(toNotebook(await requireNotebook(store, notebookId)))
+  );
+}
+
+/**
+ * Rename a notebook, change its secrets or save its cells in a new order. Cells keep
+ * their outputs. Changed secrets apply once the kernel is restarted.
+ */
+export async function PATCH(request: NextRequest, { params }: NotebookRouteContext) {
+  const { notebookId } = await params;
+
+  return withNotebookRequest(request, notebookUpdateSchema, async (_sandbox, { name, secrets, cells }, { store }) => {
+    const notebook = await store.updateNotebook(notebookId, { name, secretNames: secrets, cells });
+
+    return notebook
+      ? NextResponse.json(toNotebook(notebook))
+      : NextResponse.json({ error: "Notebook not found" }, { status: 404 });
+  });
+}
+
+// Delete a notebook and stop its kernel
+export async function DELETE(request: NextRequest, { params }: NotebookRouteContext) {
+  const { notebookId } = await params;
+
+  return withNotebookRequest(request, z.object({}), async (sandbox, _input, { store, sandboxId }) => {
+    const notebook = await requireNotebook(store, notebookId);
+    await deleteNotebook({ sandbox, sandboxId, store, notebook });
+
+    return NextResponse.json({ success: true });
+  });
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireNotebook, runNotebookCells, withNotebookRequest } from "@/lib/notebooks";
+import { notebookRunSchema } from "@/schemas/notebook.schema";
+import { getSandboxSecrets } from "@/server/secrets";
+import { touchAgentConversation } from "@/server/agent-conversations";
+import { releaseReservation, reserveCredits, settleReservation } from "@/utils/metering";
+import { SANDBOX_EXECUTION_RESERVED_CREDITS } from "@/constants";
+import { createRunEventStream } from "@/lib/run-streams";
+import { startRun, type RunSession } from "@/lib/runs";
+import type { NotebookRunEvent } from "@/types/agent";
+
+/**
+ * Run cells of a notebook, or all code cells without `cellIds`, and stream their outputs
+ * as SSE. Outputs are stored with the notebook as each cell finishes. Runs are billed for
+ * their sandbox time like other code executions.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ notebookId: string }> }) {
+  const { notebookId } = await params;
+
+  return withNotebookRequest(request, notebookRunSchema, async (sandbox, { cellIds }, { store, sandboxId, scope, session }) => {
+    const notebook = await requireNotebook(store, notebookId);
+    const secrets = await getSandboxSecrets({ session, teamId: scope.teamId, names: notebook.secretNames });
+
+    // Hold credits for the run, the real cost is settled once it finishes
+    const runId = crypto.randomUUID();
+    const reserved = await reserveCredits({
+      userId: scope.userId,
+      teamId: scope.teamId,
+      runId,
+      conversationId: scope.conversationId,
+      amount: SANDBOX_EXECUTION_RESERVED_CREDITS,
+    });
+    if (!reserved.success) {
+      return NextResponse.json(
+        { error: reserved.error, details: `You need at least ${SANDBOX_EXECUTION_RESERVED_CREDITS} credits to run code.` },
+        { status: 402 }
+      );
+    }
+    const { reservation } = reserved;
+
+    // Register the run so it can be canceled, and stopped at the plan's time limit
+    let run: RunSession;
+    try {
+      run = await startRun({ runId, kind: "notebook", scope, sandboxId, sandbox });
+    } catch (error) {
+      await releaseReservation(reservation);
+      throw error;
+    }
+
+    // Outputs are buffered for resuming the stream, and the run carries on when the connection drops
+    return createRunEventStream<NotebookRunEvent>({ runId, userId: scope.userId }, async ({ send }) => {
+      let startedAt: number | undefined;
+      let failed = false;
+      try {
+        await runNotebookCells({
+          sandbox,
+          sandboxId,
+          store,
+          notebookId,
+          cellIds,
+          secrets,
+          onEvent: (event) => {
+            startedAt ??= event.type === "cell-start" ? Date.now() : undefined;
+            failed ||= event.type === "cell-end" && !event.success;
+            return send(event);
+          },
+          // The kernel outlives the run, canceling the run stops it
+          onKernel: (contextId) => run.trackCodeContext(contextId),
+          signal: run.signal,
+        });
+        if (scope.conversationId) {
+          await touchAgentConversation({ userId: scope.userId, conversationId: scope.conversationId, sandboxId, teamId: scope.teamId });
+        }
+      } catch (error) {
+        failed = true;
+        console.error("[Notebook] Run failed:", error);
+        await send({ type: "error", message: error instanceof Error ? error.message : "Failed to run the notebook" });
+      } finally {
+        // Only charge once a cell actually ran
+        const settlement = startedAt === undefined
+          ? releaseReservation(reservation)
+          : settleReservation({
+            reservation,
+            usage: { sandboxSeconds: (Date.now() - startedAt) / 1000 },
+            description: "Notebook run",
+          });
+        await settlement.catch((settleError) => console.error("[Notebook] Failed to settle credits:", settleError));
+        // Outputs so far are stored with the notebook's cells
+        await run.finish({ failed });
+        await send({ type: "done" });
+      }
+    });
+  });
+}
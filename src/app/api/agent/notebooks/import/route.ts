@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fromIpynb } from "@/lib/ipynb";
+import { capNotebookOutputs, toNotebook, withNotebookRequest } from "@/lib/notebooks";
+import { notebookImportSchema } from "@/schemas/notebook.schema";
+
+// Create a notebook from a Jupyter .ipynb document, outputs included
+export async function POST(request: NextRequest) {
+  return withNotebookRequest(request, notebookImportSchema, async (_sandbox, { name, notebook: document, secrets }, { store }) => {
+    let imported;
+    try {
+      imported = fromIpynb(document);
+    } catch (error) {
+      return NextResponse.json(
+        { error: "Invalid notebook", details: error instanceof Error ? error.message : "Unknown error" },
+        { status: 400 }
+      );
+    }
+
+    const notebook = await store.createNotebook({
+      name: name ?? "Imported notebook",
+      language: imported.language,
+      secretNames: secrets,
+      cells: imported.cells.map((cell) => ({ ...cell, outputs: capNotebookOutputs(cell.outputs ?? []) })),
+    });
+
+    return NextResponse.json(toNotebook(notebook));
+  });
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { toNotebook, withNotebookRequest } from "@/lib/notebooks";
+import { notebookCreateSchema } from "@/schemas/notebook.schema";
+import type { NotebookListResponse } from "@/types/agent";
+
+/**
+ * List the notebooks of the conversation, most recently changed first.
+ * The conversation is picked by the `conversationId` and `teamId` query parameters.
+ */
+export async function GET(request: NextRequest) {
+  return withNotebookRequest(request, z.object({}), async (_sandbox, _input, { store }) => {
+    const notebooks = await store.listNotebooks();
+
+    return NextResponse.json({ notebooks } satisfies NotebookListResponse);
+  });
+}
+
+// Create a notebook. Its kernel starts with the first run.
+export async function POST(request: NextRequest) {
+  return withNotebookRequest(request, notebookCreateSchema, async (_sandbox, { name, language, secrets, cells }, { store }) => {
+    const notebook = await store.createNotebook({ name, language, secretNames: secrets, cells });
+
+    return NextResponse.json(toNotebook(notebook));
+  });
+}
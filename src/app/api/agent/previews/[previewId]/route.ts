@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireApiAuth } from "@/lib/auth";
+import { getSandboxAccessErrorStatus } from "@/lib/sandbox-access";
+import { unexposeSandboxPreview, withPreviewRequest } from "@/lib/previews";
+import { previewUpdateSchema } from "@/schemas/preview.schema";
+import { getOwnSandboxPreview, updateSandboxPreview } from "@/server/sandbox-previews";
+
+// Rename a preview or change who can open it, effective for the next request to its URL
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ previewId: string }> }) {
+  const { previewId } = await params;
+
+  try {
+    const session = await requireApiAuth();
+
+    const parsed = previewUpdateSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const preview = await updateSandboxPreview({ userId: session.user.id, previewId, ...parsed.data });
+
+    return NextResponse.json({ success: true, previewId, name: preview.name, access: preview.access });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json({ error: "Access denied", details: errorMessage }, { status: accessStatus });
+    }
+
+    console.error("Update preview error:", error);
+    return NextResponse.json(
+      { error: "Failed to update preview", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+// Take a preview down; its URL stops working, share links included
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ previewId: string }> }) {
+  const { previewId } = await params;
+
+  return withPreviewRequest(request, z.object({}), async (sandbox, _input, { scope, sandboxId }) => {
+    const preview = await getOwnSandboxPreview({ userId: scope.userId, previewId });
+    if (preview.sandboxId !== sandboxId) {
+      return NextResponse.json({ error: "Preview not found" }, { status: 404 });
+    }
+
+    await unexposeSandboxPreview(sandbox, { scope, sandboxId }, preview.port);
+    return NextResponse.json({ success: true, previewId });
+  });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PREVIEW_ACCESS } from "@/db/schema";
+import { requireApiAuth } from "@/lib/auth";
+import { createPreviewLink } from "@/lib/previews";
+import { getSandboxAccessErrorStatus } from "@/lib/sandbox-access";
+import { previewTokenSchema } from "@/schemas/preview.schema";
+import { canOpenSandboxPreview, getSandboxPreview } from "@/server/sandbox-previews";
+
+/**
+ * A signed link to a preview. Members get a short-lived link for themselves; the owner
+ * of a preview with `token` access can get a share link for anyone.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ previewId: string }> }) {
+  const { previewId } = await params;
+
+  try {
+    const session = await requireApiAuth();
+
+    const parsed = previewTokenSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const preview = await getSandboxPreview(previewId);
+    if (!canOpenSandboxPreview(session, preview)) {
+      return NextResponse.json({ error: "Preview not found" }, { status: 404 });
+    }
+
+    if (parsed.data.share) {
+      if (preview.userId !== session.user.id) {
+        return NextResponse.json({ error: "Only the owner can share a preview" }, { status: 403 });
+      }
+      if (preview.access !== PREVIEW_ACCESS.TOKEN) {
+        return NextResponse.json(
+          { error: "Preview isn't shareable", details: "Set the preview's access to share links first" },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(await createPreviewLink(preview, parsed.data.share ? "share" : "member", request.url));
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json({ error: "Access denied", details: errorMessage }, { status: accessStatus });
+    }
+
+    console.error("Create preview link error:", error);
+    return NextResponse.json(
+      { error: "Failed to create preview link", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { exposeSandboxPreview, listSandboxPreviews, withPreviewRequest } from "@/lib/previews";
+import { previewExposeSchema } from "@/schemas/preview.schema";
+
+/**
+ * Previews of the caller's sandbox. Ports servers started listening on since the last
+ * call are exposed on the way, so clients poll this to pick up new dev servers.
+ */
+export async function GET(request: NextRequest) {
+  return withPreviewRequest(request, z.object({}), async (sandbox, _input, { scope, sandboxId }) => {
+    const previews = await listSandboxPreviews(sandbox, { scope, sandboxId }, request.url);
+
+    return NextResponse.json(previews);
+  });
+}
+
+// Expose a port of the caller's sandbox, before or after a server listens on it
+export async function POST(request: NextRequest) {
+  return withPreviewRequest(request, previewExposeSchema, async (sandbox, { port, name, access }, { scope, sandboxId }) => {
+    const preview = await exposeSandboxPreview(sandbox, { scope, sandboxId }, { port, name, access, appUrl: request.url });
+
+    return NextResponse.json(preview);
+  });
+}
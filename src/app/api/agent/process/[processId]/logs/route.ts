@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withProcessRequest } from "@/lib/processes";
+import { createSecretRedactor } from "@/lib/sandbox-secrets";
+import { getSandboxSecrets } from "@/server/secrets";
+
+/**
+ * Everything a process has written so far. Output is masked with every secret of the
+ * scope, since any of them may have been injected into the process.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ processId: string }> }) {
+  const { processId } = await params;
+
+  return withProcessRequest(request, z.object({}), async (sandbox, _input, { scope, session }) => {
+    const process = await sandbox.getProcess(processId);
+    if (!process) {
+      return NextResponse.json({ error: "Process not found" }, { status: 404 });
+    }
+
+    const { redact } = createSecretRedactor(await getSandboxSecrets({ session, teamId: scope.teamId }));
+    const { stdout, stderr } = await sandbox.getProcessLogs(processId);
+
+    return NextResponse.json({ processId, stdout: redact(stdout), stderr: redact(stderr) });
+  });
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  getScopeConversation,
+  settleSandboxProcess,
+  startSandboxProcess,
+  toProcessInfo,
+  withProcessRequest,
+} from "@/lib/processes";
+import { getSandboxSecrets } from "@/server/secrets";
+import { PROCESS_RESERVED_CREDITS } from "@/constants";
+
+/**
+ * Kill a process if it is still running and start its command again. Processes the
+ * conversation started keep their working directory, environment and secrets; others
+ * are restarted with the command alone. The new process has a new ID.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ processId: string }> }) {
+  const { processId } = await params;
+
+  return withProcessRequest(request, z.object({}), async (sandbox, _input, { store, sandboxId, scope, session }) => {
+    const [process, record] = await Promise.all([
+      sandbox.getProcess(processId),
+      store.getProcess(sandboxId, processId),
+    ]);
+    if (!process && !record) {
+      return NextResponse.json({ error: "Process not found" }, { status: 404 });
+    }
+
+    if (process?.status === "running" || process?.status === "starting") {
+      await sandbox.killProcess(processId);
+    }
+    await settleSandboxProcess({
+      sandboxId,
+      processId,
+      endedAt: process?.endTime ? new Date(process.endTime).getTime() : undefined,
+    });
+
+    const secretNames = record?.secretNames ?? [];
+    const secrets = await getSandboxSecrets({ session, teamId: scope.teamId, names: secretNames });
+    const restarted = await startSandboxProcess({
+      sandbox,
+      sandboxId,
+      scope,
+      store,
+      command: record?.command ?? process!.command,
+      cwd: record?.cwd ?? undefined,
+      env: record?.env ?? {},
+      secretNames,
+      secrets,
+    });
+    if (!restarted.success) {
+      return NextResponse.json(
+        { error: restarted.error, details: `You need at least ${PROCESS_RESERVED_CREDITS} credits to start a process.` },
+        { status: 402 }
+      );
+    }
+    await store.deleteProcess(sandboxId, processId);
+
+    return NextResponse.json(toProcessInfo(restarted.process, await getScopeConversation(scope)));
+  });
+}
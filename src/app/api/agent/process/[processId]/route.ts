@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getScopeConversation, settleSandboxProcess, toProcessInfo, withProcessRequest } from "@/lib/processes";
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ processId: string }> }) {
+  const { processId } = await params;
+
+  return withProcessRequest(request, z.object({}), async (sandbox, _input, { store, sandboxId, scope }) => {
+    const process = await sandbox.getProcess(processId);
+    if (!process) {
+      return NextResponse.json({ error: "Process not found" }, { status: 404 });
+    }
+
+    const record = await store.getProcess(sandboxId, processId);
+    return NextResponse.json(toProcessInfo(process, record ? await getScopeConversation(scope) : null));
+  });
+}
+
+/**
+ * Kill a process and charge its time. How it was started is kept, so it can still be
+ * restarted.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ processId: string }> }) {
+  const { processId } = await params;
+
+  return withProcessRequest(request, z.object({}), async (sandbox, _input, { sandboxId }) => {
+    const process = await sandbox.getProcess(processId);
+    if (!process) {
+      return NextResponse.json({ error: "Process not found" }, { status: 404 });
+    }
+
+    await sandbox.killProcess(processId);
+    await settleSandboxProcess({
+      sandboxId,
+      processId,
+      endedAt: process.endTime ? new Date(process.endTime).getTime() : undefined,
+    });
+    return NextResponse.json({ success: true, processId });
+  });
+}
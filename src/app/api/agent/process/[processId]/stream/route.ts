@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import type { LogEvent } from "@cloudflare/sandbox";
+import { withProcessRequest } from "@/lib/processes";
+import { createLogEventRedactor, createSecretRedactor } from "@/lib/sandbox-secrets";
+import { getSandboxSecrets } from "@/server/secrets";
+import { createEventStream, getLastEventId, SSE_HEADERS } from "@/lib/sse";
+import { readServerSentEvents } from "@/utils/read-server-sent-events";
+
+/**
+ * Tail a process's output as SSE: what it has written so far, then new output as it
+ * comes, ending with an `exit` event. Output is masked with every secret of the scope.
+ * Clients resume after the `Last-Event-ID` they saw.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ processId: string }> }) {
+  const { processId } = await params;
+
+  return withProcessRequest(request, z.object({}), async (sandbox, _input, { scope, session }) => {
+    const process = await sandbox.getProcess(processId);
+    if (!process) {
+      return NextResponse.json({ error: "Process not found" }, { status: 404 });
+    }
+
+    const redactor = createSecretRedactor(await getSandboxSecrets({ session, teamId: scope.teamId }));
+    const logRedactor = createLogEventRedactor(redactor);
+    const logs = await sandbox.streamProcessLogs(processId, { signal: request.signal });
+
+    // The logs replay from the start, so a reconnecting client skips what it already saw
+    const { readable, send, close } = createEventStream<LogEvent>({ skipThrough: getLastEventId(request) });
+
+    (async () => {
+      try {
+        // The abort signal ends the stream once the browser has gone away
+        await readServerSentEvents<LogEvent>(new Response(logs), (event) => {
+          for (const redacted of logRedactor.push(event)) send(redacted);
+        });
+        for (const redacted of logRedactor.flush()) send(redacted);
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error("[Process] Log stream failed:", error);
+          await send({
+            type: "error",
+            timestamp: new Date().toISOString(),
+            data: error instanceof Error ? redactor.redact(error.message) : "Failed to stream process logs",
+            processId,
+          });
+        }
+      } finally {
+        await close();
+      }
+    })();
+
+    return new Response(readable, { headers: SSE_HEADERS });
+  });
+}
@@ -1,45 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getCloudflareContext } from "@opennextjs/cloudflare";
-import { requireApiAuth } from "@/lib/auth";
-
+import { z } from "zod";
+import { getScopeConversation, listSandboxProcesses, withProcessRequest } from "@/lib/processes";
+import type { AgentProcessListResponse } from "@/types/agent";
+
+/**
+ * List the running and exited processes of the caller's sandbox, labeled with the
+ * conversation that started them
+ */
 export async function GET(request: NextRequest) {
-  try {
-    // Require authentication
-    const session = await requireApiAuth();
-    const userId = session.user.id;
-
-    // Get Cloudflare context
-    const { env } = getCloudflareContext();
-
-    // Get sessionId from query params
-    const { searchParams } = new URL(request.url);
-    const sessionId = searchParams.get("sessionId") || `user-${userId}-sandbox`;
-
-    // Load getSandbox using eval to bypass webpack bundling
-    const { loadGetSandbox } = await import("@/lib/cloudflare-runtime");
-    const getSandbox = await loadGetSandbox();
-
-    // Get user's sandbox instance
-    // Cast through unknown first due to CloudflareEnv type limitations
-    const envTyped = env as unknown as {
-      Sandbox: Parameters<typeof getSandbox>[0];
-    };
-    const sandboxStub = getSandbox(envTyped.Sandbox, sessionId);
-
-    // List processes directly using sandbox
-    const processes = await sandboxStub.listProcesses();
-
-    return NextResponse.json({
-      processes: processes || [],
+  return withProcessRequest(request, z.object({}), async (sandbox, _input, { store, sandboxId, scope }) => {
+    const processes = await listSandboxProcesses({
+      sandbox,
+      sandboxId,
+      store,
+      conversation: await getScopeConversation(scope),
     });
-  } catch (error) {
-    console.error("List processes error:", error);
 
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error occurred";
-    return NextResponse.json(
-      { error: "Failed to list processes", details: errorMessage },
-      { status: 500 }
-    );
-  }
+    return NextResponse.json({ processes } satisfies AgentProcessListResponse);
+  });
 }
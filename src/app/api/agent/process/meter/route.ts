@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZSAError } from "zsa";
+import { requireAdminApiAuth } from "@/lib/auth";
+import { meterSandboxProcesses } from "@/lib/processes";
+
+/**
+ * Background process billing job. Run it about hourly, more often than holds are kept
+ * (CREDIT_HOLD_TTL_MINUTES), by calling it with `Authorization: Bearer $CRON_SECRET`,
+ * or as an admin from the browser.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isScheduledRun = Boolean(cronSecret)
+      && request.headers.get("authorization") === `Bearer ${cronSecret}`;
+
+    if (!isScheduledRun) {
+      await requireAdminApiAuth();
+    }
+
+    const report = await meterSandboxProcesses();
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof ZSAError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "NOT_AUTHORIZED" ? 401 : 403 }
+      );
+    }
+
+    console.error("Process metering error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return NextResponse.json(
+      { error: "Process metering failed", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScopeConversation, startSandboxProcess, toProcessInfo, withProcessRequest } from "@/lib/processes";
+import { processStartSchema } from "@/schemas/process.schema";
+import { getSandboxSecrets } from "@/server/secrets";
+import { PROCESS_RESERVED_CREDITS } from "@/constants";
+
+/**
+ * Start a background process in the caller's sandbox, with the requested secrets as
+ * environment variables. Its wall-clock time is billed until it ends.
+ */
+export async function POST(request: NextRequest) {
+  return withProcessRequest(request, processStartSchema, async (sandbox, { command, cwd, env, secrets: secretNames }, { store, sandboxId, scope, session }) => {
+    const secrets = await getSandboxSecrets({ session, teamId: scope.teamId, names: secretNames });
+
+    const started = await startSandboxProcess({ sandbox, sandboxId, scope, store, command, cwd, env, secretNames, secrets });
+    if (!started.success) {
+      return NextResponse.json(
+        { error: started.error, details: `You need at least ${PROCESS_RESERVED_CREDITS} credits to start a process.` },
+        { status: 402 }
+      );
+    }
+
+    return NextResponse.json(toProcessInfo(started.process, await getScopeConversation(scope)));
+  });
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { requireApiAuth } from "@/lib/auth";
+import { getRunStreamStub } from "@/lib/run-streams";
+import { interruptRun } from "@/lib/runs";
+import { getSandboxAccessErrorStatus, resolveSandbox } from "@/lib/sandbox-access";
+import { runCancelSchema } from "@/schemas/run.schema";
+import { getRoomUserName } from "@/server/rooms";
+import type { AgentRunCancelResponse } from "@/types/agent";
+
+/**
+ * Cancel a run of the caller: an agent run, code execution or notebook run. The kernels
+ * it is executing in are interrupted right away, and the route running it stops within
+ * a second, keeping the output so far with the cancel reason.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ runId: string }> }) {
+  try {
+    const session = await requireApiAuth();
+    const { runId } = await params;
+
+    const parsed = runCancelSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const run = await getRunStreamStub(runId).cancel(session.user.id, {
+      status: "canceled",
+      reason: parsed.data.reason ?? `Canceled by ${getRoomUserName(session)}`,
+    });
+    if (!run) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+    if (run.status !== "canceled" || run.endedAt) {
+      return NextResponse.json({ error: "The run has already ended", run }, { status: 409 });
+    }
+
+    // Don't wait for the route running it, which may be gone with its worker
+    if (run.contextIds.length > 0) {
+      const { sandbox } = await resolveSandbox(getCloudflareContext().env, session, {
+        teamId: run.teamId,
+        conversationId: run.conversationId,
+        sandboxId: run.sandboxId,
+      });
+      await interruptRun(sandbox, run);
+    }
+
+    return NextResponse.json({ run } satisfies AgentRunCancelResponse);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json({ error: "Access denied", details: errorMessage }, { status: accessStatus });
+    }
+
+    console.error("Cancel run error:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel the run", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAuth } from "@/lib/auth";
+import { getRunStreamStub } from "@/lib/run-streams";
+import { getLastEventId } from "@/lib/sse";
+
+/**
+ * Resume the event stream of a run after its connection dropped: the events after
+ * `Last-Event-ID` (or `?lastEventId=`), then the rest of the run as it happens. Runs are
+ * kept for a while after they ended, and only their own user resumes them.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ runId: string }> }) {
+  try {
+    const session = await requireApiAuth();
+    const { runId } = await params;
+
+    const url = new URL("https://run-stream/events");
+    url.searchParams.set("userId", session.user.id);
+    const response = await getRunStreamStub(runId).fetch(new Request(url, {
+      headers: { "Last-Event-ID": String(getLastEventId(request)) },
+    }));
+
+    if (response.status === 404) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    return new Response(response.body, { status: response.status, headers: response.headers });
+  } catch (error) {
+    console.error("Resume run stream error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to resume the run", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireApiAuth } from "@/lib/auth";
+import { getAvailableSecretNames } from "@/server/secrets";
+import type { AgentSecretListResponse } from "@/types/agent";
+
+/**
+ * Names of the secrets the caller can inject into runs. Team secrets are included for the
+ * `teamId` query parameter when the caller may use them.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await requireApiAuth();
+    const teamId = new URL(request.url).searchParams.get("teamId") || undefined;
+
+    const secrets = await getAvailableSecretNames({ session, teamId });
+
+    return NextResponse.json({ secrets } satisfies AgentSecretListResponse);
+  } catch (error) {
+    console.error("List secrets error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return NextResponse.json(
+      { error: "Failed to list secrets", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
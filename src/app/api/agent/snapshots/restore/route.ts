@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+import { SNAPSHOT_ID_PATTERN, restoreWorkspaceSnapshot } from "@/lib/workspace-snapshots";
+
+const restoreSchema = z.object({
+  snapshotId: z.string().regex(SNAPSHOT_ID_PATTERN, "Invalid snapshot ID"),
+});
+
+/**
+ * Replace the conversation's workspace with a snapshot. The workspace is snapshotted
+ * first, so the restore shows up in the list and can be undone.
+ */
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, async (sandbox, { scope }) => {
+    const parsed = restoreSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await restoreWorkspaceSnapshot({
+      sandbox,
+      scope,
+      snapshotId: parsed.data.snapshotId,
+    });
+    if (!result) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+  });
+}
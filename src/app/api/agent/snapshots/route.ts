@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+import { createWorkspaceSnapshot, listWorkspaceSnapshots } from "@/lib/workspace-snapshots";
+import type { AgentSnapshotListResponse } from "@/types/agent";
+
+/**
+ * List the snapshots of the conversation's workspace, newest first.
+ * The sandbox is picked by the `conversationId` and `teamId` query parameters.
+ */
+export async function GET(request: NextRequest) {
+  return withRequestSandbox(request, async (_sandbox, { scope }) => {
+    const snapshots = await listWorkspaceSnapshots(scope);
+
+    return NextResponse.json({ snapshots } satisfies AgentSnapshotListResponse);
+  });
+}
+
+// Snapshot the conversation's workspace now
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, async (sandbox, { scope }) => {
+    const snapshot = await createWorkspaceSnapshot({ sandbox, scope, reason: "manual" });
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: "Workspace is empty", details: "There are no files to snapshot" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ snapshot });
+  });
+}
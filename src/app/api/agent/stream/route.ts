@@ -2,6 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
 import { requireApiAuth } from '@/lib/auth';
 import { z } from 'zod';
+import { getAgentStub } from '@/lib/agent-conversation';
+import { touchAgentConversation } from '@/server/agent-conversations';
+import { getSandboxAccessErrorStatus, resolveSandbox } from '@/lib/sandbox-access';
+import { releaseReservation, reserveCredits, settleReservation } from '@/utils/metering';
+import { SANDBOX_EXECUTION_RESERVED_CREDITS } from '@/constants';
+import { getSandboxSecrets } from '@/server/secrets';
+import { createSecretRedactor, toEnvVars } from '@/lib/sandbox-secrets';
+import { secretNamesSchema } from '@/schemas/secret.schema';
+import { createRunEventStream } from '@/lib/run-streams';
+import { startRun, type RunSession } from '@/lib/runs';
+import type { AgentExecutionStreamEvent } from '@/types/agent';
 
 // Request validation schema
 const streamSchema = z.object({
@@ -9,6 +20,10 @@ const streamSchema = z.object({
   code: z.string().optional(),
   language: z.enum(['python', 'javascript', 'typescript']).default('python'),
   sessionId: z.string().optional(),
+  conversationId: z.string().min(1).max(100).optional(),
+  teamId: z.string().min(1).max(100).optional(),
+  // Names of the user's or team's secrets to expose as environment variables
+  secrets: secretNamesSchema.optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -20,105 +35,185 @@ export async function POST(request: NextRequest) {
     // Parse and validate request body
     const body = await request.json();
     const validatedData = streamSchema.parse(body);
+    const { teamId } = validatedData;
 
-    // Create streaming response
-    const encoder = new TextEncoder();
-    const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Send initial acknowledgment
-          controller.enqueue(encoder.encode(`data: {"type":"start","message":"Processing your request..."}\n\n`));
-
-          // Get Cloudflare context
-          const { env } = getCloudflareContext();
-          
-          // Check if Sandbox binding exists
-          const envAny = env as unknown as { Sandbox?: unknown };
-          if (!envAny?.Sandbox) {
-            controller.enqueue(encoder.encode(`data: {"type":"error","message":"Sandbox environment not configured"}\n\n`));
-            controller.close();
-            return;
-          }
-
-          // Load getSandbox
-          const { loadGetSandbox } = await import('@/lib/cloudflare-runtime');
-          const getSandbox = await loadGetSandbox();
-          
-          // Get sandbox instance
-          const envTyped = env as unknown as { Sandbox: Parameters<typeof getSandbox>[0] };
-          const sandboxId = validatedData.sessionId || `user-${userId}-${Date.now()}`;
-          const sandbox = getSandbox(envTyped.Sandbox, sandboxId);
-
-          // Send status update
-          controller.enqueue(encoder.encode(`data: {"type":"status","message":"Initializing code environment..."}\n\n`));
-
-          // Create code context
-          const context = await sandbox.createCodeContext({
-            language: validatedData.language,
-          });
+    // Get the sandbox of the caller's team and conversation before holding any credits
+    const { sandbox, sandboxId, scope } = await resolveSandbox(getCloudflareContext().env, session, {
+      teamId,
+      conversationId: validatedData.conversationId,
+      sandboxId: validatedData.sessionId,
+    });
+    const secrets = await getSandboxSecrets({ session, teamId, names: validatedData.secrets ?? [] });
+    const { redact, redactStream } = createSecretRedactor(secrets);
 
-          // Send status update
-          controller.enqueue(encoder.encode(`data: {"type":"status","message":"Executing code..."}\n\n`));
-
-          // Prepare code to execute
-          const codeToExecute = validatedData.code || validatedData.message;
-          
-          // Execute code with streaming output
-          const outputBuffer: string[] = [];
-          const execution = await sandbox.runCode(codeToExecute, {
-            context,
-            onStdout: (output: unknown) => {
-              const outputObj = output as { text?: string };
-              if (outputObj.text) {
-                outputBuffer.push(outputObj.text);
-                // Send output in real-time
-                controller.enqueue(encoder.encode(`data: {"type":"output","content":"${outputObj.text.replace(/\n/g, '\\n').replace(/"/g, '\\"')}"}\n\n`));
-              }
-            },
-            onStderr: (output: unknown) => {
-              const outputObj = output as { text?: string };
-              if (outputObj.text) {
-                // Send error output
-                controller.enqueue(encoder.encode(`data: {"type":"error_output","content":"${outputObj.text.replace(/\n/g, '\\n').replace(/"/g, '\\"')}"}\n\n`));
-              }
-            },
-          });
+    // Hold credits for the execution, the real cost is settled once it finishes
+    const runId = crypto.randomUUID();
+    const reserved = await reserveCredits({
+      userId,
+      teamId,
+      runId,
+      conversationId: validatedData.conversationId,
+      amount: SANDBOX_EXECUTION_RESERVED_CREDITS,
+    });
+    if (!reserved.success) {
+      return NextResponse.json(
+        { error: reserved.error, details: `You need at least ${SANDBOX_EXECUTION_RESERVED_CREDITS} credits to run code.` },
+        { status: 402 }
+      );
+    }
+    const { reservation } = reserved;
 
-          // Check for execution errors
-          if (execution.error) {
-            const errorMessage = `${execution.error.name}: ${execution.error.value}\\n${execution.error.traceback.join('\\n')}`;
-            controller.enqueue(encoder.encode(`data: {"type":"error","message":"${errorMessage.replace(/"/g, '\\"')}"}\n\n`));
-          } else {
-            // Send final result
-            const result = execution.results.length > 0 ? JSON.stringify(execution.results) : outputBuffer.join('\\n');
-            controller.enqueue(encoder.encode(`data: {"type":"result","content":"${result.replace(/"/g, '\\"')}"}\n\n`));
-          }
-
-          // Send completion signal
-          controller.enqueue(encoder.encode(`data: {"type":"done","message":"Execution completed"}\n\n`));
-          
-        } catch (error) {
-          console.error('[Stream API] Error:', error);
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          controller.enqueue(encoder.encode(`data: {"type":"error","message":"${errorMessage.replace(/"/g, '\\"')}"}\n\n`));
-        } finally {
-          controller.close();
+    // Register the execution so it can be canceled, and stopped at the plan's time limit
+    let run: RunSession;
+    try {
+      run = await startRun({ runId, kind: 'execution', scope, sandboxId, sandbox });
+    } catch (error) {
+      await releaseReservation(reservation);
+      throw error;
+    }
+
+    // Stream the execution as SSE, buffered for clients resuming it after a dropped connection
+    return createRunEventStream<AgentExecutionStreamEvent>({ runId, userId }, async ({ send }) => {
+      let startedAt: number | undefined;
+      let finishedAt: number | undefined;
+      let contextId: string | undefined;
+      let failed = false;
+      const outputBuffer: string[] = [];
+      const stdout = redactStream();
+      const stderr = redactStream();
+      const conversation = getAgentStub({ userId, conversationId: validatedData.conversationId });
+
+      // Record the run in the conversation history
+      const recordExecution = async (reply: string) => {
+        await conversation.linkSandbox(sandboxId);
+        await conversation.appendMessage({ role: 'user', content: redact(validatedData.message) });
+        await conversation.appendMessage({ role: 'assistant', content: reply });
+        if (validatedData.conversationId) {
+          await touchAgentConversation({ userId, conversationId: validatedData.conversationId, sandboxId, teamId });
         }
-      }
-    });
+      };
+
+      // Output held back by the redactors, once the execution stopped writing
+      const flushOutput = async () => {
+        const text = stdout.flush();
+        if (text) {
+          outputBuffer.push(text);
+          await send({ type: 'output', content: text });
+        }
+        const errorText = stderr.flush();
+        if (errorText) {
+          await send({ type: 'error_output', content: errorText });
+        }
+      };
+
+      try {
+        // Send initial acknowledgment
+        await send({ type: 'start', message: 'Processing your request...' });
+
+        // Send status update
+        await send({ type: 'status', message: 'Initializing code environment...' });
+
+        // Create code context
+        startedAt = Date.now();
+        const context = await sandbox.createCodeContext({
+          language: validatedData.language,
+          envVars: toEnvVars(secrets),
+        });
+        contextId = context.id;
+        await run.trackCodeContext(context.id);
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'X-Content-Type-Options': 'nosniff',
+        // Send status update
+        await send({ type: 'status', message: 'Executing code...' });
+
+        // Prepare code to execute
+        const codeToExecute = validatedData.code || validatedData.message;
+
+        // Execute code with streaming output
+        const execution = await sandbox.runCode(codeToExecute, {
+          context,
+          signal: run.signal,
+          onStdout: (output: unknown) => {
+            const outputObj = output as { text?: string };
+            const text = outputObj.text && stdout.push(outputObj.text);
+            if (text) {
+              outputBuffer.push(text);
+              // Send output in real-time
+              send({ type: 'output', content: text });
+            }
+          },
+          onStderr: (output: unknown) => {
+            const outputObj = output as { text?: string };
+            const text = outputObj.text && stderr.push(outputObj.text);
+            if (text) {
+              // Send error output
+              send({ type: 'error_output', content: text });
+            }
+          },
+        });
+        finishedAt = Date.now();
+        await flushOutput();
+
+        // Check for execution errors
+        if (execution.error) {
+          failed = true;
+          const errorMessage = redact(`${execution.error.name}: ${execution.error.value}\n${execution.error.traceback.join('\n')}`);
+          await send({ type: 'error', message: errorMessage });
+        } else {
+          // Send final result
+          const result = execution.results.length > 0 ? redact(JSON.stringify(execution.results)) : outputBuffer.join('\n');
+          await send({ type: 'result', content: result });
+        }
+
+        await recordExecution(execution.error
+          ? redact(`${execution.error.name}: ${execution.error.value}`)
+          : outputBuffer.join('') || 'Execution completed');
+
+        // Send completion signal
+        await send({ type: 'done', message: 'Execution completed' });
+      } catch (error) {
+        failed = true;
+        console.error('[Stream API] Error:', error);
+        await flushOutput();
+        const errorMessage = run.stopReason ?? (error instanceof Error ? redact(error.message) : 'Unknown error');
+        await send({ type: 'error', message: errorMessage });
+
+        // Keep what the execution printed before it was stopped
+        if (run.stopReason) {
+          await recordExecution(`${outputBuffer.join('')}\n\n${run.stopReason}`.trim())
+            .catch((recordError) => console.error('[Stream API] Failed to record the stopped execution:', recordError));
+        }
+      } finally {
+        // Only charge once the sandbox was actually used
+        const settlement = startedAt === undefined
+          ? releaseReservation(reservation)
+          : settleReservation({
+            reservation,
+            usage: { sandboxSeconds: ((finishedAt ?? Date.now()) - startedAt) / 1000 },
+            description: 'Code execution',
+          });
+        await settlement.catch((settleError) => console.error('[Stream API] Failed to settle credits:', settleError));
+
+        // Each request gets its own context, its kernel is stopped once the execution is done
+        if (contextId) {
+          await sandbox.deleteCodeContext(contextId)
+            .catch((deleteError) => console.warn('[Stream API] Failed to delete code context:', deleteError));
+          await run.trackCodeContext(contextId, false);
+        }
+        await run.finish({ failed, output: outputBuffer.join('') });
       }
     });
 
   } catch (error) {
     console.error('[Stream API] Request error:', error);
-    
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json(
+        { error: 'Access denied', details: (error as Error).message },
+        { status: accessStatus }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     return NextResponse.json(
       { error: 'Stream initialization failed', details: errorMessage },
@@ -1,102 +1,108 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { requireApiAuth } from '@/lib/auth';
 import { z } from 'zod';
+import { withRequestSandbox } from '@/lib/sandbox-access';
+import { getAgentStub } from '@/lib/agent-conversation';
+import {
+  UPLOADS_DIR,
+  UploadTooLargeError,
+  getUploadLimits,
+  getUploadsSize,
+  sanitizeUploadName,
+  writeUpload,
+} from '@/lib/workspace-uploads';
+import type { AgentUploadResponse, StoredUpload } from '@/types/agent';
 
-// File validation schema with 5MB limit
+// Sizes are checked against the plan's quotas separately
 const fileUploadSchema = z.object({
-  files: z.array(
-    z.object({
-      name: z.string().min(1, "File name is required"),
-      size: z.number().max(5 * 1024 * 1024, "File size must be less than 5MB"),
-      type: z.string().min(1, "File type is required"),
-    })
-  ).min(1, "At least one file is required").max(10, "Maximum 10 files allowed"),
+  name: z.string().min(1, "File name is required").max(255),
+  type: z.string().max(255).default(''),
 });
 
-export async function POST(request: NextRequest) {
-  try {
-    // Require authentication
-    await requireApiAuth();
+function formatMegabytes(bytes: number) {
+  return `${Math.round(bytes / (1024 * 1024))}MB`;
+}
 
-    // Parse form data
-    let formData: FormData;
-    try {
-      formData = await request.formData();
-    } catch {
+/**
+ * Upload a file into the conversation's workspace. The file is the raw request body,
+ * streamed into the sandbox as it arrives; the `name` and `type` query parameters
+ * describe it. The sandbox is picked by the `conversationId` and `teamId` query
+ * parameters, so send the body as `application/octet-stream`.
+ */
+export async function POST(request: NextRequest) {
+  return withRequestSandbox(request, async (sandbox, { scope }) => {
+    const parsed = fileUploadSchema.safeParse({
+      name: request.nextUrl.searchParams.get('name') ?? '',
+      type: request.nextUrl.searchParams.get('type') ?? undefined,
+    });
+    if (!parsed.success) {
       return NextResponse.json(
-        { error: 'Invalid form data' },
+        { error: 'Validation failed', details: parsed.error.errors },
         { status: 400 }
       );
     }
+    const file = parsed.data;
 
-    // Extract files from form data
-    const files = formData.getAll('files') as File[];
-
-    if (files.length === 0) {
+    if (!request.body) {
       return NextResponse.json(
-        { error: 'No files provided' },
+        { error: 'No file provided' },
         { status: 400 }
       );
     }
 
-    // Validate files
-    const filesData = files.map(file => ({
-      name: file.name,
-      size: file.size,
-      type: file.type,
-    }));
+    const limits = await getUploadLimits(scope);
+    const fileTooLarge = NextResponse.json(
+      {
+        error: 'File too large',
+        details: `${file.name} is larger than the ${formatMegabytes(limits.maxFileSize)} per-file limit of the ${limits.planName} plan`,
+      },
+      { status: 413 }
+    );
+    const usedBytes = await getUploadsSize(sandbox);
+    const quotaExceeded = NextResponse.json(
+      {
+        error: 'Upload quota exceeded',
+        details: `The ${limits.planName} plan allows ${formatMegabytes(limits.quota)} of uploads per conversation and ${formatMegabytes(usedBytes)} are in use`,
+      },
+      { status: 413 }
+    );
 
-    try {
-      fileUploadSchema.parse({ files: filesData });
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return NextResponse.json(
-          { error: 'Validation failed', details: error.errors },
-          { status: 400 }
-        );
-      }
-      throw error;
+    // Reject what the declared length already gives away, the body itself is cut off
+    // once it passes either limit
+    const declaredSize = Number(request.headers.get('content-length')) || 0;
+    if (declaredSize > limits.maxFileSize) {
+      return fileTooLarge;
+    }
+    if (usedBytes + declaredSize > limits.quota) {
+      return quotaExceeded;
     }
 
-    // Process files for agent context
-    const processedFiles = [];
-
-    for (const file of files) {
-      // Read file content
-      const buffer = await file.arrayBuffer();
-      const content = new TextDecoder().decode(buffer);
+    // Stream the file into the workspace and register it in the conversation
+    const name = sanitizeUploadName(file.name);
+    const path = `${UPLOADS_DIR}/${name}`;
+    const maxBytes = Math.min(limits.maxFileSize, limits.quota - usedBytes);
 
-      // Store file metadata and content for agent context
-      processedFiles.push({
-        name: file.name,
-        type: file.type,
-        size: file.size,
-        content: file.type.startsWith('text/') || file.type.includes('json') ? content : null,
-        base64: !file.type.startsWith('text/') && !file.type.includes('json') ?
-          Buffer.from(buffer).toString('base64') : null,
-      });
+    let size: number;
+    try {
+      size = await writeUpload(sandbox, request.body, { path, maxBytes });
+    } catch (error) {
+      if (!(error instanceof UploadTooLargeError)) throw error;
+      return maxBytes === limits.maxFileSize ? fileTooLarge : quotaExceeded;
     }
 
+    const upload: StoredUpload = {
+      path,
+      name,
+      type: file.type || 'application/octet-stream',
+      size,
+      uploadedAt: Date.now(),
+    };
+    const conversation = getAgentStub({ userId: scope.userId, conversationId: scope.conversationId });
+    await conversation.registerUpload(upload);
+
     return NextResponse.json({
       success: true,
-      files: processedFiles.map(f => ({
-        name: f.name,
-        type: f.type,
-        size: f.size,
-        processed: true,
-      })),
-      message: `Successfully processed ${processedFiles.length} file${processedFiles.length > 1 ? 's' : ''}`,
-    });
-
-  } catch (error) {
-    console.error('File upload error:', error);
-
-    // Handle specific error types
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-    return NextResponse.json(
-      { error: 'File upload failed', details: errorMessage },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+      files: [upload],
+      message: `Successfully uploaded ${name} to ${UPLOADS_DIR}`,
+    } satisfies AgentUploadResponse);
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ZSAError } from "zsa";
+import { requireAdminApiAuth } from "@/lib/auth";
+import { reconcileCreditBalances } from "@/utils/credit-reconciliation";
+
+/**
+ * Credit reconciliation job. Run it on a schedule by calling it with
+ * `Authorization: Bearer $CRON_SECRET`, or as an admin from the browser.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isScheduledRun = Boolean(cronSecret)
+      && request.headers.get("authorization") === `Bearer ${cronSecret}`;
+
+    if (!isScheduledRun) {
+      await requireAdminApiAuth();
+    }
+
+    const report = await reconcileCreditBalances();
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof ZSAError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === "NOT_AUTHORIZED" ? 401 : 403 }
+      );
+    }
+
+    console.error("Credit reconciliation error:", error);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return NextResponse.json(
+      { error: "Credit reconciliation failed", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
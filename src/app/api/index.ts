@@ -15,6 +15,8 @@ import {
   deleteFile,
   renameFile,
   moveFile,
+  downloadFile,
+  downloadDirectory,
   createDirectory,
   gitCheckout,
   setupNextjs,
@@ -22,8 +24,14 @@ import {
   setupVue,
   setupStatic,
 } from "@/lib/agent-helpers";
-import { createSession, executeCell, deleteSession } from "@/lib/agent-helpers/notebook";
+import { createSession, executeCell, deleteSession, type NotebookSessionContext } from "@/lib/agent-helpers/notebook";
 import { errorResponse, jsonResponse, parseJsonBody } from "@/lib/agent-helpers/http";
+import { getSessionFromRequest } from "@/utils/auth";
+import { getSandboxAccessErrorStatus, resolveSandbox } from "@/lib/sandbox-access";
+import { createSecretRedactor, type SecretLoader } from "@/lib/sandbox-secrets";
+import { getSandboxSecrets } from "@/server/secrets";
+import { getAgentStub } from "@/lib/agent-conversation";
+import type { PreviewContext } from "@/lib/previews";
 
 export { Sandbox } from "@cloudflare/sandbox";
 
@@ -34,38 +42,67 @@ function generateSecureRandomString(length: number = 12): string {
   return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
-// Helper function to get user sandbox (async to handle dynamic import)
-async function getUserSandbox(env: unknown) {
-  // Load getSandbox using eval to bypass webpack bundling
-  const { loadGetSandbox } = await import('@/lib/cloudflare-runtime');
-  const getSandbox = await loadGetSandbox();
-  
-  // Placeholder - implement based on your auth/user context
-  // Cast through unknown first due to CloudflareEnv type limitations
-  const envTyped = env as unknown as { SANDBOX: Parameters<typeof getSandbox>[0] };
-  return getSandbox(envTyped.SANDBOX, generateSecureRandomString());
-}
-
 // API Router definition
 const apiRouter = {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   async fetch(request: Request, env: unknown, _ctx: unknown) {
     try {
-      const { pathname } = new URL(request.url);
-      const sandbox = await getUserSandbox(env) as unknown as Sandbox<unknown>;
+      const { pathname, searchParams } = new URL(request.url);
       const envTyped = env as { ASSETS: { fetch: (request: Request) => Response } };
 
+      if (pathname === "/health") {
+        return healthResponse();
+      }
+      if (!pathname.startsWith("/api/")) {
+        return envTyped.ASSETS.fetch(request);
+      }
+
+      const session = await getSessionFromRequest(request);
+      if (!session) {
+        return errorResponse("Not authenticated", 401);
+      }
+
+      // Same sandbox resolution as the Next.js agent routes
+      const teamId = searchParams.get("teamId") || undefined;
+      let sandbox: Sandbox<unknown>;
+      let resolved: Awaited<ReturnType<typeof resolveSandbox>>;
+      try {
+        resolved = await resolveSandbox(env, session, {
+          teamId,
+          conversationId: searchParams.get("conversationId") || undefined,
+          sandboxId: searchParams.get("sessionId") || undefined,
+        });
+        sandbox = resolved.sandbox as unknown as Sandbox<unknown>;
+      } catch (error) {
+        const accessStatus = getSandboxAccessErrorStatus(error);
+        if (!accessStatus) throw error;
+        return errorResponse((error as Error).message, accessStatus);
+      }
+
+      // Secrets are only decrypted by the routes that inject them or mask them in output
+      const loadSecrets: SecretLoader = (names) => getSandboxSecrets({ session, teamId, names });
+
+      // Notebook sessions are stored with the conversation of the sandbox
+      const notebooks: NotebookSessionContext = {
+        store: getAgentStub({ userId: resolved.scope.userId, conversationId: resolved.scope.conversationId }),
+        sandboxId: resolved.sandboxId,
+        loadSecrets,
+      };
+
+      // Exposed ports are recorded as previews of the sandbox's conversation
+      const previews: PreviewContext = { scope: resolved.scope, sandboxId: resolved.sandboxId };
+
       // Try each route group handler; the first non-null response is returned
       const handlers: Array<() => Promise<Response | null>> = [
-        () => handleNotebookRoutes(sandbox, request, pathname),
+        () => handleNotebookRoutes(sandbox, request, pathname, notebooks),
         () => handleCommandRoutes(sandbox, request, pathname),
-        () => handleProcessRoutes(sandbox, request, pathname),
-        () => handlePortRoutes(sandbox, request, pathname),
+        () => handleProcessRoutes(sandbox, request, pathname, loadSecrets),
+        () => handlePortRoutes(sandbox, request, pathname, previews),
         () => handleFileRoutes(sandbox, request, pathname),
-        () => handleTemplateRoutes(sandbox, request, pathname),
+        () => handleTemplateRoutes(sandbox, request, pathname, previews),
         () => handleExamplesRoutes(sandbox, request, pathname),
         () => handleSessionRoutes(sandbox, request, pathname),
-        () => handleUtilityRoutes(sandbox, request, pathname, env),
+        () => handleUtilityRoutes(sandbox, request, pathname),
       ];
 
       for (const getResponse of handlers) {
@@ -87,15 +124,15 @@ const apiRouter = {
 };
 
   // Route group handlers
-  async function handleNotebookRoutes(sandbox: Sandbox<unknown>, request: Request, pathname: string): Promise<Response | null> {
+  async function handleNotebookRoutes(sandbox: Sandbox<unknown>, request: Request, pathname: string, notebooks: NotebookSessionContext): Promise<Response | null> {
     if (pathname === "/api/notebook/session" && request.method === "POST") {
-      return await createSession(sandbox, request);
+      return await createSession(sandbox, request, notebooks);
     }
     if (pathname === "/api/notebook/execute" && request.method === "POST") {
-      return await executeCell(sandbox, request);
+      return await executeCell(sandbox, request, notebooks);
     }
     if (pathname === "/api/notebook/session" && request.method === "DELETE") {
-      return await deleteSession(sandbox, request);
+      return await deleteSession(sandbox, request, notebooks);
     }
     return null;
   }
@@ -110,21 +147,21 @@ const apiRouter = {
     return null;
   }
 
-  async function handleProcessRoutes(sandbox: Sandbox<unknown>, request: Request, pathname: string): Promise<Response | null> {
+  async function handleProcessRoutes(sandbox: Sandbox<unknown>, request: Request, pathname: string, loadSecrets: SecretLoader): Promise<Response | null> {
     if (pathname === "/api/process/list" && request.method === "GET") {
       return await listProcesses(sandbox);
     }
     if (pathname === "/api/process/start" && request.method === "POST") {
-      return await startProcess(sandbox, request);
+      return await startProcess(sandbox, request, loadSecrets);
     }
     if (pathname.startsWith("/api/process/") && request.method === "DELETE") {
       return await killProcesses(sandbox, pathname);
     }
     if (pathname.startsWith("/api/process/") && pathname.endsWith("/logs") && request.method === "GET") {
-      return await getProcessLogs(sandbox, pathname);
+      return await getProcessLogs(sandbox, pathname, createSecretRedactor(await loadSecrets()));
     }
     if (pathname.startsWith("/api/process/") && pathname.endsWith("/stream") && request.method === "GET") {
-      return await streamProcessLogs(sandbox, pathname);
+      return await streamProcessLogs(sandbox, pathname, createSecretRedactor(await loadSecrets()));
     }
     if (pathname.startsWith("/api/process/") && request.method === "GET") {
       return await getProcess(sandbox, pathname);
@@ -132,12 +169,12 @@ const apiRouter = {
     return null;
   }
 
-  async function handlePortRoutes(sandbox: Sandbox<unknown>, request: Request, pathname: string): Promise<Response | null> {
+  async function handlePortRoutes(sandbox: Sandbox<unknown>, request: Request, pathname: string, previews: PreviewContext): Promise<Response | null> {
     if (pathname === "/api/expose-port" && request.method === "POST") {
-      return await exposePort(sandbox, request);
+      return await exposePort(sandbox, request, previews);
     }
     if (pathname === "/api/unexpose-port" && request.method === "POST") {
-      return await unexposePort(sandbox, request);
+      return await unexposePort(sandbox, request, previews);
     }
     if (pathname === "/api/exposed-ports" && request.method === "GET") {
       const hostname = new URL(request.url).host;
@@ -175,24 +212,30 @@ const apiRouter = {
     if (pathname === "/api/mkdir" && request.method === "POST") {
       return await createDirectory(sandbox, request);
     }
+    if (pathname === "/api/download" && request.method === "POST") {
+      return await downloadFile(sandbox, request);
+    }
+    if (pathname === "/api/download/archive" && request.method === "POST") {
+      return await downloadDirectory(sandbox, request);
+    }
     if (pathname === "/api/git/checkout" && request.method === "POST") {
       return await gitCheckout(sandbox, request);
     }
     return null;
   }
 
-  async function handleTemplateRoutes(sandbox: Sandbox<unknown>, request: Request, pathname: string): Promise<Response | null> {
+  async function handleTemplateRoutes(sandbox: Sandbox<unknown>, request: Request, pathname: string, previews: PreviewContext): Promise<Response | null> {
     if (pathname === "/api/templates/nextjs" && request.method === "POST") {
-      return await setupNextjs(sandbox, request);
+      return await setupNextjs(sandbox, request, previews);
     }
     if (pathname === "/api/templates/react" && request.method === "POST") {
-      return await setupReact(sandbox, request);
+      return await setupReact(sandbox, request, previews);
     }
     if (pathname === "/api/templates/vue" && request.method === "POST") {
-      return await setupVue(sandbox, request);
+      return await setupVue(sandbox, request, previews);
     }
     if (pathname === "/api/templates/static" && request.method === "POST") {
-      return await setupStatic(sandbox, request);
+      return await setupStatic(sandbox, request, previews);
     }
     return null;
   }
@@ -299,50 +342,49 @@ print("About to cause an error")
     return null;
   }
 
+  function healthResponse(): Response {
+    return jsonResponse({
+      status: "healthy",
+      timestamp: new Date().toISOString(),
+      message: "Sandbox SDK Tester is running",
+      apis: [
+        "POST /api/execute - Execute commands",
+        "POST /api/execute/stream - Execute with streaming",
+        "GET /api/process/list - List processes",
+        "POST /api/process/start - Start process",
+        "DELETE /api/process/{id} - Kill process",
+        "GET /api/process/{id}/logs - Get process logs",
+        "GET /api/process/{id}/stream - Stream process logs",
+        "POST /api/expose-port - Expose port",
+        "GET /api/exposed-ports - List exposed ports",
+        "POST /api/write - Write file",
+        "POST /api/read - Read file",
+        "POST /api/list-files - List files in directory",
+        "POST /api/delete - Delete file",
+        "POST /api/rename - Rename file",
+        "POST /api/move - Move file",
+        "POST /api/mkdir - Create directory",
+        "POST /api/git/checkout - Git checkout",
+        "POST /api/templates/nextjs - Setup Next.js project",
+        "POST /api/templates/react - Setup React project",
+        "POST /api/templates/vue - Setup Vue project",
+        "POST /api/templates/static - Setup static site",
+        "POST /api/notebook/session - Create notebook session",
+        "POST /api/notebook/execute - Execute notebook cell",
+        "DELETE /api/notebook/session - Delete notebook session",
+        "GET /api/examples/basic-python - Basic Python example",
+        "GET /api/examples/chart - Chart generation example",
+        "GET /api/examples/javascript - JavaScript execution example",
+        "GET /api/examples/error - Error handling example",
+      ]
+    });
+  }
+
   async function handleUtilityRoutes(
     sandbox: Sandbox<unknown>,
     request: Request,
-    pathname: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _env: unknown
+    pathname: string
   ): Promise<Response | null> {
-    if (pathname === "/health") {
-      return jsonResponse({
-        status: "healthy",
-        timestamp: new Date().toISOString(),
-        message: "Sandbox SDK Tester is running",
-        apis: [
-          "POST /api/execute - Execute commands",
-          "POST /api/execute/stream - Execute with streaming",
-          "GET /api/process/list - List processes",
-          "POST /api/process/start - Start process",
-          "DELETE /api/process/{id} - Kill process",
-          "GET /api/process/{id}/logs - Get process logs",
-          "GET /api/process/{id}/stream - Stream process logs",
-          "POST /api/expose-port - Expose port",
-          "GET /api/exposed-ports - List exposed ports",
-          "POST /api/write - Write file",
-          "POST /api/read - Read file",
-          "POST /api/list-files - List files in directory",
-          "POST /api/delete - Delete file",
-          "POST /api/rename - Rename file",
-          "POST /api/move - Move file",
-          "POST /api/mkdir - Create directory",
-          "POST /api/git/checkout - Git checkout",
-          "POST /api/templates/nextjs - Setup Next.js project",
-          "POST /api/templates/react - Setup React project",
-          "POST /api/templates/vue - Setup Vue project",
-          "POST /api/templates/static - Setup static site",
-          "POST /api/notebook/session - Create notebook session",
-          "POST /api/notebook/execute - Execute notebook cell",
-          "DELETE /api/notebook/session - Delete notebook session",
-          "GET /api/examples/basic-python - Basic Python example",
-          "GET /api/examples/chart - Chart generation example",
-          "GET /api/examples/javascript - JavaScript execution example",
-          "GET /api/examples/error - Error handling example",
-        ]
-      });
-    }
     if (pathname === "/api/ping") {
       try {
         await sandbox.exec("echo 'Sandbox initialized'");
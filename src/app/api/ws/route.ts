@@ -1,12 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCloudflareContext } from '@opennextjs/cloudflare';
 import { requireApiAuth } from '@/lib/auth';
+import { getSandboxAccessErrorStatus } from '@/lib/sandbox-access';
+import { verifyRoomJoinToken } from '@/server/rooms';
 
+// Rooms are only joined from the app's own pages
+function isSameOrigin(request: NextRequest, origin: string) {
+  try {
+    return new URL(origin).host === request.nextUrl.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Join a room with a token from POST /api/ws/token. The room, the user and whether they
+ * may post all come from the token, so the query can't widen them.
+ */
 export async function GET(request: NextRequest) {
   try {
     // Require authentication
     const session = await requireApiAuth();
-    const userId = session.user.id;
 
     // Check for WebSocket upgrade
     const upgradeHeader = request.headers.get('Upgrade');
@@ -14,6 +28,21 @@ export async function GET(request: NextRequest) {
       return new NextResponse('Expected WebSocket', { status: 426 });
     }
 
+    // Browsers send cookies with cross-site WebSocket handshakes
+    const origin = request.headers.get('Origin');
+    if (!origin || !isSameOrigin(request, origin)) {
+      return NextResponse.json({ error: 'Cross-origin WebSocket connections are not allowed' }, { status: 403 });
+    }
+
+    const token = request.nextUrl.searchParams.get('token');
+    const joinToken = token ? await verifyRoomJoinToken(token) : null;
+    if (!joinToken) {
+      return NextResponse.json({ error: 'Join token is missing, invalid or expired' }, { status: 401 });
+    }
+    if (joinToken.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Join token belongs to another user' }, { status: 403 });
+    }
+
     // Get Cloudflare context
     const { env } = getCloudflareContext();
     
@@ -27,15 +56,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get or create a Durable Object instance for this chat room
-    // You can use different IDs for different chat rooms/channels
-    const roomId = request.nextUrl.searchParams.get('room') || 'global';
-    const id = envAny.WEBSOCKET_DO.idFromName(roomId);
+    // One Durable Object instance per room
+    const id = envAny.WEBSOCKET_DO.idFromName(joinToken.room);
     const stub = envAny.WEBSOCKET_DO.get(id);
 
-    // Build the WebSocket URL with user info
+    // Only the replay cursor is taken from the client
     const url = new URL(request.url);
-    url.searchParams.set('userId', userId);
+    url.search = '';
+    url.searchParams.set('userId', joinToken.userId);
+    url.searchParams.set('userName', joinToken.userName);
+    url.searchParams.set('permission', joinToken.permission);
+    const cursor = request.nextUrl.searchParams.get('cursor');
+    if (cursor) {
+      url.searchParams.set('cursor', cursor);
+    }
 
     // Forward the WebSocket request to the Durable Object
     const response = await stub.fetch(url, {
@@ -56,12 +90,12 @@ export async function GET(request: NextRequest) {
 
   } catch (error) {
     console.error('[WebSocket] Connection error:', error);
-    
-    // Check if it's an auth error
-    if (error instanceof Error && error.message.includes('Unauthorized')) {
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
       return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
+        { error: 'Access denied', details: error instanceof Error ? error.message : 'Unknown error' },
+        { status: accessStatus }
       );
     }
     
@@ -72,14 +106,20 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// OPTIONS handler for CORS preflight
-export async function OPTIONS() {
+// OPTIONS handler for CORS preflight, only the app's own origin is allowed
+export async function OPTIONS(request: NextRequest) {
+  const origin = request.headers.get('Origin');
+  if (!origin || !isSameOrigin(request, origin)) {
+    return new NextResponse(null, { status: 204 });
+  }
+
   return new NextResponse(null, {
     status: 204,
     headers: {
-      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Origin': origin,
       'Access-Control-Allow-Methods': 'GET, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization, Upgrade, Connection',
+      'Vary': 'Origin',
     },
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireApiAuth } from '@/lib/auth';
+import { getSandboxAccessErrorStatus } from '@/lib/sandbox-access';
+import { roomTokenSchema } from '@/schemas/room.schema';
+import { createRoomJoinToken } from '@/server/rooms';
+
+/**
+ * A join token for a room the caller may enter, used as the `token` query parameter of
+ * /api/ws within a minute. The response says whether they may post or only watch.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireApiAuth();
+
+    const parsed = roomTokenSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await createRoomJoinToken(session, parsed.data.room));
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json({ error: 'Access denied', details: errorMessage }, { status: accessStatus });
+    }
+
+    console.error('[WebSocket] Join token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create join token', details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
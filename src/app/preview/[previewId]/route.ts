@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { PREVIEW_ACCESS } from "@/db/schema";
+import { getPreviewUrl } from "@/lib/preview-access";
+import { createPreviewLink } from "@/lib/previews";
+import { getSandboxAccessErrorStatus } from "@/lib/sandbox-access";
+import { canOpenSandboxPreview, getSandboxPreview } from "@/server/sandbox-previews";
+import { getSessionFromCookie } from "@/utils/auth";
+
+/**
+ * Open a preview as the signed-in user: redirects to its URL with a member token, which
+ * the preview gate trades for a cookie on the preview's host. Chat embeds previews
+ * through this route, as the app's session cookie doesn't reach preview hosts.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ previewId: string }> }) {
+  const { previewId } = await params;
+
+  const session = await getSessionFromCookie();
+  if (!session) {
+    const signInUrl = new URL("/sign-in", request.url);
+    signInUrl.searchParams.set("redirect", `/preview/${previewId}`);
+    return NextResponse.redirect(signInUrl);
+  }
+
+  try {
+    const preview = await getSandboxPreview(previewId);
+    if (!canOpenSandboxPreview(session, preview)) {
+      return NextResponse.json({ error: "Preview not found" }, { status: 404 });
+    }
+
+    if (preview.access === PREVIEW_ACCESS.PUBLIC) {
+      return NextResponse.redirect(getPreviewUrl(preview, request.url));
+    }
+
+    const { url } = await createPreviewLink(preview, "member", request.url);
+    return NextResponse.redirect(url);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json({ error: "Access denied", details: errorMessage }, { status: accessStatus });
+    }
+
+    console.error("Open preview error:", error);
+    return NextResponse.json(
+      { error: "Failed to open preview", details: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { useSessionStore } from "@/state/session";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const PERSONAL_CREDITS = "personal";
+
+/**
+ * Pick whose credits pay for agent runs: the user's own or one of their teams' pools.
+ */
+export function BillToSelect({
+  teamId,
+  onChange,
+  disabled,
+}: {
+  teamId?: string;
+  onChange: (teamId?: string) => void;
+  disabled?: boolean;
+}) {
+  const teams = useSessionStore((state) => state.session?.teams);
+
+  // Nothing to choose without teams
+  if (!teams || teams.length === 0) {
+    return null;
+  }
+
+  return (
+    <Select
+      value={teamId ?? PERSONAL_CREDITS}
+      onValueChange={(value) => onChange(value === PERSONAL_CREDITS ? undefined : value)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-44 shrink-0" aria-label="Bill to">
+        <SelectValue placeholder="Bill to" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={PERSONAL_CREDITS}>Personal credits</SelectItem>
+        {teams.map((team) => (
+          <SelectItem key={team.id} value={team.id}>
+            {team.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,21 +1,48 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import type { ChangeEvent, KeyboardEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { toast } from "sonner";
+import { useRunCancel } from "@/hooks/useRunCancel";
+import type { ToolExecutionOutput } from "@/lib/agent-tools";
+import { createAgentConversationAction } from "@/actions/agent-conversation-actions";
+import { BillToSelect } from "./BillToSelect";
+import { SecretsSelect } from "./SecretsSelect";
+import { WorkspaceFiles } from "./WorkspaceFiles";
+import { PreviewPanel } from "./PreviewPanel";
+import { DiffView } from "./DiffView";
+import { describeRunControl, SharedRunBar } from "./SharedRunBar";
+import { readResumableServerSentEvents } from "@/utils/read-server-sent-events";
+import { useAgentRoom } from "@/lib/websocket/agent-room";
+import type { WebSocketMessage } from "@/lib/websocket/client";
+import type {
+  AgentExecutionStreamEvent,
+  AgentStreamEvent,
+  AgentUploadResponse,
+  AgentUsage,
+  ConversationHistory,
+  GitDiffFile,
+  RoomWelcome,
+  RunControl,
+  StoredMessage,
+  StoredUpload,
+} from "@/types/agent";
 
 enum OutputType {
   Text = "text",
   Image = "image",
+  Diff = "diff",
 }
 
 interface Output {
   id?: string;
   type: OutputType;
   data: string;
+  // Files of a diff output
+  diff?: GitDiffFile[];
 }
 
 enum Role {
@@ -29,6 +56,9 @@ interface Message {
   content: string;
   timestamp: Date;
   outputs: Output[];
+  usage?: AgentUsage;
+  // Who interjected, for messages of other members of the conversation's room
+  author?: string;
 }
 
 enum ImageFormat {
@@ -103,32 +133,284 @@ function getTextOutput(obj: InterpreterOutput, fallback: unknown): string {
     : JSON.stringify(fallback);
 }
 
-export function ChatInterface() {
+function toOutputs(outputs: unknown[], idPrefix: string): Output[] {
+  return outputs.map((output: unknown, index: number): Output => {
+    if (output && typeof output === "object") {
+      const outputObj = output as InterpreterOutput;
+      const image = getImageParts(outputObj);
+      if (image) {
+        return {
+          id: `${idPrefix}-${index}`,
+          type: OutputType.Image,
+          data: `data:image/${image.format};base64,${image.data}`,
+        };
+      }
+      return {
+        id: `${idPrefix}-${index}`,
+        type: OutputType.Text,
+        data: getTextOutput(outputObj, output),
+      };
+    }
+    return {
+      id: `${idPrefix}-${index}`,
+      type: OutputType.Text,
+      data: String(output),
+    };
+  });
+}
+
+function toolResultOutputs(toolCallId: string, output: unknown): Output[] {
+  const result = (output ?? {}) as Partial<ToolExecutionOutput>;
+  const outputs: Output[] = [];
+  const text = [result.stdout, result.stderr, result.error].filter(Boolean).join("\n");
+
+  if (text) {
+    outputs.push({ id: `${toolCallId}-text`, type: OutputType.Text, data: text });
+  }
+  if (result.diff && result.diff.length > 0) {
+    outputs.push({ id: `${toolCallId}-diff`, type: OutputType.Diff, data: "", diff: result.diff });
+  }
+
+  return [...outputs, ...toOutputs(result.results ?? [], `${toolCallId}-result`)];
+}
+
+function toolCallOutput({
+  id,
+  step,
+  toolName,
+  input,
+}: {
+  id: string;
+  step: number;
+  toolName: string;
+  input: unknown;
+}): Output {
+  return {
+    id: `${id}-call`,
+    type: OutputType.Text,
+    data: `Step ${step} · ${toolName}\n${JSON.stringify(input, null, 2)}`,
+  };
+}
+
+// Output of code still running, replaced by the tool result
+function appendToolOutput(outputs: Output[], toolCallId: string, text: string): Output[] {
+  const id = `${toolCallId}-live`;
+  const live = outputs.find((output) => output.id === id);
+  if (!live) {
+    return [...outputs, { id, type: OutputType.Text, data: text }];
+  }
+  return outputs.map((output) => (output === live ? { ...output, data: output.data + text } : output));
+}
+
+function withoutToolOutput(outputs: Output[], toolCallId: string) {
+  return outputs.filter((output) => output.id !== `${toolCallId}-live`);
+}
+
+function toolErrorOutput({
+  id,
+  toolName,
+  error,
+}: {
+  id: string;
+  toolName: string;
+  error: string;
+}): Output {
+  return {
+    id: `${id}-error`,
+    type: OutputType.Text,
+    data: `${toolName} failed: ${error}`,
+  };
+}
+
+function fromStoredMessage(message: StoredMessage): Message {
+  return {
+    id: message.id,
+    role: message.role === "user" ? Role.User : Role.Assistant,
+    content: message.content,
+    timestamp: new Date(message.createdAt),
+    outputs: message.toolCalls.flatMap((toolCall) => [
+      toolCallOutput(toolCall),
+      ...(toolCall.error
+        ? [toolErrorOutput({ id: toolCall.id, toolName: toolCall.toolName, error: toolCall.error })]
+        : toolResultOutputs(toolCall.id, toolCall.output)),
+    ]),
+    usage: message.usage,
+  };
+}
+
+interface ChatInterfaceProps {
+  /**
+   * Conversation to resume. Without one, a conversation is created on the first message.
+   */
+  conversationId?: string;
+  onConversationCreated?: (conversationId: string) => void;
+}
+
+function getHistoryUrl(conversationId: string) {
+  return `/api/agent/history?conversationId=${encodeURIComponent(conversationId)}`;
+}
+
+export function ChatInterface({ conversationId, onConversationCreated }: ChatInterfaceProps = {}) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<StoredUpload[]>([]);
+  // Team whose credit pool pays for runs, personal credits when unset
+  const [billingTeamId, setBillingTeamId] = useState<string>();
+  // Secrets exposed to code the agent runs
+  const [secretNames, setSecretNames] = useState<string[]>([]);
+  // Bumped after every run so the workspace panel picks up files the agent changed
+  const [workspaceVersion, setWorkspaceVersion] = useState(0);
+  const conversationIdRef = useRef(conversationId);
+  const currentUserIdRef = useRef<string | null>(null);
+
+  // Teammates in the conversation's room watch the agent's runs and may steer them
+  const handleRoomMessage = useCallback((message: WebSocketMessage) => {
+    if (message.type === "welcome") {
+      currentUserIdRef.current = (message.data as RoomWelcome).user.id;
+      return;
+    }
+    if (message.type !== "run-control" || !message.user) return;
+
+    const control = message.data as RunControl;
+    const isOwn = message.user.id === currentUserIdRef.current;
+    if (control.action === "interject") {
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: `room-${message.seq ?? message.timestamp}`,
+          role: Role.User,
+          content: control.text ?? "",
+          timestamp: new Date(message.timestamp),
+          outputs: [],
+          author: isOwn ? undefined : message.user?.name,
+        },
+      ]);
+    } else if (!isOwn) {
+      toast.info(describeRunControl(control, message.user.name));
+    }
+  }, []);
+
+  const agentRoom = useAgentRoom({
+    room: conversationId ? `conversation:${conversationId}` : undefined,
+    enabled: Boolean(conversationId),
+    onMessage: handleRoomMessage,
+  });
+  // The run being waited for, which the user may stop
+  const activeRun = useRunCancel();
+  // While a run is shared in the room, messages go to the agent as interjections
+  const canInterject = isLoading && agentRoom.isConnected && agentRoom.run !== null && agentRoom.permission === "steer";
+
+  const loadHistory = useCallback(async () => {
+    if (!conversationId) {
+      return;
+    }
 
-  const handleFileUpload = async (files: FileList) => {
-    // Implement file upload to agent context
-    const formData = new FormData();
-    Array.from(files).forEach((file) => formData.append("files", file));
+    try {
+      const response = await fetch(getHistoryUrl(conversationId));
+      if (!response.ok) {
+        throw new Error(`History API returned ${response.status}`);
+      }
+
+      const history = (await response.json()) as ConversationHistory;
+      setMessages(history.messages.map(fromStoredMessage));
+      setUploadedFiles(history.uploads);
+    } catch (error) {
+      console.error("[AgentChat] Failed to load history:", error);
+      toast.error("Failed to load conversation history");
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    conversationIdRef.current = conversationId;
+    loadHistory();
+  }, [conversationId, loadHistory]);
+
+  const ensureConversation = async (firstMessage: string) => {
+    if (conversationIdRef.current) {
+      return conversationIdRef.current;
+    }
+
+    const [result, err] = await createAgentConversationAction({ firstMessage });
+    if (err) {
+      throw new Error(err.message);
+    }
+
+    conversationIdRef.current = result.data.id;
+    return result.data.id;
+  };
+
+  const clearHistory = async () => {
+    const activeConversationId = conversationIdRef.current;
+    if (!activeConversationId) {
+      setMessages([]);
+      return;
+    }
 
     try {
-      const response = await fetch("/api/agent/upload", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (response.ok) {
-        setUploadedFiles((prev) => [...prev, ...Array.from(files)]);
-        toast.success("Files uploaded successfully");
-      } else {
-        toast.error("Failed to upload files");
+      const response = await fetch(getHistoryUrl(activeConversationId), { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(`History API returned ${response.status}`);
       }
+
+      setMessages([]);
+      toast.success("Conversation cleared");
     } catch (error) {
-      console.error("Upload failed:", error);
-      toast.error("Failed to upload files");
+      console.error("[AgentChat] Failed to clear history:", error);
+      toast.error("Failed to clear conversation");
+    }
+  };
+
+  const handleFileUpload = async (files: FileList) => {
+    // Uploads go into the conversation's workspace, so start one if needed
+    const fileList = Array.from(files);
+    let activeConversationId: string;
+    try {
+      activeConversationId = await ensureConversation(`Files: ${fileList.map((file) => file.name).join(", ")}`);
+    } catch (error) {
+      console.error("[AgentChat] Failed to create conversation:", error);
+      toast.error("Failed to start a conversation");
+      return;
+    }
+
+    // Each file is its own request, streamed into the workspace as the raw body
+    const uploads: AgentUploadResponse["files"] = [];
+    for (const file of fileList) {
+      const params = new URLSearchParams({ conversationId: activeConversationId, name: file.name, type: file.type });
+      if (billingTeamId) {
+        params.set("teamId", billingTeamId);
+      }
+
+      try {
+        const response = await fetch(`/api/agent/upload?${params}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: file,
+        });
+        const result = (await response.json()) as Partial<AgentUploadResponse> & { error?: string; details?: string };
+
+        if (response.ok && result.files) {
+          uploads.push(...result.files);
+        } else {
+          toast.error(result.details || result.error || `Failed to upload ${file.name}`);
+        }
+      } catch (error) {
+        console.error("Upload failed:", error);
+        toast.error(`Failed to upload ${file.name}`);
+      }
+    }
+
+    if (uploads.length > 0) {
+      setUploadedFiles((prev) => [
+        ...prev.filter((upload) => !uploads.some((added) => added.path === upload.path)),
+        ...uploads,
+      ]);
+      setWorkspaceVersion((version) => version + 1);
+      toast.success(`Uploaded ${uploads.length} file${uploads.length > 1 ? "s" : ""}`);
+    }
+
+    if (activeConversationId !== conversationId) {
+      onConversationCreated?.(activeConversationId);
     }
   };
 
@@ -137,6 +419,14 @@ export function ChatInterface() {
       return;
     }
 
+    if (agentRoom.isConnected) agentRoom.notifyTyping(false);
+    if (canInterject) {
+      if (agentRoom.controlRun("interject", input.trim())) {
+        setInput("");
+      }
+      return;
+    }
+
     const userMessage: Message = {
       id: Date.now().toString(),
       role: Role.User,
@@ -149,6 +439,16 @@ export function ChatInterface() {
     setInput("");
     setIsLoading(true);
 
+    let activeConversationId: string;
+    try {
+      activeConversationId = await ensureConversation(input);
+    } catch (error) {
+      console.error("[AgentChat] Failed to create conversation:", error);
+      toast.error("Failed to start a conversation");
+      setIsLoading(false);
+      return;
+    }
+
     // Check if the message contains code blocks for streaming execution
     const isCodeExecution = input.includes("```") || input.toLowerCase().includes("run") || input.toLowerCase().includes("execute");
     
@@ -164,12 +464,16 @@ export function ChatInterface() {
             message: input,
             code: input.replace(/```[a-z]*\n?/g, "").replace(/```/g, ""), // Extract code from markdown
             language: "python",
+            conversationId: activeConversationId,
+            teamId: billingTeamId,
+            secrets: secretNames,
           }),
         });
 
         if (!response.ok) {
           throw new Error(`Stream API returned ${response.status}`);
         }
+        activeRun.trackRun(response);
 
         // Create assistant message that will be updated with streaming content
         const assistantMessageId = (Date.now() + 1).toString();
@@ -183,85 +487,63 @@ export function ChatInterface() {
         
         setMessages((prev) => [...prev, assistantMessage]);
 
-        // Process the stream
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let buffer = "";
+        // Process the stream, resuming it when the connection drops
         let outputContent = "";
 
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-
-            for (const line of lines) {
-              if (line.startsWith("data: ")) {
-                try {
-                  const data = JSON.parse(line.slice(6));
-                  
-                  if (data.type === "output" || data.type === "error_output") {
-                    outputContent += data.content;
-                    // Update the message with accumulated output
-                    setMessages((prev) => 
-                      prev.map((msg) => 
-                        msg.id === assistantMessageId 
-                          ? { 
-                              ...msg, 
-                              content: outputContent,
-                              outputs: [{
-                                type: OutputType.Text,
-                                data: outputContent
-                              }]
-                            }
-                          : msg
-                      )
-                    );
-                  } else if (data.type === "result") {
-                    // Final result
-                    setMessages((prev) => 
-                      prev.map((msg) => 
-                        msg.id === assistantMessageId 
-                          ? { 
-                              ...msg, 
-                              content: outputContent || data.content || "Execution completed",
-                              outputs: [{
-                                type: OutputType.Text,
-                                data: outputContent || data.content
-                              }]
-                            }
-                          : msg
-                      )
-                    );
-                  } else if (data.type === "error") {
-                    toast.error("Execution error: " + data.message);
-                    setMessages((prev) => 
-                      prev.map((msg) => 
-                        msg.id === assistantMessageId 
-                          ? { ...msg, content: `Error: ${data.message}` }
-                          : msg
-                      )
-                    );
-                  } else if (data.type === "status") {
-                    // Show status updates
-                    setMessages((prev) => 
-                      prev.map((msg) => 
-                        msg.id === assistantMessageId 
-                          ? { ...msg, content: data.message }
-                          : msg
-                      )
-                    );
-                  }
-                } catch (e) {
-                  console.error("Failed to parse SSE data:", e);
-                }
-              }
-            }
+        await readResumableServerSentEvents<AgentExecutionStreamEvent>(response, (data) => {
+          if (data.type === "output" || data.type === "error_output") {
+            outputContent += data.content;
+            // Update the message with accumulated output
+            setMessages((prev) => 
+              prev.map((msg) => 
+                msg.id === assistantMessageId 
+                  ? { 
+                      ...msg, 
+                      content: outputContent,
+                      outputs: [{
+                        type: OutputType.Text,
+                        data: outputContent
+                      }]
+                    }
+                  : msg
+              )
+            );
+          } else if (data.type === "result") {
+            // Final result
+            setMessages((prev) => 
+              prev.map((msg) => 
+                msg.id === assistantMessageId 
+                  ? { 
+                      ...msg, 
+                      content: outputContent || data.content || "Execution completed",
+                      outputs: [{
+                        type: OutputType.Text,
+                        data: outputContent || data.content
+                      }]
+                    }
+                  : msg
+              )
+            );
+          } else if (data.type === "error") {
+            toast.error("Execution error: " + data.message);
+            setMessages((prev) => 
+              prev.map((msg) => 
+                msg.id === assistantMessageId 
+                  ? { ...msg, content: `Error: ${data.message}` }
+                  : msg
+              )
+            );
+          } else if (data.type === "status") {
+            // Show status updates
+            setMessages((prev) => 
+              prev.map((msg) => 
+                msg.id === assistantMessageId 
+                  ? { ...msg, content: data.message }
+                  : msg
+              )
+            );
           }
-        }
+        });
 
         toast.success("Code executed successfully");
       } catch (error) {
@@ -277,17 +559,20 @@ export function ChatInterface() {
         toast.error("Failed to execute code");
       }
     } else {
-      // Use regular interpret endpoint for non-code messages
+      // Use the agent loop for everything else
+      const assistantMessageId = (Date.now() + 1).toString();
       try {
         console.log("[AgentChat] Sending message to interpret API:", input);
-        
+
         const response = await fetch("/api/agent/interpret", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             message: input,
-            code: input,
             language: "python",
+            conversationId: activeConversationId,
+            teamId: billingTeamId,
+            secrets: secretNames,
           }),
         });
 
@@ -298,189 +583,257 @@ export function ChatInterface() {
           console.error("[AgentChat] API error response:", errorData);
           throw new Error(`API returned ${response.status}: ${errorData}`);
         }
+        activeRun.trackRun(response);
 
-        const data = await response.json() as { result?: string; outputs?: unknown[]; error?: string; success?: boolean };
-        console.log("[AgentChat] API response data:", data);
-
-        // Check if there was an error in execution
-        if (data.error) {
-          const errorMessage: Message = {
-            id: (Date.now() + 1).toString(),
+        setMessages((prev) => [
+          ...prev,
+          {
+            id: assistantMessageId,
             role: Role.Assistant,
-            content: `Error: ${data.error}`,
+            content: "",
             timestamp: new Date(),
             outputs: [],
-          };
-          setMessages((prev) => [...prev, errorMessage]);
-          toast.error("Code execution failed");
-          return;
-        }
+          },
+        ]);
 
-        // Transform outputs to match Output type if they exist
-        const transformedOutputs: Output[] = Array.isArray(data.outputs)
-          ? data.outputs.map((output: unknown, index: number): Output => {
-              if (output && typeof output === "object") {
-                const outputObj = output as InterpreterOutput;
-                const image = getImageParts(outputObj);
-                if (image) {
-                  return {
-                    id: `output-${index}`,
-                    type: OutputType.Image,
-                    data: `data:image/${image.format};base64,${image.data}`,
-                  };
-                }
-                return {
-                  id: `output-${index}`,
-                  type: OutputType.Text,
-                  data: getTextOutput(outputObj, output),
-                };
-              }
-              return {
-                id: `output-${index}`,
-                type: OutputType.Text,
-                data: String(output),
-              };
-            })
-          : [];
+        const updateAssistant = (update: (msg: Message) => Message) =>
+          setMessages((prev) =>
+            prev.map((msg) => (msg.id === assistantMessageId ? update(msg) : msg))
+          );
 
-        const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          role: Role.Assistant,
-          content: data.result || "Command executed successfully",
-          timestamp: new Date(),
-          outputs: transformedOutputs,
-        };
+        let hasError = false;
+
+        await readResumableServerSentEvents<AgentStreamEvent>(response, (event) => {
+          switch (event.type) {
+            case "text-delta":
+              updateAssistant((msg) => ({ ...msg, content: msg.content + event.text }));
+              break;
+            case "tool-call":
+              updateAssistant((msg) => ({
+                ...msg,
+                outputs: [
+                  ...msg.outputs,
+                  toolCallOutput({ id: event.toolCallId, ...event }),
+                ],
+              }));
+              break;
+            case "tool-output":
+              updateAssistant((msg) => ({
+                ...msg,
+                outputs: appendToolOutput(msg.outputs, event.toolCallId, event.text),
+              }));
+              break;
+            case "tool-result":
+              updateAssistant((msg) => ({
+                ...msg,
+                outputs: [
+                  ...withoutToolOutput(msg.outputs, event.toolCallId),
+                  ...toolResultOutputs(event.toolCallId, event.output),
+                ],
+              }));
+              break;
+            case "tool-error":
+              updateAssistant((msg) => ({
+                ...msg,
+                outputs: [
+                  ...withoutToolOutput(msg.outputs, event.toolCallId),
+                  toolErrorOutput({ id: event.toolCallId, ...event }),
+                ],
+              }));
+              break;
+            case "finish":
+              updateAssistant((msg) => ({
+                ...msg,
+                content: msg.content || event.text || "Done",
+                usage: event.usage,
+              }));
+              break;
+            case "error":
+              hasError = true;
+              updateAssistant((msg) => ({ ...msg, content: `Error: ${event.message}` }));
+              toast.error(event.message);
+              break;
+          }
+        });
 
-        setMessages((prev) => [...prev, assistantMessage]);
-        
-        if (data.success !== false) {
-          toast.success("Message sent successfully");
+        if (!hasError) {
+          toast.success("Agent finished");
         }
       } catch (error) {
         console.error("[AgentChat] Error:", error);
-        
+
         const errorMessage: Message = {
-          id: (Date.now() + 1).toString(),
+          id: (Date.now() + 2).toString(),
           role: Role.Assistant,
           content: `Sorry, I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}`,
           timestamp: new Date(),
           outputs: [],
         };
-        
+
         setMessages((prev) => [...prev, errorMessage]);
         toast.error(error instanceof Error ? error.message : "Failed to send message");
       }
     }
+
+    if (activeConversationId !== conversationId) {
+      onConversationCreated?.(activeConversationId);
+    }
     
+    activeRun.trackRun(null);
     setIsLoading(false);
+    setWorkspaceVersion((version) => version + 1);
   };
 
   return (
-    <div className="flex flex-col h-[600px] w-full max-w-4xl mx-auto">
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message) => {
-          const isUser = message.role === Role.User;
-          const cardClass = isUser
-            ? "ml-auto max-w-[80%] bg-blue-50"
-            : "mr-auto max-w-[80%] bg-gray-50";
-          const authorLabel = isUser ? "You" : "AI Agent";
-          const { outputs } = message;
-          const hasOutputs = outputs.length > 0;
-
-          return (
-            <Card key={message.id} className={`p-4 ${cardClass}`}>
-              <div className="font-semibold text-sm mb-2">{authorLabel}</div>
-              <div className="whitespace-pre-wrap">{message.content}</div>
-
-              {/* Render code execution outputs */}
-              {hasOutputs && (
-                <div className="mt-4 space-y-2">
-                  {outputs.map((output, idx) => (
-                    <div
-                      key={output.id ?? `${message.id}-${output.type}-${idx}`}
-                      className="bg-gray-100 p-2 rounded"
-                    >
-                      {output.type === OutputType.Image && (
-                        // eslint-disable-next-line @next/next/no-img-element
-                        <img
-                          src={output.data}
-                          alt="Generated output"
-                          className="max-w-full"
-                        />
-                      )}
-                      {output.type === OutputType.Text && (
-                        <pre className="text-sm">{output.data}</pre>
-                      )}
-                    </div>
-                  ))}
+    <div className="flex h-[600px] w-full max-w-6xl mx-auto">
+      <div className="flex flex-col flex-1 min-w-0">
+        {/* Teammates watching the conversation */}
+        <SharedRunBar room={agentRoom} />
+
+        {/* Messages Area */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.map((message) => {
+            const isUser = message.role === Role.User;
+            const cardClass = isUser
+              ? "ml-auto max-w-[80%] bg-blue-50"
+              : "mr-auto max-w-[80%] bg-gray-50";
+            const authorLabel = isUser ? message.author ?? "You" : "AI Agent";
+            const { outputs } = message;
+            const hasOutputs = outputs.length > 0;
+
+            return (
+              <Card key={message.id} className={`p-4 ${cardClass}`}>
+                <div className="font-semibold text-sm mb-2">{authorLabel}</div>
+                <div className="whitespace-pre-wrap">{message.content}</div>
+
+                {/* Render code execution outputs */}
+                {hasOutputs && (
+                  <div className="mt-4 space-y-2">
+                    {outputs.map((output, idx) => (
+                      <div
+                        key={output.id ?? `${message.id}-${output.type}-${idx}`}
+                        className="bg-gray-100 p-2 rounded"
+                      >
+                        {output.type === OutputType.Image && (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            src={output.data}
+                            alt="Generated output"
+                            className="max-w-full"
+                          />
+                        )}
+                        {output.type === OutputType.Text && (
+                          <pre className="text-sm">{output.data}</pre>
+                        )}
+                        {output.type === OutputType.Diff && output.diff && (
+                          <DiffView files={output.diff} />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="text-xs text-gray-500 mt-2">
+                  {message.timestamp.toLocaleTimeString()}
+                  {message.usage && (
+                    <span className="ml-2">
+                      · {message.usage.totalTokens} tokens ({message.usage.inputTokens} in / {message.usage.outputTokens} out)
+                    </span>
+                  )}
                 </div>
-              )}
-
-              <div className="text-xs text-gray-500 mt-2">
-                {message.timestamp.toLocaleTimeString()}
-              </div>
-            </Card>
-          );
-        })}
-      </div>
+              </Card>
+            );
+          })}
+        </div>
 
-      {/* Input Area */}
-      <div className="border-t p-4">
-        <div className="flex gap-2 items-center">
-          {/* File upload */}
-          <input
-            id="agent-file-upload"
-            type="file"
-            className="hidden"
-            multiple
-            aria-label="Upload files for AI context"
-            title="Upload files for AI context"
-            onChange={(e: ChangeEvent<HTMLInputElement>) => {
-              const inputEl = e.currentTarget;
-              const { files } = inputEl;
-              if (files && files.length > 0) {
-                handleFileUpload(files);
-                // Clear the input so the same file can be selected again if needed
-                inputEl.value = "";
+        {/* Servers running in the sandbox */}
+        <PreviewPanel conversationId={conversationId} teamId={billingTeamId} refreshKey={workspaceVersion} />
+
+        {/* Input Area */}
+        <div className="border-t p-4">
+          <div className="flex gap-2 items-center">
+            {/* File upload */}
+            <input
+              id="agent-file-upload"
+              type="file"
+              className="hidden"
+              multiple
+              aria-label="Upload files for AI context"
+              title="Upload files for AI context"
+              onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                const inputEl = e.currentTarget;
+                const { files } = inputEl;
+                if (files && files.length > 0) {
+                  handleFileUpload(files);
+                  // Clear the input so the same file can be selected again if needed
+                  inputEl.value = "";
+                }
+              }}
+            />
+            <BillToSelect teamId={billingTeamId} onChange={setBillingTeamId} disabled={isLoading} />
+            <SecretsSelect teamId={billingTeamId} value={secretNames} onChange={setSecretNames} disabled={isLoading} />
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() =>
+                document.getElementById("agent-file-upload")?.click()
               }
-            }}
-          />
-          <Button
-            type="button"
-            variant="secondary"
-            onClick={() =>
-              document.getElementById("agent-file-upload")?.click()
-            }
-          >
-            Upload
-          </Button>
-          <Input
-            value={input}
-            onChange={(e: ChangeEvent<HTMLInputElement>) =>
-              setInput(e.target.value)
-            }
-            placeholder="Ask me to run code, analyze data, or help with tasks..."
-            onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
-              // Avoid submitting while composing with IME
-              if (e.nativeEvent.isComposing) return;
-              if (e.key !== "Enter") return;
-              if (isLoading) return;
-              sendMessage();
-            }}
-            disabled={isLoading}
-          />
-          <Button onClick={sendMessage} disabled={isLoading || !input.trim()}>
-            {isLoading ? "Thinking..." : "Send"}
-          </Button>
-        </div>
-        {uploadedFiles.length > 0 && (
-          <div className="text-xs text-muted-foreground mt-2">
-            {uploadedFiles.length} file{uploadedFiles.length > 1 ? "s" : ""}{" "}
-            attached
+            >
+              Upload
+            </Button>
+            <Input
+              value={input}
+              onChange={(e: ChangeEvent<HTMLInputElement>) => {
+                setInput(e.target.value);
+                if (agentRoom.isConnected) agentRoom.notifyTyping(e.target.value.length > 0);
+              }}
+              placeholder={canInterject ? "Tell the agent something while it works..." : "Ask me to run code, analyze data, or help with tasks..."}
+              onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
+                // Avoid submitting while composing with IME
+                if (e.nativeEvent.isComposing) return;
+                if (e.key !== "Enter") return;
+                if (isLoading && !canInterject) return;
+                sendMessage();
+              }}
+              disabled={isLoading && !canInterject}
+            />
+            <Button onClick={sendMessage} disabled={(isLoading && !canInterject) || !input.trim()}>
+              {canInterject ? "Interject" : isLoading ? "Thinking..." : "Send"}
+            </Button>
+            {isLoading && activeRun.runId && (
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => activeRun.cancelRun()}
+                disabled={activeRun.isCanceling}
+                title="Stop the run, keeping its output so far"
+              >
+                {activeRun.isCanceling ? "Stopping..." : "Stop"}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={clearHistory}
+              disabled={isLoading || messages.length === 0}
+            >
+              Clear
+            </Button>
           </div>
-        )}
+          {uploadedFiles.length > 0 && (
+            <div
+              className="text-xs text-muted-foreground mt-2 truncate"
+              title={uploadedFiles.map((upload) => upload.path).join("\n")}
+            >
+              {uploadedFiles.length} file{uploadedFiles.length > 1 ? "s" : ""}{" "}
+              attached: {uploadedFiles.map((upload) => upload.name).join(", ")}
+            </div>
+          )}
+        </div>
       </div>
+
+      {/* Files in the conversation's sandbox */}
+      <WorkspaceFiles conversationId={conversationId} teamId={billingTeamId} refreshKey={workspaceVersion} />
     </div>
   );
 }
@@ -0,0 +1,178 @@
+"use client";
+
+import { useRef } from "react";
+import type { KeyboardEvent, ReactNode } from "react";
+
+type Language = "python" | "javascript" | "shell" | "plain";
+
+type TokenType = "comment" | "string" | "number" | "keyword";
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  comment: "text-gray-500 italic",
+  string: "text-green-700 dark:text-green-400",
+  number: "text-orange-600 dark:text-orange-400",
+  keyword: "text-purple-700 dark:text-purple-400 font-semibold",
+};
+
+const KEYWORDS: Record<Exclude<Language, "plain">, string[]> = {
+  python: [
+    "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else",
+    "except", "False", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "None",
+    "nonlocal", "not", "or", "pass", "raise", "return", "True", "try", "while", "with", "yield",
+  ],
+  javascript: [
+    "async", "await", "break", "case", "catch", "class", "const", "continue", "default", "delete", "do",
+    "else", "export", "extends", "false", "finally", "for", "from", "function", "if", "import", "in",
+    "instanceof", "interface", "let", "new", "null", "return", "switch", "this", "throw", "true", "try",
+    "type", "typeof", "undefined", "var", "void", "while", "yield",
+  ],
+  shell: [
+    "case", "do", "done", "elif", "else", "esac", "export", "fi", "for", "function", "if", "in", "local",
+    "return", "then", "until", "while",
+  ],
+};
+
+const COMMENT_PATTERNS: Record<Exclude<Language, "plain">, string> = {
+  python: "#.*",
+  javascript: "\\/\\/.*|\\/\\*[\\s\\S]*?\\*\\/",
+  shell: "#.*",
+};
+
+const STRING_PATTERN = [
+  '"""[\\s\\S]*?"""',
+  "'''[\\s\\S]*?'''",
+  '"(?:\\\\.|[^"\\\\\\n])*"',
+  "'(?:\\\\.|[^'\\\\\\n])*'",
+  "`(?:\\\\.|[^`\\\\])*`",
+].join("|");
+
+const EXTENSION_LANGUAGES: Record<string, Language> = {
+  py: "python",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "javascript",
+  tsx: "javascript",
+  json: "javascript",
+  sh: "shell",
+  bash: "shell",
+};
+
+export function getLanguageForPath(path: string): Language {
+  const extension = path.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_LANGUAGES[extension] ?? "plain";
+}
+
+function getTokenPattern(language: Exclude<Language, "plain">) {
+  return new RegExp(
+    [
+      `(?<comment>${COMMENT_PATTERNS[language]})`,
+      `(?<string>${STRING_PATTERN})`,
+      "(?<number>\\b\\d+(?:\\.\\d+)?\\b)",
+      `(?<keyword>\\b(?:${KEYWORDS[language].join("|")})\\b)`,
+    ].join("|"),
+    "g"
+  );
+}
+
+/**
+ * Split code into highlighted spans. This is a lightweight tokenizer for comments,
+ * strings, numbers and keywords, not a full parser.
+ */
+function highlight(code: string, language: Language): ReactNode[] {
+  if (language === "plain") {
+    return [code];
+  }
+
+  const nodes: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of code.matchAll(getTokenPattern(language))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      nodes.push(code.slice(lastIndex, index));
+    }
+
+    const type = (Object.keys(TOKEN_CLASSES) as TokenType[]).find((key) => match.groups?.[key] !== undefined);
+    nodes.push(
+      <span key={index} className={type ? TOKEN_CLASSES[type] : undefined}>
+        {match[0]}
+      </span>
+    );
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < code.length) {
+    nodes.push(code.slice(lastIndex));
+  }
+
+  return nodes;
+}
+
+const INDENT = "  ";
+
+/**
+ * Plain textarea editor with a syntax-highlighted layer rendered underneath it.
+ */
+export function CodeEditor({
+  value,
+  path,
+  onChange,
+  onSave,
+  readOnly,
+}: {
+  value: string;
+  path: string;
+  onChange: (value: string) => void;
+  onSave?: () => void;
+  readOnly?: boolean;
+}) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.metaKey || e.ctrlKey) && e.key === "s") {
+      e.preventDefault();
+      onSave?.();
+      return;
+    }
+
+    // Indent instead of moving focus out of the editor
+    if (e.key === "Tab" && !e.shiftKey) {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      const textarea = e.currentTarget;
+      onChange(value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd));
+      requestAnimationFrame(() => {
+        textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+      });
+    }
+  };
+
+  const sharedClasses = "absolute inset-0 m-0 p-3 font-mono text-sm leading-5 whitespace-pre overflow-auto";
+
+  return (
+    <div className="relative h-full w-full rounded-md border bg-muted/30">
+      <pre ref={highlightRef} aria-hidden className={`${sharedClasses} pointer-events-none`}>
+        {highlight(value, getLanguageForPath(path))}
+        {/* Keep a trailing newline visible so both layers have the same height */}
+        {"\n"}
+      </pre>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          if (highlightRef.current) {
+            highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+            highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+          }
+        }}
+        readOnly={readOnly}
+        spellCheck={false}
+        aria-label={`Edit ${path}`}
+        className={`${sharedClasses} resize-none bg-transparent text-transparent caret-foreground outline-none`}
+      />
+    </div>
+  );
+}
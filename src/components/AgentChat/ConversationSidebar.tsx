@@ -0,0 +1,268 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { useServerAction } from "zsa-react";
+import { toast } from "sonner";
+import {
+  ArchiveIcon,
+  ArchiveRestoreIcon,
+  MoreHorizontalIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  archiveAgentConversationAction,
+  deleteAgentConversationAction,
+  getAgentConversationsAction,
+  renameAgentConversationAction,
+} from "@/actions/agent-conversation-actions";
+import type { AgentConversation } from "@/db/schema";
+
+export const CONVERSATION_SEARCH_PARAM = "conversation";
+
+export function getConversationHref(conversationId?: string) {
+  return conversationId
+    ? `/agent-chat?${CONVERSATION_SEARCH_PARAM}=${encodeURIComponent(conversationId)}`
+    : "/agent-chat";
+}
+
+type ConversationDialog =
+  | { type: "rename"; conversation: AgentConversation }
+  | { type: "delete"; conversation: AgentConversation };
+
+export function ConversationSidebar() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const activeConversationId = searchParams.get(CONVERSATION_SEARCH_PARAM);
+
+  const [conversations, setConversations] = useState<AgentConversation[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [dialog, setDialog] = useState<ConversationDialog | null>(null);
+  const [title, setTitle] = useState("");
+  const dialogCloseRef = useRef<HTMLButtonElement>(null);
+
+  const { execute: listConversations, isPending: isLoadingList } = useServerAction(getAgentConversationsAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to load conversations");
+    },
+    onSuccess: ({ data }) => {
+      setConversations(data.data);
+    },
+  });
+
+  const refresh = useCallback(() => {
+    listConversations({ includeArchived: showArchived });
+  }, [listConversations, showArchived]);
+
+  // Reload when switching conversations so new and recently active ones show up
+  useEffect(() => {
+    refresh();
+  }, [refresh, activeConversationId]);
+
+  const { execute: renameConversation, isPending: isRenaming } = useServerAction(renameAgentConversationAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to rename conversation");
+    },
+    onSuccess: () => {
+      toast.success("Conversation renamed");
+      dialogCloseRef.current?.click();
+      refresh();
+    },
+  });
+
+  const { execute: archiveConversation } = useServerAction(archiveAgentConversationAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to archive conversation");
+    },
+    onSuccess: ({ data }) => {
+      toast.success(data.data.archivedAt ? "Conversation archived" : "Conversation restored");
+      refresh();
+    },
+  });
+
+  const { execute: deleteConversation, isPending: isDeleting } = useServerAction(deleteAgentConversationAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to delete conversation");
+    },
+    onSuccess: () => {
+      toast.success("Conversation deleted");
+      dialogCloseRef.current?.click();
+      refresh();
+    },
+  });
+
+  const openRenameDialog = (conversation: AgentConversation) => {
+    setTitle(conversation.title);
+    setDialog({ type: "rename", conversation });
+  };
+
+  const handleDelete = (conversation: AgentConversation) => {
+    deleteConversation({ conversationId: conversation.id });
+    if (conversation.id === activeConversationId) {
+      router.push(getConversationHref());
+    }
+  };
+
+  return (
+    <aside className="w-64 shrink-0 border-r flex flex-col">
+      <div className="p-4 border-b space-y-2">
+        <Button className="w-full" onClick={() => router.push(getConversationHref())}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          New chat
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="w-full"
+          onClick={() => setShowArchived(!showArchived)}
+        >
+          {showArchived ? "Hide archived" : "Show archived"}
+        </Button>
+      </div>
+
+      <nav className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && !isLoadingList && (
+          <p className="text-sm text-muted-foreground p-2">No conversations yet</p>
+        )}
+        {conversations.map((conversation) => {
+          const isActive = conversation.id === activeConversationId;
+
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-1 rounded-md px-2 py-1 ${isActive ? "bg-muted" : "hover:bg-muted/50"}`}
+            >
+              <button
+                type="button"
+                className="flex-1 min-w-0 text-left"
+                onClick={() => router.push(getConversationHref(conversation.id))}
+              >
+                <div className={`text-sm truncate ${conversation.archivedAt ? "text-muted-foreground" : ""}`}>
+                  {conversation.title}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(conversation.lastActivityAt)} ago
+                </div>
+              </button>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0">
+                    <MoreHorizontalIcon className="h-4 w-4" />
+                    <span className="sr-only">Conversation actions</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={() => openRenameDialog(conversation)}>
+                    <PencilIcon className="h-4 w-4 mr-2" />
+                    Rename
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => archiveConversation({
+                      conversationId: conversation.id,
+                      archived: !conversation.archivedAt,
+                    })}
+                  >
+                    {conversation.archivedAt ? (
+                      <ArchiveRestoreIcon className="h-4 w-4 mr-2" />
+                    ) : (
+                      <ArchiveIcon className="h-4 w-4 mr-2" />
+                    )}
+                    {conversation.archivedAt ? "Restore" : "Archive"}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    className="text-red-500 focus:text-red-600"
+                    onSelect={() => setDialog({ type: "delete", conversation })}
+                  >
+                    <TrashIcon className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          );
+        })}
+      </nav>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          {dialog?.type === "rename" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Rename conversation</DialogTitle>
+              </DialogHeader>
+              <Input
+                value={title}
+                maxLength={255}
+                onChange={(e) => setTitle(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && title.trim()) {
+                    renameConversation({ conversationId: dialog.conversation.id, title });
+                  }
+                }}
+              />
+              <DialogFooter className="mt-4 flex flex-col gap-4 sm:flex-row">
+                <DialogClose ref={dialogCloseRef} asChild>
+                  <Button variant="outline" className="sm:w-auto w-full">Cancel</Button>
+                </DialogClose>
+                <Button
+                  onClick={() => renameConversation({ conversationId: dialog.conversation.id, title })}
+                  disabled={isRenaming || !title.trim()}
+                  className="sm:w-auto w-full"
+                >
+                  {isRenaming ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog?.type === "delete" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Delete conversation</DialogTitle>
+                <DialogDescription>
+                  Are you sure you want to delete &quot;{dialog.conversation.title}&quot;? Its messages will be removed. This action cannot be undone.
+                </DialogDescription>
+              </DialogHeader>
+              <DialogFooter className="mt-4 flex flex-col gap-4 sm:flex-row">
+                <DialogClose ref={dialogCloseRef} asChild>
+                  <Button variant="outline" className="sm:w-auto w-full">Cancel</Button>
+                </DialogClose>
+                <Button
+                  variant="destructive"
+                  onClick={() => handleDelete(dialog.conversation)}
+                  disabled={isDeleting}
+                  className="sm:w-auto w-full"
+                >
+                  {isDeleting ? "Deleting..." : "Delete conversation"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </aside>
+  );
+}
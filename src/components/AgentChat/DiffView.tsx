@@ -0,0 +1,70 @@
+"use client";
+
+import type { GitDiffFile, GitDiffLine } from "@/types/agent";
+
+const LINE_CLASSES: Record<GitDiffLine["type"], string> = {
+  add: "bg-green-50 text-green-900 dark:bg-green-950/40 dark:text-green-200",
+  delete: "bg-red-50 text-red-900 dark:bg-red-950/40 dark:text-red-200",
+  context: "",
+};
+
+const LINE_PREFIXES: Record<GitDiffLine["type"], string> = {
+  add: "+",
+  delete: "-",
+  context: " ",
+};
+
+function getFileTitle(file: GitDiffFile) {
+  if (!file.oldPath) return `${file.newPath} (new)`;
+  if (!file.newPath) return `${file.oldPath} (deleted)`;
+  if (file.oldPath !== file.newPath) return `${file.oldPath} → ${file.newPath}`;
+  return file.newPath;
+}
+
+/**
+ * Render parsed git diff files with line numbers, one block per file
+ */
+export function DiffView({ files }: { files: GitDiffFile[] }) {
+  if (files.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {files.map((file) => (
+        <div key={`${file.oldPath}-${file.newPath}`} className="overflow-hidden rounded-md border bg-background">
+          <div className="flex items-center justify-between gap-2 border-b bg-muted/50 px-3 py-1.5 text-xs">
+            <span className="truncate font-mono">{getFileTitle(file)}</span>
+            <span className="shrink-0 font-mono">
+              <span className="text-green-600">+{file.additions}</span>{" "}
+              <span className="text-red-600">-{file.deletions}</span>
+            </span>
+          </div>
+
+          {file.binary ? (
+            <p className="px-3 py-2 text-xs text-muted-foreground">Binary file changed</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse font-mono text-xs leading-5">
+                <tbody>
+                  {file.hunks.map((hunk) => [
+                    <tr key={hunk.header} className="bg-blue-50 text-blue-800 dark:bg-blue-950/40 dark:text-blue-200">
+                      <td colSpan={3} className="px-3">{hunk.header}</td>
+                    </tr>,
+                    ...hunk.lines.map((line, index) => (
+                      <tr key={`${hunk.header}-${index}`} className={LINE_CLASSES[line.type]}>
+                        <td className="w-10 select-none px-2 text-right text-muted-foreground">{line.oldLine ?? ""}</td>
+                        <td className="w-10 select-none px-2 text-right text-muted-foreground">{line.newLine ?? ""}</td>
+                        <td className="whitespace-pre px-2">{LINE_PREFIXES[line.type]}{line.content}</td>
+                      </tr>
+                    )),
+                  ])}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { GithubIcon, Loader2Icon, LockIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  GitHubBranch,
+  GitHubBranchListResponse,
+  GitHubCloneResponse,
+  GitHubRepository,
+  GitHubRepositoryListResponse,
+} from "@/types/agent";
+
+async function fetchJson<T>(input: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(input, init);
+  const data = await response.json().catch(() => ({})) as T & { error?: string; details?: string };
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `GitHub API returned ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * Pick a repository and branch of the user's connected GitHub account and clone it into
+ * the conversation's workspace
+ */
+export function GitHubImport({
+  conversationId,
+  teamId,
+  onImported,
+}: {
+  conversationId?: string;
+  teamId?: string;
+  // Called with the path of the cloned repository
+  onImported?: (path: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [list, setList] = useState<GitHubRepositoryListResponse | null>(null);
+  const [filter, setFilter] = useState("");
+  const [selected, setSelected] = useState<GitHubRepository | null>(null);
+  const [branches, setBranches] = useState<GitHubBranch[]>([]);
+  const [branch, setBranch] = useState<string>("");
+  const [isCloning, setIsCloning] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setList(null);
+    setSelected(null);
+    fetchJson<GitHubRepositoryListResponse>("/api/agent/github/repos")
+      .then(setList)
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : "Failed to load repositories");
+        setList({ connected: true, repositories: [] });
+      });
+  }, [open]);
+
+  useEffect(() => {
+    setBranches([]);
+    if (!selected) return;
+
+    setBranch(selected.defaultBranch);
+    const query = new URLSearchParams({ owner: selected.owner, repo: selected.name });
+    fetchJson<GitHubBranchListResponse>(`/api/agent/github/branches?${query}`)
+      .then(({ branches: nextBranches }) => setBranches(nextBranches))
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Failed to load branches"));
+  }, [selected]);
+
+  const repositories = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return (list?.repositories ?? []).filter((repository) => repository.fullName.toLowerCase().includes(query));
+  }, [list, filter]);
+
+  const cloneRepository = async () => {
+    if (!selected) return;
+
+    setIsCloning(true);
+    try {
+      const { path } = await fetchJson<GitHubCloneResponse>("/api/agent/github/clone", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          owner: selected.owner,
+          name: selected.name,
+          branch: branch || undefined,
+          conversationId,
+          teamId,
+        }),
+      });
+      toast.success(`Cloned ${selected.fullName} into ${path}`);
+      setOpen(false);
+      onImported?.(path);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to clone the repository");
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7">
+          <GithubIcon className="h-4 w-4" />
+          <span className="sr-only">Import from GitHub</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import from GitHub</DialogTitle>
+          <DialogDescription>
+            Clone a repository into the workspace. The agent can open a pull request when it is done.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!list ? (
+          <div className="flex justify-center p-6">
+            <Loader2Icon className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !list.connected ? (
+          <div className="space-y-3 text-sm text-muted-foreground">
+            <p>Connect your GitHub account to import repositories.</p>
+            <Button asChild size="sm">
+              <Link href="/settings/git">Open git settings</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Filter repositories"
+              className="h-8"
+            />
+            <div className="max-h-64 overflow-y-auto rounded-md border p-1">
+              {repositories.length === 0 && (
+                <p className="p-3 text-sm text-muted-foreground">No repositories found</p>
+              )}
+              {repositories.map((repository) => (
+                <button
+                  key={repository.id}
+                  type="button"
+                  className={`flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm ${selected?.id === repository.id ? "bg-muted" : "hover:bg-muted/50"}`}
+                  onClick={() => setSelected(repository)}
+                >
+                  <span className="truncate font-mono text-xs" title={repository.description ?? undefined}>
+                    {repository.fullName}
+                  </span>
+                  {repository.private && <LockIcon className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Select value={branch} onValueChange={setBranch} disabled={!selected || branches.length === 0}>
+                <SelectTrigger className="h-8 flex-1">
+                  <SelectValue placeholder="Branch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {branches.map((item) => (
+                    <SelectItem key={item.name} value={item.name}>{item.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button size="sm" disabled={!selected || isCloning} onClick={cloneRepository}>
+                {isCloning && <Loader2Icon className="mr-1 h-4 w-4 animate-spin" />}
+                Clone
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  ArrowDownToLineIcon,
+  ArrowUpFromLineIcon,
+  GitBranchIcon,
+  GitCommitHorizontalIcon,
+  GitPullRequestCreateIcon,
+  Loader2Icon,
+  RefreshCwIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DiffView } from "./DiffView";
+import type { GitBranch, GitDiffFile, GitFileStatus, GitHubPullRequest, GitStatus } from "@/types/agent";
+
+// Short labels for the change columns, like `git status --short`
+const CHANGE_LABELS: Record<NonNullable<GitFileStatus["staged"]>, string> = {
+  modified: "M",
+  added: "A",
+  deleted: "D",
+  renamed: "R",
+  copied: "C",
+  "type-changed": "T",
+  unmerged: "U",
+  untracked: "?",
+};
+
+interface SelectedDiff {
+  path: string;
+  staged: boolean;
+  files: GitDiffFile[];
+}
+
+/**
+ * Git status, diffs, staging, commits, branches, pull and push for a repository in the
+ * conversation's sandbox
+ */
+export function GitPanel({
+  conversationId,
+  teamId,
+  defaultRepo,
+  onChanged,
+}: {
+  conversationId?: string;
+  teamId?: string;
+  defaultRepo: string;
+  // Called after an action that changes files in the workspace
+  onChanged?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [repo, setRepo] = useState(defaultRepo);
+  // Edited path, applied on blur so every keystroke doesn't reload the repository
+  const [repoInput, setRepoInput] = useState(defaultRepo);
+  const [status, setStatus] = useState<GitStatus | null>(null);
+  const [branches, setBranches] = useState<GitBranch[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedDiff, setSelectedDiff] = useState<SelectedDiff | null>(null);
+  const [message, setMessage] = useState("");
+  const [newBranch, setNewBranch] = useState("");
+  const [pullRequestTitle, setPullRequestTitle] = useState("");
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const callGitApi = useCallback(async <T,>(action: string, body: Record<string, unknown> = {}): Promise<T> => {
+    const response = await fetch(`/api/agent/git/${action}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, repo, conversationId, teamId }),
+    });
+
+    const data = await response.json().catch(() => ({})) as T & { error?: string; details?: string };
+    if (!response.ok) {
+      throw new Error(data.details || data.error || `Git API returned ${response.status}`);
+    }
+    return data;
+  }, [repo, conversationId, teamId]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const [nextStatus, { branches: nextBranches }] = await Promise.all([
+        callGitApi<GitStatus>("status"),
+        callGitApi<{ branches: GitBranch[] }>("branches"),
+      ]);
+      setStatus(nextStatus);
+      setBranches(nextBranches);
+      setError(null);
+    } catch (err) {
+      setStatus(null);
+      setBranches([]);
+      setError(err instanceof Error ? err.message : "Failed to load the repository");
+    }
+  }, [callGitApi]);
+
+  useEffect(() => {
+    if (open) {
+      setSelectedDiff(null);
+      refresh();
+    }
+  }, [open, refresh]);
+
+  // Run an action, then reload the status. Failures are shown as toasts.
+  const runAction = async (name: string, action: () => Promise<void>, { changesFiles = false } = {}) => {
+    setPendingAction(name);
+    try {
+      await action();
+      if (changesFiles) onChanged?.();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : `git ${name} failed`);
+    } finally {
+      setPendingAction(null);
+      await refresh();
+    }
+  };
+
+  const showDiff = async (file: GitFileStatus, staged: boolean) => {
+    try {
+      const { files } = await callGitApi<{ files: GitDiffFile[] }>("diff", { staged, paths: [file.path] });
+      setSelectedDiff({ path: file.path, staged, files });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to load the diff");
+    }
+  };
+
+  const toggleStaged = (file: GitFileStatus) => {
+    const isStaged = file.staged !== null && file.unstaged === null;
+    return runAction(isStaged ? "unstage" : "stage", async () => {
+      await callGitApi(isStaged ? "unstage" : "stage", { paths: [file.path] });
+      setSelectedDiff(null);
+    });
+  };
+
+  const commit = () => runAction("commit", async () => {
+    const result = await callGitApi<{ commit: string; summary: string }>("commit", { message });
+    toast.success(`Committed ${result.commit.slice(0, 7)}: ${result.summary}`);
+    setMessage("");
+    setSelectedDiff(null);
+  });
+
+  const openPullRequest = () => runAction("pull request", async () => {
+    const pullRequest = await callGitApi<GitHubPullRequest>("pull-request", { title: pullRequestTitle });
+    toast.success(`${pullRequest.created ? "Opened" : "Updated"} pull request #${pullRequest.number}`, {
+      action: { label: "View", onClick: () => window.open(pullRequest.url, "_blank", "noopener") },
+    });
+    setPullRequestTitle("");
+  });
+
+  const hasStagedChanges = status?.files.some((file) => file.staged !== null && file.staged !== "untracked") ?? false;
+  const isBusy = pendingAction !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7">
+          <GitBranchIcon className="h-4 w-4" />
+          <span className="sr-only">Git</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Git</DialogTitle>
+          <DialogDescription>
+            Pull and push use the git credentials saved in your settings. Pull requests commit
+            pending changes, push the branch and open a pull request with your connected GitHub account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            value={repoInput}
+            onChange={(e) => setRepoInput(e.target.value)}
+            onBlur={() => setRepo(repoInput.trim() || defaultRepo)}
+            onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+            className="h-8 w-56 font-mono text-xs"
+            aria-label="Repository path"
+          />
+          {status && (
+            <Select
+              value={status.branch ?? undefined}
+              onValueChange={(name) => runAction("switch", async () => {
+                await callGitApi("switch", { name });
+              }, { changesFiles: true })}
+              disabled={isBusy}
+            >
+              <SelectTrigger className="h-8 w-48">
+                <SelectValue placeholder="Detached HEAD" />
+              </SelectTrigger>
+              <SelectContent>
+                {branches.map((branch) => (
+                  <SelectItem key={branch.name} value={branch.name}>{branch.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {status && (
+            <form
+              className="flex items-center gap-1"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (!newBranch.trim()) return;
+                runAction("branch", async () => {
+                  await callGitApi("branch", { name: newBranch.trim() });
+                  setNewBranch("");
+                });
+              }}
+            >
+              <Input
+                value={newBranch}
+                onChange={(e) => setNewBranch(e.target.value)}
+                placeholder="New branch"
+                className="h-8 w-36"
+              />
+              <Button type="submit" variant="outline" size="sm" disabled={isBusy || !newBranch.trim()}>
+                Create
+              </Button>
+            </form>
+          )}
+
+          <div className="ml-auto flex items-center gap-1">
+            {status?.upstream && (
+              <span className="mr-1 text-xs text-muted-foreground">
+                ↑{status.ahead} ↓{status.behind}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isBusy || !status}
+              onClick={() => runAction("pull", async () => {
+                await callGitApi("pull");
+                toast.success("Pulled");
+              }, { changesFiles: true })}
+            >
+              <ArrowDownToLineIcon className="mr-1 h-4 w-4" />
+              Pull
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isBusy || !status}
+              onClick={() => runAction("push", async () => {
+                await callGitApi("push");
+                toast.success("Pushed");
+              })}
+            >
+              <ArrowUpFromLineIcon className="mr-1 h-4 w-4" />
+              Push
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => refresh()} disabled={isBusy}>
+              {isBusy ? <Loader2Icon className="h-4 w-4 animate-spin" /> : <RefreshCwIcon className="h-4 w-4" />}
+              <span className="sr-only">Refresh</span>
+            </Button>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="rounded-md border p-4 text-sm text-muted-foreground">{error}</p>
+        ) : (
+          <div className="grid h-[50vh] grid-cols-[16rem_1fr] gap-3">
+            <div className="flex flex-col overflow-hidden rounded-md border">
+              <div className="flex-1 overflow-y-auto p-1">
+                {status?.files.length === 0 && (
+                  <p className="p-3 text-sm text-muted-foreground">Nothing to commit, working tree clean</p>
+                )}
+                {status?.files.map((file) => {
+                  const isStaged = file.staged !== null && file.unstaged === null;
+                  const isSelected = selectedDiff?.path === file.path;
+
+                  return (
+                    <div
+                      key={file.path}
+                      className={`flex items-center gap-2 rounded px-2 py-1 text-sm ${isSelected ? "bg-muted" : "hover:bg-muted/50"}`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isStaged}
+                        disabled={isBusy}
+                        onChange={() => toggleStaged(file)}
+                        aria-label={`${isStaged ? "Unstage" : "Stage"} ${file.path}`}
+                      />
+                      <button
+                        type="button"
+                        className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                        onClick={() => showDiff(file, isStaged)}
+                      >
+                        <span className="w-4 shrink-0 font-mono text-xs text-muted-foreground">
+                          {CHANGE_LABELS[(isStaged ? file.staged : file.unstaged) ?? "modified"]}
+                        </span>
+                        <span className="truncate font-mono text-xs" title={file.path}>{file.path}</span>
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="space-y-2 border-t p-2">
+                <Textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  placeholder="Commit message"
+                  rows={3}
+                  className="text-sm"
+                />
+                <Button
+                  className="w-full"
+                  size="sm"
+                  disabled={isBusy || !hasStagedChanges || !message.trim()}
+                  onClick={commit}
+                >
+                  <GitCommitHorizontalIcon className="mr-1 h-4 w-4" />
+                  Commit staged changes
+                </Button>
+              </div>
+
+              <form
+                className="flex items-center gap-1 border-t p-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (pullRequestTitle.trim()) openPullRequest();
+                }}
+              >
+                <Input
+                  value={pullRequestTitle}
+                  onChange={(e) => setPullRequestTitle(e.target.value)}
+                  placeholder="Pull request title"
+                  className="h-8 text-sm"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  disabled={isBusy || !status || !pullRequestTitle.trim()}
+                >
+                  <GitPullRequestCreateIcon className="h-4 w-4" />
+                  <span className="sr-only">Open pull request on GitHub</span>
+                </Button>
+              </form>
+            </div>
+
+            <div className="overflow-y-auto">
+              {selectedDiff ? (
+                <DiffView files={selectedDiff.files} />
+              ) : (
+                <p className="p-3 text-sm text-muted-foreground">Select a file to see its changes</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
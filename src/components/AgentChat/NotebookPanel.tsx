@@ -0,0 +1,542 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  ArrowDownIcon,
+  ArrowUpIcon,
+  DownloadIcon,
+  FastForwardIcon,
+  Loader2Icon,
+  NotebookPenIcon,
+  PlayIcon,
+  PlusIcon,
+  RotateCcwIcon,
+  Trash2Icon,
+  UploadIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CodeEditor } from "./CodeEditor";
+import { readResumableServerSentEvents } from "@/utils/read-server-sent-events";
+import type {
+  Notebook,
+  NotebookCell,
+  NotebookCellType,
+  NotebookLanguage,
+  NotebookListResponse,
+  NotebookOutput,
+  NotebookRunEvent,
+  NotebookSummary,
+} from "@/types/agent";
+
+// Cell edits are saved after this pause in typing
+const AUTOSAVE_DELAY_MS = 1000;
+
+const FILE_EXTENSIONS: Record<NotebookLanguage, string> = {
+  python: "py",
+  javascript: "js",
+};
+
+function appendOutput(outputs: NotebookOutput[], output: NotebookOutput) {
+  // Consecutive chunks of the same stream are shown as one block, like in Jupyter
+  const previous = outputs[outputs.length - 1];
+  if (output.type === "stream" && previous?.type === "stream" && previous.name === output.name) {
+    return [...outputs.slice(0, -1), { ...previous, text: previous.text + output.text }];
+  }
+  return [...outputs, output];
+}
+
+function NotebookOutputView({ output }: { output: NotebookOutput }) {
+  if (output.type === "stream") {
+    return (
+      <pre className={`whitespace-pre-wrap px-3 py-1 font-mono text-xs ${output.name === "stderr" ? "bg-red-50 text-red-900 dark:bg-red-950/40 dark:text-red-200" : ""}`}>
+        {output.text}
+      </pre>
+    );
+  }
+
+  if (output.type === "error") {
+    return (
+      <pre className="whitespace-pre-wrap bg-red-50 px-3 py-1 font-mono text-xs text-red-900 dark:bg-red-950/40 dark:text-red-200">
+        {`${output.name}: ${output.value}`}
+        {/* Tracebacks carry ANSI color codes */}
+        {output.traceback.length > 0 && `\n${output.traceback.join("\n").replace(/\u001b\[[\d;]*m/g, "")}`}
+      </pre>
+    );
+  }
+
+  const { data } = output;
+  if (data.png || data.jpeg || data.svg) {
+    const src = data.png
+      ? `data:image/png;base64,${data.png}`
+      : data.jpeg
+        ? `data:image/jpeg;base64,${data.jpeg}`
+        : `data:image/svg+xml;charset=utf-8,${encodeURIComponent(data.svg!)}`;
+    // eslint-disable-next-line @next/next/no-img-element
+    return <img src={src} alt="Cell output" className="max-w-full px-3 py-1" />;
+  }
+  if (data.html) {
+    // Rendered without scripts or same-origin access, outputs come from user code
+    return <iframe sandbox="" srcDoc={data.html} title="Cell output" className="h-64 w-full border-0 bg-white" />;
+  }
+
+  const text = data.text ?? (data.json !== undefined ? JSON.stringify(data.json, null, 2) : "");
+  return <pre className="whitespace-pre-wrap px-3 py-1 font-mono text-xs">{text}</pre>;
+}
+
+function NotebookCellView({
+  cell,
+  language,
+  isFirst,
+  isLast,
+  isRunning,
+  disabled,
+  onChange,
+  onRun,
+  onMove,
+  onDelete,
+  onInsertBelow,
+}: {
+  cell: NotebookCell;
+  language: NotebookLanguage;
+  isFirst: boolean;
+  isLast: boolean;
+  isRunning: boolean;
+  disabled: boolean;
+  onChange: (source: string) => void;
+  onRun: () => void;
+  onMove: (offset: -1 | 1) => void;
+  onDelete: () => void;
+  onInsertBelow: (type: NotebookCellType) => void;
+}) {
+  const lineCount = cell.source.split("\n").length;
+
+  return (
+    <div className="group rounded-md border">
+      <div className="flex items-center gap-1 border-b bg-muted/30 px-2 py-1">
+        <span className="w-14 font-mono text-xs text-muted-foreground">
+          {cell.type === "code" ? `[${isRunning ? "*" : cell.executionCount ?? " "}]` : "md"}
+        </span>
+        {cell.type === "code" && (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onRun} disabled={disabled}>
+            {isRunning ? <Loader2Icon className="h-3 w-3 animate-spin" /> : <PlayIcon className="h-3 w-3" />}
+            <span className="sr-only">Run cell</span>
+          </Button>
+        )}
+        <div className="ml-auto flex items-center gap-1 opacity-60 group-hover:opacity-100">
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onInsertBelow("code")}>
+            + Code
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onInsertBelow("markdown")}>
+            + Markdown
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onMove(-1)} disabled={isFirst}>
+            <ArrowUpIcon className="h-3 w-3" />
+            <span className="sr-only">Move cell up</span>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => onMove(1)} disabled={isLast}>
+            <ArrowDownIcon className="h-3 w-3" />
+            <span className="sr-only">Move cell down</span>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onDelete} disabled={isRunning}>
+            <Trash2Icon className="h-3 w-3" />
+            <span className="sr-only">Delete cell</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* The editor fills its container, which grows with the source */}
+      <div className="relative" style={{ height: `${Math.min(Math.max(lineCount, 2), 30) * 20 + 26}px` }}>
+        <CodeEditor
+          value={cell.source}
+          path={`cell.${cell.type === "markdown" ? "md" : FILE_EXTENSIONS[language]}`}
+          onChange={onChange}
+          onSave={cell.type === "code" ? onRun : undefined}
+        />
+      </div>
+
+      {cell.outputs.length > 0 && (
+        <div className="max-h-96 overflow-y-auto border-t">
+          {cell.outputs.map((output, index) => (
+            <NotebookOutputView key={index} output={output} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Notebooks of the conversation: cells run in a kernel in the conversation's sandbox and
+ * are saved with their outputs. Notebooks can be imported and exported as .ipynb files.
+ */
+export function NotebookPanel({
+  conversationId,
+  teamId,
+}: {
+  conversationId?: string;
+  teamId?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [notebooks, setNotebooks] = useState<NotebookSummary[] | null>(null);
+  const [notebook, setNotebook] = useState<Notebook | null>(null);
+  const [runningCellId, setRunningCellId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [newLanguage, setNewLanguage] = useState<NotebookLanguage>("python");
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // The latest notebook and whether it has unsaved edits, for saves from timers
+  const notebookRef = useRef<Notebook | null>(null);
+  const dirtyRef = useRef(false);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    notebookRef.current = notebook;
+  }, [notebook]);
+
+  const scopeQuery = useCallback(() => {
+    const params = new URLSearchParams();
+    if (conversationId) params.set("conversationId", conversationId);
+    if (teamId) params.set("teamId", teamId);
+    return params.toString();
+  }, [conversationId, teamId]);
+
+  const callNotebookApi = useCallback(async <T,>(path: string, method = "GET", body?: Record<string, unknown>): Promise<T> => {
+    const response = await fetch(
+      body ? `/api/agent/notebooks${path}` : `/api/agent/notebooks${path}?${scopeQuery()}`,
+      body
+        ? { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify({ ...body, conversationId, teamId }) }
+        : { method }
+    );
+
+    const data = await response.json().catch(() => ({})) as T & { error?: string; details?: string };
+    if (!response.ok) {
+      throw new Error(typeof data.details === "string" ? data.details : data.error || `Notebook API returned ${response.status}`);
+    }
+    return data;
+  }, [conversationId, teamId, scopeQuery]);
+
+  const loadNotebooks = useCallback(async () => {
+    try {
+      const { notebooks: nextNotebooks } = await callNotebookApi<NotebookListResponse>("");
+      setNotebooks(nextNotebooks);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load notebooks");
+      setNotebooks([]);
+    }
+  }, [callNotebookApi]);
+
+  const saveNotebook = useCallback(async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const current = notebookRef.current;
+    if (!current || !dirtyRef.current) return;
+
+    dirtyRef.current = false;
+    try {
+      await callNotebookApi(`/${current.id}`, "PATCH", {
+        name: current.name,
+        cells: current.cells.map(({ id, type, source }) => ({ id, type, source })),
+      });
+    } catch (error) {
+      dirtyRef.current = true;
+      toast.error(error instanceof Error ? error.message : "Failed to save the notebook");
+    }
+  }, [callNotebookApi]);
+
+  useEffect(() => {
+    if (open) {
+      loadNotebooks();
+    } else {
+      saveNotebook();
+    }
+  }, [open, loadNotebooks, saveNotebook]);
+
+  // Apply an edit locally and save it once typing pauses
+  const editNotebook = (edit: (current: Notebook) => Notebook) => {
+    setNotebook((current) => current && edit(current));
+    dirtyRef.current = true;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(saveNotebook, AUTOSAVE_DELAY_MS);
+  };
+
+  const editCells = (edit: (cells: NotebookCell[]) => NotebookCell[]) =>
+    editNotebook((current) => ({ ...current, cells: edit(current.cells) }));
+
+  const openNotebook = async (id: string) => {
+    await saveNotebook();
+    try {
+      setNotebook(await callNotebookApi<Notebook>(`/${id}`));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to open the notebook");
+    }
+  };
+
+  const createNotebook = async () => {
+    await saveNotebook();
+    try {
+      const created = await callNotebookApi<Notebook>("", "POST", {
+        name: "Untitled",
+        language: newLanguage,
+        cells: [{ id: crypto.randomUUID(), type: "code", source: "" }],
+      });
+      setNotebook(created);
+      await loadNotebooks();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create the notebook");
+    }
+  };
+
+  const importNotebook = async (file: File) => {
+    await saveNotebook();
+    try {
+      const document = JSON.parse(await file.text());
+      const imported = await callNotebookApi<Notebook>("/import", "POST", {
+        name: file.name.replace(/\.ipynb$/i, "") || undefined,
+        notebook: document,
+      });
+      setNotebook(imported);
+      await loadNotebooks();
+      toast.success(`Imported ${file.name}`);
+    } catch (error) {
+      toast.error(error instanceof SyntaxError ? "The file isn't a valid notebook" : error instanceof Error ? error.message : "Failed to import the notebook");
+    }
+  };
+
+  const exportNotebook = async () => {
+    if (!notebook) return;
+    await saveNotebook();
+    window.location.href = `/api/agent/notebooks/${notebook.id}/export?${scopeQuery()}`;
+  };
+
+  const deleteNotebook = async () => {
+    if (!notebook || !window.confirm(`Delete the notebook "${notebook.name}"?`)) return;
+
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    dirtyRef.current = false;
+    try {
+      await callNotebookApi(`/${notebook.id}`, "DELETE");
+      setNotebook(null);
+      await loadNotebooks();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete the notebook");
+    }
+  };
+
+  const restartKernel = async () => {
+    if (!notebook) return;
+    try {
+      await callNotebookApi(`/${notebook.id}/restart`, "POST", {});
+      toast.success("Kernel restarted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to restart the kernel");
+    }
+  };
+
+  // Run some cells, or all code cells, and show their outputs as they stream in
+  const runCells = async (cellIds?: string[]) => {
+    if (!notebook) return;
+    await saveNotebook();
+
+    setIsRunning(true);
+    try {
+      const response = await fetch(`/api/agent/notebooks/${notebook.id}/run`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cellIds, conversationId, teamId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({})) as { error?: string; details?: string };
+        throw new Error(typeof data.details === "string" ? data.details : data.error || `Notebook API returned ${response.status}`);
+      }
+
+      const updateCell = (cellId: string, update: (cell: NotebookCell) => NotebookCell) =>
+        setNotebook((current) => current && {
+          ...current,
+          cells: current.cells.map((cell) => cell.id === cellId ? update(cell) : cell),
+        });
+
+      await readResumableServerSentEvents<NotebookRunEvent>(response, (event) => {
+        switch (event.type) {
+          case "cell-start":
+            setRunningCellId(event.cellId);
+            updateCell(event.cellId, (cell) => ({ ...cell, outputs: [] }));
+            break;
+          case "output":
+            updateCell(event.cellId, (cell) => ({ ...cell, outputs: appendOutput(cell.outputs, event.output) }));
+            break;
+          case "cell-end":
+            setRunningCellId(null);
+            updateCell(event.cellId, (cell) => ({ ...cell, executionCount: event.executionCount }));
+            break;
+          case "error":
+            toast.error(event.message);
+            break;
+        }
+      });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to run the notebook");
+    } finally {
+      setIsRunning(false);
+      setRunningCellId(null);
+    }
+  };
+
+  const insertCell = (index: number, type: NotebookCellType) => editCells((cells) => [
+    ...cells.slice(0, index),
+    { id: crypto.randomUUID(), type, source: "", outputs: [], executionCount: null },
+    ...cells.slice(index),
+  ]);
+
+  const moveCell = (index: number, offset: -1 | 1) => editCells((cells) => {
+    const next = [...cells];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    return next;
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7">
+          <NotebookPenIcon className="h-4 w-4" />
+          <span className="sr-only">Notebooks</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Notebooks</DialogTitle>
+          <DialogDescription>
+            Cells run in a kernel in this conversation&apos;s sandbox and are saved with their outputs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={notebook?.id} onValueChange={openNotebook} disabled={isRunning}>
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue placeholder={notebooks?.length === 0 ? "No notebooks yet" : "Open a notebook"} />
+            </SelectTrigger>
+            <SelectContent>
+              {(notebooks ?? []).map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={newLanguage} onValueChange={(value) => setNewLanguage(value as NotebookLanguage)}>
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="python">Python</SelectItem>
+              <SelectItem value="javascript">JavaScript</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={createNotebook} disabled={isRunning}>
+            <PlusIcon className="mr-1 h-4 w-4" />
+            New
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => importInputRef.current?.click()} disabled={isRunning}>
+            <UploadIcon className="mr-1 h-4 w-4" />
+            Import .ipynb
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".ipynb,application/x-ipynb+json"
+            className="hidden"
+            aria-label="Import a Jupyter notebook"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importNotebook(file);
+            }}
+          />
+        </div>
+
+        {notebook ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 border-t pt-3">
+              <Input
+                value={notebook.name}
+                onChange={(e) => editNotebook((current) => ({ ...current, name: e.target.value }))}
+                className="h-8 w-56"
+                aria-label="Notebook name"
+              />
+              <span className="text-xs text-muted-foreground">
+                {notebook.language === "python" ? "Python" : "JavaScript"}
+              </span>
+              <div className="ml-auto flex items-center gap-1">
+                <Button size="sm" onClick={() => runCells()} disabled={isRunning}>
+                  {isRunning ? <Loader2Icon className="mr-1 h-4 w-4 animate-spin" /> : <FastForwardIcon className="mr-1 h-4 w-4" />}
+                  Run all
+                </Button>
+                <Button variant="outline" size="sm" onClick={restartKernel} disabled={isRunning}>
+                  <RotateCcwIcon className="mr-1 h-4 w-4" />
+                  Restart kernel
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={exportNotebook}>
+                  <DownloadIcon className="h-4 w-4" />
+                  <span className="sr-only">Export as .ipynb</span>
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={deleteNotebook} disabled={isRunning}>
+                  <Trash2Icon className="h-4 w-4" />
+                  <span className="sr-only">Delete notebook</span>
+                </Button>
+              </div>
+            </div>
+
+            <div className="h-[55vh] space-y-3 overflow-y-auto pr-1">
+              {notebook.cells.map((cell, index) => (
+                <NotebookCellView
+                  key={cell.id}
+                  cell={cell}
+                  language={notebook.language}
+                  isFirst={index === 0}
+                  isLast={index === notebook.cells.length - 1}
+                  isRunning={runningCellId === cell.id}
+                  disabled={isRunning}
+                  onChange={(source) => editCells((cells) => cells.map((item) => item.id === cell.id ? { ...item, source } : item))}
+                  onRun={() => runCells([cell.id])}
+                  onMove={(offset) => moveCell(index, offset)}
+                  onDelete={() => editCells((cells) => cells.filter((item) => item.id !== cell.id))}
+                  onInsertBelow={(type) => insertCell(index + 1, type)}
+                />
+              ))}
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => insertCell(notebook.cells.length, "code")}>
+                  <PlusIcon className="mr-1 h-4 w-4" />
+                  Code
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => insertCell(notebook.cells.length, "markdown")}>
+                  <PlusIcon className="mr-1 h-4 w-4" />
+                  Markdown
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="rounded-md border p-4 text-sm text-muted-foreground">
+            {notebooks === null ? "Loading notebooks..." : "Open, create or import a notebook to get started"}
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
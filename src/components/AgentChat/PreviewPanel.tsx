@@ -0,0 +1,258 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ExternalLinkIcon,
+  LinkIcon,
+  MonitorIcon,
+  RotateCwIcon,
+  XIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  AgentPreview,
+  AgentPreviewListResponse,
+  AgentPreviewTokenResponse,
+  PreviewAccess,
+} from "@/types/agent";
+
+// How often new dev servers are looked for while the previews are shown
+const REFRESH_INTERVAL_MS = 10_000;
+
+const ACCESS_LABELS: Record<PreviewAccess, string> = {
+  members: "Team members",
+  token: "Share links",
+  public: "Anyone with the URL",
+};
+
+const STATUS_VARIANTS: Record<AgentPreview["status"], "default" | "secondary" | "outline"> = {
+  ready: "default",
+  starting: "outline",
+  stopped: "secondary",
+};
+
+function previewLabel(preview: AgentPreview) {
+  return preview.name ? `${preview.name} (${preview.port})` : `Port ${preview.port}`;
+}
+
+/**
+ * Previews of servers running in the conversation's sandbox, embedded above the chat
+ * input. Ports are picked up as servers start listening, and each preview's access can
+ * be limited to team members or share links.
+ */
+export function PreviewPanel({
+  conversationId,
+  teamId,
+  refreshKey,
+}: {
+  conversationId?: string;
+  teamId?: string;
+  // Changes when the agent may have started a server
+  refreshKey?: number;
+}) {
+  const [expanded, setExpanded] = useState(true);
+  const [previews, setPreviews] = useState<AgentPreview[]>([]);
+  const [loopbackPorts, setLoopbackPorts] = useState<number[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Bumped to reload the embedded page
+  const [reloadNonce, setReloadNonce] = useState(0);
+
+  const scopeQuery = useCallback(() => {
+    const params = new URLSearchParams();
+    if (conversationId) params.set("conversationId", conversationId);
+    if (teamId) params.set("teamId", teamId);
+    return params.toString();
+  }, [conversationId, teamId]);
+
+  const loadPreviews = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/agent/previews?${scopeQuery()}`);
+      if (!response.ok) return;
+
+      const data = await response.json() as AgentPreviewListResponse;
+      setPreviews(data.previews);
+      setLoopbackPorts(data.loopbackPorts);
+    } catch (error) {
+      // Polled in the background, the next refresh tries again
+      console.error("Failed to load previews:", error);
+    }
+  }, [scopeQuery]);
+
+  // Previews belong to a conversation's sandbox, new conversations don't have one yet
+  useEffect(() => {
+    setPreviews([]);
+    setLoopbackPorts([]);
+    setSelectedId(null);
+    if (conversationId) loadPreviews();
+  }, [conversationId, loadPreviews]);
+
+  useEffect(() => {
+    if (conversationId && refreshKey) loadPreviews();
+  }, [conversationId, refreshKey, loadPreviews]);
+
+  useEffect(() => {
+    if (!conversationId || !expanded) return;
+
+    const refresh = setInterval(loadPreviews, REFRESH_INTERVAL_MS);
+    return () => clearInterval(refresh);
+  }, [conversationId, expanded, loadPreviews]);
+
+  const selected = previews.find((preview) => preview.id === selectedId) ?? previews[0] ?? null;
+
+  const callPreviewApi = async <T,>(path: string, method: string, body?: Record<string, unknown>) => {
+    const response = await fetch(
+      body ? `/api/agent/previews/${path}` : `/api/agent/previews/${path}?${scopeQuery()}`,
+      body
+        ? { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) }
+        : { method }
+    );
+    const data = await response.json().catch(() => ({})) as T & { error?: string; details?: string };
+    if (!response.ok) {
+      throw new Error(typeof data.details === "string" ? data.details : data.error || `Preview API returned ${response.status}`);
+    }
+    return data;
+  };
+
+  const changeAccess = async (preview: AgentPreview, access: PreviewAccess) => {
+    try {
+      await callPreviewApi(encodeURIComponent(preview.id), "PATCH", { access });
+      setPreviews((current) => current.map((item) => item.id === preview.id ? { ...item, access } : item));
+      toast.success(`${previewLabel(preview)} is now open to ${ACCESS_LABELS[access].toLowerCase()}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to change preview access");
+    }
+  };
+
+  const copyShareLink = async (preview: AgentPreview) => {
+    try {
+      const link = await callPreviewApi<AgentPreviewTokenResponse>(`${encodeURIComponent(preview.id)}/token`, "POST", { share: true });
+      await navigator.clipboard.writeText(link.url);
+      toast.success(`Share link copied, valid until ${new Date(link.expiresAt).toLocaleString()}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create share link");
+    }
+  };
+
+  const closePreview = async (preview: AgentPreview) => {
+    if (!window.confirm(`Stop previewing ${previewLabel(preview)}? Its URL and share links stop working.`)) return;
+
+    try {
+      await callPreviewApi(encodeURIComponent(preview.id), "DELETE");
+      setPreviews((current) => current.filter((item) => item.id !== preview.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to close preview");
+    }
+  };
+
+  if (previews.length === 0 && loopbackPorts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t">
+      <div className="flex items-center gap-2 px-4 py-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2"
+          onClick={() => setExpanded((value) => !value)}
+          aria-expanded={expanded}
+        >
+          {expanded ? <ChevronDownIcon className="h-4 w-4" /> : <ChevronRightIcon className="h-4 w-4" />}
+          <MonitorIcon className="h-4 w-4" />
+          Previews
+        </Button>
+
+        <div className="flex gap-1 overflow-x-auto">
+          {previews.map((preview) => (
+            <Button
+              key={preview.id}
+              type="button"
+              size="sm"
+              variant={preview.id === selected?.id ? "secondary" : "ghost"}
+              className="h-7 px-2"
+              onClick={() => {
+                setSelectedId(preview.id);
+                setExpanded(true);
+              }}
+            >
+              {previewLabel(preview)}
+              <Badge variant={STATUS_VARIANTS[preview.status]} className="ml-1 px-1 py-0 text-[10px]">
+                {preview.status}
+              </Badge>
+            </Button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="ml-auto flex items-center gap-1">
+            <Select value={selected.access} onValueChange={(value) => changeAccess(selected, value as PreviewAccess)}>
+              <SelectTrigger className="h-7 w-44 text-xs" aria-label="Who can open the preview">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ACCESS_LABELS) as PreviewAccess[]).map((access) => (
+                  <SelectItem key={access} value={access}>{ACCESS_LABELS[access]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected.access === "token" && (
+              <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Copy share link" onClick={() => copyShareLink(selected)}>
+                <LinkIcon className="h-4 w-4" />
+              </Button>
+            )}
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Reload" onClick={() => setReloadNonce((nonce) => nonce + 1)}>
+              <RotateCwIcon className="h-4 w-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Open in a new tab" asChild>
+              <a href={`/preview/${encodeURIComponent(selected.id)}`} target="_blank" rel="noopener noreferrer">
+                <ExternalLinkIcon className="h-4 w-4" />
+              </a>
+            </Button>
+            <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Stop previewing" onClick={() => closePreview(selected)}>
+              <XIcon className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {expanded && loopbackPorts.length > 0 && (
+        <div className="px-4 pb-2 text-xs text-muted-foreground">
+          Port{loopbackPorts.length > 1 ? "s" : ""} {loopbackPorts.join(", ")} only listen{loopbackPorts.length > 1 ? "" : "s"} on
+          127.0.0.1 and can&apos;t be previewed. Start the server with host 0.0.0.0 to preview it.
+        </div>
+      )}
+
+      {expanded && selected && (
+        <div className="px-4 pb-2">
+          {selected.status === "stopped" ? (
+            <div className="flex h-64 items-center justify-center rounded border text-sm text-muted-foreground">
+              Nothing listens on port {selected.port} anymore. The preview comes back when the server restarts.
+            </div>
+          ) : (
+            <iframe
+              // A new key remounts the frame, reloading it even after navigating inside it
+              key={`${selected.id}-${reloadNonce}`}
+              src={`/preview/${encodeURIComponent(selected.id)}`}
+              title={previewLabel(selected)}
+              className="h-64 w-full rounded border bg-white"
+              sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-modals"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,465 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  ActivityIcon,
+  DownloadIcon,
+  Loader2Icon,
+  PlayIcon,
+  RotateCwIcon,
+  SearchIcon,
+  SquareIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { SecretsSelect } from "./SecretsSelect";
+import { readResumableServerSentEvents } from "@/utils/read-server-sent-events";
+import { parseAnsi, stripAnsi } from "@/utils/ansi";
+import type { AgentProcessInfo, AgentProcessListResponse } from "@/types/agent";
+
+// How often the process list is refreshed while the panel is open
+const REFRESH_INTERVAL_MS = 5000;
+// Older lines are dropped from the viewer, the download has everything
+const MAX_LOG_LINES = 5000;
+
+type LogStream = "stdout" | "stderr" | "system";
+
+interface LogLine {
+  stream: LogStream;
+  text: string;
+  // Whether the line ended with a line break, later output continues it otherwise
+  complete: boolean;
+}
+
+type ProcessLogEvent = {
+  type: "stdout" | "stderr" | "exit" | "error";
+  data: string;
+  exitCode?: number;
+};
+
+const STATUS_VARIANTS: Record<AgentProcessInfo["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  starting: "outline",
+  running: "default",
+  completed: "secondary",
+  failed: "destructive",
+  killed: "secondary",
+  error: "destructive",
+};
+
+function isActive(process: AgentProcessInfo) {
+  return process.status === "running" || process.status === "starting";
+}
+
+function formatUptime(milliseconds: number) {
+  const seconds = Math.max(0, Math.floor(milliseconds / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${String(minutes % 60).padStart(2, "0")}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+// Add a chunk of output to the log, continuing the last line when it was cut mid-line
+function appendLogChunk(lines: LogLine[], stream: LogStream, data: string) {
+  const next = [...lines];
+  const parts = data.split("\n");
+
+  parts.forEach((part, index) => {
+    const complete = index < parts.length - 1;
+    if (!complete && part === "") return;
+
+    const last = next[next.length - 1];
+    if (index === 0 && last && !last.complete && last.stream === stream) {
+      next[next.length - 1] = { stream, text: last.text + part, complete };
+    } else {
+      next.push({ stream, text: part, complete });
+    }
+  });
+
+  return next.length > MAX_LOG_LINES ? next.slice(next.length - MAX_LOG_LINES) : next;
+}
+
+function LogLineView({ line }: { line: LogLine }) {
+  if (line.stream === "system") {
+    return <div className="italic text-muted-foreground">{line.text}</div>;
+  }
+
+  return (
+    <div className={line.stream === "stderr" ? "text-red-300" : undefined}>
+      {parseAnsi(line.text).map((segment, index) => (
+        <span
+          key={index}
+          style={{
+            color: segment.style.color,
+            backgroundColor: segment.style.backgroundColor,
+            fontWeight: segment.style.bold ? 600 : undefined,
+          }}
+        >
+          {segment.text}
+        </span>
+      ))}
+      {/* Keep empty lines from collapsing */}
+      {line.text === "" && " "}
+    </div>
+  );
+}
+
+/**
+ * Processes of the conversation's sandbox, with a form to start one, kill and restart
+ * buttons and a live log viewer
+ */
+export function ProcessPanel({
+  conversationId,
+  teamId,
+}: {
+  conversationId?: string;
+  teamId?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const [processes, setProcesses] = useState<AgentProcessInfo[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [command, setCommand] = useState("");
+  const [cwd, setCwd] = useState("");
+  const [secretNames, setSecretNames] = useState<string[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [logLines, setLogLines] = useState<LogLine[]>([]);
+  const [isTailing, setIsTailing] = useState(false);
+  const [search, setSearch] = useState("");
+  const [followLogs, setFollowLogs] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+  const logRef = useRef<HTMLDivElement>(null);
+
+  const scopeQuery = useCallback(() => {
+    const params = new URLSearchParams();
+    if (conversationId) params.set("conversationId", conversationId);
+    if (teamId) params.set("teamId", teamId);
+    return params.toString();
+  }, [conversationId, teamId]);
+
+  const loadProcesses = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/agent/process/list?${scopeQuery()}`);
+      const data = await response.json() as AgentProcessListResponse & { error?: string; details?: string };
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Process API returned ${response.status}`);
+      }
+      setProcesses(data.processes);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load processes");
+      setProcesses((current) => current ?? []);
+    }
+  }, [scopeQuery]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setProcesses(null);
+    loadProcesses();
+    const refresh = setInterval(loadProcesses, REFRESH_INTERVAL_MS);
+    // Uptimes tick every second
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => {
+      clearInterval(refresh);
+      clearInterval(tick);
+    };
+  }, [open, loadProcesses]);
+
+  // Tail the logs of the selected process until another one is picked or the panel closes
+  useEffect(() => {
+    if (!open || !selectedId) return;
+
+    const controller = new AbortController();
+    setLogLines([]);
+    setIsTailing(true);
+
+    (async () => {
+      try {
+        const openStream = (lastEventId = 0) => fetch(
+          `/api/agent/process/${encodeURIComponent(selectedId)}/stream?${scopeQuery()}&lastEventId=${lastEventId}`,
+          { signal: controller.signal }
+        );
+        const response = await openStream();
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({})) as { error?: string; details?: string };
+          throw new Error(data.details || data.error || `Process API returned ${response.status}`);
+        }
+
+        // Dropped connections pick the logs up after the last line received
+        await readResumableServerSentEvents<ProcessLogEvent>(response, (event) => {
+          if (event.type === "stdout" || event.type === "stderr") {
+            setLogLines((lines) => appendLogChunk(lines, event.type as LogStream, event.data));
+          } else if (event.type === "exit") {
+            setLogLines((lines) => appendLogChunk(lines, "system", `[Process exited with code ${event.exitCode ?? "unknown"}]\n`));
+            loadProcesses();
+          } else {
+            setLogLines((lines) => appendLogChunk(lines, "system", `[${event.data}]\n`));
+          }
+        }, { signal: controller.signal, resume: openStream });
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          setLogLines((lines) => appendLogChunk(lines, "system", `[${error instanceof Error ? error.message : "Failed to stream logs"}]\n`));
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsTailing(false);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [open, selectedId, scopeQuery, loadProcesses]);
+
+  const visibleLines = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!query) return logLines;
+    return logLines.filter((line) => stripAnsi(line.text).toLowerCase().includes(query));
+  }, [logLines, search]);
+
+  // Stick to the bottom while following, like `tail -f`
+  useEffect(() => {
+    if (followLogs && logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [visibleLines, followLogs]);
+
+  const callProcessApi = async (path: string, method: string, body?: Record<string, unknown>) => {
+    const response = await fetch(
+      body ? `/api/agent/process/${path}` : `/api/agent/process/${path}?${scopeQuery()}`,
+      body
+        ? { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify({ ...body, conversationId, teamId }) }
+        : { method }
+    );
+    const data = await response.json().catch(() => ({})) as AgentProcessInfo & { error?: string; details?: string };
+    if (!response.ok) {
+      throw new Error(typeof data.details === "string" ? data.details : data.error || `Process API returned ${response.status}`);
+    }
+    return data;
+  };
+
+  const startProcess = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!command.trim()) return;
+
+    setIsStarting(true);
+    try {
+      const process = await callProcessApi("start", "POST", {
+        command,
+        cwd: cwd.trim() || undefined,
+        secrets: secretNames,
+      });
+      setCommand("");
+      setSelectedId(process.id);
+      await loadProcesses();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start the process");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const killProcess = async (process: AgentProcessInfo) => {
+    setBusyId(process.id);
+    try {
+      await callProcessApi(encodeURIComponent(process.id), "DELETE");
+      await loadProcesses();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to kill the process");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const restartProcess = async (process: AgentProcessInfo) => {
+    setBusyId(process.id);
+    try {
+      const restarted = await callProcessApi(`${encodeURIComponent(process.id)}/restart`, "POST", {});
+      if (selectedId === process.id) setSelectedId(restarted.id);
+      await loadProcesses();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to restart the process");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const downloadLogs = async () => {
+    if (!selectedId) return;
+    try {
+      const response = await fetch(`/api/agent/process/${encodeURIComponent(selectedId)}/logs?${scopeQuery()}`);
+      const data = await response.json() as { stdout?: string; stderr?: string; error?: string; details?: string };
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Process API returned ${response.status}`);
+      }
+
+      const content = data.stderr ? `${data.stdout ?? ""}\n--- stderr ---\n${data.stderr}` : data.stdout ?? "";
+      const url = URL.createObjectURL(new Blob([stripAnsi(content)], { type: "text/plain" }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${selectedId}.log`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to download the logs");
+    }
+  };
+
+  const selected = processes?.find((process) => process.id === selectedId);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7">
+          <ActivityIcon className="h-4 w-4" />
+          <span className="sr-only">Processes</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Processes</DialogTitle>
+          <DialogDescription>
+            Background processes of this conversation&apos;s sandbox, like dev servers and watchers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={startProcess} className="flex flex-wrap items-center gap-2">
+          <Input
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            placeholder="npm run dev"
+            className="h-8 min-w-64 flex-1 font-mono text-xs"
+            aria-label="Command"
+          />
+          <Input
+            value={cwd}
+            onChange={(e) => setCwd(e.target.value)}
+            placeholder="/workspace"
+            className="h-8 w-40 font-mono text-xs"
+            aria-label="Working directory"
+          />
+          <SecretsSelect teamId={teamId} value={secretNames} onChange={setSecretNames} disabled={isStarting} />
+          <Button type="submit" size="sm" disabled={isStarting || !command.trim()}>
+            {isStarting ? <Loader2Icon className="mr-1 h-4 w-4 animate-spin" /> : <PlayIcon className="mr-1 h-4 w-4" />}
+            Start
+          </Button>
+        </form>
+
+        <div className="grid gap-3 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+          <div className="h-[50vh] overflow-y-auto rounded-md border">
+            {processes === null ? (
+              <div className="flex justify-center p-6">
+                <Loader2Icon className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : processes.length === 0 ? (
+              <p className="p-6 text-center text-sm text-muted-foreground">No processes yet</p>
+            ) : (
+              <ul className="divide-y">
+                {processes.map((process) => {
+                  const startedAt = new Date(process.startTime).getTime();
+                  const endedAt = process.endTime ? new Date(process.endTime).getTime() : now;
+
+                  return (
+                    <li
+                      key={process.id}
+                      className={`cursor-pointer p-2 hover:bg-muted/50 ${process.id === selectedId ? "bg-muted" : ""}`}
+                      onClick={() => setSelectedId(process.id)}
+                    >
+                      <p className="truncate font-mono text-xs" title={process.command}>{process.command}</p>
+                      <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                        <Badge variant={STATUS_VARIANTS[process.status]} className="px-1.5 py-0 text-[10px]">
+                          {process.status}{process.exitCode !== null && !isActive(process) ? ` (${process.exitCode})` : ""}
+                        </Badge>
+                        {process.pid !== null && <span>PID {process.pid}</span>}
+                        <span>{formatUptime(endedAt - startedAt)}</span>
+                        {process.conversation && (
+                          <span className="truncate" title={process.conversation.title}>
+                            · {process.conversation.title}
+                          </span>
+                        )}
+                        <span className="ml-auto flex gap-1" onClick={(e) => e.stopPropagation()}>
+                          {isActive(process) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              disabled={busyId === process.id}
+                              onClick={() => killProcess(process)}
+                            >
+                              <SquareIcon className="h-3 w-3" />
+                              <span className="sr-only">Kill</span>
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            disabled={busyId === process.id}
+                            onClick={() => restartProcess(process)}
+                          >
+                            {busyId === process.id ? <Loader2Icon className="h-3 w-3 animate-spin" /> : <RotateCwIcon className="h-3 w-3" />}
+                            <span className="sr-only">Restart</span>
+                          </Button>
+                        </span>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex h-[50vh] min-w-0 flex-col rounded-md border">
+            <div className="flex items-center gap-2 border-b p-2">
+              <div className="relative flex-1">
+                <SearchIcon className="absolute left-2 top-1/2 h-3 w-3 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search logs"
+                  className="h-7 pl-7 text-xs"
+                  aria-label="Search logs"
+                />
+              </div>
+              {search.trim() && (
+                <span className="text-xs text-muted-foreground">{visibleLines.length} matching</span>
+              )}
+              <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                <input type="checkbox" checked={followLogs} onChange={(e) => setFollowLogs(e.target.checked)} />
+                Follow
+              </label>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={downloadLogs} disabled={!selectedId}>
+                <DownloadIcon className="h-4 w-4" />
+                <span className="sr-only">Download logs</span>
+              </Button>
+            </div>
+
+            <div ref={logRef} className="flex-1 overflow-auto whitespace-pre-wrap break-all bg-zinc-950 p-2 font-mono text-xs text-zinc-100">
+              {!selectedId ? (
+                <p className="text-zinc-400">Select a process to see its output</p>
+              ) : (
+                <>
+                  {visibleLines.map((line, index) => (
+                    <LogLineView key={index} line={line} />
+                  ))}
+                  {isTailing && selected && isActive(selected) && (
+                    <Loader2Icon className="mt-1 h-3 w-3 animate-spin text-zinc-400" />
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
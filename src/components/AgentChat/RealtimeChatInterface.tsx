@@ -7,7 +7,13 @@ import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
-import { useWebSocket, WebSocketState, type WebSocketMessage } from "@/lib/websocket/client";
+import { useRunCancel } from "@/hooks/useRunCancel";
+import { WebSocketState, type WebSocketMessage } from "@/lib/websocket/client";
+import { useAgentRoom } from "@/lib/websocket/agent-room";
+import { describeRunControl, SharedRunBar } from "./SharedRunBar";
+import type { ToolExecutionOutput } from "@/lib/agent-tools";
+import type { AgentExecutionStreamEvent, AgentStreamEvent, RoomUser, RunControl, RunEnd, RunEventBatch, SharedRun } from "@/types/agent";
+import { readResumableServerSentEvents } from "@/utils/read-server-sent-events";
 
 enum OutputType {
   Text = "text",
@@ -32,54 +38,119 @@ interface Message {
   content: string;
   timestamp: Date;
   outputs: Output[];
-  userId?: string;
+  // Author of messages from other users, and of the caller's own replayed messages.
+  // For shared agent runs, who the agent runs for.
+  user?: RoomUser;
 }
 
-export function RealtimeChatInterface() {
+function runMessageId(runId: string) {
+  return `run-${runId}`;
+}
+
+// Text and images of a finished tool call
+function toolResultOutputs(toolCallId: string, output: unknown): Output[] {
+  const result = (output ?? {}) as Partial<ToolExecutionOutput>;
+  const outputs: Output[] = [];
+  const text = [result.stdout, result.stderr, result.error].filter(Boolean).join("\n");
+
+  if (text) {
+    outputs.push({ id: `${toolCallId}-text`, type: OutputType.Text, data: text });
+  }
+  (result.results ?? []).forEach((item, index) => {
+    const image = item.png ? `data:image/png;base64,${item.png}`
+      : item.jpeg ? `data:image/jpeg;base64,${item.jpeg}`
+      : item.svg ? `data:image/svg+xml;base64,${item.svg}`
+      : null;
+    if (image) {
+      outputs.push({ id: `${toolCallId}-result-${index}`, type: OutputType.Image, data: image });
+    } else if (item.text) {
+      outputs.push({ id: `${toolCallId}-result-${index}`, type: OutputType.Text, data: item.text });
+    }
+  });
+
+  return outputs;
+}
+
+// Update the message of a shared run with one of its events
+function applyRunEvent(message: Message, event: AgentStreamEvent): Message {
+  const liveId = "toolCallId" in event ? `${event.toolCallId}-live` : null;
+  const outputs = message.outputs.filter((output) => output.id !== liveId);
+
+  switch (event.type) {
+    case "text-delta":
+      return { ...message, content: message.content + event.text };
+    case "tool-call":
+      return {
+        ...message,
+        outputs: [...message.outputs, {
+          id: `${event.toolCallId}-call`,
+          type: OutputType.Text,
+          data: `Step ${event.step} · ${event.toolName}\n${JSON.stringify(event.input, null, 2)}`,
+        }],
+      };
+    case "tool-output": {
+      // Output of code still running, replaced by the tool result
+      const live = message.outputs.find((output) => output.id === liveId);
+      return {
+        ...message,
+        outputs: [...outputs, { id: `${event.toolCallId}-live`, type: OutputType.Text, data: (live?.data ?? "") + event.text }],
+      };
+    }
+    case "tool-result":
+      return { ...message, outputs: [...outputs, ...toolResultOutputs(event.toolCallId, event.output)] };
+    case "tool-error":
+      return {
+        ...message,
+        outputs: [...outputs, { id: `${event.toolCallId}-error`, type: OutputType.Text, data: `${event.toolName} failed: ${event.error}` }],
+      };
+    case "finish":
+      return { ...message, content: message.content || event.text || "Done" };
+    case "error":
+      return { ...message, content: `Error: ${event.message}` };
+    default:
+      return message;
+  }
+}
+
+/**
+ * Chat shared with the other users of a room, `conversation:<id>` for a conversation and
+ * the caller's own room otherwise. Members who may only watch can't send messages.
+ * Agent runs of the conversation show up as they happen, and members who may steer them
+ * interject with their messages while one is running.
+ */
+export function RealtimeChatInterface({ room }: { room?: string } = {}) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [connectedUsers, setConnectedUsers] = useState<string[]>([]);
 
-  // WebSocket connection
-  const { 
-    state: wsState, 
-    sendMessage: sendWsMessage,
-    isConnected 
-  } = useWebSocket({
-    room: 'agent-chat',
-    onMessage: (message: WebSocketMessage) => {
-      handleWebSocketMessage(message);
-    },
-    onOpen: () => {
-      toast.success('Connected to real-time chat');
-    },
-    onClose: () => {
-      toast.info('Disconnected from real-time chat');
-    },
-    onError: () => {
-      toast.error('WebSocket connection error');
-    }
-  });
+  // Create the message of a shared run, or update it when it exists
+  const updateRunMessage = useCallback((run: Pick<SharedRun, "id"> & { user?: RoomUser }, timestamp: number, update: (msg: Message) => Message) => {
+    setMessages(prev => {
+      const id = runMessageId(run.id);
+      if (prev.some(msg => msg.id === id)) {
+        return prev.map(msg => msg.id === id ? update(msg) : msg);
+      }
+      return [...prev, update({
+        id,
+        role: Role.Assistant,
+        content: "",
+        timestamp: new Date(timestamp),
+        outputs: [],
+        user: run.user,
+      })];
+    });
+  }, []);
 
   const handleWebSocketMessage = useCallback((wsMessage: WebSocketMessage) => {
     switch (wsMessage.type) {
-      case 'welcome':
-        // Handle welcome message with connected clients
-        const welcomeData = wsMessage.data as { connectedClients?: string[] };
-        if (welcomeData.connectedClients) {
-          setConnectedUsers(welcomeData.connectedClients);
-        }
-        break;
-
       case 'join':
         // User joined
-        if (wsMessage.userId) {
-          setConnectedUsers(prev => [...prev, wsMessage.userId!]);
+        if (wsMessage.user) {
+          const user = wsMessage.user;
           const joinMessage: Message = {
             id: `system-${Date.now()}`,
             role: Role.System,
-            content: `User ${wsMessage.userId} joined the chat`,
+            content: `${user.name} joined the chat`,
             timestamp: new Date(wsMessage.timestamp),
             outputs: [],
           };
@@ -89,12 +160,12 @@ export function RealtimeChatInterface() {
 
       case 'leave':
         // User left
-        if (wsMessage.userId) {
-          setConnectedUsers(prev => prev.filter(id => id !== wsMessage.userId));
+        if (wsMessage.user) {
+          const user = wsMessage.user;
           const leaveMessage: Message = {
             id: `system-${Date.now()}`,
             role: Role.System,
-            content: `User ${wsMessage.userId} left the chat`,
+            content: `${user.name} left the chat`,
             timestamp: new Date(wsMessage.timestamp),
             outputs: [],
           };
@@ -108,12 +179,12 @@ export function RealtimeChatInterface() {
           const msgData = wsMessage.data as { content?: string; outputs?: Output[] };
           if (msgData.content) {
             const message: Message = {
-              id: `msg-${wsMessage.timestamp}`,
+              id: `msg-${wsMessage.seq ?? wsMessage.timestamp}`,
               role: Role.User,
               content: msgData.content,
               timestamp: new Date(wsMessage.timestamp),
               outputs: msgData.outputs || [],
-              userId: wsMessage.userId,
+              user: wsMessage.user,
             };
             setMessages(prev => [...prev, message]);
           }
@@ -126,7 +197,7 @@ export function RealtimeChatInterface() {
           const responseData = wsMessage.data as { content?: string; outputs?: Output[] };
           if (responseData.content) {
             const assistantMessage: Message = {
-              id: `agent-${wsMessage.timestamp}`,
+              id: `agent-${wsMessage.seq ?? wsMessage.timestamp}`,
               role: Role.Assistant,
               content: responseData.content,
               timestamp: new Date(wsMessage.timestamp),
@@ -136,14 +207,104 @@ export function RealtimeChatInterface() {
           }
         }
         break;
+
+      case 'run-start': {
+        const run = wsMessage.data as SharedRun;
+        updateRunMessage(run, wsMessage.timestamp, msg => msg);
+        break;
+      }
+
+      case 'agent-event': {
+        // Events of the run are only sent while it runs, they aren't replayed
+        const { runId, events } = wsMessage.data as RunEventBatch;
+        updateRunMessage({ id: runId }, wsMessage.timestamp, msg => events.reduce(applyRunEvent, msg));
+        break;
+      }
+
+      case 'run-control': {
+        const control = wsMessage.data as RunControl;
+        const user = wsMessage.user;
+        if (!user) break;
+
+        const message: Message = control.action === 'interject'
+          ? {
+              id: `msg-${wsMessage.seq ?? wsMessage.timestamp}`,
+              role: Role.User,
+              content: control.text ?? "",
+              timestamp: new Date(wsMessage.timestamp),
+              outputs: [],
+              user,
+            }
+          : {
+              id: `system-${wsMessage.seq ?? wsMessage.timestamp}`,
+              role: Role.System,
+              content: describeRunControl(control, user.name),
+              timestamp: new Date(wsMessage.timestamp),
+              outputs: [],
+            };
+        setMessages(prev => [...prev, message]);
+        break;
+      }
+
+      case 'run-end': {
+        // Members who joined after the run started only get its answer
+        const end = wsMessage.data as RunEnd;
+        updateRunMessage({ id: end.runId }, wsMessage.timestamp, msg => ({
+          ...msg,
+          content: end.finishReason === 'abandoned'
+            ? `${msg.content}\n\nThe agent run ended unexpectedly`.trim()
+            : msg.content || end.text || "Done",
+        }));
+        break;
+      }
+
+      case 'error':
+        toast.error(typeof wsMessage.data === 'string' ? wsMessage.data : 'Real-time chat error');
+        break;
     }
-  }, []);
+  }, [updateRunMessage]);
+
+  const agentRoom = useAgentRoom({
+    room,
+    onMessage: handleWebSocketMessage,
+    onOpen: () => {
+      toast.success('Connected to real-time chat');
+    },
+    onClose: () => {
+      toast.info('Disconnected from real-time chat');
+    },
+    onError: () => {
+      toast.error('WebSocket connection error');
+    }
+  });
+  const {
+    state: wsState,
+    sendMessage: sendWsMessage,
+    isConnected,
+    users: connectedUsers,
+    currentUserId,
+    permission,
+    run,
+  } = agentRoom;
+  // While a run is shared in the room, messages go to the agent as interjections
+  const canInterject = isConnected && run !== null && permission === "steer";
+  // The user's own run being waited for, which they may stop
+  const activeRun = useRunCancel();
 
   const sendMessage = async () => {
     if (!input.trim()) {
       return;
     }
 
+    if (isConnected) agentRoom.notifyTyping(false);
+    if (canInterject) {
+      // Shown once the room relays it, like everyone else's
+      if (agentRoom.controlRun('interject', input.trim())) {
+        setInput("");
+      }
+      return;
+    }
+
     const userMessage: Message = {
       id: Date.now().toString(),
       role: Role.User,
@@ -190,6 +351,7 @@ export function RealtimeChatInterface() {
         if (!response.ok) {
           throw new Error(`Stream API returned ${response.status}`);
         }
+        activeRun.trackRun(response);
 
         // Create assistant message that will be updated with streaming content
         const assistantMessageId = (Date.now() + 1).toString();
@@ -203,92 +365,70 @@ export function RealtimeChatInterface() {
         
         setMessages((prev) => [...prev, assistantMessage]);
 
-        // Process the stream
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let buffer = "";
+        // Process the stream, resuming it when the connection drops
         let outputContent = "";
 
-        if (reader) {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split("\n");
-            buffer = lines.pop() || "";
-
-            for (const line of lines) {
-              if (line.startsWith("data: ")) {
-                try {
-                  const data = JSON.parse(line.slice(6));
-                  
-                  if (data.type === "output" || data.type === "error_output") {
-                    outputContent += data.content;
-                    // Update the message with accumulated output
-                    setMessages((prev) => 
-                      prev.map((msg) => 
-                        msg.id === assistantMessageId 
-                          ? { 
-                              ...msg, 
-                              content: outputContent,
-                              outputs: [{
-                                type: OutputType.Text,
-                                data: outputContent
-                              }]
-                            }
-                          : msg
-                      )
-                    );
-
-                    // Broadcast agent response via WebSocket
-                    if (isConnected) {
-                      sendWsMessage({
-                        type: 'agent-response',
-                        data: {
-                          content: outputContent,
-                          outputs: [{
-                            type: OutputType.Text,
-                            data: outputContent
-                          }]
-                        },
-                        timestamp: Date.now(),
-                      });
+        await readResumableServerSentEvents<AgentExecutionStreamEvent>(response, (data) => {
+          if (data.type === "output" || data.type === "error_output") {
+            outputContent += data.content;
+            // Update the message with accumulated output
+            setMessages((prev) => 
+              prev.map((msg) => 
+                msg.id === assistantMessageId 
+                  ? { 
+                      ...msg, 
+                      content: outputContent,
+                      outputs: [{
+                        type: OutputType.Text,
+                        data: outputContent
+                      }]
                     }
-                  } else if (data.type === "result") {
-                    // Final result
-                    const finalContent = outputContent || data.content || "Execution completed";
-                    setMessages((prev) => 
-                      prev.map((msg) => 
-                        msg.id === assistantMessageId 
-                          ? { 
-                              ...msg, 
-                              content: finalContent,
-                              outputs: [{
-                                type: OutputType.Text,
-                                data: outputContent || data.content
-                              }]
-                            }
-                          : msg
-                      )
-                    );
-                  } else if (data.type === "error") {
-                    toast.error("Execution error: " + data.message);
-                    setMessages((prev) => 
-                      prev.map((msg) => 
-                        msg.id === assistantMessageId 
-                          ? { ...msg, content: `Error: ${data.message}` }
-                          : msg
-                      )
-                    );
-                  }
-                } catch (e) {
-                  console.error("Failed to parse SSE data:", e);
-                }
-              }
+                  : msg
+              )
+            );
+
+            // Broadcast agent response via WebSocket
+            if (isConnected) {
+              sendWsMessage({
+                type: 'agent-response',
+                data: {
+                  content: outputContent,
+                  outputs: [{
+                    type: OutputType.Text,
+                    data: outputContent
+                  }]
+                },
+                timestamp: Date.now(),
+              });
             }
+          } else if (data.type === "result") {
+            // Final result
+            const finalContent = outputContent || data.content || "Execution completed";
+            setMessages((prev) => 
+              prev.map((msg) => 
+                msg.id === assistantMessageId 
+                  ? { 
+                      ...msg, 
+                      content: finalContent,
+                      outputs: [{
+                        type: OutputType.Text,
+                        data: outputContent || data.content
+                      }]
+                    }
+                  : msg
+              )
+            );
+          } else if (data.type === "error") {
+            toast.error("Execution error: " + data.message);
+            setMessages((prev) => 
+              prev.map((msg) => 
+                msg.id === assistantMessageId 
+                  ? { ...msg, content: `Error: ${data.message}` }
+                  : msg
+              )
+            );
           }
-        }
+        });
 
         toast.success("Code executed successfully");
       } else {
@@ -306,6 +446,7 @@ export function RealtimeChatInterface() {
         if (!response.ok) {
           throw new Error(`API returned ${response.status}`);
         }
+        activeRun.trackRun(response);
 
         const data = await response.json() as { result?: string; outputs?: Output[]; error?: string; success?: boolean };
         
@@ -347,6 +488,7 @@ export function RealtimeChatInterface() {
       setMessages((prev) => [...prev, errorMessage]);
       toast.error(error instanceof Error ? error.message : "Failed to send message");
     } finally {
+      activeRun.trackRun(null);
       setIsLoading(false);
     }
   };
@@ -378,12 +520,15 @@ export function RealtimeChatInterface() {
           <span className="text-sm text-muted-foreground">{status.text}</span>
         </div>
         <div className="flex items-center gap-2">
-          <Badge variant="secondary">
+          <Badge variant="secondary" title={connectedUsers.map(user => user.name).join("\n")}>
             {connectedUsers.length} user{connectedUsers.length !== 1 ? 's' : ''} online
           </Badge>
         </div>
       </div>
 
+      {/* Who is typing and the agent run shared in the room */}
+      <SharedRunBar room={agentRoom} />
+
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((message) => {
@@ -396,8 +541,10 @@ export function RealtimeChatInterface() {
             : "mr-auto max-w-[80%] bg-gray-50";
           
           let authorLabel = "AI Agent";
-          if (isUser) {
-            authorLabel = message.userId ? `User ${message.userId}` : "You";
+          if (!isUser && !isSystem && message.user && message.user.id !== currentUserId) {
+            authorLabel = `AI Agent for ${message.user.name}`;
+          } else if (isUser) {
+            authorLabel = message.user && message.user.id !== currentUserId ? message.user.name : "You";
           } else if (isSystem) {
             authorLabel = "System";
           }
@@ -451,30 +598,47 @@ export function RealtimeChatInterface() {
         <div className="flex gap-2 items-center">
           <Input
             value={input}
-            onChange={(e: ChangeEvent<HTMLInputElement>) =>
-              setInput(e.target.value)
-            }
-            placeholder="Ask me to run code, analyze data, or help with tasks..."
+            onChange={(e: ChangeEvent<HTMLInputElement>) => {
+              setInput(e.target.value);
+              if (isConnected && permission !== "watch") agentRoom.notifyTyping(e.target.value.length > 0);
+            }}
+            placeholder={canInterject ? "Tell the agent something while it works..." : "Ask me to run code, analyze data, or help with tasks..."}
             onKeyDown={(e: KeyboardEvent<HTMLInputElement>) => {
               if (e.nativeEvent.isComposing) return;
               if (e.key !== "Enter") return;
-              if (isLoading) return;
+              if (isLoading && !canInterject) return;
               sendMessage();
             }}
-            disabled={isLoading || !isConnected}
+            disabled={(isLoading && !canInterject) || !isConnected || permission === "watch"}
           />
           <Button 
             onClick={sendMessage} 
-            disabled={isLoading || !input.trim() || !isConnected}
+            disabled={(isLoading && !canInterject) || !input.trim() || !isConnected || permission === "watch"}
           >
-            {isLoading ? "Thinking..." : "Send"}
+            {canInterject ? "Interject" : isLoading ? "Thinking..." : "Send"}
           </Button>
+          {isLoading && activeRun.runId && (
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => activeRun.cancelRun()}
+              disabled={activeRun.isCanceling}
+              title="Stop the run, keeping its output so far"
+            >
+              {activeRun.isCanceling ? "Stopping..." : "Stop"}
+            </Button>
+          )}
         </div>
         {!isConnected && (
           <div className="text-xs text-red-500 mt-2">
             WebSocket disconnected. Messages will be sent via HTTP only.
           </div>
         )}
+        {isConnected && permission === "watch" && (
+          <div className="text-xs text-muted-foreground mt-2">
+            You can watch this room but not post in it.
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,98 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { KeyRoundIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { AgentSecretListResponse, AgentSecretOption } from "@/types/agent";
+
+/**
+ * Pick the secrets exposed to the agent's code as environment variables.
+ * Team secrets are offered when the run is billed to a team.
+ */
+export function SecretsSelect({
+  teamId,
+  value,
+  onChange,
+  disabled,
+}: {
+  teamId?: string;
+  value: string[];
+  onChange: (names: string[]) => void;
+  disabled?: boolean;
+}) {
+  const [secrets, setSecrets] = useState<AgentSecretOption[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const params = teamId ? `?teamId=${encodeURIComponent(teamId)}` : "";
+
+    fetch(`/api/agent/secrets${params}`)
+      .then((response) => response.ok ? response.json() as Promise<AgentSecretListResponse> : { secrets: [] })
+      .then((data) => {
+        if (!cancelled) setSecrets(data.secrets);
+      })
+      .catch(() => {
+        if (!cancelled) setSecrets([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [teamId]);
+
+  // Forget selections that aren't available for the new team
+  useEffect(() => {
+    if (!secrets) return;
+    const available = value.filter((name) => secrets.some((secret) => secret.name === name));
+    if (available.length !== value.length) onChange(available);
+  }, [secrets, value, onChange]);
+
+  const toggle = (name: string, checked: boolean) => {
+    onChange(checked ? [...value, name] : value.filter((selected) => selected !== name));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" className="shrink-0" disabled={disabled}>
+          <KeyRoundIcon className="mr-1 h-4 w-4" />
+          {value.length > 0 ? `${value.length} secret${value.length > 1 ? "s" : ""}` : "Secrets"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-64">
+        <DropdownMenuLabel>Expose as environment variables</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {secrets?.map((secret) => (
+          <DropdownMenuCheckboxItem
+            key={secret.name}
+            checked={value.includes(secret.name)}
+            onCheckedChange={(checked) => toggle(secret.name, checked)}
+            onSelect={(e) => e.preventDefault()}
+          >
+            <span className="truncate font-mono text-xs">{secret.name}</span>
+            {secret.source === "team" && (
+              <span className="ml-auto pl-2 text-xs text-muted-foreground">team</span>
+            )}
+          </DropdownMenuCheckboxItem>
+        ))}
+        {secrets?.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">No secrets yet</p>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href="/settings/secrets">Manage secrets</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { PauseIcon, PlayIcon, SquareIcon, UsersIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { AgentRoom } from "@/lib/websocket/agent-room";
+import type { RunControl } from "@/types/agent";
+
+function typingLabel(names: string[]) {
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} people are typing…`;
+}
+
+/**
+ * Who is in a conversation's room and typing, and the agent run shared in it, with
+ * pause, resume and stop for members who may steer it
+ */
+export function SharedRunBar({ room }: { room: AgentRoom }) {
+  const { users, currentUserId, typingUsers, run, permission, isConnected, controlRun } = room;
+
+  if (!isConnected) {
+    return null;
+  }
+
+  const canSteer = permission === "steer";
+
+  const stopRun = () => {
+    if (!window.confirm("Stop the agent run for everyone in this conversation?")) return;
+    controlRun("stop");
+  };
+
+  return (
+    <div className="flex items-center gap-2 border-b px-4 py-2 text-xs text-muted-foreground">
+      <UsersIcon className="h-4 w-4 shrink-0" />
+      <div className="flex gap-1 overflow-x-auto">
+        {users.map((user) => (
+          <Badge key={user.id} variant={user.id === currentUserId ? "default" : "secondary"}>
+            {user.id === currentUserId ? "You" : user.name}
+          </Badge>
+        ))}
+      </div>
+
+      {typingUsers.length > 0 && (
+        <span className="truncate italic">{typingLabel(typingUsers.map((user) => user.name))}</span>
+      )}
+
+      {run && (
+        <div className="ml-auto flex items-center gap-1">
+          <span>
+            {run.paused ? "Agent paused" : "Agent running"}
+            {run.user.id !== currentUserId && ` for ${run.user.name}`}
+          </span>
+          {canSteer && (
+            <>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title={run.paused ? "Resume the run" : "Pause the run after the current step"}
+                onClick={() => controlRun(run.paused ? "resume" : "pause")}
+              >
+                {run.paused ? <PlayIcon className="h-4 w-4" /> : <PauseIcon className="h-4 w-4" />}
+              </Button>
+              <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Stop the run" onClick={stopRun}>
+                <SquareIcon className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// What a member did to the run, for the chat
+export function describeRunControl(control: RunControl, userName: string) {
+  switch (control.action) {
+    case "pause":
+      return `${userName} paused the agent`;
+    case "resume":
+      return `${userName} resumed the agent`;
+    case "stop":
+      return `${userName} stopped the agent`;
+    case "interject":
+      return `${userName} interjected: ${control.text ?? ""}`;
+  }
+}
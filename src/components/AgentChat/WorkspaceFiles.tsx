@@ -0,0 +1,574 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { DragEvent } from "react";
+import { toast } from "sonner";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  DownloadIcon,
+  FileIcon,
+  FolderIcon,
+  FolderInputIcon,
+  FolderPlusIcon,
+  MoreHorizontalIcon,
+  PencilIcon,
+  RefreshCwIcon,
+  TrashIcon,
+  UploadIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CodeEditor } from "./CodeEditor";
+import { WorkspaceSnapshots } from "./WorkspaceSnapshots";
+import { GitPanel } from "./GitPanel";
+import { GitHubImport } from "./GitHubImport";
+import { NotebookPanel } from "./NotebookPanel";
+import { ProcessPanel } from "./ProcessPanel";
+
+export const WORKSPACE_ROOT = "/workspace";
+
+// Larger files are not opened in the editor
+const MAX_EDITABLE_FILE_SIZE = 1024 * 1024;
+
+interface FileEntry {
+  name: string;
+  absolutePath: string;
+  type: "file" | "directory" | "symlink" | "other";
+  size: number;
+}
+
+type FileDialog =
+  | { type: "rename"; entry: FileEntry }
+  | { type: "move"; entry: FileEntry }
+  | { type: "delete"; entry: FileEntry }
+  | { type: "mkdir"; parent: string };
+
+interface OpenFile {
+  path: string;
+  content: string;
+  savedContent: string;
+}
+
+function getParentPath(path: string) {
+  return path.slice(0, path.lastIndexOf("/")) || "/";
+}
+
+function joinPath(directory: string, name: string) {
+  return `${directory.replace(/\/$/, "")}/${name}`;
+}
+
+function getName(path: string) {
+  return path.split("/").filter(Boolean).pop() || "workspace";
+}
+
+// Text decoded from a binary file has NUL bytes or replacement characters in it
+function looksBinary(content: string) {
+  return /[\u0000\uFFFD]/.test(content);
+}
+
+function sortEntries(entries: FileEntry[]) {
+  return [...entries].sort((a, b) => {
+    if ((a.type === "directory") !== (b.type === "directory")) {
+      return a.type === "directory" ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name);
+  });
+}
+
+async function fileToBase64(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  // Convert in chunks so large files don't overflow the call stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * File tree of the conversation's sandbox workspace, with an editor for opening and saving files.
+ */
+export function WorkspaceFiles({
+  conversationId,
+  teamId,
+  refreshKey,
+}: {
+  conversationId?: string;
+  // Team whose sandbox is shown, the user's own when unset
+  teamId?: string;
+  // Changing this reloads the open directories, e.g. after an agent run
+  refreshKey?: number;
+}) {
+  const [directories, setDirectories] = useState<Record<string, FileEntry[]>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({ [WORKSPACE_ROOT]: true });
+  const [loadingPaths, setLoadingPaths] = useState<Record<string, boolean>>({});
+  const [dialog, setDialog] = useState<FileDialog | null>(null);
+  const [dialogValue, setDialogValue] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [openFile, setOpenFile] = useState<OpenFile | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const expandedRef = useRef(expanded);
+  expandedRef.current = expanded;
+
+  const callFilesApi = useCallback(async <T,>(action: string, body: Record<string, unknown>): Promise<T> => {
+    const response = await fetch(`/api/agent/files/${action}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, conversationId, teamId }),
+    });
+
+    const data = await response.json().catch(() => ({})) as T & { error?: string; details?: string };
+    if (!response.ok) {
+      throw new Error(data.details || data.error || `Files API returned ${response.status}`);
+    }
+    return data;
+  }, [conversationId, teamId]);
+
+  const loadDirectory = useCallback(async (path: string) => {
+    setLoadingPaths((prev) => ({ ...prev, [path]: true }));
+    try {
+      const { files } = await callFilesApi<{ files: FileEntry[] }>("list", { path });
+      setDirectories((prev) => ({ ...prev, [path]: sortEntries(files) }));
+    } catch (error) {
+      console.error("[WorkspaceFiles] Failed to list directory:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to load files");
+    } finally {
+      setLoadingPaths((prev) => ({ ...prev, [path]: false }));
+    }
+  }, [callFilesApi]);
+
+  const refresh = useCallback(() => {
+    Object.entries(expandedRef.current)
+      .filter(([, isExpanded]) => isExpanded)
+      .forEach(([path]) => loadDirectory(path));
+  }, [loadDirectory]);
+
+  // Reload when the sandbox changes or the agent may have touched the workspace
+  useEffect(() => {
+    setDirectories({});
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const toggleDirectory = (path: string) => {
+    const isExpanded = !expanded[path];
+    setExpanded((prev) => ({ ...prev, [path]: isExpanded }));
+    if (isExpanded && !directories[path]) {
+      loadDirectory(path);
+    }
+  };
+
+  // Files come back as raw bytes and folders as zip archives without .gitignore'd files
+  const downloadPath = async (path: string, isDirectory: boolean) => {
+    try {
+      const response = await fetch(`/api/agent/files/${isDirectory ? "archive" : "download"}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ path, conversationId, teamId }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({})) as { error?: string; details?: string };
+        throw new Error(data.details || data.error || `Files API returned ${response.status}`);
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = isDirectory ? `${getName(path)}.zip` : getName(path);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("[WorkspaceFiles] Failed to download:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to download");
+    }
+  };
+
+  const openEntry = async (entry: FileEntry) => {
+    if (entry.size > MAX_EDITABLE_FILE_SIZE) {
+      toast.error("This file is too large to open in the editor");
+      return;
+    }
+
+    try {
+      const { content } = await callFilesApi<{ content: string }>("read", { path: entry.absolutePath });
+      if (looksBinary(content)) {
+        toast.info("Binary files can't be edited, downloading it instead");
+        await downloadPath(entry.absolutePath, false);
+        return;
+      }
+      setOpenFile({ path: entry.absolutePath, content, savedContent: content });
+    } catch (error) {
+      console.error("[WorkspaceFiles] Failed to read file:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to open file");
+    }
+  };
+
+  const saveFile = async () => {
+    if (!openFile || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await callFilesApi("write", { path: openFile.path, content: openFile.content });
+      setOpenFile((prev) => prev && { ...prev, savedContent: openFile.content });
+      toast.success("File saved");
+      loadDirectory(getParentPath(openFile.path));
+    } catch (error) {
+      console.error("[WorkspaceFiles] Failed to save file:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save file");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const uploadFiles = async (files: FileList | File[], directory: string) => {
+    const list = Array.from(files);
+    if (list.length === 0) return;
+
+    try {
+      for (const file of list) {
+        await callFilesApi("write", {
+          path: joinPath(directory, file.name),
+          content: await fileToBase64(file),
+          encoding: "base64",
+        });
+      }
+      toast.success(`Uploaded ${list.length} file${list.length > 1 ? "s" : ""}`);
+    } catch (error) {
+      console.error("[WorkspaceFiles] Failed to upload files:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to upload files");
+    } finally {
+      setExpanded((prev) => ({ ...prev, [directory]: true }));
+      loadDirectory(directory);
+    }
+  };
+
+  const openDialog = (next: FileDialog) => {
+    switch (next.type) {
+      case "rename":
+        setDialogValue(next.entry.name);
+        break;
+      case "move":
+        setDialogValue(getParentPath(next.entry.absolutePath));
+        break;
+      default:
+        setDialogValue("");
+    }
+    setDialog(next);
+  };
+
+  const submitDialog = async () => {
+    if (!dialog) return;
+
+    const value = dialogValue.trim();
+    setIsSubmitting(true);
+    try {
+      switch (dialog.type) {
+        case "rename":
+          await callFilesApi("rename", {
+            oldPath: dialog.entry.absolutePath,
+            newPath: joinPath(getParentPath(dialog.entry.absolutePath), value),
+          });
+          loadDirectory(getParentPath(dialog.entry.absolutePath));
+          break;
+        case "move":
+          await callFilesApi("move", {
+            sourcePath: dialog.entry.absolutePath,
+            destinationPath: joinPath(value, dialog.entry.name),
+          });
+          loadDirectory(getParentPath(dialog.entry.absolutePath));
+          loadDirectory(value);
+          break;
+        case "delete":
+          await callFilesApi("delete", {
+            path: dialog.entry.absolutePath,
+            recursive: dialog.entry.type === "directory",
+          });
+          if (openFile?.path === dialog.entry.absolutePath) {
+            setOpenFile(null);
+          }
+          loadDirectory(getParentPath(dialog.entry.absolutePath));
+          break;
+        case "mkdir":
+          await callFilesApi("mkdir", { path: joinPath(dialog.parent, value), recursive: true });
+          setExpanded((prev) => ({ ...prev, [dialog.parent]: true }));
+          loadDirectory(dialog.parent);
+          break;
+      }
+      setDialog(null);
+    } catch (error) {
+      console.error("[WorkspaceFiles] File operation failed:", error);
+      toast.error(error instanceof Error ? error.message : "File operation failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const dropHandlers = (directory: string) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes("Files")) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(directory);
+    },
+    onDragLeave: (e: DragEvent) => {
+      e.stopPropagation();
+      setDropTarget((current) => (current === directory ? null : current));
+    },
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDropTarget(null);
+      uploadFiles(e.dataTransfer.files, directory);
+    },
+  });
+
+  const renderDirectory = (path: string, depth: number) => {
+    const entries = directories[path];
+
+    if (!entries) {
+      return loadingPaths[path] ? (
+        <div className="text-xs text-muted-foreground py-1" style={{ paddingLeft: depth * 12 + 8 }}>
+          Loading...
+        </div>
+      ) : null;
+    }
+
+    if (entries.length === 0) {
+      return (
+        <div className="text-xs text-muted-foreground py-1" style={{ paddingLeft: depth * 12 + 8 }}>
+          Empty
+        </div>
+      );
+    }
+
+    return entries.map((entry) => {
+      const isDirectory = entry.type === "directory";
+      const isExpanded = isDirectory && expanded[entry.absolutePath];
+
+      return (
+        <div key={entry.absolutePath} {...(isDirectory ? dropHandlers(entry.absolutePath) : {})}>
+          <div
+            className={`group flex items-center gap-1 rounded-md pr-1 ${dropTarget === entry.absolutePath ? "bg-blue-50" : "hover:bg-muted/50"} ${openFile?.path === entry.absolutePath ? "bg-muted" : ""}`}
+            style={{ paddingLeft: depth * 12 }}
+          >
+            <button
+              type="button"
+              className="flex flex-1 min-w-0 items-center gap-1 py-1 text-left text-sm"
+              onClick={() => (isDirectory ? toggleDirectory(entry.absolutePath) : openEntry(entry))}
+            >
+              {isDirectory ? (
+                isExpanded ? <ChevronDownIcon className="h-3 w-3 shrink-0" /> : <ChevronRightIcon className="h-3 w-3 shrink-0" />
+              ) : (
+                <span className="w-3 shrink-0" />
+              )}
+              {isDirectory ? (
+                <FolderIcon className="h-4 w-4 shrink-0 text-blue-500" />
+              ) : (
+                <FileIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+              )}
+              <span className="truncate">{entry.name}</span>
+            </button>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100">
+                  <MoreHorizontalIcon className="h-4 w-4" />
+                  <span className="sr-only">File actions</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {isDirectory && (
+                  <DropdownMenuItem onSelect={() => openDialog({ type: "mkdir", parent: entry.absolutePath })}>
+                    <FolderPlusIcon className="h-4 w-4 mr-2" />
+                    New folder
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onSelect={() => downloadPath(entry.absolutePath, isDirectory)}>
+                  <DownloadIcon className="h-4 w-4 mr-2" />
+                  {isDirectory ? "Download as zip" : "Download"}
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openDialog({ type: "rename", entry })}>
+                  <PencilIcon className="h-4 w-4 mr-2" />
+                  Rename
+                </DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openDialog({ type: "move", entry })}>
+                  <FolderInputIcon className="h-4 w-4 mr-2" />
+                  Move
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  className="text-red-500 focus:text-red-600"
+                  onSelect={() => openDialog({ type: "delete", entry })}
+                >
+                  <TrashIcon className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
+          {isExpanded && renderDirectory(entry.absolutePath, depth + 1)}
+        </div>
+      );
+    });
+  };
+
+  const isDirty = openFile !== null && openFile.content !== openFile.savedContent;
+
+  return (
+    <aside
+      className={`w-72 shrink-0 border-l flex flex-col ${dropTarget === WORKSPACE_ROOT ? "bg-blue-50" : ""}`}
+      {...dropHandlers(WORKSPACE_ROOT)}
+    >
+      <div className="flex items-center justify-between border-b p-2">
+        <span className="text-sm font-semibold px-1">Workspace</span>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => openDialog({ type: "mkdir", parent: WORKSPACE_ROOT })}
+          >
+            <FolderPlusIcon className="h-4 w-4" />
+            <span className="sr-only">New folder</span>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => uploadInputRef.current?.click()}>
+            <UploadIcon className="h-4 w-4" />
+            <span className="sr-only">Upload files</span>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => downloadPath(WORKSPACE_ROOT, true)}>
+            <DownloadIcon className="h-4 w-4" />
+            <span className="sr-only">Download workspace as zip</span>
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={refresh}>
+            <RefreshCwIcon className="h-4 w-4" />
+            <span className="sr-only">Refresh</span>
+          </Button>
+          <GitHubImport conversationId={conversationId} teamId={teamId} onImported={refresh} />
+          <NotebookPanel conversationId={conversationId} teamId={teamId} />
+          <ProcessPanel conversationId={conversationId} teamId={teamId} />
+          <GitPanel conversationId={conversationId} teamId={teamId} defaultRepo={WORKSPACE_ROOT} onChanged={refresh} />
+          <WorkspaceSnapshots conversationId={conversationId} teamId={teamId} onRestored={refresh} />
+        </div>
+        <input
+          ref={uploadInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          aria-label="Upload files to the workspace"
+          onChange={(e) => {
+            const { files } = e.currentTarget;
+            if (files) {
+              uploadFiles(Array.from(files), WORKSPACE_ROOT);
+            }
+            e.currentTarget.value = "";
+          }}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-1">
+        {renderDirectory(WORKSPACE_ROOT, 0)}
+      </div>
+      <p className="border-t p-2 text-xs text-muted-foreground">Drop files onto a folder to upload them</p>
+
+      <Dialog open={openFile !== null} onOpenChange={(open) => !open && setOpenFile(null)}>
+        <DialogContent className="max-w-5xl">
+          {openFile && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-mono text-sm">
+                  {openFile.path}
+                  {isDirty && <span className="text-muted-foreground"> (unsaved)</span>}
+                </DialogTitle>
+              </DialogHeader>
+              <div className="h-[60vh]">
+                <CodeEditor
+                  value={openFile.content}
+                  path={openFile.path}
+                  onChange={(content) => setOpenFile((prev) => prev && { ...prev, content })}
+                  onSave={saveFile}
+                />
+              </div>
+              <DialogFooter className="mt-4 flex flex-col gap-4 sm:flex-row">
+                <DialogClose asChild>
+                  <Button variant="outline" className="sm:w-auto w-full">Close</Button>
+                </DialogClose>
+                <Button onClick={saveFile} disabled={isSaving || !isDirty} className="sm:w-auto w-full">
+                  {isSaving ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          {dialog?.type === "delete" ? (
+            <DialogHeader>
+              <DialogTitle>Delete {dialog.entry.type === "directory" ? "folder" : "file"}</DialogTitle>
+              <DialogDescription>
+                Are you sure you want to delete &quot;{dialog.entry.absolutePath}&quot;
+                {dialog.entry.type === "directory" ? " and everything in it" : ""}? This action cannot be undone.
+              </DialogDescription>
+            </DialogHeader>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {dialog?.type === "rename" && "Rename"}
+                  {dialog?.type === "move" && "Move to folder"}
+                  {dialog?.type === "mkdir" && "New folder"}
+                </DialogTitle>
+                {dialog?.type === "mkdir" && (
+                  <DialogDescription>Create a folder in {dialog.parent}</DialogDescription>
+                )}
+              </DialogHeader>
+              <Input
+                value={dialogValue}
+                placeholder={dialog?.type === "move" ? WORKSPACE_ROOT : "Name"}
+                onChange={(e) => setDialogValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && dialogValue.trim()) {
+                    submitDialog();
+                  }
+                }}
+              />
+            </>
+          )}
+          <DialogFooter className="mt-4 flex flex-col gap-4 sm:flex-row">
+            <DialogClose asChild>
+              <Button variant="outline" className="sm:w-auto w-full">Cancel</Button>
+            </DialogClose>
+            <Button
+              variant={dialog?.type === "delete" ? "destructive" : "default"}
+              onClick={submitDialog}
+              disabled={isSubmitting || (dialog?.type !== "delete" && !dialogValue.trim())}
+              className="sm:w-auto w-full"
+            >
+              {isSubmitting ? "Working..." : dialog?.type === "delete" ? "Delete" : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </aside>
+  );
+}
@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { HistoryIcon, Loader2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { formatDateTime } from "@/utils/format-date";
+import type {
+  AgentSnapshotListResponse,
+  WorkspaceSnapshot,
+  WorkspaceSnapshotReason,
+} from "@/types/agent";
+
+const REASON_LABELS: Record<WorkspaceSnapshotReason, string> = {
+  manual: "Manual",
+  "before-command": "Before a destructive command",
+  "before-restore": "Before a restore",
+  idle: "Automatic",
+};
+
+function formatSize(bytes: number) {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Snapshot history of the conversation's workspace, with actions to take a snapshot
+ * and to restore one
+ */
+export function WorkspaceSnapshots({
+  conversationId,
+  teamId,
+  onRestored,
+}: {
+  conversationId?: string;
+  teamId?: string;
+  // Called after the workspace was replaced by a snapshot
+  onRestored?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [snapshots, setSnapshots] = useState<WorkspaceSnapshot[] | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const scopeQuery = useCallback(() => {
+    const params = new URLSearchParams();
+    if (conversationId) params.set("conversationId", conversationId);
+    if (teamId) params.set("teamId", teamId);
+    return params.toString();
+  }, [conversationId, teamId]);
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/agent/snapshots?${scopeQuery()}`);
+      const data = await response.json() as AgentSnapshotListResponse & { error?: string; details?: string };
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Snapshots API returned ${response.status}`);
+      }
+      setSnapshots(data.snapshots);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to load snapshots");
+      setSnapshots([]);
+    }
+  }, [scopeQuery]);
+
+  useEffect(() => {
+    if (open) {
+      setSnapshots(null);
+      loadSnapshots();
+    }
+  }, [open, loadSnapshots]);
+
+  const createSnapshot = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch(`/api/agent/snapshots?${scopeQuery()}`, { method: "POST" });
+      const data = await response.json() as { error?: string; details?: string };
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Snapshots API returned ${response.status}`);
+      }
+      toast.success("Snapshot saved");
+      await loadSnapshots();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to take a snapshot");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const restoreSnapshot = async (snapshot: WorkspaceSnapshot) => {
+    if (!window.confirm(`Replace the workspace with the snapshot from ${formatDateTime(snapshot.createdAt)}? The current files are snapshotted first.`)) {
+      return;
+    }
+
+    setRestoringId(snapshot.id);
+    try {
+      const response = await fetch("/api/agent/snapshots/restore", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ snapshotId: snapshot.id, conversationId, teamId }),
+      });
+      const data = await response.json() as { error?: string; details?: string };
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `Snapshots API returned ${response.status}`);
+      }
+      toast.success("Workspace restored");
+      onRestored?.();
+      await loadSnapshots();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to restore the snapshot");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const isBusy = isCreating || restoringId !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7">
+          <HistoryIcon className="h-4 w-4" />
+          <span className="sr-only">Snapshots</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Workspace snapshots</DialogTitle>
+          <DialogDescription>
+            Snapshots are taken before destructive commands and when the conversation goes idle.
+            Older snapshots are removed once your plan&apos;s limit is reached.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 overflow-y-auto rounded-md border">
+          {snapshots === null ? (
+            <div className="flex justify-center p-6">
+              <Loader2Icon className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : snapshots.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">No snapshots yet</p>
+          ) : (
+            <ul className="divide-y">
+              {snapshots.map((snapshot) => (
+                <li key={snapshot.id} className="flex items-center justify-between gap-2 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{formatDateTime(snapshot.createdAt)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {REASON_LABELS[snapshot.reason]} · {formatSize(snapshot.size)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() => restoreSnapshot(snapshot)}
+                  >
+                    {restoringId === snapshot.id ? "Restoring..." : "Restore"}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <Button onClick={createSnapshot} disabled={isBusy} className="mt-2">
+          {isCreating ? "Saving snapshot..." : "Take snapshot"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -109,6 +109,16 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
         title: "Billing",
         url: "/dashboard/billing",
         icon: CreditCard,
+        items: [
+          {
+            title: "Credits",
+            url: "/dashboard/billing",
+          },
+          {
+            title: "Plan",
+            url: "/dashboard/billing/plan",
+          },
+        ],
       },
       {
         title: "Settings",
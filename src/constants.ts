@@ -14,6 +14,7 @@ export const MAX_TEAMS_JOINED_PER_USER = 10;
 export const SESSION_COOKIE_NAME = "session";
 export const GOOGLE_OAUTH_STATE_COOKIE_NAME = "google-oauth-state";
 export const GOOGLE_OAUTH_CODE_VERIFIER_COOKIE_NAME = "google-oauth-code-verifier";
+export const GITHUB_OAUTH_STATE_COOKIE_NAME = "github-oauth-state";
 
 export const CREDIT_PACKAGES = [
   { id: "package-1", credits: 500, price: 5 },
@@ -24,5 +25,84 @@ export const CREDIT_PACKAGES = [
 export const CREDITS_EXPIRATION_YEARS = 2;
 
 export const FREE_MONTHLY_CREDITS = CREDIT_PACKAGES[0].credits * 0.1;
+
+// Recurring plans. Paid plans are Stripe subscriptions whose price IDs come from
+// the env var named in `stripePriceEnv`. Pro is for individual users, Team for teams.
+// Upload limits are in MB: the largest single file and the total per conversation.
+// `snapshotRetention` is how many workspace snapshots are kept per conversation.
+// `maxRunMinutes` is how long an agent run, code execution or notebook run may take.
+export const SUBSCRIPTION_PLANS = [
+  {
+    id: "free",
+    name: "Free",
+    price: 0,
+    monthlyCredits: FREE_MONTHLY_CREDITS,
+    maxConcurrentRuns: 1,
+    sandboxSize: "basic",
+    maxUploadFileMb: 5,
+    uploadQuotaMb: 50,
+    snapshotRetention: 3,
+    maxRunMinutes: 5,
+    subscriber: "user",
+    stripePriceEnv: null,
+  },
+  {
+    id: "pro",
+    name: "Pro",
+    price: 20,
+    monthlyCredits: 2500,
+    maxConcurrentRuns: 3,
+    sandboxSize: "standard",
+    maxUploadFileMb: 50,
+    uploadQuotaMb: 1024,
+    snapshotRetention: 20,
+    maxRunMinutes: 30,
+    subscriber: "user",
+    stripePriceEnv: "STRIPE_PRO_PRICE_ID",
+  },
+  {
+    id: "team",
+    name: "Team",
+    price: 50,
+    monthlyCredits: 7500,
+    maxConcurrentRuns: 10,
+    sandboxSize: "large",
+    maxUploadFileMb: 100,
+    uploadQuotaMb: 5120,
+    snapshotRetention: 50,
+    maxRunMinutes: 60,
+    subscriber: "team",
+    stripePriceEnv: "STRIPE_TEAM_PRICE_ID",
+  },
+] as const;
+
+export const FREE_PLAN_ID = "free";
 export const MAX_TRANSACTIONS_PER_PAGE = 10;
+
+// Credits charged per unit of metered agent usage (1 credit = $0.01).
+// Override individual prices with the METERED_USAGE_PRICES env var (JSON).
+export const METERED_USAGE_PRICES = {
+  inputTokensPer1k: 0.1,
+  outputTokensPer1k: 0.4,
+  sandboxSecond: 0.01,
+  processSecond: 0.002,
+} as const;
+export const MIN_METERED_RUN_CREDITS = 1;
+// Credits held while a run is in progress, settled against the real cost afterwards
+export const AGENT_RUN_RESERVED_CREDITS = 20;
+export const SANDBOX_EXECUTION_RESERVED_CREDITS = 5;
+// Held for every billing period of a background process. The process meter job settles
+// and renews the hold, so it must run more often than CREDIT_HOLD_TTL_MINUTES.
+export const PROCESS_RESERVED_CREDITS = 5;
+// Holds older than this outlived the longest run time limit, their worker died before
+// settling them, so the sweep gives the credits back
+export const CREDIT_HOLD_TTL_MINUTES = 120;
+// Workspace snapshots in R2: the largest archive kept, and how long a conversation
+// has to be idle before the scheduled job snapshots it (before its container sleeps)
+export const MAX_WORKSPACE_SNAPSHOT_MB = 500;
+export const IDLE_SNAPSHOT_MINUTES = 5;
+// Largest download from the workspace, for single files and the contents of zipped folders
+export const MAX_WORKSPACE_DOWNLOAD_MB = 250;
+// Response header naming the run a server-sent events stream belongs to, for resuming it
+export const RUN_ID_HEADER = "X-Run-Id";
 export const REDIRECT_AFTER_SIGN_IN = "/dashboard" as Route;
@@ -0,0 +1,15 @@
+CREATE TABLE `agent_conversation` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`title` text(255) NOT NULL,
+	`sandboxId` text(255),
+	`lastActivityAt` integer NOT NULL,
+	`archivedAt` integer,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `agent_conversation_user_id_idx` ON `agent_conversation` (`userId`);--> statement-breakpoint
+CREATE INDEX `agent_conversation_last_activity_idx` ON `agent_conversation` (`userId`,`lastActivityAt`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `credit_transaction` ADD `conversationId` text(255);--> statement-breakpoint
+ALTER TABLE `credit_transaction` ADD `runId` text(255);--> statement-breakpoint
+CREATE INDEX `credit_transaction_run_id_idx` ON `credit_transaction` (`runId`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `credit_transaction` ADD `idempotencyKey` text(255);--> statement-breakpoint
+CREATE UNIQUE INDEX `credit_transaction_idempotencyKey_unique` ON `credit_transaction` (`idempotencyKey`);--> statement-breakpoint
+ALTER TABLE `user` ADD `reservedCredits` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
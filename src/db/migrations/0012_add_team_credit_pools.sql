@@ -0,0 +1,4 @@
+ALTER TABLE `credit_transaction` ADD `teamId` text REFERENCES team(id);--> statement-breakpoint
+CREATE INDEX `credit_transaction_team_id_idx` ON `credit_transaction` (`teamId`);--> statement-breakpoint
+ALTER TABLE `team_membership` ADD `monthlyCreditCap` integer;--> statement-breakpoint
+ALTER TABLE `team` ADD `reservedCredits` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
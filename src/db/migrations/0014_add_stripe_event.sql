@@ -0,0 +1,16 @@
+CREATE TABLE `stripe_event` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text(255) NOT NULL,
+	`payload` text NOT NULL,
+	`status` text DEFAULT 'PROCESSING' NOT NULL,
+	`error` text(1000),
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`processedAt` integer
+);
+--> statement-breakpoint
+CREATE INDEX `stripe_event_status_idx` ON `stripe_event` (`status`);--> statement-breakpoint
+CREATE INDEX `stripe_event_type_idx` ON `stripe_event` (`type`);--> statement-breakpoint
+CREATE INDEX `stripe_event_created_at_idx` ON `stripe_event` (`createdAt`);
\ No newline at end of file
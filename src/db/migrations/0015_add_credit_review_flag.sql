@@ -0,0 +1,3 @@
+ALTER TABLE `user` ADD `creditReviewFlaggedAt` integer;--> statement-breakpoint
+ALTER TABLE `user` ADD `creditReviewReason` text(1000);--> statement-breakpoint
+CREATE INDEX `user_credit_review_flagged_at_idx` ON `user` (`creditReviewFlaggedAt`);
\ No newline at end of file
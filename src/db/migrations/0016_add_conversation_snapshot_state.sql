@@ -0,0 +1,2 @@
+ALTER TABLE `agent_conversation` ADD `sandboxTeamId` text(255);--> statement-breakpoint
+ALTER TABLE `agent_conversation` ADD `lastSnapshotAt` integer;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `git_credential` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`host` text(255) NOT NULL,
+	`username` text(255) NOT NULL,
+	`encryptedToken` text NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `git_credential_user_id_idx` ON `git_credential` (`userId`);--> statement-breakpoint
+CREATE UNIQUE INDEX `git_credential_user_host_unique_idx` ON `git_credential` (`userId`,`host`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `secret` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`teamId` text,
+	`name` text(255) NOT NULL,
+	`encryptedValue` text NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`teamId`) REFERENCES `team`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `secret_user_id_idx` ON `secret` (`userId`);--> statement-breakpoint
+CREATE INDEX `secret_team_id_idx` ON `secret` (`teamId`);--> statement-breakpoint
+CREATE UNIQUE INDEX `secret_team_name_unique_idx` ON `secret` (`teamId`,`name`) WHERE "secret"."teamId" IS NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX `secret_user_name_unique_idx` ON `secret` (`userId`,`name`) WHERE "secret"."teamId" IS NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `github_connection` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`githubUserId` integer NOT NULL,
+	`login` text(255) NOT NULL,
+	`encryptedAccessToken` text NOT NULL,
+	`encryptedRefreshToken` text,
+	`accessTokenExpiresAt` integer,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `github_connection_user_id_unique_idx` ON `github_connection` (`userId`);
\ No newline at end of file
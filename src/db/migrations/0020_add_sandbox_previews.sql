@@ -0,0 +1,20 @@
+CREATE TABLE `sandbox_preview` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`teamId` text,
+	`conversationId` text(255) NOT NULL,
+	`sandboxId` text(255) NOT NULL,
+	`hostSlug` text(32) NOT NULL,
+	`port` integer NOT NULL,
+	`name` text(255),
+	`access` text DEFAULT 'members' NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`teamId`) REFERENCES `team`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `sandbox_preview_sandbox_port_unique_idx` ON `sandbox_preview` (`sandboxId`,`port`);--> statement-breakpoint
+CREATE INDEX `sandbox_preview_host_slug_port_idx` ON `sandbox_preview` (`hostSlug`,`port`);--> statement-breakpoint
+CREATE INDEX `sandbox_preview_user_conversation_idx` ON `sandbox_preview` (`userId`,`conversationId`);
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE `credit_hold` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`teamId` text,
+	`runId` text(255) NOT NULL,
+	`amount` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`teamId`) REFERENCES `team`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `credit_hold_runId_unique` ON `credit_hold` (`runId`);--> statement-breakpoint
+CREATE INDEX `credit_hold_user_id_idx` ON `credit_hold` (`userId`);--> statement-breakpoint
+CREATE INDEX `credit_hold_team_id_idx` ON `credit_hold` (`teamId`);--> statement-breakpoint
+CREATE INDEX `credit_hold_created_at_idx` ON `credit_hold` (`createdAt`);--> statement-breakpoint
+-- Credits held before holds were recorded per run can't be matched to a run, so they are given back
+UPDATE `team` SET `creditBalance` = `creditBalance` + `reservedCredits` WHERE `reservedCredits` > 0;--> statement-breakpoint
+UPDATE `user` SET `currentCredits` = `currentCredits` + `reservedCredits` WHERE `reservedCredits` > 0;--> statement-breakpoint
+ALTER TABLE `team` DROP COLUMN `reservedCredits`;--> statement-breakpoint
+ALTER TABLE `user` DROP COLUMN `reservedCredits`;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `metered_process` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`teamId` text,
+	`conversationId` text(255),
+	`sandboxId` text(255) NOT NULL,
+	`processId` text(255) NOT NULL,
+	`runId` text(255) NOT NULL,
+	`billedFrom` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`teamId`) REFERENCES `team`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `metered_process_runId_unique` ON `metered_process` (`runId`);--> statement-breakpoint
+CREATE UNIQUE INDEX `metered_process_sandbox_process_unique_idx` ON `metered_process` (`sandboxId`,`processId`);
\ No newline at end of file
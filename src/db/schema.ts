@@ -1,4 +1,4 @@
-import { sqliteTable, integer, text, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, integer, text, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { relations, sql } from "drizzle-orm";
 import { type InferSelectModel } from "drizzle-orm";
 
@@ -57,10 +57,20 @@ export const userTable = sqliteTable("user", {
   lastCreditRefreshAt: integer({
     mode: "timestamp",
   }),
+  // Subscription plan, null means the free plan
+  planId: text({ length: 100 }),
+  planExpiresAt: integer({ mode: "timestamp" }),
+  stripeCustomerId: text({ length: 255 }),
+  stripeSubscriptionId: text({ length: 255 }),
+  // Set when refunded or disputed credits had already been spent
+  creditReviewFlaggedAt: integer({ mode: "timestamp" }),
+  creditReviewReason: text({ length: 1000 }),
 }, (table) => ([
   index('email_idx').on(table.email),
   index('google_account_id_idx').on(table.googleAccountId),
   index('role_idx').on(table.role),
+  index('user_stripe_subscription_id_idx').on(table.stripeSubscriptionId),
+  index('user_credit_review_flagged_at_idx').on(table.creditReviewFlaggedAt),
 ]));
 
 export const passKeyCredentialTable = sqliteTable("passkey_credential", {
@@ -101,6 +111,10 @@ export const CREDIT_TRANSACTION_TYPE = {
   USAGE: 'USAGE',
   MONTHLY_REFRESH: 'MONTHLY_REFRESH',
   FAILED_PURCHASE: 'FAILED_PURCHASE',
+  // Purchased credits taken back after a refund
+  REFUND: 'REFUND',
+  // Credits taken back while a charge is disputed, or returned when the dispute is won
+  DISPUTE: 'DISPUTE',
 } as const;
 
 export const creditTransactionTypeTuple = Object.values(CREDIT_TRANSACTION_TYPE) as [string, ...string[]];
@@ -108,7 +122,10 @@ export const creditTransactionTypeTuple = Object.values(CREDIT_TRANSACTION_TYPE)
 export const creditTransactionTable = sqliteTable("credit_transaction", {
   ...commonColumns,
   id: text().primaryKey().$defaultFn(() => `ctxn_${createId()}`).notNull(),
+  // For team transactions this is the member who bought or used the credits
   userId: text().notNull().references(() => userTable.id),
+  // Set when the transaction belongs to a team's credit pool instead of the user's own credits
+  teamId: text().references(() => teamTable.id),
   amount: integer().notNull(),
   // Track how many credits are still available from this transaction
   remainingAmount: integer().default(0).notNull(),
@@ -127,12 +144,42 @@ export const creditTransactionTable = sqliteTable("credit_transaction", {
   paymentIntentId: text({
     length: 255,
   }),
+  // Metered usage links back to the agent conversation and run that incurred it
+  conversationId: text({
+    length: 255,
+  }),
+  runId: text({
+    length: 255,
+  }),
+  // Caller-supplied key that makes retried credit mutations apply only once
+  idempotencyKey: text({
+    length: 255,
+  }).unique(),
 }, (table) => ([
   index('credit_transaction_user_id_idx').on(table.userId),
   index('credit_transaction_type_idx').on(table.type),
   index('credit_transaction_created_at_idx').on(table.createdAt),
   index('credit_transaction_expiration_date_idx').on(table.expirationDate),
   index('credit_transaction_payment_intent_id_idx').on(table.paymentIntentId),
+  index('credit_transaction_run_id_idx').on(table.runId),
+  index('credit_transaction_team_id_idx').on(table.teamId),
+]));
+
+// Credits held for an in-flight agent run, already subtracted from the wallet's balance.
+// Settling or releasing the run deletes its hold; holds that outlive every run time
+// limit belong to runs whose worker died, and are released by the sweep.
+export const creditHoldTable = sqliteTable("credit_hold", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `chold_${createId()}`).notNull(),
+  userId: text().notNull().references(() => userTable.id),
+  // Set when the credits are held from a team's credit pool
+  teamId: text().references(() => teamTable.id),
+  runId: text({ length: 255 }).notNull().unique(),
+  amount: integer().notNull(),
+}, (table) => ([
+  index('credit_hold_user_id_idx').on(table.userId),
+  index('credit_hold_team_id_idx').on(table.teamId),
+  index('credit_hold_created_at_idx').on(table.createdAt),
 ]));
 
 // Define item types that can be purchased
@@ -163,6 +210,163 @@ export const purchasedItemsTable = sqliteTable("purchased_item", {
   index('purchased_item_user_item_idx').on(table.userId, table.itemType, table.itemId),
 ]));
 
+// Agent chat conversations. Messages and tool calls live in the conversation's AgentDO,
+// this table only holds what the conversation list needs.
+export const agentConversationTable = sqliteTable("agent_conversation", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `conv_${createId()}`).notNull(),
+  userId: text().notNull().references(() => userTable.id),
+  title: text({ length: 255 }).notNull(),
+  // The sandbox session the conversation's agent runs in
+  sandboxId: text({ length: 255 }),
+  // Team the sandbox belongs to, when runs are billed to a team
+  sandboxTeamId: text({ length: 255 }),
+  // Last workspace snapshot, idle conversations with newer activity get a new one
+  lastSnapshotAt: integer({
+    mode: "timestamp",
+  }),
+  lastActivityAt: integer({
+    mode: "timestamp",
+  }).$defaultFn(() => new Date()).notNull(),
+  archivedAt: integer({
+    mode: "timestamp",
+  }),
+}, (table) => ([
+  index('agent_conversation_user_id_idx').on(table.userId),
+  index('agent_conversation_last_activity_idx').on(table.userId, table.lastActivityAt),
+]));
+
+export const STRIPE_EVENT_STATUS = {
+  PROCESSING: 'PROCESSING',
+  PROCESSED: 'PROCESSED',
+  FAILED: 'FAILED',
+} as const;
+
+export const stripeEventStatusTuple = Object.values(STRIPE_EVENT_STATUS) as [string, ...string[]];
+
+// Every Stripe webhook event we've received, keyed by the Stripe event ID so
+// redelivered events are only processed once
+export const stripeEventTable = sqliteTable("stripe_event", {
+  ...commonColumns,
+  id: text().primaryKey().notNull(),
+  type: text({ length: 255 }).notNull(),
+  // The full event as JSON, so failed events can be processed again
+  payload: text().notNull(),
+  status: text({
+    enum: stripeEventStatusTuple,
+  }).default(STRIPE_EVENT_STATUS.PROCESSING).notNull(),
+  error: text({ length: 1000 }),
+  attempts: integer().default(0).notNull(),
+  processedAt: integer({
+    mode: "timestamp",
+  }),
+}, (table) => ([
+  index('stripe_event_status_idx').on(table.status),
+  index('stripe_event_type_idx').on(table.type),
+  index('stripe_event_created_at_idx').on(table.createdAt),
+]));
+
+// Credentials git uses for HTTPS remotes in a user's sandboxes, one per host.
+// The token is encrypted (see utils/encryption.ts) and never sent to the browser.
+export const gitCredentialTable = sqliteTable("git_credential", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `gcred_${createId()}`).notNull(),
+  userId: text().notNull().references(() => userTable.id),
+  // Host name, e.g. github.com
+  host: text({ length: 255 }).notNull(),
+  username: text({ length: 255 }).notNull(),
+  encryptedToken: text().notNull(),
+}, (table) => ([
+  index('git_credential_user_id_idx').on(table.userId),
+  uniqueIndex('git_credential_user_host_unique_idx').on(table.userId, table.host),
+]));
+
+// A user's connected GitHub account, with user tokens of the GitHub App. Tokens are
+// encrypted (see utils/encryption.ts); they expire and are refreshed with the refresh token.
+export const githubConnectionTable = sqliteTable("github_connection", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `ghc_${createId()}`).notNull(),
+  userId: text().notNull().references(() => userTable.id),
+  githubUserId: integer().notNull(),
+  login: text({ length: 255 }).notNull(),
+  encryptedAccessToken: text().notNull(),
+  encryptedRefreshToken: text(),
+  accessTokenExpiresAt: integer({ mode: "timestamp" }),
+}, (table) => ([
+  uniqueIndex('github_connection_user_id_unique_idx').on(table.userId),
+]));
+
+// Environment variables injected into sandbox commands, processes and code contexts.
+// Personal secrets have no team; team secrets are shared with members who can manage
+// secrets. Values are encrypted (see utils/encryption.ts) and never sent to the browser.
+export const secretTable = sqliteTable("secret", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `sec_${createId()}`).notNull(),
+  // Who created the secret; the owner of personal secrets
+  userId: text().notNull().references(() => userTable.id),
+  teamId: text().references(() => teamTable.id),
+  // Environment variable name, e.g. OPENAI_API_KEY
+  name: text({ length: 255 }).notNull(),
+  encryptedValue: text().notNull(),
+}, (table) => ([
+  index('secret_user_id_idx').on(table.userId),
+  index('secret_team_id_idx').on(table.teamId),
+  // Names are unique per team for team secrets and per user for personal ones
+  uniqueIndex('secret_team_name_unique_idx').on(table.teamId, table.name).where(sql`${table.teamId} IS NOT NULL`),
+  uniqueIndex('secret_user_name_unique_idx').on(table.userId, table.name).where(sql`${table.teamId} IS NULL`),
+]));
+
+export const PREVIEW_ACCESS = {
+  // Anyone with the URL
+  PUBLIC: 'public',
+  // Anyone with a signed share link
+  TOKEN: 'token',
+  // The sandbox owner and members of its team, signed in
+  MEMBERS: 'members',
+} as const;
+
+export const previewAccessTuple = Object.values(PREVIEW_ACCESS) as [string, ...string[]];
+
+// Ports of a sandbox exposed as preview URLs. Preview requests for ports without a row
+// are refused, and rows are removed when their conversation is archived or deleted.
+export const sandboxPreviewTable = sqliteTable("sandbox_preview", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `prv_${createId()}`).notNull(),
+  userId: text().notNull().references(() => userTable.id),
+  teamId: text().references(() => teamTable.id),
+  conversationId: text({ length: 255 }).notNull(),
+  sandboxId: text({ length: 255 }).notNull(),
+  // Stands in for the sandbox ID in preview host names, see getPreviewHostSlug
+  hostSlug: text({ length: 32 }).notNull(),
+  port: integer().notNull(),
+  name: text({ length: 255 }),
+  access: text({
+    enum: previewAccessTuple,
+  }).default(PREVIEW_ACCESS.MEMBERS).notNull(),
+}, (table) => ([
+  uniqueIndex('sandbox_preview_sandbox_port_unique_idx').on(table.sandboxId, table.port),
+  index('sandbox_preview_host_slug_port_idx').on(table.hostSlug, table.port),
+  index('sandbox_preview_user_conversation_idx').on(table.userId, table.conversationId),
+]));
+
+// Background processes billed for their wall-clock time. Each billing period is held and
+// settled like a run, `runId` is the one of the current period.
+export const meteredProcessTable = sqliteTable("metered_process", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `mproc_${createId()}`).notNull(),
+  userId: text().notNull().references(() => userTable.id),
+  // Set when the process is billed to a team's credit pool
+  teamId: text().references(() => teamTable.id),
+  conversationId: text({ length: 255 }),
+  sandboxId: text({ length: 255 }).notNull(),
+  processId: text({ length: 255 }).notNull(),
+  runId: text({ length: 255 }).notNull().unique(),
+  // Start of the current billing period
+  billedFrom: integer({ mode: "timestamp" }).notNull(),
+}, (table) => ([
+  uniqueIndex('metered_process_sandbox_process_unique_idx').on(table.sandboxId, table.processId),
+]));
+
 // System-defined roles - these are always available
 export const SYSTEM_ROLES_ENUM = {
   OWNER: 'owner',
@@ -199,6 +403,12 @@ export const TEAM_PERMISSIONS = {
   EDIT_COMPONENTS: 'edit_components',
   DELETE_COMPONENTS: 'delete_components',
 
+  // Secrets: create, edit and delete the team's secrets and inject them into sandboxes
+  MANAGE_SECRETS: 'manage_secrets',
+
+  // Agent runs: interject in, pause and stop runs in conversations of the team's sandboxes
+  STEER_AGENT_RUNS: 'steer_agent_runs',
+
   // Add more as needed
 } as const;
 
@@ -216,9 +426,12 @@ export const teamTable = sqliteTable("team", {
   billingEmail: text({ length: 255 }),
   planId: text({ length: 100 }),
   planExpiresAt: integer({ mode: "timestamp" }),
+  stripeCustomerId: text({ length: 255 }),
+  stripeSubscriptionId: text({ length: 255 }),
   creditBalance: integer().default(0).notNull(),
 }, (table) => ([
   index('team_slug_idx').on(table.slug),
+  index('team_stripe_subscription_id_idx').on(table.stripeSubscriptionId),
 ]));
 
 // Team membership table
@@ -236,6 +449,8 @@ export const teamMembershipTable = sqliteTable("team_membership", {
   joinedAt: integer({ mode: "timestamp" }),
   expiresAt: integer({ mode: "timestamp" }),
   isActive: integer().default(1).notNull(),
+  // Most team credits the member may use per calendar month, null for no limit
+  monthlyCreditCap: integer(),
 }, (table) => ([
   index('team_membership_team_id_idx').on(table.teamId),
   index('team_membership_user_id_idx').on(table.userId),
@@ -287,6 +502,7 @@ export const teamRelations = relations(teamTable, ({ many }) => ({
   memberships: many(teamMembershipTable),
   invitations: many(teamInvitationTable),
   roles: many(teamRoleTable),
+  secrets: many(secretTable),
 }));
 
 export const teamRoleRelations = relations(teamRoleTable, ({ one }) => ({
@@ -331,6 +547,21 @@ export const creditTransactionRelations = relations(creditTransactionTable, ({ o
     fields: [creditTransactionTable.userId],
     references: [userTable.id],
   }),
+  team: one(teamTable, {
+    fields: [creditTransactionTable.teamId],
+    references: [teamTable.id],
+  }),
+}));
+
+export const creditHoldRelations = relations(creditHoldTable, ({ one }) => ({
+  user: one(userTable, {
+    fields: [creditHoldTable.userId],
+    references: [userTable.id],
+  }),
+  team: one(teamTable, {
+    fields: [creditHoldTable.teamId],
+    references: [teamTable.id],
+  }),
 }));
 
 export const purchasedItemsRelations = relations(purchasedItemsTable, ({ one }) => ({
@@ -340,13 +571,61 @@ export const purchasedItemsRelations = relations(purchasedItemsTable, ({ one })
   }),
 }));
 
+export const agentConversationRelations = relations(agentConversationTable, ({ one }) => ({
+  user: one(userTable, {
+    fields: [agentConversationTable.userId],
+    references: [userTable.id],
+  }),
+}));
+
 export const userRelations = relations(userTable, ({ many }) => ({
   passkeys: many(passKeyCredentialTable),
+  agentConversations: many(agentConversationTable),
+  gitCredentials: many(gitCredentialTable),
+  secrets: many(secretTable),
+  githubConnections: many(githubConnectionTable),
+  sandboxPreviews: many(sandboxPreviewTable),
   creditTransactions: many(creditTransactionTable),
   purchasedItems: many(purchasedItemsTable),
   teamMemberships: many(teamMembershipTable),
 }));
 
+export const gitCredentialRelations = relations(gitCredentialTable, ({ one }) => ({
+  user: one(userTable, {
+    fields: [gitCredentialTable.userId],
+    references: [userTable.id],
+  }),
+}));
+
+export const githubConnectionRelations = relations(githubConnectionTable, ({ one }) => ({
+  user: one(userTable, {
+    fields: [githubConnectionTable.userId],
+    references: [userTable.id],
+  }),
+}));
+
+export const secretRelations = relations(secretTable, ({ one }) => ({
+  user: one(userTable, {
+    fields: [secretTable.userId],
+    references: [userTable.id],
+  }),
+  team: one(teamTable, {
+    fields: [secretTable.teamId],
+    references: [teamTable.id],
+  }),
+}));
+
+export const sandboxPreviewRelations = relations(sandboxPreviewTable, ({ one }) => ({
+  user: one(userTable, {
+    fields: [sandboxPreviewTable.userId],
+    references: [userTable.id],
+  }),
+  team: one(teamTable, {
+    fields: [sandboxPreviewTable.teamId],
+    references: [teamTable.id],
+  }),
+}));
+
 export const passKeyCredentialRelations = relations(passKeyCredentialTable, ({ one }) => ({
   user: one(userTable, {
     fields: [passKeyCredentialTable.userId],
@@ -357,8 +636,16 @@ export const passKeyCredentialRelations = relations(passKeyCredentialTable, ({ o
 export type User = InferSelectModel<typeof userTable>;
 export type PassKeyCredential = InferSelectModel<typeof passKeyCredentialTable>;
 export type CreditTransaction = InferSelectModel<typeof creditTransactionTable>;
+export type CreditHold = InferSelectModel<typeof creditHoldTable>;
 export type PurchasedItem = InferSelectModel<typeof purchasedItemsTable>;
 export type Team = InferSelectModel<typeof teamTable>;
 export type TeamMembership = InferSelectModel<typeof teamMembershipTable>;
 export type TeamRole = InferSelectModel<typeof teamRoleTable>;
 export type TeamInvitation = InferSelectModel<typeof teamInvitationTable>;
+export type AgentConversation = InferSelectModel<typeof agentConversationTable>;
+export type StripeEvent = InferSelectModel<typeof stripeEventTable>;
+export type GitCredential = InferSelectModel<typeof gitCredentialTable>;
+export type Secret = InferSelectModel<typeof secretTable>;
+export type GitHubConnection = InferSelectModel<typeof githubConnectionTable>;
+export type SandboxPreview = InferSelectModel<typeof sandboxPreviewTable>;
+export type MeteredProcess = InferSelectModel<typeof meteredProcessTable>;
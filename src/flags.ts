@@ -6,6 +6,14 @@ export async function isGoogleSSOEnabled() {
   return Boolean(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET)
 }
 
+export async function isGitHubEnabled() {
+  return Boolean(
+    process.env.GITHUB_CLIENT_ID
+    && process.env.GITHUB_CLIENT_SECRET
+    && process.env.GITHUB_APP_SLUG
+  )
+}
+
 export async function isTurnstileEnabled() {
   return Boolean(process.env.TURNSTILE_SECRET_KEY)
 }
@@ -14,5 +22,6 @@ export const getConfig = cache(async () => {
   return {
     isGoogleSSOEnabled: await isGoogleSSOEnabled(),
     isTurnstileEnabled: await isTurnstileEnabled(),
+    isGitHubEnabled: await isGitHubEnabled(),
   }
 })
@@ -0,0 +1,45 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { toast } from "sonner";
+import { RUN_ID_HEADER } from "@/constants";
+import type { AgentRunCancelRequest } from "@/types/agent";
+
+/**
+ * The run the user is waiting for, taken from the `X-Run-Id` header of its stream, and
+ * a way to cancel it
+ */
+export function useRunCancel() {
+  const [runId, setRunId] = useState<string | null>(null);
+  const [isCanceling, setIsCanceling] = useState(false);
+
+  // Start tracking the run of a stream's response, or stop tracking with null
+  const trackRun = useCallback((response: Response | null) => {
+    setRunId(response?.headers.get(RUN_ID_HEADER) ?? null);
+    setIsCanceling(false);
+  }, []);
+
+  const cancelRun = useCallback(async (reason?: string) => {
+    if (!runId) return;
+
+    setIsCanceling(true);
+    try {
+      const response = await fetch(`/api/agent/runs/${encodeURIComponent(runId)}/cancel`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason } satisfies AgentRunCancelRequest),
+      });
+      // The run ended on its own in the meantime
+      if (response.status === 409) return;
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({})) as { error?: string; details?: string };
+        throw new Error(data.details || data.error || `Runs API returned ${response.status}`);
+      }
+    } catch (error) {
+      setIsCanceling(false);
+      toast.error(error instanceof Error ? error.message : "Failed to stop the run");
+    }
+  }, [runId]);
+
+  return { runId, isCanceling, trackRun, cancelRun };
+}
@@ -46,6 +46,8 @@ export function useStream<T = unknown>(
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const mountedRef = useRef(true);
+  // ID of the last event received, reconnects resume after it
+  const lastEventIdRef = useRef(0);
 
   const disconnect = useCallback(() => {
     if (eventSourceRef.current) {
@@ -69,7 +71,11 @@ export function useStream<T = unknown>(
     setError(null);
 
     try {
-      const sse = new EventSource(url);
+      const streamUrl = new URL(url, window.location.href);
+      if (lastEventIdRef.current > 0) {
+        streamUrl.searchParams.set('lastEventId', String(lastEventIdRef.current));
+      }
+      const sse = new EventSource(streamUrl);
       eventSourceRef.current = sse;
 
       sse.onopen = () => {
@@ -81,6 +87,13 @@ export function useStream<T = unknown>(
 
       sse.onmessage = (event) => {
         if (!mountedRef.current) return;
+
+        // Skip events replayed by the server that were already received before reconnecting
+        const eventId = Number(event.lastEventId);
+        if (event.lastEventId && Number.isSafeInteger(eventId)) {
+          if (eventId <= lastEventIdRef.current) return;
+          lastEventIdRef.current = eventId;
+        }
         
         try {
           const parsedData = JSON.parse(event.data);
@@ -144,6 +157,11 @@ export function useStream<T = unknown>(
     setData([]);
   }, []);
 
+  // Another stream starts from its beginning
+  useEffect(() => {
+    lastEventIdRef.current = 0;
+  }, [url]);
+
   useEffect(() => {
     mountedRef.current = true;
     
@@ -0,0 +1,139 @@
+import "server-only";
+
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import type { ModelMessage } from "ai";
+import type { AgentDO } from "@/workers/agent-do";
+import { summarizeToolOutput, type ToolExecutionOutput } from "@/lib/agent-tools";
+import type { AgentStreamEvent, StoredMessage, StoredToolCall } from "@/types/agent";
+
+export const DEFAULT_CONVERSATION_ID = "default";
+
+/**
+ * RPC surface of an AgentDO. Tool inputs and outputs are typed as `unknown`,
+ * which the generated stub types reject even though they are plain JSON.
+ */
+export type AgentConversationStub = Pick<
+  AgentDO,
+  | "getHistory"
+  | "appendMessage"
+  | "registerUpload"
+  | "linkSandbox"
+  | "reset"
+  | "destroy"
+  | "listNotebooks"
+  | "getNotebook"
+  | "createNotebook"
+  | "updateNotebook"
+  | "recordCellOutputs"
+  | "setNotebookKernel"
+  | "deleteNotebook"
+  | "listProcesses"
+  | "getProcess"
+  | "recordProcess"
+  | "deleteProcess"
+>;
+
+/**
+ * Get the AgentDO stub that owns a conversation.
+ * The user ID is part of the object name, so users can only reach their own conversations.
+ */
+export function getAgentStub({
+  userId,
+  conversationId = DEFAULT_CONVERSATION_ID,
+}: {
+  userId: string;
+  conversationId?: string;
+}): AgentConversationStub {
+  const { env } = getCloudflareContext();
+
+  // Cast through unknown first due to CloudflareEnv type limitations
+  const envTyped = env as unknown as { AGENT_DO?: DurableObjectNamespace<AgentDO> };
+  if (!envTyped.AGENT_DO) {
+    throw new Error("AGENT_DO binding not found");
+  }
+
+  const id = envTyped.AGENT_DO.idFromName(`${userId}:${conversationId}`);
+  return envTyped.AGENT_DO.get(id) as unknown as AgentConversationStub;
+}
+
+/**
+ * Rebuild the model-facing message list from stored conversation history.
+ */
+export function toModelMessages(messages: StoredMessage[]): ModelMessage[] {
+  return messages.flatMap((message): ModelMessage[] => {
+    if (message.role === "user") {
+      return [{ role: "user", content: message.content }];
+    }
+
+    if (message.toolCalls.length === 0) {
+      return [{ role: "assistant", content: message.content }];
+    }
+
+    // The final answer is produced after the tool results, so it goes last
+    return [
+      {
+        role: "assistant",
+        content: message.toolCalls.map((toolCall) => ({
+          type: "tool-call" as const,
+          toolCallId: toolCall.id,
+          toolName: toolCall.toolName,
+          input: toolCall.input,
+        })),
+      },
+      {
+        role: "tool",
+        content: message.toolCalls.map((toolCall) => ({
+          type: "tool-result" as const,
+          toolCallId: toolCall.id,
+          toolName: toolCall.toolName,
+          output: toolCall.error || !toolCall.output
+            ? { type: "error-text" as const, value: toolCall.error ?? "No output recorded" }
+            : summarizeToolOutput(toolCall.output as ToolExecutionOutput),
+        })),
+      },
+      ...(message.content ? [{ role: "assistant" as const, content: message.content }] : []),
+    ];
+  });
+}
+
+/**
+ * Collect tool calls and their outputs from agent stream events so they can be stored with the reply.
+ */
+export function createToolCallCollector() {
+  const toolCalls = new Map<string, StoredToolCall>();
+
+  return {
+    handle(event: AgentStreamEvent) {
+      switch (event.type) {
+        case "tool-call":
+          toolCalls.set(event.toolCallId, {
+            id: event.toolCallId,
+            step: event.step,
+            toolName: event.toolName,
+            input: event.input,
+          });
+          break;
+        case "tool-result":
+        case "tool-error": {
+          const toolCall = toolCalls.get(event.toolCallId);
+          if (toolCall) {
+            if (event.type === "tool-result") toolCall.output = event.output;
+            else toolCall.error = event.error;
+          }
+          break;
+        }
+      }
+    },
+    get toolCalls() {
+      return Array.from(toolCalls.values());
+    },
+    // Time the tools spent running in the sandbox
+    get sandboxSeconds() {
+      let durationMs = 0;
+      for (const toolCall of toolCalls.values()) {
+        durationMs += (toolCall.output as ToolExecutionOutput | undefined)?.durationMs ?? 0;
+      }
+      return durationMs / 1000;
+    },
+  };
+}
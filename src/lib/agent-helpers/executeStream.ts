@@ -1,4 +1,5 @@
 import { parseSSEStream, type ExecEvent, type Sandbox } from "@cloudflare/sandbox";
+import { createEventStream } from "@/lib/sse";
 import { corsHeaders, errorResponse, parseJsonBody } from "./http";
 
 interface ExecuteStreamBody {
@@ -15,32 +16,28 @@ export async function executeCommandStream(sandbox: Sandbox<unknown>, request: R
     }
 
     // Create readable stream for SSE
-    const { readable, writable } = new TransformStream();
-    const writer = writable.getWriter();
+    const { readable, send, close } = createEventStream<ExecEvent | { type: 'error'; timestamp: string; error: string }>();
 
     // Start streaming in the background
     (async () => {
         try {
-            const encoder = new TextEncoder();
-
             // Get the ReadableStream from sandbox
             const stream = await sandbox.execStream(command);
 
             // Convert to AsyncIterable using parseSSEStream
             for await (const event of parseSSEStream<ExecEvent>(stream)) {
                 // Forward each typed event as SSE
-                await writer.write(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+                await send(event);
             }
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
-            const errorEvent = {
+            await send({
                 type: 'error',
                 timestamp: new Date().toISOString(),
                 error: message
-            };
-            await writer.write(new TextEncoder().encode(`data: ${JSON.stringify(errorEvent)}\n\n`));
+            });
         } finally {
-            await writer.close();
+            await close();
         }
     })();
 
@@ -1,17 +1,26 @@
 import type { Sandbox } from "@cloudflare/sandbox";
 import { errorResponse, jsonResponse, parseJsonBody } from "./http";
+import { shellQuote } from "./shell";
 
-type DeleteFileBody = { path?: string };
+// `recursive` removes a directory with everything in it
+type DeleteFileBody = { path?: string; recursive?: boolean };
 export async function deleteFile(sandbox: Sandbox<unknown>, request: Request) {
   try {
   const body = await parseJsonBody<DeleteFileBody>(request);
-    const { path } = body;
+    const { path, recursive } = body;
 
     if (!path) {
       return errorResponse("Path is required");
     }
 
-    await sandbox.deleteFile(path);
+    if (recursive) {
+      const result = await sandbox.exec(`rm -rf -- ${shellQuote(path)}`);
+      if (result.exitCode !== 0) {
+        return errorResponse(`Failed to delete directory: ${result.stderr}`);
+      }
+    } else {
+      await sandbox.deleteFile(path);
+    }
     return jsonResponse({
       success: true,
       message: "File deleted",
@@ -0,0 +1,145 @@
+import type { Sandbox } from "@cloudflare/sandbox";
+import { MAX_WORKSPACE_DOWNLOAD_MB } from "@/constants";
+import { SandboxOperations } from "@/lib/agent-service";
+import { errorResponse, parseJsonBody } from "./http";
+import { shellQuote } from "./shell";
+
+const MAX_DOWNLOAD_BYTES = MAX_WORKSPACE_DOWNLOAD_MB * 1024 * 1024;
+
+// Exit code of the zip script when the files are over the size limit
+const TOO_LARGE_EXIT_CODE = 3;
+
+// Zips the NUL-separated paths on stdin, relative to the directory in argv[1]
+const ZIP_SCRIPT = `
+import os, sys, zipfile
+root, output, limit = sys.argv[1], sys.argv[2], int(sys.argv[3])
+paths = [os.fsdecode(p) for p in sys.stdin.buffer.read().split(b"\\0") if p]
+files = [p for p in paths if os.path.isfile(os.path.join(root, p))]
+total = sum(os.path.getsize(os.path.join(root, p)) for p in files)
+print(total)
+if total > limit:
+    sys.exit(${TOO_LARGE_EXIT_CODE})
+with zipfile.ZipFile(output, "w", zipfile.ZIP_DEFLATED) as archive:
+    for p in files:
+        archive.write(os.path.join(root, p), p)
+`;
+
+// List every file in a directory except what its .gitignore files exclude. The throwaway
+// git directory makes this work whether or not the directory is a repository.
+function listFilesCommand(directory: string, gitDir: string) {
+  return [
+    `git init -q --bare ${gitDir}`,
+    `git --git-dir=${gitDir} --work-tree=${shellQuote(directory)} ls-files -z --others --exclude-standard`,
+  ].join(" && ");
+}
+
+function basename(path: string) {
+  return path.replace(/\/+$/, "").split("/").pop() || "workspace";
+}
+
+function attachmentHeaders(filename: string, contentType: string) {
+  return {
+    "Content-Type": contentType,
+    "Content-Disposition": `attachment; filename="${filename.replace(/[^\w.\- ]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    "Cache-Control": "no-store",
+  };
+}
+
+function toStream(chunks: AsyncGenerator<Uint8Array>) {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+type DownloadBody = { path?: string };
+
+// Download a single file as-is, so binary files arrive intact
+export async function downloadFile(sandbox: Sandbox<unknown>, request: Request) {
+  try {
+    const { path } = await parseJsonBody<DownloadBody>(request);
+
+    if (!path) {
+      return errorResponse("Path is required");
+    }
+
+    const stat = await sandbox.exec(`stat -c %s -- ${shellQuote(path)}`);
+    if (stat.exitCode !== 0) {
+      return errorResponse(`File not found: ${path}`, 404);
+    }
+
+    const size = parseInt(stat.stdout.trim(), 10);
+    if (size > MAX_DOWNLOAD_BYTES) {
+      return errorResponse(`Files larger than ${MAX_WORKSPACE_DOWNLOAD_MB}MB can't be downloaded`, 413);
+    }
+
+    const operations = new SandboxOperations(sandbox);
+    return new Response(toStream(operations.readFileChunks(path)), {
+      headers: {
+        ...attachmentHeaders(basename(path), "application/octet-stream"),
+        "Content-Length": String(size),
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error downloading file:", error);
+    return errorResponse(`Failed to download file: ${message}`, 500);
+  }
+}
+
+// Download a directory as a zip archive, leaving out files matched by .gitignore
+export async function downloadDirectory(sandbox: Sandbox<unknown>, request: Request) {
+  try {
+    const { path } = await parseJsonBody<DownloadBody>(request);
+
+    if (!path) {
+      return errorResponse("Path is required");
+    }
+
+    const downloadId = crypto.randomUUID();
+    const gitDir = `/tmp/download-${downloadId}.git`;
+    const archivePath = `/tmp/download-${downloadId}.zip`;
+    const result = await sandbox.exec(
+      `${listFilesCommand(path, gitDir)} | python3 -c ${shellQuote(ZIP_SCRIPT)} ${shellQuote(path)} ${archivePath} ${MAX_DOWNLOAD_BYTES}`
+    ).finally(() => sandbox.exec(`rm -rf ${gitDir}`));
+
+    if (result.exitCode === TOO_LARGE_EXIT_CODE) {
+      const totalMb = Math.ceil(parseInt(result.stdout.trim(), 10) / (1024 * 1024));
+      return errorResponse(
+        `The folder holds ${totalMb}MB of files, more than the ${MAX_WORKSPACE_DOWNLOAD_MB}MB download limit. Add large files to .gitignore or download a subfolder.`,
+        413
+      );
+    }
+    if (result.exitCode !== 0) {
+      await sandbox.exec(`rm -f ${archivePath}`);
+      return errorResponse(`Failed to archive folder: ${result.stderr}`, 500);
+    }
+
+    // The archive is removed once it has been streamed, or the download is cancelled
+    const operations = new SandboxOperations(sandbox);
+    async function* streamArchive() {
+      try {
+        yield* operations.readFileChunks(archivePath);
+      } finally {
+        await sandbox.exec(`rm -f ${archivePath}`);
+      }
+    }
+
+    return new Response(toStream(streamArchive()), {
+      headers: attachmentHeaders(`${basename(path)}.zip`, "application/zip"),
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Error downloading folder:", error);
+    return errorResponse(`Failed to download folder: ${message}`, 500);
+  }
+}
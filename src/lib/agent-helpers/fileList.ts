@@ -1,7 +1,7 @@
 import type { Sandbox } from "@cloudflare/sandbox";
 import { errorResponse, jsonResponse, parseJsonBody } from "./http";
 
-type ListFilesBody = { path?: string; options?: { recursive?: boolean } };
+type ListFilesBody = { path?: string; options?: { recursive?: boolean; includeHidden?: boolean } };
 export async function listFiles(sandbox: Sandbox<unknown>, request: Request) {
   try {
   const body = await parseJsonBody<ListFilesBody>(request);
@@ -15,6 +15,7 @@ export * from "./fileList";
 export * from "./fileDelete";
 export * from "./fileRename";
 export * from "./fileMove";
+export * from "./fileDownload";
 export * from "./mkdir";
 export * from "./gitCheckout";
 export * from "./templates";
@@ -1,220 +1,204 @@
 import type { Sandbox } from "@cloudflare/sandbox";
 import { isJupyterNotReadyError, isRetryableError } from "@cloudflare/sandbox";
+import type { AgentConversationStub } from "@/lib/agent-conversation";
+import { getSandboxAccessErrorStatus } from "@/lib/sandbox-access";
+import type { SecretLoader } from "@/lib/sandbox-secrets";
+import { deleteNotebook, runNotebookCells, startNotebookKernel } from "@/lib/notebooks";
+import { notebookLanguageSchema } from "@/schemas/notebook.schema";
+import { secretNamesSchema } from "@/schemas/secret.schema";
+import type {
+  AgentNotebookExecuteRequest,
+  AgentNotebookSessionRequest,
+  AgentNotebookSessionResponse,
+  NotebookRunEvent,
+} from "@/types/agent";
+import { createEventStream } from "@/lib/sse";
 import { corsHeaders, errorResponse, jsonResponse, parseJsonBody } from "./http";
 
-// Active sessions (in production, use Durable Objects or KV)
-const sessions = new Map<string, { contextId: string; language: string }>();
+/**
+ * Where notebook sessions live. Sessions are notebooks stored with the conversation, so
+ * they survive across requests and isolates; the session ID is the notebook ID.
+ */
+export interface NotebookSessionContext {
+  store: AgentConversationStub;
+  sandboxId: string;
+  loadSecrets: SecretLoader;
+}
 
-// Create a new notebook session
-export async function createSession(sandbox: Sandbox, request: Request): Promise<Response> {
-  try {
-    const body = await parseJsonBody(request) as { language?: string };
-    const { language = 'python' } = body;
+function notebookErrorResponse(error: unknown, fallbackMessage: string) {
+  // Handle Jupyter initialization timeout (request waited but Jupyter wasn't ready in time)
+  if (isJupyterNotReadyError(error)) {
+    console.log("[Notebook] Request timed out waiting for Jupyter initialization");
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+        retryAfter: error.retryAfter,
+        progress: error.progress
+      }),
+      {
+        status: 503,
+        headers: {
+          "Content-Type": "application/json",
+          "Retry-After": String(error.retryAfter),
+          ...corsHeaders()
+        }
+      }
+    );
+  }
 
-    // Create a code context for this session
-    const context = await sandbox.createCodeContext({ language: language as 'python' | 'javascript' | 'typescript' });
-    const sessionId = `session-${Date.now()}-${crypto.randomUUID()}`;
+  // Check if error is retryable
+  if (isRetryableError(error)) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log("[Notebook] Retryable error:", message);
+    return errorResponse(message, 503);
+  }
 
-    sessions.set(sessionId, {
-      contextId: context.id,
-      language
-    });
+  // Unknown notebooks, and secrets that don't exist or belong to a team the user can't use
+  const accessStatus = getSandboxAccessErrorStatus(error);
+  if (accessStatus) {
+    return errorResponse((error as Error).message, accessStatus);
+  }
 
-    return jsonResponse({ sessionId, language });
-  } catch (error) {
-    // Handle Jupyter initialization timeout (request waited but Jupyter wasn't ready in time)
-    if (isJupyterNotReadyError(error)) {
-      console.log("[Notebook] Request timed out waiting for Jupyter initialization");
-      return new Response(
-        JSON.stringify({
-          error: error.message,
-          retryAfter: error.retryAfter,
-          progress: error.progress
-        }),
-        {
-          status: 503,
-          headers: {
-            "Content-Type": "application/json",
-            "Retry-After": String(error.retryAfter),
-            ...corsHeaders()
-          }
-        }
-      );
-    }
+  // Log actual errors
+  console.error(`${fallbackMessage}:`, error);
+  const message = error instanceof Error ? error.message : fallbackMessage;
+  return errorResponse(message, 500);
+}
 
-    // Check if error is retryable
-    if (isRetryableError(error)) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.log("[Notebook] Retryable error:", message);
-      return errorResponse(message, 503);
+// Create a new notebook session, with the requested secrets as environment variables
+export async function createSession(
+  sandbox: Sandbox,
+  request: Request,
+  { store, sandboxId, loadSecrets }: NotebookSessionContext
+): Promise<Response> {
+  try {
+    const body = await parseJsonBody<AgentNotebookSessionRequest>(request);
+
+    const language = notebookLanguageSchema.safeParse(body.language ?? "python");
+    if (!language.success) {
+      return errorResponse("Unsupported language");
+    }
+    const secretNames = secretNamesSchema.safeParse(body.secrets ?? []);
+    if (!secretNames.success) {
+      return errorResponse("Invalid secret names");
     }
+    const secrets = await loadSecrets(secretNames.data);
 
-    // Log actual errors
-  console.error("Create session error:", error);
-  const message = error instanceof Error ? error.message : "Failed to create session";
-  return errorResponse(message, 500);
+    const notebook = await store.createNotebook({
+      name: `Session ${new Date().toISOString()}`,
+      language: language.data,
+      secretNames: secretNames.data,
+      cells: [],
+    });
+    // Start the kernel now so Jupyter start-up errors surface here, not on the first cell
+    await startNotebookKernel({ sandbox, sandboxId, store, notebook, secrets });
+
+    return jsonResponse({ sessionId: notebook.id, language: language.data } satisfies AgentNotebookSessionResponse);
+  } catch (error) {
+    return notebookErrorResponse(error, "Failed to create session");
   }
 }
 
-// Execute code in a notebook session
-export async function executeCell(sandbox: Sandbox, request: Request): Promise<Response> {
+/**
+ * Execute code in a notebook session. The code is stored as a new cell, or replaces the
+ * source of `cellId`, and its outputs are streamed as SSE. Without a session ID a new
+ * session is created; its ID is returned in the X-Notebook-Session-Id header.
+ */
+export async function executeCell(
+  sandbox: Sandbox,
+  request: Request,
+  { store, sandboxId, loadSecrets }: NotebookSessionContext
+): Promise<Response> {
   try {
-    const body = await parseJsonBody(request) as { code?: string; sessionId?: string; language?: string };
-    const { code, sessionId, language = 'python' } = body;
+    const body = await parseJsonBody<Partial<AgentNotebookExecuteRequest>>(request);
+    const { code, sessionId, cellId } = body;
 
     if (!code) {
       return errorResponse("Code is required", 400);
     }
 
-    // Get or create session
-    let session = sessionId ? sessions.get(sessionId) : undefined;
-    if (!session) {
-      // Auto-create session if it doesn't exist
-      const context = await sandbox.createCodeContext({ language: language as 'python' | 'javascript' | 'typescript' });
-      session = { contextId: context.id, language };
-      if (sessionId) {
-        sessions.set(sessionId, session);
+    let notebook;
+    if (sessionId) {
+      notebook = await store.getNotebook(sessionId);
+      if (!notebook) {
+        return errorResponse("Notebook session not found", 404);
+      }
+    } else {
+      const language = notebookLanguageSchema.safeParse(body.language ?? "python");
+      if (!language.success) {
+        return errorResponse("Unsupported language");
       }
+      notebook = await store.createNotebook({
+        name: `Session ${new Date().toISOString()}`,
+        language: language.data,
+        secretNames: [],
+        cells: [],
+      });
     }
 
-    // Execute code with streaming
-    const stream = await sandbox.runCodeStream(code, {
-      context: { 
-        id: session.contextId,
-        language: session.language as 'python' | 'javascript',
-        cwd: process.cwd(),
-        createdAt: new Date(),
-        lastUsed: new Date()
-      },
-      language: session.language as 'python' | 'javascript'
-    });
-
-    // Transform the stream to SSE format
-    const encoder = new TextEncoder();
-    const transformedStream = new ReadableStream({
-      async start(controller) {
-        const reader = stream.getReader();
-
-        try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) {
-              break;
-            }
-
-            // Parse the JSON from the stream
-            const text = new TextDecoder().decode(value);
-            const lines = text.split('\n').filter(line => line.trim());
-
-            for (const line of lines) {
-              try {
-                const data = JSON.parse(line);
-                // Format as SSE
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
-              } catch {
-                // Skip invalid JSON
-              }
-            }
-          }
-
-          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-          controller.close();
-        } catch (error) {
-          controller.error(error);
-        }
+    const cells = notebook.cells.map(({ id, type, source }) => ({ id, type, source: id === cellId ? code : source }));
+    const isNewCell = !cellId || !cells.some((cell) => cell.id === cellId);
+    if (isNewCell) {
+      cells.push({ id: cellId ?? crypto.randomUUID(), type: "code", source: code });
+    }
+    const updated = await store.updateNotebook(notebook.id, { cells });
+    const runCellId = isNewCell ? updated!.cells[updated!.cells.length - 1].id : cellId!;
+
+    const secrets = await loadSecrets(notebook.secretNames);
+
+    const { readable, send, sendText, close } = createEventStream<NotebookRunEvent>();
+
+    (async () => {
+      try {
+        await runNotebookCells({
+          sandbox,
+          sandboxId,
+          store,
+          notebookId: notebook.id,
+          cellIds: [runCellId],
+          secrets,
+          onEvent: send,
+          signal: request.signal,
+        });
+      } catch (error) {
+        console.error("Execute cell error:", error);
+        await send({ type: "error", message: error instanceof Error ? error.message : "Failed to execute code" });
+      } finally {
+        await sendText("[DONE]");
+        await close();
       }
-    });
+    })();
 
-    return new Response(transformedStream, {
+    return new Response(readable, {
       headers: {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive',
+        'X-Notebook-Session-Id': notebook.id,
         ...corsHeaders()
       }
     });
   } catch (error) {
-    // Handle Jupyter initialization timeout (request waited but Jupyter wasn't ready in time)
-    if (isJupyterNotReadyError(error)) {
-      console.log("[Notebook] Request timed out waiting for Jupyter initialization");
-      return new Response(
-        JSON.stringify({
-          error: error.message,
-          retryAfter: error.retryAfter,
-          progress: error.progress
-        }),
-        {
-          status: 503,
-          headers: {
-            "Content-Type": "application/json",
-            "Retry-After": String(error.retryAfter),
-            ...corsHeaders()
-          }
-        }
-      );
-    }
-
-    // Check if error is retryable
-    if (isRetryableError(error)) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.log("[Notebook] Retryable error:", message);
-      return errorResponse(message, 503);
-    }
-
-    // Log actual errors
-  console.error("Execute cell error:", error);
-  const message = error instanceof Error ? error.message : "Failed to execute code";
-  return errorResponse(message, 500);
+    return notebookErrorResponse(error, "Failed to execute code");
   }
 }
 
-// Clean up a session
-export async function deleteSession(sandbox: Sandbox, request: Request): Promise<Response> {
+// Delete a session and stop its kernel
+export async function deleteSession(
+  sandbox: Sandbox,
+  request: Request,
+  { store, sandboxId }: NotebookSessionContext
+): Promise<Response> {
   try {
     const body = await parseJsonBody(request) as { sessionId?: string };
-    const { sessionId } = body;
-    const session = sessionId ? sessions.get(sessionId) : undefined;
-
-    if (session) {
-      // Delete the context
-      await sandbox.deleteCodeContext(session.contextId);
-      if (sessionId) {
-        sessions.delete(sessionId);
-      }
+    const notebook = body.sessionId ? await store.getNotebook(body.sessionId) : null;
+
+    if (notebook) {
+      await deleteNotebook({ sandbox, sandboxId, store, notebook });
     }
 
     return jsonResponse({ success: true });
   } catch (error) {
-    // Handle Jupyter initialization timeout (request waited but Jupyter wasn't ready in time)
-    if (isJupyterNotReadyError(error)) {
-      console.log("[Notebook] Request timed out waiting for Jupyter initialization");
-      return new Response(
-        JSON.stringify({
-          error: error.message,
-          retryAfter: error.retryAfter,
-          progress: error.progress
-        }),
-        {
-          status: 503,
-          headers: {
-            "Content-Type": "application/json",
-            "Retry-After": String(error.retryAfter),
-            ...corsHeaders()
-          }
-        }
-      );
-    }
-
-    // Check if error is retryable
-    if (isRetryableError(error)) {
-      const message = error instanceof Error ? error.message : String(error);
-      console.log("[Notebook] Retryable error:", message);
-      return errorResponse(message, 503);
-    }
-
-    // Log actual errors
-  console.error("Delete session error:", error);
-  const message = error instanceof Error ? error.message : "Failed to delete session";
-  return errorResponse(message, 500);
+    return notebookErrorResponse(error, "Failed to delete session");
   }
-}
\ No newline at end of file
+}
@@ -1,7 +1,8 @@
 import type { Sandbox } from "@cloudflare/sandbox";
+import { exposeSandboxPreview, unexposeSandboxPreview, type PreviewContext } from "@/lib/previews";
 import { errorResponse, jsonResponse, parseJsonBody } from "./http";
 
-export async function exposePort(sandbox: Sandbox<unknown>, request: Request) {
+export async function exposePort(sandbox: Sandbox<unknown>, request: Request, previews: PreviewContext) {
     const body = await parseJsonBody(request) as { port?: number; name?: string };
     const { port, name } = body;
 
@@ -9,17 +10,16 @@ export async function exposePort(sandbox: Sandbox<unknown>, request: Request) {
         return errorResponse("Port number is required");
     }
 
-    // Automatically capture hostname from request
-    const hostname = new URL(request.url).host;
-
-    const preview = await sandbox.exposePort(port, {
-        ...(name ? { name } : {}),
-        hostname
+    // Recorded as a preview so the preview gate serves it, on the host the request came in on
+    const preview = await exposeSandboxPreview(sandbox, previews, {
+        port,
+        name: name || undefined,
+        appUrl: request.url
     });
     return jsonResponse(preview);
 }
 
-export async function unexposePort(sandbox: Sandbox<unknown>, request: Request) {
+export async function unexposePort(sandbox: Sandbox<unknown>, request: Request, previews: PreviewContext) {
     const body = await parseJsonBody(request) as { port?: number };
     const { port } = body;
 
@@ -27,7 +27,6 @@ export async function unexposePort(sandbox: Sandbox<unknown>, request: Request)
         return errorResponse("Port number is required");
     }
 
-    await sandbox.unexposePort(port);
+    await unexposeSandboxPreview(sandbox, previews, port);
     return jsonResponse({ message: "Port unexposed", port });
 }
-
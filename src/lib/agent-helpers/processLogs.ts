@@ -1,7 +1,11 @@
 import { Sandbox, parseSSEStream, type LogEvent } from "@cloudflare/sandbox";
+import { createLogEventRedactor, type SecretRedactor } from "@/lib/sandbox-secrets";
+import { createEventStream } from "@/lib/sse";
 import { corsHeaders, errorResponse, jsonResponse } from "./http";
 
-export async function getProcessLogs(sandbox: Sandbox<unknown>, pathname: string) {
+// Log output is masked with every secret of the scope, since any of them may have been
+// injected into the process when it was started
+export async function getProcessLogs(sandbox: Sandbox<unknown>, pathname: string, { redactDeep }: SecretRedactor) {
     const pathParts = pathname.split("/");
     const processId = pathParts[pathParts.length - 2];
 
@@ -11,13 +15,13 @@ export async function getProcessLogs(sandbox: Sandbox<unknown>, pathname: string
 
     if (typeof sandbox.getProcessLogs === 'function') {
         const logs = await sandbox.getProcessLogs(processId);
-        return jsonResponse(logs);
+        return jsonResponse(redactDeep(logs));
     } else {
         return errorResponse("Process management not implemented in current SDK version", 501);
     }
 }
 
-export async function streamProcessLogs(sandbox: Sandbox<unknown>, pathname: string) {
+export async function streamProcessLogs(sandbox: Sandbox<unknown>, pathname: string, redactor: SecretRedactor) {
     const pathParts = pathname.split("/");
     const processId = pathParts[pathParts.length - 2];
 
@@ -50,9 +54,7 @@ export async function streamProcessLogs(sandbox: Sandbox<unknown>, pathname: str
     if (typeof sandbox.streamProcessLogs === 'function') {
         try {
             // Create SSE stream from AsyncIterable
-            const encoder = new TextEncoder();
-            const { readable, writable } = new TransformStream();
-            const writer = writable.getWriter();
+            const { readable, send, close } = createEventStream<LogEvent>();
 
             // Stream logs in the background
             (async () => {
@@ -61,21 +63,27 @@ export async function streamProcessLogs(sandbox: Sandbox<unknown>, pathname: str
                     const stream = await sandbox.streamProcessLogs(processId);
 
                     // Convert to AsyncIterable using parseSSEStream
+                    const logRedactor = createLogEventRedactor(redactor);
                     for await (const logEvent of parseSSEStream<LogEvent>(stream)) {
                         // Forward each typed event as SSE
-                        await writer.write(encoder.encode(`data: ${JSON.stringify(logEvent)}\n\n`));
+                        for (const event of logRedactor.push(logEvent)) {
+                            await send(event);
+                        }
+                    }
+                    for (const event of logRedactor.flush()) {
+                        await send(event);
                     }
                 } catch (error) {
-                    const message = error instanceof Error ? error.message : String(error);
+                    const message = redactor.redact(error instanceof Error ? error.message : String(error));
                     // Send error event
-                    await writer.write(encoder.encode(`data: ${JSON.stringify({
+                    await send({
                         type: 'error',
                         timestamp: new Date().toISOString(),
                         data: message,
                         processId
-                    })}\n\n`));
+                    });
                 } finally {
-                    await writer.close();
+                    await close();
                 }
             })();
 
@@ -1,14 +1,18 @@
 import type { Sandbox } from "@cloudflare/sandbox";
+import { getSandboxAccessErrorStatus } from "@/lib/sandbox-access";
+import { toEnvVars, type SandboxSecret, type SecretLoader } from "@/lib/sandbox-secrets";
+import { secretNamesSchema } from "@/schemas/secret.schema";
 import { errorResponse, jsonResponse, parseJsonBody } from "./http";
 
-export async function startProcess(sandbox: Sandbox<unknown>, request: Request) {
+export async function startProcess(sandbox: Sandbox<unknown>, request: Request, loadSecrets: SecretLoader) {
     const body = await parseJsonBody(request) as { 
         command?: string; 
         processId?: string; 
         sessionId?: string; 
         timeout?: number; 
         env?: Record<string, string>; 
-        cwd?: string 
+        cwd?: string;
+        secrets?: string[];
     };
     const { command, processId, timeout, env: envVars, cwd } = body;
 
@@ -16,15 +20,29 @@ export async function startProcess(sandbox: Sandbox<unknown>, request: Request)
         return errorResponse("Command is required");
     }
 
+    const secretNames = secretNamesSchema.safeParse(body.secrets ?? []);
+    if (!secretNames.success) {
+        return errorResponse("Invalid secret names");
+    }
+
+    let secrets: SandboxSecret[];
+    try {
+        secrets = await loadSecrets(secretNames.data);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return errorResponse(message, getSandboxAccessErrorStatus(error) ?? 500);
+    }
+
     if (typeof sandbox.startProcess === 'function') {
+        // Process options are sent to the container in the request body, not logged
         const process = await sandbox.startProcess(command, {
             processId,
             timeout,
-            env: envVars,
+            env: { ...envVars, ...toEnvVars(secrets) },
             cwd
         });
         return jsonResponse(process);
     } else {
         return errorResponse("Process management not implemented in current SDK version", 501);
     }
-}
\ No newline at end of file
+}
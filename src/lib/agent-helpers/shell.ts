@@ -0,0 +1,4 @@
+// Quote a value as a single shell word, for commands run with `sandbox.exec`
+export function shellQuote(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
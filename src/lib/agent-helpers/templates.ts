@@ -1,7 +1,20 @@
 import type { Sandbox } from "@cloudflare/sandbox";
+import { exposeSandboxPreview, type PreviewContext } from "@/lib/previews";
+import { waitForPort } from "@/lib/sandbox-ports";
 import { errorResponse, jsonResponse, parseJsonBody } from "./http";
 
-export async function setupNextjs(sandbox: Sandbox<unknown>, request: Request) {
+const DEV_SERVER_PORT = 8080;
+
+// Wait until the dev server answers instead of a fixed delay, compiling can take a minute
+async function exposeDevServer(sandbox: Sandbox<unknown>, request: Request, previews: PreviewContext, name: string) {
+  if (!await waitForPort(sandbox, DEV_SERVER_PORT, { timeoutMs: 120_000 })) {
+    throw new Error(`${name} didn't start listening on port ${DEV_SERVER_PORT}`);
+  }
+
+  return exposeSandboxPreview(sandbox, previews, { port: DEV_SERVER_PORT, name, appUrl: request.url });
+}
+
+export async function setupNextjs(sandbox: Sandbox<unknown>, request: Request, previews: PreviewContext) {
   try {
     const body = await parseJsonBody(request) as { projectName?: string };
     const { projectName = "my-nextjs-app" } = body;
@@ -15,15 +28,8 @@ export async function setupNextjs(sandbox: Sandbox<unknown>, request: Request) {
       cwd: projectName
     });
 
-    // Step 4: Wait a moment for server to start
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Step 5: Expose port
-    const hostname = new URL(request.url).host;
-    const preview = await sandbox.exposePort(8080, {
-      name: "Next.js Dev Server",
-      hostname
-    });
+    // Step 4: Expose the port once the server answers
+    const preview = await exposeDevServer(sandbox, request, previews, "Next.js Dev Server");
 
     return jsonResponse({
       success: true,
@@ -39,7 +45,7 @@ export async function setupNextjs(sandbox: Sandbox<unknown>, request: Request) {
   }
 }
 
-export async function setupReact(sandbox: Sandbox<unknown>, request: Request) {
+export async function setupReact(sandbox: Sandbox<unknown>, request: Request, previews: PreviewContext) {
   try {
     const body = await parseJsonBody(request) as { projectName?: string };
     const { projectName = "my-react-app" } = body;
@@ -56,15 +62,8 @@ export async function setupReact(sandbox: Sandbox<unknown>, request: Request) {
       }
     });
 
-    // Step 3: Wait for server to start
-    await new Promise(resolve => setTimeout(resolve, 5000));
-
-    // Step 4: Expose port
-    const hostname = new URL(request.url).host;
-    const preview = await sandbox.exposePort(8080, {
-      name: "React Dev Server",
-      hostname
-    });
+    // Step 3: Expose the port once the server answers
+    const preview = await exposeDevServer(sandbox, request, previews, "React Dev Server");
 
     return jsonResponse({
       success: true,
@@ -80,7 +79,7 @@ export async function setupReact(sandbox: Sandbox<unknown>, request: Request) {
   }
 }
 
-export async function setupVue(sandbox: Sandbox<unknown>, request: Request) {
+export async function setupVue(sandbox: Sandbox<unknown>, request: Request, previews: PreviewContext) {
   try {
     const body = await parseJsonBody(request) as { projectName?: string };
     const { projectName = "my-vue-app" } = body;
@@ -96,15 +95,8 @@ export async function setupVue(sandbox: Sandbox<unknown>, request: Request) {
       cwd: projectName
     });
 
-    // Step 4: Wait for server to start
-    await new Promise(resolve => setTimeout(resolve, 3000));
-
-    // Step 5: Expose port
-    const hostname = new URL(request.url).host;
-    const preview = await sandbox.exposePort(8080, {
-      name: "Vue Dev Server",
-      hostname
-    });
+    // Step 4: Expose the port once the server answers
+    const preview = await exposeDevServer(sandbox, request, previews, "Vue Dev Server");
 
     return jsonResponse({
       success: true,
@@ -120,7 +112,7 @@ export async function setupVue(sandbox: Sandbox<unknown>, request: Request) {
   }
 }
 
-export async function setupStatic(sandbox: Sandbox<unknown>, request: Request) {
+export async function setupStatic(sandbox: Sandbox<unknown>, request: Request, previews: PreviewContext) {
   try {
     const body = await parseJsonBody(request) as { projectName?: string };
     const { projectName = "my-static-site" } = body;
@@ -163,15 +155,8 @@ export async function setupStatic(sandbox: Sandbox<unknown>, request: Request) {
       cwd: projectName
     });
 
-    // Step 4: Wait for server to start
-    await new Promise(resolve => setTimeout(resolve, 2000));
-
-    // Step 5: Expose port
-    const hostname = new URL(request.url).host;
-    const preview = await sandbox.exposePort(8080, {
-      name: "Static Site Server",
-      hostname
-    });
+    // Step 4: Expose the port once the server answers
+    const preview = await exposeDevServer(sandbox, request, previews, "Static Site Server");
 
     return jsonResponse({
       success: true,
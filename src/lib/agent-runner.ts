@@ -0,0 +1,221 @@
+import "server-only";
+
+import { createOpenAI } from "@ai-sdk/openai";
+import { streamText, stepCountIs, type LanguageModelUsage, type ModelMessage } from "ai";
+import { createSandboxTools, type AgentToolSandbox, type AgentToolUser } from "@/lib/agent-tools";
+import type { SandboxSecret } from "@/lib/sandbox-secrets";
+import type { AgentStreamEvent, AgentUsage, StoredUpload } from "@/types/agent";
+
+const DEFAULT_AGENT_MODEL = "gpt-oss:20b";
+const DEFAULT_MAX_STEPS = 8;
+
+export const AGENT_SYSTEM_PROMPT = `You are netM8 Agent, an autonomous assistant with access to a private sandbox.
+Plan the steps needed to answer the user, then use the available tools to run code, analyze data, generate charts and work with git repositories.
+Inspect every tool result before deciding on the next step. When you have enough information, reply with a concise final answer.
+When you finish changes to a repository cloned from GitHub, open a pull request for them with createPullRequest and include its link in your answer.`;
+
+/**
+ * The system prompt, listing the files the user uploaded and the secrets available as
+ * environment variables so the agent knows they exist.
+ */
+export function getAgentSystemPrompt(uploads: StoredUpload[] = [], secretNames: string[] = []) {
+  let prompt = AGENT_SYSTEM_PROMPT;
+
+  if (uploads.length > 0) {
+    const files = uploads.map((upload) => `- ${upload.path} (${upload.type || "unknown type"}, ${upload.size} bytes)`);
+    prompt += `
+
+The user uploaded these files to the sandbox workspace:
+${files.join("\n")}`;
+  }
+
+  if (secretNames.length > 0) {
+    prompt += `
+
+These environment variables hold secrets the user provided. Read them from the environment in your code, never print them:
+${secretNames.map((name) => `- ${name}`).join("\n")}`;
+  }
+
+  return prompt;
+}
+
+export interface AgentModelConfig {
+  apiKey?: string;
+  /**
+   * Base URL of an OpenAI-compatible API. Point this at a local stub in tests.
+   */
+  baseURL?: string;
+  model: string;
+  maxSteps: number;
+}
+
+export function getAgentModelConfig(): AgentModelConfig {
+  const maxSteps = parseInt(process.env.AGENT_MAX_STEPS || "", 10);
+
+  return {
+    apiKey: process.env.OPENAI_API_KEY,
+    baseURL: process.env.OPENAI_BASE_URL || undefined,
+    model: process.env.AGENT_MODEL || DEFAULT_AGENT_MODEL,
+    maxSteps: Number.isFinite(maxSteps) && maxSteps > 0 ? maxSteps : DEFAULT_MAX_STEPS,
+  };
+}
+
+export function toAgentUsage(usage: LanguageModelUsage | undefined): AgentUsage {
+  const inputTokens = usage?.inputTokens ?? 0;
+  const outputTokens = usage?.outputTokens ?? 0;
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage?.totalTokens ?? inputTokens + outputTokens,
+  };
+}
+
+interface RunAgentLoopParams {
+  sandbox: AgentToolSandbox;
+  // The user the agent runs for, used by the git tools
+  user: AgentToolUser;
+  messages: ModelMessage[];
+  // Files uploaded to the conversation, listed in the system prompt
+  uploads?: StoredUpload[];
+  // Secrets exposed to executed code as environment variables
+  secrets?: SandboxSecret[];
+  onEvent: (event: AgentStreamEvent) => void | Promise<void>;
+  /**
+   * Called before every step. May wait, while members paused the run, and returns
+   * messages that join the conversation from then on, like their interjections.
+   */
+  beforeStep?: () => Promise<ModelMessage[]>;
+  // Called with the code contexts tools execute in, while they do
+  onCodeContext?: (contextId: string, active: boolean) => void | Promise<void>;
+  config?: AgentModelConfig;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Run the tool-calling agent loop: the model plans, calls sandbox tools,
+ * sees their results and repeats until it produces a final answer or
+ * reaches the step limit. Every step is reported through `onEvent`.
+ */
+export async function runAgentLoop({
+  sandbox,
+  user,
+  messages,
+  uploads,
+  secrets = [],
+  onEvent,
+  beforeStep,
+  onCodeContext,
+  config = getAgentModelConfig(),
+  abortSignal,
+}: RunAgentLoopParams) {
+  const openai = createOpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+  });
+
+  let step = 0;
+  let text = "";
+  let usage: AgentUsage = toAgentUsage(undefined);
+  let finishReason = "unknown";
+  // Messages added before a step, with the position they were added at
+  const added: Array<{ at: number; message: ModelMessage }> = [];
+
+  const result = streamText({
+    // Chat completions are the lowest common denominator for OpenAI-compatible servers
+    model: openai.chat(config.model),
+    system: getAgentSystemPrompt(uploads, secrets.map((secret) => secret.name)),
+    messages,
+    tools: createSandboxTools(sandbox, user, secrets, {
+      onOutput: (chunk) => onEvent({ type: "tool-output", step, ...chunk }),
+      onCodeContext,
+    }),
+    stopWhen: stepCountIs(config.maxSteps),
+    prepareStep: beforeStep && (async ({ messages: stepMessages }) => {
+      for (const message of await beforeStep()) {
+        added.push({ at: stepMessages.length, message });
+      }
+      if (added.length === 0) return undefined;
+
+      // Every step starts from the original messages again, so earlier additions are
+      // put back where they were made
+      const withAdded = [...stepMessages];
+      for (const { at, message } of [...added].reverse()) {
+        withAdded.splice(at, 0, message);
+      }
+      return { messages: withAdded };
+    }),
+    abortSignal,
+  });
+
+  await onEvent({ type: "start", model: config.model });
+
+  for await (const part of result.fullStream) {
+    switch (part.type) {
+      case "start-step":
+        step++;
+        await onEvent({ type: "step-start", step });
+        break;
+
+      case "text-delta":
+        text += part.text;
+        await onEvent({ type: "text-delta", text: part.text });
+        break;
+
+      case "tool-call":
+        await onEvent({
+          type: "tool-call",
+          step,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          input: part.input,
+        });
+        break;
+
+      case "tool-result":
+        await onEvent({
+          type: "tool-result",
+          step,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          output: part.output,
+        });
+        break;
+
+      case "tool-error":
+        await onEvent({
+          type: "tool-error",
+          step,
+          toolCallId: part.toolCallId,
+          toolName: part.toolName,
+          error: part.error instanceof Error ? part.error.message : String(part.error),
+        });
+        break;
+
+      case "finish-step":
+        await onEvent({
+          type: "step-finish",
+          step,
+          finishReason: part.finishReason,
+          usage: toAgentUsage(part.usage),
+        });
+        break;
+
+      case "finish":
+        usage = toAgentUsage(part.totalUsage);
+        finishReason = part.finishReason;
+        break;
+
+      case "abort":
+        finishReason = "aborted";
+        break;
+
+      case "error":
+        throw part.error instanceof Error ? part.error : new Error(String(part.error));
+    }
+  }
+
+  await onEvent({ type: "finish", finishReason, text, usage });
+
+  return { text, usage, steps: step, finishReason };
+}
@@ -4,8 +4,14 @@
  * from Next.js route handlers
  */
 
-import { getSandbox, type ISandbox } from '@cloudflare/sandbox';
+import type { ISandbox } from '@cloudflare/sandbox';
 import type { CloudflareEnv } from '@/types/cloudflare';
+import { getSandboxId, type SandboxScope } from '@/lib/sandbox-access';
+import { shellQuote } from '@/lib/agent-helpers/shell';
+
+// Bytes moved per sandbox call when streaming files in and out. A multiple of 3 so
+// every chunk encodes to base64 on its own.
+const FILE_CHUNK_SIZE = 3 * 2 * 1024 * 1024;
 
 // Generate secure random session ID
 export function generateSessionId(): string {
@@ -14,16 +20,18 @@ export function generateSessionId(): string {
   return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
-// Get or create a sandbox instance for a user
-export function getUserSandbox(
+// Get or create the sandbox of an authorized scope (see authorizeSandboxScope)
+export async function getUserSandbox(
   env: CloudflareEnv,
-  userId: string,
-  sessionId?: string
-): ISandbox {
-  // Use a consistent ID for the user's sandbox instance
-  // This ensures the same sandbox is reused across requests
-  const sandboxId = sessionId || `user-${userId}-sandbox`;
-  return getSandbox(env.Sandbox as unknown as Parameters<typeof getSandbox>[0], sandboxId);
+  scope: SandboxScope
+): Promise<ISandbox> {
+  // Load getSandbox using eval to bypass webpack bundling
+  const { loadGetSandbox } = await import('@/lib/cloudflare-runtime');
+  const getSandbox = await loadGetSandbox();
+
+  // The ID is derived from the scope so the same sandbox is reused across requests
+  // and callers can't address sandboxes of other users
+  return getSandbox(env.Sandbox as unknown as Parameters<typeof getSandbox>[0], getSandboxId(scope)) as unknown as ISandbox;
 }
 
 // Helper to safely parse JSON from request
@@ -193,4 +201,106 @@ export class SandboxOperations {
       'Failed to unexpose port'
     );
   }
-}
\ No newline at end of file
+
+  // Run a shell command and fail on a non-zero exit code
+  private async run(command: string, errorMessage: string) {
+    const result = await withSandbox(
+      async (sb) => sb.exec(command),
+      this.sandbox,
+      errorMessage
+    );
+    if (result.exitCode !== 0) {
+      throw new Error(`${errorMessage}: ${result.stderr || `exit code ${result.exitCode}`}`);
+    }
+    return result;
+  }
+
+  // Pack a directory into a gzipped tarball and return the archive size in bytes
+  async archiveDirectory(directory: string, archivePath: string, options?: { exclude?: string[] }) {
+    const excludes = (options?.exclude ?? []).map((pattern) => `--exclude=${shellQuote(pattern)}`).join(' ');
+    await this.run(
+      `mkdir -p ${shellQuote(directory)} && tar -czf ${shellQuote(archivePath)} ${excludes} -C ${shellQuote(directory)} .`,
+      'Failed to archive directory'
+    );
+
+    const result = await this.run(`stat -c %s ${shellQuote(archivePath)}`, 'Failed to read archive size');
+    return parseInt(result.stdout.trim(), 10);
+  }
+
+  // Replace the contents of a directory with a gzipped tarball
+  async extractArchive(archivePath: string, directory: string) {
+    await this.run(
+      `rm -rf ${shellQuote(directory)} && mkdir -p ${shellQuote(directory)} && tar -xzf ${shellQuote(archivePath)} -C ${shellQuote(directory)}`,
+      'Failed to extract archive'
+    );
+  }
+
+  // Read a file in chunks so large files are never held in memory at once
+  async *readFileChunks(path: string): AsyncGenerator<Uint8Array> {
+    const partsDir = `/tmp/chunks-${crypto.randomUUID()}`;
+    await this.run(
+      `rm -rf ${shellQuote(partsDir)} && mkdir -p ${shellQuote(partsDir)} && split -b ${FILE_CHUNK_SIZE} -d -a 5 ${shellQuote(path)} ${shellQuote(`${partsDir}/part-`)}`,
+      'Failed to split file'
+    );
+
+    try {
+      const { files } = await this.listFiles(partsDir);
+      const parts = files.map((file) => file.absolutePath).sort();
+
+      for (const part of parts) {
+        const { content } = await this.readFile(part, 'base64');
+        yield new Uint8Array(Buffer.from(content, 'base64'));
+      }
+    } finally {
+      await this.sandbox.exec(`rm -rf ${shellQuote(partsDir)}`);
+    }
+  }
+
+  // Write a stream to a file chunk by chunk. Binary content is sent as base64.
+  async writeFileStream(path: string, stream: ReadableStream<Uint8Array>) {
+    const partPath = `${path}.part`;
+    const reader = stream.getReader();
+    let buffer = new Uint8Array(0);
+    let written = 0;
+
+    const flush = async (chunk: Uint8Array) => {
+      const content = Buffer.from(chunk).toString('base64');
+
+      if (written === 0) {
+        await this.writeFile(path, content, { encoding: 'base64' });
+      } else {
+        // The sandbox can't append, so stage the chunk and concatenate it
+        await this.writeFile(partPath, content, { encoding: 'base64' });
+        await this.run(
+          `cat ${shellQuote(partPath)} >> ${shellQuote(path)} && rm -f ${shellQuote(partPath)}`,
+          'Failed to write file'
+        );
+      }
+      written += chunk.length;
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (value) {
+        const next = new Uint8Array(buffer.length + value.length);
+        next.set(buffer);
+        next.set(value, buffer.length);
+        buffer = next;
+      }
+
+      while (buffer.length >= FILE_CHUNK_SIZE) {
+        await flush(buffer.subarray(0, FILE_CHUNK_SIZE));
+        buffer = buffer.slice(FILE_CHUNK_SIZE);
+      }
+
+      if (done) break;
+    }
+
+    // The last chunk, or an empty file
+    if (buffer.length > 0 || written === 0) {
+      await flush(buffer);
+    }
+
+    return written;
+  }
+}
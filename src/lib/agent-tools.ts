@@ -1,4 +1,21 @@
 import { z } from 'zod';
+import { tool, type ToolSet } from 'ai';
+import type { ISandbox } from '@cloudflare/sandbox';
+import {
+  DEFAULT_REPO_PATH,
+  GitCommandError,
+  commitGitChanges,
+  createGitBranch,
+  getGitDiff,
+  getGitStatus,
+  pullGitChanges,
+  pushGitChanges,
+  stageGitFiles,
+  switchGitBranch,
+} from '@/lib/git-workspace';
+import { openPullRequest } from '@/lib/github-pull-requests';
+import { createSecretRedactor, toEnvVars, type SandboxSecret } from '@/lib/sandbox-secrets';
+import type { GitDiffFile, GitStatus } from '@/types/agent';
 
 export const tools = {
   executeCode: {
@@ -24,5 +41,414 @@ export const tools = {
       data: z.string(),
       title: z.string().optional()
     })
+  },
+
+  gitStatus: {
+    description: "Show the branch and changed files of a git repository",
+    parameters: z.object({
+      repo: z.string().default(DEFAULT_REPO_PATH)
+    })
+  },
+
+  gitDiff: {
+    description: "Show the changes in a git repository as a diff",
+    parameters: z.object({
+      repo: z.string().default(DEFAULT_REPO_PATH),
+      staged: z.boolean().default(false),
+      paths: z.array(z.string()).optional()
+    })
+  },
+
+  gitCommit: {
+    description: "Stage changes and commit them",
+    parameters: z.object({
+      repo: z.string().default(DEFAULT_REPO_PATH),
+      message: z.string().min(1),
+      paths: z.array(z.string()).optional()
+    })
+  },
+
+  gitBranch: {
+    description: "Switch to a git branch, creating it first if asked",
+    parameters: z.object({
+      repo: z.string().default(DEFAULT_REPO_PATH),
+      name: z.string().regex(/^(?!-)(?!.*\.\.)[\w./-]+$/),
+      create: z.boolean().default(false)
+    })
+  },
+
+  gitPull: {
+    description: "Pull the current branch from its remote",
+    parameters: z.object({
+      repo: z.string().default(DEFAULT_REPO_PATH)
+    })
+  },
+
+  gitPush: {
+    description: "Push the current branch to its remote",
+    parameters: z.object({
+      repo: z.string().default(DEFAULT_REPO_PATH)
+    })
+  },
+
+  createPullRequest: {
+    description: "Commit pending changes, push the branch and open a GitHub pull request",
+    parameters: z.object({
+      repo: z.string().default(DEFAULT_REPO_PATH),
+      title: z.string().min(1).max(256),
+      body: z.string().optional(),
+      base: z.string().regex(/^(?!-)(?!.*\.\.)[\w./-]+$/).optional()
+    })
   }
 };
+
+// Sandbox methods the tools depend on
+export type AgentToolSandbox = Pick<ISandbox, 'createCodeContext' | 'deleteCodeContext' | 'runCode' | 'writeFile' | 'exec'>;
+
+// The user the agent runs for, whose git identity and credentials the git tools use
+export interface AgentToolUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface ToolExecutionOutput {
+  success: boolean;
+  stdout: string;
+  stderr: string;
+  results: Array<{
+    text?: string;
+    html?: string;
+    png?: string;
+    jpeg?: string;
+    svg?: string;
+    json?: unknown;
+  }>;
+  error?: string;
+  // Parsed diff of git tools, rendered as a diff in the chat
+  diff?: GitDiffFile[];
+  // Sandbox wall-clock time, used for metering
+  durationMs: number;
+}
+
+// A chunk of output of code a tool is running
+export interface ToolOutputChunk {
+  toolCallId: string;
+  toolName: string;
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+type ToolOutputHandler = (chunk: ToolOutputChunk) => void | Promise<void>;
+
+// Called when code starts executing in a context, and with `active` false once it is done
+type CodeContextHandler = (contextId: string, active: boolean) => void | Promise<void>;
+
+interface SandboxRunOptions {
+  envVars?: Record<string, string>;
+  onOutput?: (stream: ToolOutputChunk['stream'], text: string) => void | Promise<void>;
+  onCodeContext?: CodeContextHandler;
+  signal?: AbortSignal;
+}
+
+const DATA_DIR = '/workspace/.agent';
+
+// Every execution gets a fresh context, which is deleted again once it is done
+async function runInSandbox(
+  sandbox: AgentToolSandbox,
+  { code, language }: { code: string; language: 'python' | 'javascript' },
+  { envVars = {}, onOutput, onCodeContext, signal }: SandboxRunOptions = {}
+): Promise<ToolExecutionOutput> {
+  const startedAt = Date.now();
+  let contextId: string | undefined;
+  try {
+    const context = await sandbox.createCodeContext({ language, envVars });
+    contextId = context.id;
+    await onCodeContext?.(context.id, true);
+
+    const execution = await sandbox.runCode(code, {
+      context,
+      signal,
+      onStdout: onOutput && ((output) => onOutput('stdout', output.text)),
+      onStderr: onOutput && ((output) => onOutput('stderr', output.text)),
+    });
+
+    return {
+      success: !execution.error,
+      stdout: execution.logs.stdout.join('\n'),
+      stderr: execution.logs.stderr.join('\n'),
+      // Strip the result objects down to plain data so they survive JSON serialization
+      results: execution.results.map((result) => ({
+        text: result.text,
+        html: result.html,
+        png: result.png,
+        jpeg: result.jpeg,
+        svg: result.svg,
+        json: result.json,
+      })),
+      error: execution.error
+        ? `${execution.error.name}: ${execution.error.value}\n${execution.error.traceback.join('\n')}`
+        : undefined,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    // Aborted executions report why the run was stopped
+    const reason = signal?.aborted && signal.reason instanceof Error ? signal.reason : error;
+    return {
+      success: false,
+      stdout: '',
+      stderr: '',
+      results: [],
+      error: reason instanceof Error ? reason.message : 'Sandbox execution failed',
+      durationMs: Date.now() - startedAt,
+    };
+  } finally {
+    if (contextId) {
+      await sandbox.deleteCodeContext(contextId).catch((error) => console.warn('[Agent tools] Failed to delete code context:', error));
+      await onCodeContext?.(contextId, false);
+    }
+  }
+}
+
+function formatGitStatus(status: GitStatus) {
+  const tracking = status.upstream ? ` tracking ${status.upstream} (ahead ${status.ahead}, behind ${status.behind})` : '';
+  const lines = [`On branch ${status.branch ?? '(detached HEAD)'}${tracking}`];
+  for (const file of status.files) {
+    const change = [file.staged && `staged ${file.staged}`, file.unstaged && file.unstaged].filter(Boolean).join(', ');
+    lines.push(`${file.path}${file.originalPath ? ` (from ${file.originalPath})` : ''}: ${change}`);
+  }
+  if (status.files.length === 0) lines.push('Nothing to commit, working tree clean');
+  return lines.join('\n');
+}
+
+// Unified diff text of parsed files, for the model
+function formatGitDiff(files: GitDiffFile[]) {
+  return files.map((file) => [
+    `--- ${file.oldPath ?? '/dev/null'}`,
+    `+++ ${file.newPath ?? '/dev/null'}`,
+    ...(file.binary ? ['Binary file changed'] : []),
+    ...file.hunks.flatMap((hunk) => [
+      hunk.header,
+      ...hunk.lines.map((line) => `${line.type === 'add' ? '+' : line.type === 'delete' ? '-' : ' '}${line.content}`),
+    ]),
+  ].join('\n')).join('\n');
+}
+
+// Run a git operation as a tool, turning git errors into a failed tool result
+async function runGitTool(
+  operation: () => Promise<{ stdout: string; diff?: GitDiffFile[] }>
+): Promise<ToolExecutionOutput> {
+  const startedAt = Date.now();
+  try {
+    const { stdout, diff } = await operation();
+    return { success: true, stdout, stderr: '', results: [], diff, durationMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      success: false,
+      stdout: '',
+      stderr: error instanceof GitCommandError ? error.stderr : '',
+      results: [],
+      error: error instanceof Error ? error.message : 'Git command failed',
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+// Images are forwarded to the client but only summarized for the model
+export function summarizeToolOutput(output: ToolExecutionOutput) {
+  const parts: string[] = [];
+  if (output.stdout) parts.push(`stdout:\n${output.stdout}`);
+  if (output.stderr) parts.push(`stderr:\n${output.stderr}`);
+  for (const result of output.results) {
+    if (result.png || result.jpeg || result.svg) {
+      parts.push('[image output rendered to the user]');
+    } else if (result.text) {
+      parts.push(`result:\n${result.text}`);
+    }
+  }
+  if (output.error) parts.push(`error:\n${output.error}`);
+
+  return {
+    type: output.success ? 'text' as const : 'error-text' as const,
+    value: parts.length > 0 ? parts.join('\n\n') : 'Execution finished with no output',
+  };
+}
+
+/**
+ * Bind the agent tool definitions to a user's sandbox so the model can call them.
+ * Secrets are available to the code as environment variables; their values are masked
+ * in tool outputs, so neither the model nor the stored history sees them. Output of
+ * running code is passed to `onOutput` as it is printed, and the contexts it runs in to
+ * `onCodeContext`. Aborting the agent aborts running code.
+ */
+export function createSandboxTools(
+  sandbox: AgentToolSandbox,
+  user: AgentToolUser,
+  secrets: SandboxSecret[] = [],
+  { onOutput, onCodeContext }: { onOutput?: ToolOutputHandler; onCodeContext?: CodeContextHandler } = {}
+) {
+  const envVars = toEnvVars(secrets);
+  const { redact, redactDeep } = createSecretRedactor(secrets);
+  const runCode = async (
+    input: { code: string; language: 'python' | 'javascript' },
+    { toolCallId, toolName, abortSignal }: { toolCallId: string; toolName: string; abortSignal?: AbortSignal }
+  ) =>
+    redactDeep(await runInSandbox(sandbox, input, {
+      envVars,
+      onOutput: onOutput && ((stream, text) => onOutput({ toolCallId, toolName, stream, text: redact(text) })),
+      onCodeContext,
+      signal: abortSignal,
+    }));
+
+  return {
+    executeCode: tool({
+      description: tools.executeCode.description,
+      inputSchema: tools.executeCode.parameters,
+      execute: async ({ code, language }, { toolCallId, abortSignal }) =>
+        runCode({ code, language }, { toolCallId, toolName: 'executeCode', abortSignal }),
+      toModelOutput: summarizeToolOutput,
+    }),
+
+    analyzeData: tool({
+      description: `${tools.analyzeData.description}. \`fileData\` is CSV content or a path to a CSV file in the workspace; \`operation\` is Python code run against a pandas DataFrame named \`df\`.`,
+      inputSchema: tools.analyzeData.parameters,
+      execute: async ({ operation, fileData }, { toolCallId, abortSignal }) => {
+        let source = fileData?.trim() ?? '';
+
+        // Inline CSV content is staged as a file so pandas can read it
+        if (source && !source.startsWith('/')) {
+          const path = `${DATA_DIR}/data-${Date.now()}.csv`;
+          await sandbox.writeFile(path, source);
+          source = path;
+        }
+
+        const code = [
+          'import pandas as pd',
+          source ? `df = pd.read_csv(${JSON.stringify(source)})` : 'df = pd.DataFrame()',
+          operation,
+        ].join('\n');
+
+        return runCode({ code, language: 'python' }, { toolCallId, toolName: 'analyzeData', abortSignal });
+      },
+      toModelOutput: summarizeToolOutput,
+    }),
+
+    generateChart: tool({
+      description: `${tools.generateChart.description}. \`data\` is a JSON object of the form {"labels": [...], "values": [...]} or {"x": [...], "y": [...]}.`,
+      inputSchema: tools.generateChart.parameters,
+      execute: async ({ chartType, data, title }, { toolCallId, abortSignal }) => {
+        const code = `
+import json
+import matplotlib.pyplot as plt
+
+data = json.loads(${JSON.stringify(data)})
+x = data.get("x", data.get("labels", []))
+y = data.get("y", data.get("values", []))
+
+fig, ax = plt.subplots()
+chart_type = ${JSON.stringify(chartType)}
+if chart_type == "bar":
+    ax.bar(x, y)
+elif chart_type == "line":
+    ax.plot(x, y)
+elif chart_type == "scatter":
+    ax.scatter(x, y)
+else:
+    ax.pie(y, labels=x, autopct="%1.1f%%")
+ax.set_title(${JSON.stringify(title ?? '')})
+plt.show()
+`;
+        return runCode({ code, language: 'python' }, { toolCallId, toolName: 'generateChart', abortSignal });
+      },
+      toModelOutput: summarizeToolOutput,
+    }),
+
+    gitStatus: tool({
+      description: tools.gitStatus.description,
+      inputSchema: tools.gitStatus.parameters,
+      execute: async ({ repo }) => runGitTool(async () => ({
+        stdout: formatGitStatus(await getGitStatus(sandbox, repo)),
+      })),
+      toModelOutput: summarizeToolOutput,
+    }),
+
+    gitDiff: tool({
+      description: `${tools.gitDiff.description}. \`staged\` shows what will be committed instead of unstaged changes.`,
+      inputSchema: tools.gitDiff.parameters,
+      execute: async ({ repo, staged, paths }) => runGitTool(async () => {
+        const { files, truncated } = await getGitDiff(sandbox, repo, { staged, paths });
+        const additions = files.reduce((sum, file) => sum + file.additions, 0);
+        const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+        const summary = files.length > 0
+          ? `${files.length} file${files.length > 1 ? 's' : ''} changed, +${additions} -${deletions}`
+          : 'No changes';
+        return { stdout: truncated ? `${summary} (diff truncated)` : summary, diff: files };
+      }),
+      // The user sees the rendered diff, the model gets it as unified diff text
+      toModelOutput: (output) => summarizeToolOutput(
+        output.diff?.length ? { ...output, stdout: `${output.stdout}\n\n${formatGitDiff(output.diff)}` } : output
+      ),
+    }),
+
+    gitCommit: tool({
+      description: `${tools.gitCommit.description}. Every change is staged when \`paths\` is omitted.`,
+      inputSchema: tools.gitCommit.parameters,
+      execute: async ({ repo, message, paths }) => runGitTool(async () => {
+        await stageGitFiles(sandbox, repo, paths);
+        // What gets committed, shown to the user as a diff
+        const { files: diff } = await getGitDiff(sandbox, repo, { staged: true });
+        const result = await commitGitChanges(sandbox, repo, { message, identity: user });
+        return { stdout: `Committed ${result.commit.slice(0, 7)} on ${result.branch ?? 'detached HEAD'}: ${result.summary}`, diff };
+      }),
+      toModelOutput: summarizeToolOutput,
+    }),
+
+    gitBranch: tool({
+      description: tools.gitBranch.description,
+      inputSchema: tools.gitBranch.parameters,
+      execute: async ({ repo, name, create }) => runGitTool(async () => {
+        if (create) {
+          await createGitBranch(sandbox, repo, { name });
+        } else {
+          await switchGitBranch(sandbox, repo, name);
+        }
+        return { stdout: formatGitStatus(await getGitStatus(sandbox, repo)) };
+      }),
+      toModelOutput: summarizeToolOutput,
+    }),
+
+    gitPull: tool({
+      description: tools.gitPull.description,
+      inputSchema: tools.gitPull.parameters,
+      execute: async ({ repo }) => runGitTool(async () => {
+        const { output, status } = await pullGitChanges(sandbox, user.id, repo);
+        return { stdout: [output, formatGitStatus(status)].filter(Boolean).join('\n\n') };
+      }),
+      toModelOutput: summarizeToolOutput,
+    }),
+
+    gitPush: tool({
+      description: tools.gitPush.description,
+      inputSchema: tools.gitPush.parameters,
+      execute: async ({ repo }) => runGitTool(async () => {
+        const { output, status } = await pushGitChanges(sandbox, user.id, repo);
+        return { stdout: [output, formatGitStatus(status)].filter(Boolean).join('\n\n') };
+      }),
+      toModelOutput: summarizeToolOutput,
+    }),
+
+    createPullRequest: tool({
+      description: `${tools.createPullRequest.description}. Use it when you finish work in a repository cloned from GitHub. The description is generated from the commits when \`body\` is omitted, \`base\` defaults to the repository's default branch.`,
+      inputSchema: tools.createPullRequest.parameters,
+      execute: async ({ repo, title, body, base }) => runGitTool(async () => {
+        const pullRequest = await openPullRequest({ sandbox, userId: user.id, repo, title, body, base, identity: user });
+        return {
+          stdout: `${pullRequest.created ? 'Opened' : 'Updated'} pull request #${pullRequest.number} from ${pullRequest.head} into ${pullRequest.base}: ${pullRequest.url}`,
+        };
+      }),
+      toModelOutput: summarizeToolOutput,
+    }),
+  } satisfies ToolSet;
+}
+
+export type SandboxTools = ReturnType<typeof createSandboxTools>;
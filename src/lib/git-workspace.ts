@@ -0,0 +1,491 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import type { ISandbox } from "@cloudflare/sandbox";
+import { shellQuote } from "@/lib/agent-helpers/shell";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+import { getDecryptedGitCredentials } from "@/server/git-credentials";
+import { getGitHubGitCredential } from "@/server/github-connections";
+import { GitHubApiError } from "@/lib/github-client";
+import type {
+  GitBranch,
+  GitCommitResult,
+  GitDiffFile,
+  GitDiffHunk,
+  GitFileChange,
+  GitStatus,
+} from "@/types/agent";
+
+export const DEFAULT_REPO_PATH = "/workspace";
+
+// Larger diffs are cut off, the UI can't render them usefully anyway
+const MAX_DIFF_BYTES = 1024 * 1024;
+
+type GitSandbox = Pick<ISandbox, "exec" | "writeFile">;
+
+interface GitIdentity {
+  name: string;
+  email: string;
+}
+
+/**
+ * Author for commits made for a user in repositories without a configured author
+ */
+export function getGitIdentity(user: { firstName?: string | null; lastName?: string | null; email?: string | null }): GitIdentity {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return { name: name || user.email || "Agent user", email: user.email ?? "" };
+}
+
+/**
+ * A git command exited with an error, e.g. a merge conflict or nothing to commit
+ */
+export class GitCommandError extends Error {
+  constructor(message: string, readonly stderr: string, readonly exitCode: number) {
+    super(message);
+    this.name = "GitCommandError";
+  }
+}
+
+const FILE_CHANGES: Record<string, GitFileChange> = {
+  M: "modified",
+  T: "type-changed",
+  A: "added",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  U: "unmerged",
+};
+
+export const gitRepoSchema = z.object({
+  repo: z.string().startsWith("/", "Repository path must be absolute").default(DEFAULT_REPO_PATH),
+});
+
+export const gitBranchNameSchema = z.string()
+  .min(1, "Branch name is required")
+  .max(255)
+  .regex(/^(?!-)(?!.*\.\.)[\w./-]+$/, "Invalid branch name");
+
+/**
+ * Run git in a repository and return stdout. Output is plain text, without colors or
+ * pagers, and git never prompts for input.
+ */
+async function runGit(
+  sandbox: GitSandbox,
+  repo: string,
+  args: string[],
+  { config = [], redact = [] }: { config?: string[]; redact?: string[] } = {}
+) {
+  const options = ["-c", "color.ui=false", "-c", "core.quotepath=false", ...config.flatMap((entry) => ["-c", entry])];
+  const command = `GIT_TERMINAL_PROMPT=0 git ${[...options, "-C", repo, ...args].map(shellQuote).join(" ")}`;
+  const result = await sandbox.exec(command);
+
+  // Tokens should never show up in git's output, but make sure they don't leak if they do
+  const clean = (output: string) => redact.reduce((text, secret) => text.split(secret).join("***"), output);
+  const stdout = clean(result.stdout);
+  const stderr = clean(result.stderr);
+
+  if (result.exitCode !== 0) {
+    const firstLine = stderr.trim().split("\n")[0] || `git ${args[0]} exited with code ${result.exitCode}`;
+    throw new GitCommandError(firstLine, stderr, result.exitCode);
+  }
+
+  return { stdout, stderr };
+}
+
+/**
+ * Run a git command that talks to a remote with the user's stored credentials and their
+ * connected GitHub account. They're written to a temporary credential store file for the
+ * duration of the command, so they never appear in command strings, which the sandbox logs.
+ */
+async function runGitWithCredentials(sandbox: GitSandbox, userId: string, repo: string, args: string[]) {
+  const [stored, github] = await Promise.all([
+    getDecryptedGitCredentials(userId),
+    getGitHubGitCredential(userId),
+  ]);
+  // A credential saved for the GitHub host wins over the connected account
+  const credentials = github && !stored.some((credential) => credential.host === github.host)
+    ? [...stored, github]
+    : stored;
+  if (credentials.length === 0) {
+    return runGit(sandbox, repo, args);
+  }
+
+  const storePath = `/tmp/git-credentials-${crypto.randomUUID()}`;
+  const store = credentials
+    .map(({ host, username, token }) => `https://${encodeURIComponent(username)}:${encodeURIComponent(token)}@${host}`)
+    .join("\n");
+
+  await sandbox.writeFile(storePath, `${store}\n`);
+  try {
+    return await runGit(sandbox, repo, args, {
+      // The empty helper clears helpers configured in the repo or globally
+      config: ["credential.helper=", `credential.helper=store --file=${storePath}`],
+      redact: credentials.map((credential) => credential.token),
+    });
+  } finally {
+    await sandbox.exec(`rm -f ${storePath}`);
+  }
+}
+
+function parseChange(code: string | undefined) {
+  return code && code !== "." ? FILE_CHANGES[code] ?? "modified" : null;
+}
+
+/**
+ * Parse `git status --porcelain=v2 --branch -z`
+ */
+export function parseGitStatus(output: string): GitStatus {
+  const status: GitStatus = { branch: null, upstream: null, ahead: 0, behind: 0, files: [] };
+  const records = output.split("\0");
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record) continue;
+
+    if (record.startsWith("# branch.head ")) {
+      const head = record.slice("# branch.head ".length);
+      status.branch = head === "(detached)" ? null : head;
+    } else if (record.startsWith("# branch.upstream ")) {
+      status.upstream = record.slice("# branch.upstream ".length);
+    } else if (record.startsWith("# branch.ab ")) {
+      const [ahead, behind] = record.slice("# branch.ab ".length).split(" ");
+      status.ahead = Math.abs(parseInt(ahead, 10)) || 0;
+      status.behind = Math.abs(parseInt(behind, 10)) || 0;
+    } else if (record.startsWith("1 ")) {
+      const fields = record.split(" ");
+      status.files.push({
+        path: fields.slice(8).join(" "),
+        staged: parseChange(fields[1][0]),
+        unstaged: parseChange(fields[1][1]),
+      });
+    } else if (record.startsWith("2 ")) {
+      // Renames and copies are followed by a record with the original path
+      const fields = record.split(" ");
+      status.files.push({
+        path: fields.slice(9).join(" "),
+        originalPath: records[++i],
+        staged: parseChange(fields[1][0]),
+        unstaged: parseChange(fields[1][1]),
+      });
+    } else if (record.startsWith("u ")) {
+      status.files.push({
+        path: record.split(" ").slice(10).join(" "),
+        staged: "unmerged",
+        unstaged: "unmerged",
+      });
+    } else if (record.startsWith("? ")) {
+      status.files.push({ path: record.slice(2), staged: null, unstaged: "untracked" });
+    }
+  }
+
+  return status;
+}
+
+function parseDiffPath(value: string) {
+  const path = value.trim().replace(/^"(.*)"$/, "$1");
+  if (path === "/dev/null") return null;
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parse unified diff output into files, hunks and numbered lines
+ */
+export function parseGitDiff(output: string): GitDiffFile[] {
+  const files: GitDiffFile[] = [];
+  let file: GitDiffFile | null = null;
+  let hunk: GitDiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of output.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      const match = line.match(/^diff --git a\/(.*) b\/(.*)$/);
+      file = {
+        oldPath: match?.[1] ?? null,
+        newPath: match?.[2] ?? null,
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      };
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+    if (!file) continue;
+
+    if (!hunk) {
+      if (line.startsWith("--- ")) {
+        file.oldPath = parseDiffPath(line.slice(4));
+      } else if (line.startsWith("+++ ")) {
+        file.newPath = parseDiffPath(line.slice(4));
+      } else if (line.startsWith("new file mode")) {
+        file.oldPath = null;
+      } else if (line.startsWith("deleted file mode")) {
+        file.newPath = null;
+      } else if (line.startsWith("Binary files ") || line === "GIT binary patch") {
+        file.binary = true;
+      }
+    }
+
+    const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/);
+    if (header) {
+      oldLine = parseInt(header[1], 10);
+      newLine = parseInt(header[3], 10);
+      hunk = {
+        header: line,
+        oldStart: oldLine,
+        oldLines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: newLine,
+        newLines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+    if (!hunk) continue;
+
+    if (line.startsWith("+")) {
+      hunk.lines.push({ type: "add", content: line.slice(1), oldLine: null, newLine: newLine++ });
+      file.additions++;
+    } else if (line.startsWith("-")) {
+      hunk.lines.push({ type: "delete", content: line.slice(1), oldLine: oldLine++, newLine: null });
+      file.deletions++;
+    } else if (line.startsWith(" ")) {
+      hunk.lines.push({ type: "context", content: line.slice(1), oldLine: oldLine++, newLine: newLine++ });
+    }
+    // "\ No newline at end of file" and the trailing empty line are skipped
+  }
+
+  return files;
+}
+
+export async function getGitStatus(sandbox: GitSandbox, repo: string) {
+  const { stdout } = await runGit(sandbox, repo, ["status", "--porcelain=v2", "--branch", "-z", "--untracked-files=all"]);
+  return parseGitStatus(stdout);
+}
+
+/**
+ * Diff of the working tree against the index, or of the index against HEAD when `staged`
+ */
+export async function getGitDiff(
+  sandbox: GitSandbox,
+  repo: string,
+  { staged = false, paths = [] }: { staged?: boolean; paths?: string[] } = {}
+) {
+  const { stdout } = await runGit(sandbox, repo, [
+    "diff",
+    "--no-ext-diff",
+    "--unified=3",
+    ...(staged ? ["--cached"] : []),
+    "--",
+    ...paths,
+  ]);
+
+  const truncated = stdout.length > MAX_DIFF_BYTES;
+  return {
+    files: parseGitDiff(truncated ? stdout.slice(0, stdout.lastIndexOf("\n", MAX_DIFF_BYTES)) : stdout),
+    truncated,
+  };
+}
+
+/**
+ * Stage files, or every change when no paths are given
+ */
+export async function stageGitFiles(sandbox: GitSandbox, repo: string, paths: string[] = []) {
+  await runGit(sandbox, repo, ["add", "--all", "--", ...paths]);
+  return getGitStatus(sandbox, repo);
+}
+
+/**
+ * Unstage files, or everything when no paths are given
+ */
+export async function unstageGitFiles(sandbox: GitSandbox, repo: string, paths: string[] = []) {
+  await runGit(sandbox, repo, ["reset", "--quiet", "--", ...paths]);
+  return getGitStatus(sandbox, repo);
+}
+
+/**
+ * Commit the staged changes. `identity` is used when the repository has no author
+ * configured.
+ */
+export async function commitGitChanges(
+  sandbox: GitSandbox,
+  repo: string,
+  { message, identity }: { message: string; identity: GitIdentity }
+): Promise<GitCommitResult> {
+  const configured = await runGit(sandbox, repo, ["config", "user.email"]).catch(() => null);
+  const config = configured?.stdout.trim()
+    ? []
+    : [`user.name=${identity.name}`, `user.email=${identity.email}`];
+
+  await runGit(sandbox, repo, ["commit", "--quiet", "--message", message], { config });
+
+  const { stdout } = await runGit(sandbox, repo, ["log", "-1", "--format=%H%x00%s"]);
+  const [commit, summary] = stdout.trim().split("\0");
+  const { branch } = await getGitStatus(sandbox, repo);
+
+  return { commit, branch, summary };
+}
+
+/**
+ * Subjects of the commits in a revision range, oldest first, e.g. `origin/main..HEAD`
+ */
+export async function getGitLog(sandbox: GitSandbox, repo: string, range: string) {
+  const { stdout } = await runGit(sandbox, repo, ["log", "--reverse", "--format=%s", range]);
+  return stdout.split("\n").filter(Boolean);
+}
+
+/**
+ * `git diff --stat` of a revision range, e.g. `origin/main...HEAD`
+ */
+export async function getGitDiffStat(sandbox: GitSandbox, repo: string, range: string) {
+  const { stdout } = await runGit(sandbox, repo, ["diff", "--stat", range]);
+  return stdout.trimEnd();
+}
+
+export async function getGitRemoteUrl(sandbox: GitSandbox, repo: string, remote = "origin") {
+  const { stdout } = await runGit(sandbox, repo, ["remote", "get-url", remote]);
+  return stdout.trim();
+}
+
+export async function listGitBranches(sandbox: GitSandbox, repo: string): Promise<GitBranch[]> {
+  const { stdout } = await runGit(sandbox, repo, [
+    "branch",
+    "--list",
+    "--format=%(refname:short)%00%(HEAD)%00%(upstream:short)%00%(objectname:short)",
+  ]);
+
+  return stdout.split("\n").filter(Boolean).map((line) => {
+    const [name, head, upstream, commit] = line.split("\0");
+    return { name, current: head === "*", upstream: upstream || null, commit };
+  });
+}
+
+/**
+ * Create a branch, starting from `from` or HEAD, and switch to it unless `checkout` is false
+ */
+export async function createGitBranch(
+  sandbox: GitSandbox,
+  repo: string,
+  { name, from, checkout = true }: { name: string; from?: string; checkout?: boolean }
+) {
+  const startPoint = from ? [from] : [];
+  await runGit(sandbox, repo, checkout ? ["switch", "--create", name, ...startPoint] : ["branch", name, ...startPoint]);
+  return listGitBranches(sandbox, repo);
+}
+
+export async function switchGitBranch(sandbox: GitSandbox, repo: string, name: string) {
+  await runGit(sandbox, repo, ["switch", name]);
+  return getGitStatus(sandbox, repo);
+}
+
+/**
+ * Clone a repository into `directory`, which must not exist yet
+ */
+export async function cloneGitRepository(
+  sandbox: GitSandbox,
+  userId: string,
+  { url, directory, branch }: { url: string; directory: string; branch?: string }
+) {
+  await runGitWithCredentials(sandbox, userId, "/", [
+    "clone",
+    ...(branch ? ["--branch", branch] : []),
+    "--",
+    url,
+    directory,
+  ]);
+  return getGitStatus(sandbox, directory);
+}
+
+/**
+ * Fetch a branch from a remote, updating its remote-tracking branch
+ */
+export async function fetchGitChanges(
+  sandbox: GitSandbox,
+  userId: string,
+  repo: string,
+  { remote = "origin", branch }: { remote?: string; branch?: string } = {}
+) {
+  await runGitWithCredentials(sandbox, userId, repo, ["fetch", remote, ...(branch ? [branch] : [])]);
+}
+
+/**
+ * Pull the current branch from its upstream, or from `remote`/`branch` when given
+ */
+export async function pullGitChanges(
+  sandbox: GitSandbox,
+  userId: string,
+  repo: string,
+  { remote, branch }: { remote?: string; branch?: string } = {}
+) {
+  const target = remote ? [remote, ...(branch ? [branch] : [])] : [];
+  const { stdout, stderr } = await runGitWithCredentials(sandbox, userId, repo, ["pull", "--no-edit", "--no-rebase", ...target]);
+
+  return { output: `${stdout}${stderr}`.trim(), status: await getGitStatus(sandbox, repo) };
+}
+
+/**
+ * Push the current branch. Branches without an upstream are pushed to `remote` (origin
+ * by default) and set to track it.
+ */
+export async function pushGitChanges(
+  sandbox: GitSandbox,
+  userId: string,
+  repo: string,
+  { remote = "origin", force = false }: { remote?: string; force?: boolean } = {}
+) {
+  const status = await getGitStatus(sandbox, repo);
+  if (!status.branch) {
+    throw new GitCommandError("Can't push a detached HEAD, switch to a branch first", "", 1);
+  }
+
+  const args = status.upstream
+    ? ["push", ...(force ? ["--force-with-lease"] : [])]
+    : ["push", "--set-upstream", ...(force ? ["--force-with-lease"] : []), remote, status.branch];
+  const { stdout, stderr } = await runGitWithCredentials(sandbox, userId, repo, args);
+
+  return { output: `${stdout}${stderr}`.trim(), status: await getGitStatus(sandbox, repo) };
+}
+
+type GitRequestContext = Parameters<Parameters<typeof withRequestSandbox>[1]>[1];
+
+/**
+ * Handle a /api/agent/git/* request: validate the JSON body, run the handler against
+ * the caller's sandbox and return its result as JSON. Git and GitHub errors are returned
+ * as 422 with their message.
+ */
+export function withGitRequest<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T,
+  handler: (sandbox: ISandbox, input: z.infer<typeof gitRepoSchema> & z.infer<T>, context: GitRequestContext) => Promise<unknown>
+) {
+  return withRequestSandbox(request, async (sandbox, context) => {
+    const parsed = gitRepoSchema.and(schema).safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    try {
+      return NextResponse.json(await handler(sandbox, parsed.data, context));
+    } catch (error) {
+      if (error instanceof GitCommandError) {
+        return NextResponse.json(
+          { error: "Git command failed", details: error.message, stderr: error.stderr },
+          { status: 422 }
+        );
+      }
+      if (error instanceof GitHubApiError) {
+        return NextResponse.json(
+          { error: "GitHub request failed", details: error.message },
+          { status: error.status >= 500 ? 502 : 422 }
+        );
+      }
+      throw error;
+    }
+  });
+}
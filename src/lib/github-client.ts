@@ -0,0 +1,200 @@
+import "server-only";
+
+import type { GitHubBranch, GitHubRepository } from "@/types/agent";
+
+export const DEFAULT_GITHUB_API_URL = "https://api.github.com";
+
+// Lists stop after this many pages of PER_PAGE items
+const MAX_PAGES = 5;
+const PER_PAGE = 100;
+
+/**
+ * Base URL of the GitHub REST API. Set GITHUB_API_URL for GitHub Enterprise Server
+ * (https://<host>/api/v3) or a local mock.
+ */
+export function getGitHubApiUrl() {
+  return (process.env.GITHUB_API_URL || DEFAULT_GITHUB_API_URL).replace(/\/+$/, "");
+}
+
+/**
+ * Host git uses for repositories of the configured GitHub, e.g. github.com for api.github.com
+ */
+export function getGitHubGitHost(apiUrl = getGitHubApiUrl()) {
+  return new URL(apiUrl).host.replace(/^api\./, "");
+}
+
+/**
+ * Web URL of the configured GitHub, where users authorize and install apps,
+ * e.g. https://github.com for https://api.github.com
+ */
+export function getGitHubWebUrl(apiUrl = getGitHubApiUrl()) {
+  return `${new URL(apiUrl).protocol}//${getGitHubGitHost(apiUrl)}`;
+}
+
+/**
+ * A GitHub API request failed. `status` is the HTTP status GitHub returned.
+ */
+export class GitHubApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
+interface RawRepository {
+  id: number;
+  name: string;
+  full_name: string;
+  owner: { login: string };
+  private: boolean;
+  default_branch: string;
+  clone_url: string;
+  html_url: string;
+  description: string | null;
+  pushed_at: string | null;
+}
+
+interface RawInstallation {
+  id: number;
+  account: { login: string } | null;
+}
+
+interface RawPullRequest {
+  number: number;
+  title: string;
+  html_url: string;
+  head: { ref: string };
+  base: { ref: string };
+}
+
+function toRepository(repository: RawRepository): GitHubRepository {
+  return {
+    id: repository.id,
+    owner: repository.owner.login,
+    name: repository.name,
+    fullName: repository.full_name,
+    private: repository.private,
+    defaultBranch: repository.default_branch,
+    cloneUrl: repository.clone_url,
+    htmlUrl: repository.html_url,
+    description: repository.description,
+    pushedAt: repository.pushed_at,
+  };
+}
+
+function toPullRequest(pullRequest: RawPullRequest) {
+  return {
+    number: pullRequest.number,
+    title: pullRequest.title,
+    url: pullRequest.html_url,
+    head: pullRequest.head.ref,
+    base: pullRequest.base.ref,
+  };
+}
+
+/**
+ * Minimal GitHub REST API client for a user token of the GitHub App
+ */
+export class GitHubClient {
+  private readonly baseUrl: string;
+
+  constructor(private readonly token: string, baseUrl = getGitHubApiUrl()) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${this.token}`,
+        "X-GitHub-Api-Version": "2022-11-28",
+        "User-Agent": "netm8-agents",
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+        ...init.headers,
+      },
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({})) as { message?: string; errors?: { message?: string }[] };
+      const details = data.errors?.map((error) => error.message).filter(Boolean).join(", ");
+      const message = [data.message || `GitHub API returned ${response.status}`, details].filter(Boolean).join(": ");
+      throw new GitHubApiError(message, response.status);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  // Follow pagination up to MAX_PAGES. `select` picks the items of endpoints that wrap them in an object.
+  private async paginate<T>(path: string, select: (page: unknown) => T[] = (page) => page as T[]) {
+    const items: T[] = [];
+    const separator = path.includes("?") ? "&" : "?";
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const batch = select(await this.request<unknown>(`${path}${separator}per_page=${PER_PAGE}&page=${page}`));
+      items.push(...batch);
+      if (batch.length < PER_PAGE) break;
+    }
+
+    return items;
+  }
+
+  async getAuthenticatedUser() {
+    const user = await this.request<{ id: number; login: string; name: string | null }>("/user");
+    return { id: user.id, login: user.login, name: user.name };
+  }
+
+  // Installations of the GitHub App the user can access
+  async listInstallations() {
+    const installations = await this.paginate<RawInstallation>(
+      "/user/installations",
+      (page) => (page as { installations: RawInstallation[] }).installations
+    );
+    return installations.map((installation) => ({ id: installation.id, account: installation.account?.login ?? null }));
+  }
+
+  // Repositories the user can access through any installation of the app, most recently pushed first
+  async listRepositories() {
+    const installations = await this.listInstallations();
+    const pages = await Promise.all(installations.map((installation) => this.paginate<RawRepository>(
+      `/user/installations/${installation.id}/repositories`,
+      (page) => (page as { repositories: RawRepository[] }).repositories
+    )));
+
+    // Installations can overlap, e.g. on an organization and a repository inside it
+    const repositories = new Map(pages.flat().map((repository) => [repository.id, toRepository(repository)]));
+    return [...repositories.values()].sort((a, b) => (b.pushedAt ?? "").localeCompare(a.pushedAt ?? ""));
+  }
+
+  async getRepository(owner: string, name: string) {
+    return toRepository(await this.request<RawRepository>(`/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`));
+  }
+
+  async listBranches(owner: string, name: string): Promise<GitHubBranch[]> {
+    const branches = await this.paginate<{ name: string; commit: { sha: string } }>(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/branches`
+    );
+    return branches.map((branch) => ({ name: branch.name, commit: branch.commit.sha }));
+  }
+
+  // The open pull request from `head` into `base`, if there is one
+  async findPullRequest(owner: string, name: string, { head, base }: { head: string; base: string }) {
+    const query = new URLSearchParams({ state: "open", head: `${owner}:${head}`, base });
+    const [pullRequest] = await this.request<RawPullRequest[]>(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/pulls?${query}`
+    );
+    return pullRequest ? toPullRequest(pullRequest) : null;
+  }
+
+  async createPullRequest(
+    owner: string,
+    name: string,
+    { title, body, head, base, draft = false }: { title: string; body: string; head: string; base: string; draft?: boolean }
+  ) {
+    const pullRequest = await this.request<RawPullRequest>(
+      `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}/pulls`,
+      { method: "POST", body: JSON.stringify({ title, body, head, base, draft }) }
+    );
+    return toPullRequest(pullRequest);
+  }
+}
@@ -0,0 +1,141 @@
+import "server-only";
+
+import type { ISandbox } from "@cloudflare/sandbox";
+import {
+  GitCommandError,
+  commitGitChanges,
+  createGitBranch,
+  fetchGitChanges,
+  getGitDiffStat,
+  getGitLog,
+  getGitRemoteUrl,
+  getGitStatus,
+  listGitBranches,
+  pushGitChanges,
+  stageGitFiles,
+  switchGitBranch,
+} from "@/lib/git-workspace";
+import { GitHubApiError, getGitHubGitHost } from "@/lib/github-client";
+import { getGitHubClient } from "@/server/github-connections";
+import type { GitHubPullRequest } from "@/types/agent";
+
+type PullRequestSandbox = Pick<ISandbox, "exec" | "writeFile">;
+
+/**
+ * Owner and name of a GitHub repository from a remote URL, in HTTPS or SSH form.
+ * Returns null for remotes on other hosts.
+ */
+export function parseGitHubRemote(url: string, host = getGitHubGitHost()) {
+  const escapedHost = host.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = url.match(new RegExp(`^(?:https?://(?:[^@/]+@)?|ssh://git@|git@)${escapedHost}[:/]([^/]+)/([^/]+?)(?:\\.git)?/?$`));
+  return match ? { owner: match[1], name: match[2] } : null;
+}
+
+function toBranchName(title: string) {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+  return `agent/${slug || "changes"}-${Date.now().toString(36)}`;
+}
+
+/**
+ * Describe the changes of a branch from its commits and changed files
+ */
+export async function generatePullRequestDescription(sandbox: PullRequestSandbox, repo: string, base: string) {
+  const [commits, stat] = await Promise.all([
+    getGitLog(sandbox, repo, `${base}..HEAD`),
+    getGitDiffStat(sandbox, repo, `${base}...HEAD`),
+  ]);
+
+  const sections = [
+    "## Summary",
+    commits.length > 0 ? commits.map((subject) => `- ${subject}`).join("\n") : "No commits",
+  ];
+  if (stat) {
+    sections.push("## Changes", `\`\`\`\n${stat}\n\`\`\``);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Switch to a branch, creating it from HEAD unless it exists already.
+ * Uncommitted changes are carried over to it.
+ */
+async function checkoutBranch(sandbox: PullRequestSandbox, repo: string, name: string) {
+  const branches = await listGitBranches(sandbox, repo);
+  if (branches.some((branch) => branch.name === name)) {
+    await switchGitBranch(sandbox, repo, name);
+  } else {
+    await createGitBranch(sandbox, repo, { name });
+  }
+}
+
+/**
+ * Open a pull request for the work in a repository cloned from GitHub. Uncommitted
+ * changes are committed with the title as message. Work on the base branch or a detached
+ * HEAD is moved to a new branch first. The branch is pushed and, unless one is already
+ * open for it, a pull request is created. Without `body` the description is generated
+ * from the commits and changed files.
+ */
+export async function openPullRequest({
+  sandbox,
+  userId,
+  repo,
+  title,
+  body,
+  base,
+  branch,
+  identity,
+}: {
+  sandbox: PullRequestSandbox;
+  userId: string;
+  repo: string;
+  title: string;
+  body?: string;
+  base?: string;
+  branch?: string;
+  identity: { name: string; email: string };
+}): Promise<GitHubPullRequest> {
+  const client = await getGitHubClient(userId);
+  if (!client) {
+    throw new GitHubApiError("Connect your GitHub account in settings to open pull requests", 401);
+  }
+
+  const remote = parseGitHubRemote(await getGitRemoteUrl(sandbox, repo));
+  if (!remote) {
+    throw new GitCommandError(`The origin remote of ${repo} isn't a repository on ${getGitHubGitHost()}`, "", 1);
+  }
+
+  const repository = await client.getRepository(remote.owner, remote.name);
+  const baseBranch = base ?? repository.defaultBranch;
+
+  let status = await getGitStatus(sandbox, repo);
+  if (branch && branch !== status.branch) {
+    await checkoutBranch(sandbox, repo, branch);
+  } else if (!status.branch || status.branch === baseBranch) {
+    await checkoutBranch(sandbox, repo, toBranchName(title));
+  }
+
+  if (status.files.length > 0) {
+    await stageGitFiles(sandbox, repo);
+    await commitGitChanges(sandbox, repo, { message: title, identity });
+  }
+  status = await getGitStatus(sandbox, repo);
+  const head = status.branch!;
+
+  await fetchGitChanges(sandbox, userId, repo, { branch: baseBranch });
+  const description = body ?? await generatePullRequestDescription(sandbox, repo, `origin/${baseBranch}`);
+  await pushGitChanges(sandbox, userId, repo);
+
+  const existing = await client.findPullRequest(remote.owner, remote.name, { head, base: baseBranch });
+  if (existing) {
+    return { ...existing, created: false };
+  }
+
+  const pullRequest = await client.createPullRequest(remote.owner, remote.name, {
+    title,
+    body: description,
+    head,
+    base: baseBranch,
+  });
+  return { ...pullRequest, created: true };
+}
@@ -0,0 +1,127 @@
+import type { z } from "zod";
+import type { ipynbSchema } from "@/schemas/notebook.schema";
+import type {
+  Notebook,
+  NotebookCellInput,
+  NotebookLanguage,
+  NotebookOutput,
+  NotebookOutputData,
+} from "@/types/agent";
+
+type Ipynb = z.infer<typeof ipynbSchema>;
+
+// Output formats and the MIME types Jupyter stores them under
+const MIME_TYPES: Record<keyof NotebookOutputData, string> = {
+  text: "text/plain",
+  html: "text/html",
+  png: "image/png",
+  jpeg: "image/jpeg",
+  svg: "image/svg+xml",
+  json: "application/json",
+};
+
+const KERNELSPECS: Record<NotebookLanguage, { name: string; display_name: string }> = {
+  python: { name: "python3", display_name: "Python 3" },
+  javascript: { name: "javascript", display_name: "JavaScript" },
+};
+
+// nbformat stores multiline text as a list of lines that keep their line breaks
+function toLines(text: string) {
+  return text.split(/(?<=\n)/);
+}
+
+function toIpynbOutput(output: NotebookOutput) {
+  switch (output.type) {
+    case "stream":
+      return { output_type: "stream", name: output.name, text: toLines(output.text) };
+    case "error":
+      return { output_type: "error", ename: output.name, evalue: output.value, traceback: output.traceback };
+    case "result": {
+      const data = Object.fromEntries(
+        Object.entries(output.data)
+          .filter(([, value]) => value !== undefined)
+          .map(([format, value]) => [
+            MIME_TYPES[format as keyof NotebookOutputData],
+            typeof value === "string" && format !== "png" && format !== "jpeg" ? toLines(value) : value,
+          ])
+      );
+      return { output_type: "display_data", data, metadata: {} };
+    }
+  }
+}
+
+/**
+ * A notebook as a Jupyter .ipynb document (nbformat 4.5)
+ */
+export function toIpynb(notebook: Notebook) {
+  return {
+    nbformat: 4,
+    nbformat_minor: 5,
+    metadata: {
+      kernelspec: { ...KERNELSPECS[notebook.language], language: notebook.language },
+      language_info: { name: notebook.language },
+    },
+    cells: notebook.cells.map((cell) => cell.type === "markdown"
+      ? { cell_type: "markdown", id: cell.id, metadata: {}, source: toLines(cell.source) }
+      : {
+        cell_type: "code",
+        id: cell.id,
+        metadata: {},
+        source: toLines(cell.source),
+        execution_count: cell.executionCount,
+        outputs: cell.outputs.map(toIpynbOutput),
+      }),
+  };
+}
+
+function fromIpynbData(data: Record<string, unknown>): NotebookOutputData {
+  const result: NotebookOutputData = {};
+  for (const [format, mimeType] of Object.entries(MIME_TYPES) as [keyof NotebookOutputData, string][]) {
+    const value = data[mimeType];
+    if (value === undefined) continue;
+
+    if (format === "json") {
+      result.json = value;
+    } else if (typeof value === "string" || Array.isArray(value)) {
+      // Base64 images may be split into lines too
+      const text = Array.isArray(value) ? value.join("") : value;
+      result[format] = format === "png" || format === "jpeg" ? text.replace(/\s/g, "") : text;
+    }
+  }
+  return result;
+}
+
+/**
+ * The language and cells of a parsed .ipynb document. Raw cells become markdown cells,
+ * outputs in formats the notebook UI can't show are dropped.
+ */
+export function fromIpynb(document: Ipynb): { language: NotebookLanguage; cells: NotebookCellInput[] } {
+  const kernelLanguage = (document.metadata.kernelspec?.language ?? document.metadata.language_info?.name ?? "python").toLowerCase();
+  if (kernelLanguage !== "python" && kernelLanguage !== "javascript") {
+    throw new Error(`Unsupported notebook language: ${kernelLanguage}`);
+  }
+
+  const cells = document.cells.map((cell): NotebookCellInput => {
+    const id = cell.id && /^[a-zA-Z0-9_-]{1,64}$/.test(cell.id) ? cell.id : undefined;
+    if (cell.cell_type !== "code") {
+      return { id, type: "markdown", source: cell.source, outputs: [], executionCount: null };
+    }
+
+    const outputs = (cell.outputs ?? []).flatMap((output): NotebookOutput[] => {
+      switch (output.output_type) {
+        case "stream":
+          return [{ type: "stream", name: output.name, text: output.text }];
+        case "error":
+          return [{ type: "error", name: output.ename, value: output.evalue, traceback: output.traceback }];
+        default: {
+          const data = fromIpynbData(output.data);
+          return Object.keys(data).length > 0 ? [{ type: "result", data }] : [];
+        }
+      }
+    });
+
+    return { id, type: "code", source: cell.source, outputs, executionCount: cell.execution_count ?? null };
+  });
+
+  return { language: kernelLanguage, cells };
+}
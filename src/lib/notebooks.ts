@@ -0,0 +1,299 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { ZSAError } from "zsa";
+import type { z } from "zod";
+import type { CodeContext, ExecutionError, ISandbox, Result } from "@cloudflare/sandbox";
+import { getAgentStub, type AgentConversationStub } from "@/lib/agent-conversation";
+import { withRequestSandbox } from "@/lib/sandbox-access";
+import { createSecretRedactor, toEnvVars, type SandboxSecret } from "@/lib/sandbox-secrets";
+import type {
+  Notebook,
+  NotebookOutput,
+  NotebookRunEvent,
+  StoredNotebook,
+} from "@/types/agent";
+
+// Outputs beyond this are dropped, so a chatty cell can't outgrow the notebook's storage
+const MAX_CELL_OUTPUT_BYTES = 512 * 1024;
+
+const TRUNCATED_OUTPUT: NotebookOutput = {
+  type: "stream",
+  name: "stderr",
+  text: "[Output truncated]\n",
+};
+
+type NotebookSandbox = Pick<ISandbox, "createCodeContext" | "runCode" | "listCodeContexts" | "deleteCodeContext">;
+
+type NotebookStore = Pick<
+  AgentConversationStub,
+  "getNotebook" | "recordCellOutputs" | "setNotebookKernel" | "deleteNotebook"
+>;
+
+/**
+ * A notebook of the conversation, throws NOT_FOUND when there is none with this ID
+ */
+export async function requireNotebook(store: Pick<NotebookStore, "getNotebook">, notebookId: string) {
+  const notebook = await store.getNotebook(notebookId);
+  if (!notebook) {
+    throw new ZSAError("NOT_FOUND", "Notebook not found");
+  }
+
+  return notebook;
+}
+
+// The notebook without its kernel, which only the server uses
+export function toNotebook({ id, name, language, secretNames, cells, createdAt, updatedAt }: StoredNotebook): Notebook {
+  return { id, name, language, secretNames, cells, createdAt, updatedAt };
+}
+
+/**
+ * Drop the outputs beyond the size limit, ending with a note that they were cut off
+ */
+export function capNotebookOutputs(outputs: NotebookOutput[]) {
+  let size = 0;
+  const kept: NotebookOutput[] = [];
+
+  for (const output of outputs) {
+    size += JSON.stringify(output).length;
+    if (size > MAX_CELL_OUTPUT_BYTES) {
+      return [...kept, TRUNCATED_OUTPUT];
+    }
+    kept.push(output);
+  }
+
+  return kept;
+}
+
+function toResultOutput(result: Result): NotebookOutput {
+  // Strip the result objects down to plain data so they survive JSON serialization
+  return {
+    type: "result",
+    data: {
+      text: result.text,
+      html: result.html,
+      png: result.png,
+      jpeg: result.jpeg,
+      svg: result.svg,
+      json: result.json,
+    },
+  };
+}
+
+function toErrorOutput(error: ExecutionError): NotebookOutput {
+  return { type: "error", name: error.name, value: error.value, traceback: error.traceback };
+}
+
+/**
+ * The code context of the notebook's kernel. A new one is created, with the secrets as
+ * environment variables, when the notebook has none in this sandbox or the container
+ * was recycled since.
+ */
+async function getKernelContext(
+  sandbox: NotebookSandbox,
+  store: NotebookStore,
+  notebook: StoredNotebook,
+  { sandboxId, secrets }: { sandboxId: string; secrets: SandboxSecret[] }
+): Promise<CodeContext> {
+  if (notebook.kernel?.sandboxId === sandboxId) {
+    const contexts = await sandbox.listCodeContexts();
+    const existing = contexts.find((context) => context.id === notebook.kernel!.contextId);
+    if (existing) return existing;
+  }
+
+  // Execution counts restart with the new kernel
+  await store.setNotebookKernel(notebook.id, null);
+  const context = await sandbox.createCodeContext({ language: notebook.language, envVars: toEnvVars(secrets) });
+  await store.setNotebookKernel(notebook.id, { contextId: context.id, sandboxId });
+
+  return context;
+}
+
+/**
+ * Start the notebook's kernel ahead of the first run
+ */
+export async function startNotebookKernel({
+  sandbox,
+  sandboxId,
+  store,
+  notebook,
+  secrets,
+}: {
+  sandbox: NotebookSandbox;
+  sandboxId: string;
+  store: NotebookStore;
+  notebook: StoredNotebook;
+  secrets: SandboxSecret[];
+}) {
+  await getKernelContext(sandbox, store, notebook, { sandboxId, secrets });
+}
+
+/**
+ * Run code cells of a notebook in its kernel, in notebook order, streaming their outputs
+ * through `onEvent` and storing them with the notebook. Runs every code cell without
+ * `cellIds` and stops at the first cell that fails, like Jupyter's Run All. Secret values
+ * are masked in outputs before they are streamed or stored.
+ */
+export async function runNotebookCells({
+  sandbox,
+  sandboxId,
+  store,
+  notebookId,
+  cellIds,
+  secrets,
+  onEvent,
+  onKernel,
+  signal,
+}: {
+  sandbox: NotebookSandbox;
+  sandboxId: string;
+  store: NotebookStore;
+  notebookId: string;
+  cellIds?: string[];
+  secrets: SandboxSecret[];
+  onEvent: (event: NotebookRunEvent) => void | Promise<void>;
+  // Called with the code context of the kernel before cells run in it
+  onKernel?: (contextId: string) => void | Promise<void>;
+  signal?: AbortSignal;
+}) {
+  const notebook = await requireNotebook(store, notebookId);
+  const { redactDeep } = createSecretRedactor(secrets);
+  const cells = notebook.cells.filter((cell) => cell.type === "code" && (!cellIds || cellIds.includes(cell.id)));
+
+  const context = await getKernelContext(sandbox, store, notebook, { sandboxId, secrets });
+  await onKernel?.(context.id);
+
+  for (const cell of cells) {
+    if (signal?.aborted) break;
+    await onEvent({ type: "cell-start", cellId: cell.id });
+
+    const outputs: NotebookOutput[] = [];
+    let size = 0;
+    const addOutput = async (rawOutput: NotebookOutput) => {
+      if (size > MAX_CELL_OUTPUT_BYTES) return;
+
+      const output = redactDeep(rawOutput);
+      size += JSON.stringify(output).length;
+      if (size > MAX_CELL_OUTPUT_BYTES) {
+        outputs.push(TRUNCATED_OUTPUT);
+        await onEvent({ type: "output", cellId: cell.id, output: TRUNCATED_OUTPUT });
+        return;
+      }
+
+      // Consecutive chunks of the same stream are stored as one output
+      const previous = outputs[outputs.length - 1];
+      if (output.type === "stream" && previous?.type === "stream" && previous.name === output.name) {
+        outputs[outputs.length - 1] = { ...previous, text: previous.text + output.text };
+      } else {
+        outputs.push(output);
+      }
+      await onEvent({ type: "output", cellId: cell.id, output });
+    };
+
+    let success = true;
+    try {
+      const execution = await sandbox.runCode(cell.source, {
+        context,
+        signal,
+        onStdout: (message) => addOutput({ type: "stream", name: "stdout", text: message.text }),
+        onStderr: (message) => addOutput({ type: "stream", name: "stderr", text: message.text }),
+        onResult: (result) => addOutput(toResultOutput(result)),
+      });
+      if (execution.error) {
+        success = false;
+        await addOutput(toErrorOutput(execution.error));
+      }
+    } catch (error) {
+      success = false;
+      // Cells of stopped runs keep their outputs so far, with why the run was stopped
+      const reason = signal?.aborted && signal.reason instanceof Error ? signal.reason : error;
+      await addOutput({
+        type: "error",
+        name: signal?.aborted ? "ExecutionStopped" : "ExecutionError",
+        value: reason instanceof Error ? reason.message : "Failed to run the cell",
+        traceback: [],
+      });
+    }
+
+    const executionCount = await store.recordCellOutputs(notebook.id, cell.id, outputs);
+    await onEvent({ type: "cell-end", cellId: cell.id, executionCount, success });
+
+    if (!success) break;
+  }
+}
+
+/**
+ * Stop the notebook's kernel. The next run starts a fresh one, without the variables of
+ * earlier runs.
+ */
+export async function restartNotebookKernel({
+  sandbox,
+  sandboxId,
+  store,
+  notebook,
+}: {
+  sandbox: NotebookSandbox;
+  sandboxId: string;
+  store: NotebookStore;
+  notebook: StoredNotebook;
+}) {
+  // Contexts of other sandboxes, e.g. from before the conversation was billed to a
+  // team, are gone with their sandbox or out of reach
+  if (notebook.kernel?.sandboxId === sandboxId) {
+    await sandbox.deleteCodeContext(notebook.kernel.contextId).catch((error) => {
+      console.warn("[Notebook] Failed to delete code context:", error);
+    });
+  }
+  await store.setNotebookKernel(notebook.id, null);
+}
+
+/**
+ * Delete a notebook and stop its kernel
+ */
+export async function deleteNotebook({
+  sandbox,
+  sandboxId,
+  store,
+  notebook,
+}: {
+  sandbox: NotebookSandbox;
+  sandboxId: string;
+  store: NotebookStore;
+  notebook: StoredNotebook;
+}) {
+  await restartNotebookKernel({ sandbox, sandboxId, store, notebook });
+  await store.deleteNotebook(notebook.id);
+}
+
+type NotebookRequestContext = Parameters<Parameters<typeof withRequestSandbox>[1]>[1] & {
+  // Notebooks are stored with the conversation
+  store: AgentConversationStub;
+};
+
+/**
+ * Handle a /api/agent/notebooks/* request: validate the JSON body (or the query string
+ * of GET and DELETE requests) and run the handler against the caller's sandbox and the
+ * notebooks of their conversation
+ */
+export function withNotebookRequest<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T,
+  handler: (sandbox: ISandbox, input: z.infer<T>, context: NotebookRequestContext) => Promise<Response>
+) {
+  return withRequestSandbox(request, async (sandbox, context) => {
+    const body = request.method === "GET" || request.method === "DELETE"
+      ? Object.fromEntries(new URL(request.url).searchParams)
+      : await request.json().catch(() => ({}));
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const store = getAgentStub({ userId: context.scope.userId, conversationId: context.scope.conversationId });
+    return handler(sandbox as unknown as ISandbox, parsed.data, { ...context, store });
+  });
+}
@@ -0,0 +1,68 @@
+// Shared by the preview gate in front of the worker (src/workers/preview-proxy.ts) and the
+// app's routes, so nothing here may depend on the Next.js request context.
+import { signToken, verifyToken } from "../utils/signed-token";
+
+// Query parameter that carries a token to a preview, which trades it for a cookie
+export const PREVIEW_TOKEN_PARAM = "preview_token";
+export const PREVIEW_TOKEN_COOKIE = "preview_token";
+
+// Tokens for signed-in members are minted for every page load, share links last longer
+export const MEMBER_TOKEN_TTL_SECONDS = 60 * 60;
+export const SHARE_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export type PreviewTokenKind = "member" | "share";
+
+export interface PreviewTokenPayload {
+  previewId: string;
+  kind: PreviewTokenKind;
+  // Expiry as seconds since the epoch
+  exp: number;
+}
+
+// <port>-<host slug>.<app host>. Sandbox IDs don't fit in a DNS label and name the user,
+// team and conversation, so hosts carry an opaque slug of the ID instead.
+const PREVIEW_HOST_PATTERN = /^(\d{4,5})-([0-9a-f]{20})\.(.+)$/;
+
+/**
+ * Slug of a sandbox for its preview host names: the start of the SHA-256 of its ID, in hex
+ */
+export async function getPreviewHostSlug(sandboxId: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(sandboxId));
+  return Array.from(new Uint8Array(digest).slice(0, 10), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Port and host slug of a preview URL's host name, or null for other hosts
+ */
+export function parsePreviewHost(hostname: string) {
+  const match = hostname.match(PREVIEW_HOST_PATTERN);
+  if (!match) return null;
+
+  return { port: Number(match[1]), hostSlug: match[2] };
+}
+
+/**
+ * Preview URL of a sandbox port, on the host the app was reached at
+ */
+export function getPreviewUrl({ port, hostSlug }: { port: number; hostSlug: string }, appUrl: string | URL) {
+  const url = new URL(appUrl);
+  url.hostname = `${port}-${hostSlug}.${url.hostname}`;
+  url.pathname = "/";
+  url.search = "";
+  url.hash = "";
+  return url.toString();
+}
+
+/**
+ * Sign a preview token, see signToken
+ */
+export async function signPreviewToken(payload: PreviewTokenPayload, secret: string) {
+  return signToken(payload, secret);
+}
+
+/**
+ * The payload of a preview token, or null when it is malformed, forged or expired
+ */
+export async function verifyPreviewToken(token: string, secret: string) {
+  return verifyToken<PreviewTokenPayload>(token, secret);
+}
@@ -0,0 +1,173 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import type { ISandbox } from "@cloudflare/sandbox";
+import type { SandboxPreview } from "@/db/schema";
+import { DEFAULT_CONVERSATION_ID } from "@/lib/agent-conversation";
+import {
+  getPreviewUrl,
+  MEMBER_TOKEN_TTL_SECONDS,
+  PREVIEW_TOKEN_PARAM,
+  SHARE_TOKEN_TTL_SECONDS,
+  signPreviewToken,
+  type PreviewTokenKind,
+} from "@/lib/preview-access";
+import { withRequestSandbox, type SandboxScope } from "@/lib/sandbox-access";
+import { isPortReady, listListeningPorts } from "@/lib/sandbox-ports";
+import {
+  deleteSandboxPreview,
+  getSandboxPreviews,
+  saveSandboxPreview,
+  type PreviewAccess,
+} from "@/server/sandbox-previews";
+import type { AgentPreview, AgentPreviewListResponse, AgentPreviewTokenResponse } from "@/types/agent";
+
+type PreviewSandbox = Pick<ISandbox, "exec" | "exposePort" | "unexposePort" | "getExposedPorts">;
+
+// The sandbox whose ports are previewed and who it belongs to
+export interface PreviewContext {
+  scope: SandboxScope;
+  sandboxId: string;
+}
+
+function getPreviewTokenSecret() {
+  const secret = process.env.PREVIEW_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("PREVIEW_TOKEN_SECRET is not set");
+  }
+  return secret;
+}
+
+export function toAgentPreview(preview: SandboxPreview, appUrl: string, status: AgentPreview["status"]): AgentPreview {
+  return {
+    id: preview.id,
+    port: preview.port,
+    name: preview.name,
+    url: getPreviewUrl(preview, appUrl),
+    access: preview.access as PreviewAccess,
+    status,
+  };
+}
+
+/**
+ * Expose a port of the sandbox and record it, so the preview gate lets requests through
+ * according to the preview's access setting
+ */
+export async function exposeSandboxPreview(
+  sandbox: PreviewSandbox,
+  { scope, sandboxId }: PreviewContext,
+  { port, name, access, appUrl }: { port: number; name?: string; access?: PreviewAccess; appUrl: string }
+) {
+  await sandbox.exposePort(port, { name, hostname: new URL(appUrl).host });
+
+  const preview = await saveSandboxPreview({
+    userId: scope.userId,
+    teamId: scope.teamId,
+    conversationId: scope.conversationId ?? DEFAULT_CONVERSATION_ID,
+    sandboxId,
+    port,
+    name,
+    access,
+  });
+
+  return toAgentPreview(preview, appUrl, await isPortReady(sandbox, port) ? "ready" : "starting");
+}
+
+export async function unexposeSandboxPreview(sandbox: PreviewSandbox, { scope, sandboxId }: PreviewContext, port: number) {
+  const previews = await getSandboxPreviews({ userId: scope.userId, sandboxId });
+  const preview = previews.find((item) => item.port === port);
+  if (preview) {
+    await deleteSandboxPreview({ userId: scope.userId, previewId: preview.id });
+  }
+
+  // Exposures are gone anyway when the container was recycled since
+  await sandbox.unexposePort(port).catch((error) => {
+    console.warn("[Preview] Failed to unexpose port:", error);
+  });
+}
+
+/**
+ * The sandbox's previews, detecting servers that started listening since the last call:
+ * new ports are exposed for signed-in members, and recorded ports are exposed again
+ * when the container was recycled and the server came back
+ */
+export async function listSandboxPreviews(
+  sandbox: PreviewSandbox,
+  context: PreviewContext,
+  appUrl: string
+): Promise<AgentPreviewListResponse> {
+  const [listening, exposed, previews] = await Promise.all([
+    listListeningPorts(sandbox),
+    sandbox.getExposedPorts(new URL(appUrl).host),
+    getSandboxPreviews({ userId: context.scope.userId, sandboxId: context.sandboxId }),
+  ]);
+  const exposedPorts = new Set(exposed.map((item) => item.port));
+  const recordedPorts = new Set(previews.map((preview) => preview.port));
+  const reachable = listening.filter((item) => !item.loopbackOnly);
+
+  const detected = await Promise.all(
+    reachable
+      .filter((item) => !recordedPorts.has(item.port))
+      .map((item) => exposeSandboxPreview(sandbox, context, { port: item.port, appUrl }))
+  );
+
+  const recorded = await Promise.all(previews.map(async (preview) => {
+    if (!reachable.some((item) => item.port === preview.port)) {
+      return toAgentPreview(preview, appUrl, "stopped");
+    }
+    if (!exposedPorts.has(preview.port)) {
+      await sandbox.exposePort(preview.port, { name: preview.name ?? undefined, hostname: new URL(appUrl).host });
+    }
+    return toAgentPreview(preview, appUrl, await isPortReady(sandbox, preview.port) ? "ready" : "starting");
+  }));
+
+  return {
+    previews: [...recorded, ...detected].sort((a, b) => a.port - b.port),
+    loopbackPorts: listening.filter((item) => item.loopbackOnly).map((item) => item.port),
+  };
+}
+
+/**
+ * A preview URL carrying a signed token, which the preview gate trades for a cookie.
+ * Member tokens are for signed-in members and short-lived; share tokens open previews
+ * with `token` access for anyone holding the link.
+ */
+export async function createPreviewLink(preview: SandboxPreview, kind: PreviewTokenKind, appUrl: string): Promise<AgentPreviewTokenResponse> {
+  const ttlSeconds = kind === "share" ? SHARE_TOKEN_TTL_SECONDS : MEMBER_TOKEN_TTL_SECONDS;
+  const exp = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const token = await signPreviewToken({ previewId: preview.id, kind, exp }, getPreviewTokenSecret());
+
+  const url = new URL(getPreviewUrl(preview, appUrl));
+  url.searchParams.set(PREVIEW_TOKEN_PARAM, token);
+
+  return { url: url.toString(), expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+type PreviewRequestContext = Parameters<Parameters<typeof withRequestSandbox>[1]>[1];
+
+/**
+ * Run a preview route against the caller's sandbox with input validated by `schema`,
+ * read from the query string for GET and DELETE and from the JSON body otherwise
+ */
+export function withPreviewRequest<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T,
+  handler: (sandbox: ISandbox, input: z.infer<T>, context: PreviewRequestContext) => Promise<Response>
+) {
+  return withRequestSandbox(request, async (sandbox, context) => {
+    const body = request.method === "GET" || request.method === "DELETE"
+      ? Object.fromEntries(new URL(request.url).searchParams)
+      : await request.json().catch(() => ({}));
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return handler(sandbox as unknown as ISandbox, parsed.data, context);
+  });
+}
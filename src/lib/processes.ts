@@ -0,0 +1,315 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+import { and, asc, eq } from "drizzle-orm";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import type { ISandbox, Process } from "@cloudflare/sandbox";
+import { PROCESS_RESERVED_CREDITS } from "@/constants";
+import { getDB } from "@/db";
+import { meteredProcessTable, type MeteredProcess } from "@/db/schema";
+import { DEFAULT_CONVERSATION_ID, getAgentStub, type AgentConversationStub } from "@/lib/agent-conversation";
+import { getScopedSandbox, withRequestSandbox, type SandboxScope } from "@/lib/sandbox-access";
+import { toEnvVars, type SandboxSecret } from "@/lib/sandbox-secrets";
+import { getAgentConversation } from "@/server/agent-conversations";
+import type { AgentProcessInfo, StoredProcess } from "@/types/agent";
+import {
+  releaseReservation,
+  reserveCredits,
+  settleReservation,
+  type CreditReservation,
+} from "@/utils/metering";
+
+type ProcessSandbox = Pick<ISandbox, "startProcess" | "listProcesses">;
+
+export type StartProcessResult =
+  | { success: true; process: Process }
+  | { success: false; error: string };
+
+type ProcessStore = Pick<AgentConversationStub, "listProcesses" | "recordProcess">;
+
+/**
+ * ID and title of the conversation a sandbox scope belongs to, for labeling its processes
+ */
+export async function getScopeConversation({ userId, conversationId }: SandboxScope) {
+  if (!conversationId || conversationId === DEFAULT_CONVERSATION_ID) {
+    return { id: DEFAULT_CONVERSATION_ID, title: "Default conversation" };
+  }
+
+  const conversation = await getAgentConversation({ userId, conversationId });
+  return { id: conversation.id, title: conversation.title };
+}
+
+/**
+ * A process as sent to the browser. Dates are serialized and the process methods dropped.
+ */
+export function toProcessInfo(process: Process, conversation: AgentProcessInfo["conversation"]): AgentProcessInfo {
+  return {
+    id: process.id,
+    pid: process.pid ?? null,
+    command: process.command,
+    status: process.status,
+    startTime: new Date(process.startTime).toISOString(),
+    endTime: process.endTime ? new Date(process.endTime).toISOString() : null,
+    exitCode: process.exitCode ?? null,
+    conversation,
+  };
+}
+
+/**
+ * The processes of the sandbox, running ones first and then the most recently started.
+ * Processes the conversation started are labeled with it; others, like template dev
+ * servers started through the worker API, are not.
+ */
+export async function listSandboxProcesses({
+  sandbox,
+  sandboxId,
+  store,
+  conversation,
+}: {
+  sandbox: ProcessSandbox;
+  sandboxId: string;
+  store: ProcessStore;
+  conversation: NonNullable<AgentProcessInfo["conversation"]>;
+}) {
+  const [processes, records] = await Promise.all([sandbox.listProcesses(), store.listProcesses(sandboxId)]);
+  const recordedIds = new Set(records.map((record) => record.id));
+
+  return processes
+    .map((process) => toProcessInfo(process, recordedIds.has(process.id) ? conversation : null))
+    .sort((a, b) => {
+      const aRunning = a.status === "running" || a.status === "starting";
+      const bRunning = b.status === "running" || b.status === "starting";
+      if (aRunning !== bRunning) return aRunning ? -1 : 1;
+      return b.startTime.localeCompare(a.startTime);
+    });
+}
+
+/**
+ * Start a background process and remember how it was started, so it can be labeled with
+ * the conversation and restarted later. Secret values are injected as environment
+ * variables but only their names are stored. The process's wall-clock time is billed
+ * to the scope's wallet, so credits are held before it starts.
+ */
+export async function startSandboxProcess({
+  sandbox,
+  sandboxId,
+  scope,
+  store,
+  command,
+  cwd,
+  env,
+  secretNames,
+  secrets,
+}: {
+  sandbox: ProcessSandbox;
+  sandboxId: string;
+  scope: SandboxScope;
+  store: ProcessStore;
+  command: string;
+  cwd?: string;
+  env: Record<string, string>;
+  secretNames: string[];
+  secrets: SandboxSecret[];
+}): Promise<StartProcessResult> {
+  const runId = crypto.randomUUID();
+  const reserved = await reserveCredits({
+    userId: scope.userId,
+    teamId: scope.teamId,
+    runId,
+    conversationId: scope.conversationId,
+    amount: PROCESS_RESERVED_CREDITS,
+  });
+  if (!reserved.success) {
+    return reserved;
+  }
+
+  // Process options are sent to the container in the request body, not logged
+  let process: Process;
+  try {
+    process = await sandbox.startProcess(command, {
+      cwd,
+      env: { ...env, ...toEnvVars(secrets) },
+    });
+  } catch (error) {
+    await releaseReservation(reserved.reservation);
+    throw error;
+  }
+
+  await getDB().insert(meteredProcessTable).values({
+    userId: scope.userId,
+    teamId: scope.teamId,
+    conversationId: scope.conversationId,
+    sandboxId,
+    processId: process.id,
+    runId,
+    billedFrom: new Date(),
+  });
+
+  const record: StoredProcess = {
+    id: process.id,
+    sandboxId,
+    command,
+    cwd: cwd ?? null,
+    env,
+    secretNames,
+    startedAt: Date.now(),
+  };
+  await store.recordProcess(record);
+
+  return { success: true, process };
+}
+
+function toReservation(meter: MeteredProcess): CreditReservation {
+  return {
+    userId: meter.userId,
+    teamId: meter.teamId ?? undefined,
+    runId: meter.runId,
+    conversationId: meter.conversationId ?? undefined,
+    amount: PROCESS_RESERVED_CREDITS,
+  };
+}
+
+// Charge the current billing period of a process, up to `until`
+function settleBillingPeriod(meter: MeteredProcess, until: number) {
+  return settleReservation({
+    reservation: toReservation(meter),
+    usage: { processSeconds: Math.max(0, until - meter.billedFrom.getTime()) / 1000 },
+    description: "Background process",
+  });
+}
+
+/**
+ * Charge a process that ended for the time since its last billing period started, and
+ * stop metering it. Processes that aren't metered are left alone.
+ */
+export async function settleSandboxProcess({
+  sandboxId,
+  processId,
+  endedAt = Date.now(),
+}: {
+  sandboxId: string;
+  processId: string;
+  endedAt?: number;
+}) {
+  const db = getDB();
+
+  const meter = await db.query.meteredProcessTable.findFirst({
+    where: and(eq(meteredProcessTable.sandboxId, sandboxId), eq(meteredProcessTable.processId, processId)),
+  });
+  if (!meter) return;
+
+  await settleBillingPeriod(meter, endedAt);
+  await db.delete(meteredProcessTable).where(eq(meteredProcessTable.id, meter.id));
+}
+
+/**
+ * Bill background processes. Processes that ended are charged up to their end; running
+ * ones are charged up to now and a new billing period is held, and a process whose
+ * wallet can't cover the next period is killed. Meant to run on a schedule.
+ */
+export async function meterSandboxProcesses() {
+  const db = getDB();
+  const meters = await db.query.meteredProcessTable.findMany({
+    orderBy: [asc(meteredProcessTable.billedFrom)],
+  });
+
+  const { env } = getCloudflareContext();
+  const report = { settled: 0, renewed: 0, killed: 0, failed: [] as { processId: string; error: string }[] };
+
+  for (const meter of meters) {
+    const scope: SandboxScope = {
+      userId: meter.userId,
+      teamId: meter.teamId ?? undefined,
+      conversationId: meter.conversationId ?? undefined,
+    };
+
+    try {
+      const { sandbox } = await getScopedSandbox(env, scope);
+      const process = await sandbox.getProcess(meter.processId);
+      const now = Date.now();
+
+      if (!process) {
+        // The container was recycled since the last period, so when the process ended is unknown
+        await releaseReservation(toReservation(meter));
+        await db.delete(meteredProcessTable).where(eq(meteredProcessTable.id, meter.id));
+        report.settled++;
+        continue;
+      }
+
+      if (process.status !== "running" && process.status !== "starting") {
+        await settleSandboxProcess({
+          sandboxId: meter.sandboxId,
+          processId: meter.processId,
+          endedAt: process.endTime ? new Date(process.endTime).getTime() : now,
+        });
+        report.settled++;
+        continue;
+      }
+
+      await settleBillingPeriod(meter, now);
+
+      const runId = crypto.randomUUID();
+      const reserved = await reserveCredits({
+        userId: meter.userId,
+        teamId: meter.teamId ?? undefined,
+        runId,
+        conversationId: meter.conversationId ?? undefined,
+        amount: PROCESS_RESERVED_CREDITS,
+      });
+      if (!reserved.success) {
+        console.warn(`Killing process ${meter.processId} of sandbox ${meter.sandboxId}: ${reserved.error}`);
+        await sandbox.killProcess(meter.processId);
+        await db.delete(meteredProcessTable).where(eq(meteredProcessTable.id, meter.id));
+        report.killed++;
+        continue;
+      }
+
+      await db.update(meteredProcessTable)
+        .set({ runId, billedFrom: new Date(now) })
+        .where(eq(meteredProcessTable.id, meter.id));
+      report.renewed++;
+    } catch (error) {
+      console.error(`Metering process ${meter.processId} of sandbox ${meter.sandboxId} failed:`, error);
+      report.failed.push({
+        processId: meter.processId,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+    }
+  }
+
+  return report;
+}
+
+type ProcessRequestContext = Parameters<Parameters<typeof withRequestSandbox>[1]>[1] & {
+  // Processes the conversation started are recorded with it
+  store: AgentConversationStub;
+};
+
+/**
+ * Handle a /api/agent/process/* request: validate the JSON body (or the query string
+ * of GET and DELETE requests) and run the handler against the caller's sandbox and the
+ * process records of their conversation
+ */
+export function withProcessRequest<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T,
+  handler: (sandbox: ISandbox, input: z.infer<T>, context: ProcessRequestContext) => Promise<Response>
+) {
+  return withRequestSandbox(request, async (sandbox, context) => {
+    const body = request.method === "GET" || request.method === "DELETE"
+      ? Object.fromEntries(new URL(request.url).searchParams)
+      : await request.json().catch(() => ({}));
+
+    const parsed = schema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const store = getAgentStub({ userId: context.scope.userId, conversationId: context.scope.conversationId });
+    return handler(sandbox as unknown as ISandbox, parsed.data, { ...context, store });
+  });
+}
@@ -0,0 +1,77 @@
+import "server-only";
+
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createEventStream, SSE_HEADERS, type EventStream } from "@/lib/sse";
+import type { BufferedFrame, RunStreamDO } from "@/workers/run-stream-do";
+import { RUN_ID_HEADER } from "@/constants";
+
+/**
+ * RPC surface of a RunStreamDO, the buffer and record of a run
+ */
+type RunStreamStub = Pick<
+  RunStreamDO,
+  "fetch" | "append" | "end" | "register" | "getRun" | "trackCodeContext" | "cancel" | "finish"
+>;
+
+export function getRunStreamStub(runId: string): RunStreamStub {
+  const { env } = getCloudflareContext();
+
+  // Cast through unknown first due to CloudflareEnv type limitations
+  const envTyped = env as unknown as { RUN_STREAM_DO?: DurableObjectNamespace<RunStreamDO> };
+  if (!envTyped.RUN_STREAM_DO) {
+    throw new Error("RUN_STREAM_DO binding not found");
+  }
+
+  return envTyped.RUN_STREAM_DO.get(envTyped.RUN_STREAM_DO.idFromName(runId)) as unknown as RunStreamStub;
+}
+
+/**
+ * An event stream for a run whose events are buffered in its RunStreamDO as they are sent,
+ * so a client whose connection dropped resumes it through `/api/agent/runs/:runId/events`.
+ * `task` produces the events; it keeps running when the client goes away, until it ends.
+ */
+export function createRunEventStream<T>(
+  { runId, userId }: { runId: string; userId: string },
+  task: (stream: EventStream<T>) => Promise<void>
+): Response {
+  const buffer = getRunStreamStub(runId);
+
+  // Frames sent while a batch is on its way go out together with the next one
+  let pending: BufferedFrame[] = [];
+  let buffering = Promise.resolve();
+  let flushScheduled = false;
+
+  const flush = () => {
+    if (flushScheduled) return;
+
+    flushScheduled = true;
+    buffering = buffering.then(async () => {
+      flushScheduled = false;
+      const frames = pending;
+      pending = [];
+      await buffer.append(userId, frames).catch((error) => {
+        console.error("[Run stream] Failed to buffer events:", error);
+      });
+    });
+  };
+
+  const stream = createEventStream<T>({
+    onFrame: (frame) => {
+      pending.push(frame);
+      flush();
+    },
+    onClose: async () => {
+      await buffering;
+      await buffer.end(userId).catch((error) => console.error("[Run stream] Failed to end the run:", error));
+    },
+  });
+
+  const run = task(stream)
+    .catch((error) => console.error("[Run stream] Run failed:", error))
+    .finally(() => stream.close());
+  getCloudflareContext().ctx.waitUntil(run);
+
+  return new Response(stream.readable, {
+    headers: { ...SSE_HEADERS, [RUN_ID_HEADER]: runId },
+  });
+}
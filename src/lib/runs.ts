@@ -0,0 +1,151 @@
+import "server-only";
+
+import type { ISandbox } from "@cloudflare/sandbox";
+import { getRunStreamStub } from "@/lib/run-streams";
+import type { SandboxScope } from "@/lib/sandbox-access";
+import { getActivePlan } from "@/utils/plans";
+import { getSubscriberPlanState } from "@/utils/subscriptions";
+import type { AgentRun, AgentRunKind } from "@/types/agent";
+
+// How often a run checks whether it was canceled
+const RUN_CANCEL_POLL_MS = 1_000;
+
+type RunSandbox = Pick<ISandbox, "deleteCodeContext">;
+
+/**
+ * How long a run may take on the plan the sandbox is billed to: the team's plan for team
+ * sandboxes, the user's own plan otherwise.
+ */
+export async function getRunTimeLimit({ userId, teamId }: SandboxScope) {
+  const state = await getSubscriberPlanState({ userId, teamId });
+  const plan = getActivePlan({
+    planId: state?.planId ?? null,
+    planExpiresAt: state?.planExpiresAt ?? null,
+  });
+
+  return {
+    planName: plan.name,
+    minutes: plan.maxRunMinutes,
+  };
+}
+
+/**
+ * Stop the kernels of the code contexts a run is executing in. Whatever they were
+ * running stops with them; notebooks get a fresh kernel on their next run.
+ */
+export async function interruptRun(sandbox: RunSandbox, run: Pick<AgentRun, "id" | "contextIds">) {
+  await Promise.all(run.contextIds.map((contextId) =>
+    sandbox.deleteCodeContext(contextId).catch((error) => {
+      console.warn(`[Runs] Failed to stop code context ${contextId} of run ${run.id}:`, error);
+    })
+  ));
+}
+
+export interface RunSession {
+  // Aborted when the run is canceled or runs out of time, with the reason as error
+  signal: AbortSignal;
+  // Why the run was stopped, once it was
+  readonly stopReason: string | null;
+  // Track a code context while the run executes in it, so canceling the run stops it
+  trackCodeContext: (contextId: string, active?: boolean) => Promise<void>;
+  // Record how the run ended, with its output so far for stopped runs
+  finish: (result: { failed?: boolean; output?: string }) => Promise<void>;
+}
+
+/**
+ * Register a run in its RunStreamDO, where it can be canceled by ID. The run is stopped
+ * once canceled, or when it exceeds the time limit of the plan; its code contexts are
+ * deleted then, which interrupts whatever their kernels are running.
+ */
+export async function startRun({
+  runId,
+  kind,
+  scope,
+  sandboxId,
+  sandbox,
+}: {
+  runId: string;
+  kind: AgentRunKind;
+  scope: SandboxScope;
+  sandboxId: string;
+  sandbox: RunSandbox;
+}): Promise<RunSession> {
+  const registry = getRunStreamStub(runId);
+  const { userId, teamId, conversationId } = scope;
+  const limit = await getRunTimeLimit(scope);
+  const startedAt = Date.now();
+  const timeLimitMs = limit.minutes * 60_000;
+
+  await registry.register(userId, {
+    id: runId,
+    kind,
+    sandboxId,
+    teamId,
+    conversationId,
+    startedAt,
+    deadline: startedAt + timeLimitMs,
+  });
+
+  const controller = new AbortController();
+  const contextIds = new Set<string>();
+  let stopReason: string | null = null;
+  let finished = false;
+
+  const stop = (reason: string) => {
+    if (controller.signal.aborted) return;
+
+    stopReason = reason;
+    controller.abort(new Error(reason));
+    interruptRun(sandbox, { id: runId, contextIds: [...contextIds] });
+  };
+
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  const schedulePoll = () => {
+    pollTimer = setTimeout(async () => {
+      try {
+        const run = await registry.getRun(userId);
+        if (run && run.status !== "running") {
+          stop(run.cancelReason ?? "Canceled");
+        }
+      } catch (error) {
+        console.error("[Runs] Failed to poll the run:", error);
+      }
+      if (!finished && !controller.signal.aborted) schedulePoll();
+    }, RUN_CANCEL_POLL_MS);
+  };
+  schedulePoll();
+
+  const deadlineTimer = setTimeout(async () => {
+    const reason = `Stopped after the ${limit.minutes} minute time limit of the ${limit.planName} plan`;
+    await registry.cancel(userId, { status: "timed-out", reason })
+      .catch((error) => console.error("[Runs] Failed to record the time out:", error));
+    stop(reason);
+  }, timeLimitMs);
+
+  const trackCodeContext = async (contextId: string, active = true) => {
+    if (active) {
+      contextIds.add(contextId);
+    } else {
+      contextIds.delete(contextId);
+    }
+    await registry.trackCodeContext(userId, contextId, active)
+      .catch((error) => console.error("[Runs] Failed to track code context:", error));
+  };
+
+  const finish = async ({ failed = false, output }: { failed?: boolean; output?: string }) => {
+    finished = true;
+    clearTimeout(pollTimer);
+    clearTimeout(deadlineTimer);
+    await registry.finish(userId, { status: failed ? "failed" : "completed", output })
+      .catch((error) => console.error("[Runs] Failed to record the end of the run:", error));
+  };
+
+  return {
+    signal: controller.signal,
+    get stopReason() {
+      return stopReason;
+    },
+    trackCodeContext,
+    finish,
+  };
+}
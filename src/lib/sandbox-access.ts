@@ -0,0 +1,168 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { ZSAError } from "zsa";
+import { z } from "zod";
+import type { ISandbox, Sandbox } from "@cloudflare/sandbox";
+import type { SessionValidationResult } from "@/types";
+import { requireApiAuth } from "@/lib/auth";
+import { DEFAULT_CONVERSATION_ID } from "@/lib/agent-conversation";
+import { getAgentConversation } from "@/server/agent-conversations";
+
+/**
+ * What a sandbox belongs to. Every sandbox is owned by one user; runs billed to a team
+ * and conversations other than the default one get a sandbox of their own.
+ */
+export interface SandboxScope {
+  userId: string;
+  teamId?: string;
+  conversationId?: string;
+}
+
+type SandboxSession = NonNullable<SessionValidationResult>;
+
+const requestScopeSchema = z.object({
+  teamId: z.string().min(1).max(100).optional(),
+  conversationId: z.string().min(1).max(100).optional(),
+  sessionId: z.string().min(1).max(255).optional(),
+});
+
+// HTTP status for each access error thrown by this module
+const ACCESS_ERROR_STATUS: Partial<Record<ZSAError["code"], number>> = {
+  NOT_AUTHORIZED: 401,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+};
+
+export function getSandboxId({ userId, teamId, conversationId }: SandboxScope) {
+  const parts = [`user-${userId}`];
+  if (teamId) parts.push(`team-${teamId}`);
+  if (conversationId && conversationId !== DEFAULT_CONVERSATION_ID) parts.push(conversationId);
+
+  return `${parts.join("-")}-sandbox`;
+}
+
+/**
+ * Check that the session may use the team and conversation it asked for.
+ * Throws a ZSAError (FORBIDDEN or NOT_FOUND) otherwise.
+ */
+export async function authorizeSandboxScope(
+  session: SandboxSession,
+  { teamId, conversationId }: Omit<SandboxScope, "userId">
+): Promise<SandboxScope> {
+  const userId = session.user.id;
+
+  if (teamId && !session.teams?.some((team) => team.id === teamId)) {
+    throw new ZSAError("FORBIDDEN", "You are not a member of this team");
+  }
+
+  if (conversationId && conversationId !== DEFAULT_CONVERSATION_ID) {
+    // Throws NOT_FOUND for conversations of other users
+    await getAgentConversation({ userId, conversationId });
+  }
+
+  return { userId, teamId, conversationId };
+}
+
+/**
+ * Get the sandbox of an authorized scope.
+ * The sandbox ID is always derived from the scope, never taken from the request.
+ */
+export async function getScopedSandbox(env: unknown, scope: SandboxScope) {
+  // Load getSandbox using eval to bypass webpack bundling
+  const { loadGetSandbox } = await import("@/lib/cloudflare-runtime");
+  const getSandbox = await loadGetSandbox();
+
+  // Cast through unknown first due to CloudflareEnv type limitations
+  const envTyped = env as unknown as { Sandbox?: Parameters<typeof getSandbox>[0] };
+  if (!envTyped?.Sandbox) {
+    throw new Error("Sandbox binding not found");
+  }
+
+  const sandboxId = getSandboxId(scope);
+  return {
+    sandboxId,
+    sandbox: getSandbox(envTyped.Sandbox, sandboxId) as unknown as ISandbox,
+  };
+}
+
+/**
+ * Authorize a request for a sandbox and return it.
+ * `sandboxId` is what older clients send as `sessionId`. It is only accepted when it
+ * names the caller's own sandbox for the requested scope.
+ */
+export async function resolveSandbox(
+  env: unknown,
+  session: SandboxSession,
+  {
+    teamId,
+    conversationId,
+    sandboxId,
+  }: Omit<SandboxScope, "userId"> & { sandboxId?: string }
+) {
+  const scope = await authorizeSandboxScope(session, { teamId, conversationId });
+
+  if (sandboxId && sandboxId !== getSandboxId(scope)) {
+    throw new ZSAError("FORBIDDEN", "You don't have access to this sandbox");
+  }
+
+  return { scope, ...await getScopedSandbox(env, scope) };
+}
+
+/**
+ * HTTP status for an authentication or sandbox access error, or null for other errors
+ */
+export function getSandboxAccessErrorStatus(error: unknown) {
+  if (!(error instanceof ZSAError)) return null;
+
+  return ACCESS_ERROR_STATUS[error.code] ?? null;
+}
+
+type ResolvedRequestSandbox = Awaited<ReturnType<typeof resolveSandbox>> & { session: SandboxSession };
+
+/**
+ * Run a route handler against the caller's sandbox. The scope (`teamId`, `conversationId`
+ * and the legacy `sessionId`) is read from a JSON body or the query string.
+ */
+export async function withRequestSandbox(
+  request: Request,
+  handler: (sandbox: Sandbox<unknown>, resolved: ResolvedRequestSandbox) => Promise<Response>
+) {
+  try {
+    const session = await requireApiAuth();
+
+    let fields: unknown = Object.fromEntries(new URL(request.url).searchParams);
+    if (request.headers.get("content-type")?.includes("application/json")) {
+      // Read a copy so the handler can still parse the body
+      fields = await request.clone().json().catch(() => ({}));
+    }
+
+    const parsed = requestScopeSchema.safeParse(fields);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Validation failed", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { teamId, conversationId, sessionId } = parsed.data;
+    const resolved = await resolveSandbox(getCloudflareContext().env, session, {
+      teamId,
+      conversationId,
+      sandboxId: sessionId,
+    });
+
+    return await handler(resolved.sandbox as unknown as Sandbox<unknown>, { ...resolved, session });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error occurred";
+
+    const accessStatus = getSandboxAccessErrorStatus(error);
+    if (accessStatus) {
+      return NextResponse.json({ error: "Access denied", details: message }, { status: accessStatus });
+    }
+
+    console.error("Sandbox request error:", error);
+    return NextResponse.json({ error: "Sandbox request failed", details: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+import type { ISandbox } from "@cloudflare/sandbox";
+
+type PortSandbox = Pick<ISandbox, "exec">;
+
+// The sandbox's control plane, wrangler dev and the Jupyter server behind code contexts
+const INTERNAL_PORTS = new Set([3000, 8787, 8888]);
+
+// Ports below this need root and are never previewed
+const MIN_PREVIEW_PORT = 1024;
+
+// Socket state of listening TCP sockets in /proc/net/tcp
+const TCP_LISTEN = "0A";
+
+/**
+ * Whether a port may be exposed as a preview
+ */
+export function isPreviewablePort(port: number) {
+  return port >= MIN_PREVIEW_PORT && port <= 65535 && !INTERNAL_PORTS.has(port);
+}
+
+export interface ListeningPort {
+  port: number;
+  // Bound to 127.0.0.1 or ::1 only, so preview requests from outside the container can't reach it
+  loopbackOnly: boolean;
+}
+
+function isLoopbackAddress(hexAddress: string) {
+  // IPv4 addresses are little-endian hex, 127.x.x.x ends in 7F; ::1 is all zeros but the last byte
+  return hexAddress.length === 8
+    ? hexAddress.endsWith("7F")
+    : hexAddress === "00000000000000000000000001000000";
+}
+
+/**
+ * TCP ports that processes in the sandbox listen on, read from /proc so it works for
+ * servers started any way, by the agent's commands as well as background processes
+ */
+export async function listListeningPorts(sandbox: PortSandbox): Promise<ListeningPort[]> {
+  const result = await sandbox.exec("cat /proc/net/tcp /proc/net/tcp6 2>/dev/null");
+  const ports = new Map<number, boolean>();
+
+  for (const line of result.stdout.split("\n")) {
+    // sl local_address rem_address st ...
+    const [, localAddress, , state] = line.trim().split(/\s+/);
+    if (state !== TCP_LISTEN || !localAddress?.includes(":")) continue;
+
+    const [hexAddress, hexPort] = localAddress.split(":");
+    const port = parseInt(hexPort, 16);
+    if (!isPreviewablePort(port)) continue;
+
+    // A port is reachable when any of its sockets listens beyond loopback
+    const loopbackOnly = isLoopbackAddress(hexAddress);
+    ports.set(port, (ports.get(port) ?? true) && loopbackOnly);
+  }
+
+  return Array.from(ports, ([port, loopbackOnly]) => ({ port, loopbackOnly }))
+    .sort((a, b) => a.port - b.port);
+}
+
+/**
+ * Whether a server listens on the port and answers HTTP requests, with any status
+ */
+export async function isPortReady(sandbox: PortSandbox, port: number) {
+  const result = await sandbox.exec(
+    `curl -s -o /dev/null -m 2 -w '%{http_code}' http://127.0.0.1:${port}/ || true`
+  );
+  const status = result.stdout.trim();
+
+  return /^\d{3}$/.test(status) && status !== "000";
+}
+
+/**
+ * Wait until a server answers on the port, for dev servers that take a while to compile
+ * before they listen. Returns false when it didn't within the timeout.
+ */
+export async function waitForPort(
+  sandbox: PortSandbox,
+  port: number,
+  { timeoutMs = 60_000, intervalMs = 1000 }: { timeoutMs?: number; intervalMs?: number } = {}
+) {
+  const deadline = Date.now() + timeoutMs;
+
+  while (Date.now() < deadline) {
+    if (await isPortReady(sandbox, port)) return true;
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+
+  return false;
+}
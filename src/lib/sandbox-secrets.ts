@@ -0,0 +1,177 @@
+import "server-only";
+
+import type { ExecOptions, ISandbox, LogEvent } from "@cloudflare/sandbox";
+import { shellQuote } from "@/lib/agent-helpers/shell";
+
+/**
+ * A decrypted secret, injected into the sandbox as an environment variable
+ */
+export interface SandboxSecret {
+  name: string;
+  value: string;
+}
+
+// Shorter values would be masked all over ordinary output
+const MIN_REDACTED_LENGTH = 4;
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export type SecretRedactor = ReturnType<typeof createSecretRedactor>;
+
+/**
+ * Decrypts the secrets of the request's scope by name, or all of them without names
+ */
+export type SecretLoader = (names?: string[]) => Promise<SandboxSecret[]>;
+
+/**
+ * Mask the values of secrets in output before it is streamed or stored.
+ * Values are replaced by `[secret NAME]` so the output still says what was there.
+ */
+export function createSecretRedactor(secrets: SandboxSecret[]) {
+  // Longest first, so a secret that contains another one is masked whole
+  const masked = secrets
+    .filter((secret) => secret.value.length >= MIN_REDACTED_LENGTH)
+    .sort((a, b) => b.value.length - a.value.length);
+
+  const redact = (text: string) => masked.reduce(
+    (result, secret) => result.split(secret.value).join(`[secret ${secret.name}]`),
+    text
+  );
+
+  const redactDeep = <T>(value: T): T => {
+    if (masked.length === 0) return value;
+    if (typeof value === "string") return redact(value) as T;
+    if (Array.isArray(value)) return value.map(redactDeep) as T;
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, redactDeep(entry)])
+      ) as T;
+    }
+    return value;
+  };
+
+  // Where text can be cut without splitting a secret: before an end of the text that may
+  // still become a secret, and outside every secret the text contains
+  const findSafeCut = (text: string) => {
+    let cut = text.length;
+    for (const { value } of masked) {
+      for (let start = Math.max(0, text.length - value.length + 1); start < cut; start++) {
+        if (value.startsWith(text.slice(start))) {
+          cut = start;
+          break;
+        }
+      }
+    }
+
+    for (let moved = true; moved;) {
+      moved = false;
+      for (const { value } of masked) {
+        const index = text.indexOf(value, Math.max(0, cut - value.length + 1));
+        if (index !== -1 && index < cut) {
+          cut = index;
+          moved = true;
+        }
+      }
+    }
+
+    return cut;
+  };
+
+  /**
+   * Mask output that arrives in chunks, where a secret can be split between two of them.
+   * The end of a chunk that may be the start of a secret, at most the longest secret less
+   * one character, is held back until the next chunk or `flush`.
+   */
+  const redactStream = () => {
+    let pending = "";
+
+    return {
+      push: (chunk: string) => {
+        const text = pending + chunk;
+        const cut = findSafeCut(text);
+        pending = text.slice(cut);
+        return redact(text.slice(0, cut));
+      },
+      flush: () => {
+        const rest = redact(pending);
+        pending = "";
+        return rest;
+      },
+    };
+  };
+
+  return { redact, redactDeep, redactStream };
+}
+
+/**
+ * Mask process log events, with stdout and stderr each redacted as one stream. `push`
+ * returns the events to send for an event that was read, `flush` what is still held
+ * back once the logs end.
+ */
+export function createLogEventRedactor({ redactDeep, redactStream }: SecretRedactor) {
+  const streams = { stdout: redactStream(), stderr: redactStream() };
+  const lastEvents: Partial<Record<keyof typeof streams, LogEvent>> = {};
+
+  const flush = () => (["stdout", "stderr"] as const).flatMap((type) => {
+    const data = streams[type].flush();
+    const lastEvent = lastEvents[type];
+    return lastEvent && data ? [{ ...lastEvent, data }] : [];
+  });
+
+  const push = (event: LogEvent): LogEvent[] => {
+    if (event.type === "stdout" || event.type === "stderr") {
+      lastEvents[event.type] = event;
+      const data = streams[event.type].push(event.data);
+      return data ? [{ ...event, data }] : [];
+    }
+
+    // Output that was held back comes before the exit
+    return [...flush(), redactDeep(event)];
+  };
+
+  return { push, flush };
+}
+
+export function toEnvVars(secrets: SandboxSecret[]) {
+  return Object.fromEntries(secrets.map((secret) => [secret.name, secret.value]));
+}
+
+/**
+ * Run a command with environment variables. `exec` of the sandbox SDK ignores `env` and
+ * logs the command, so the variables are written to a file the command sources and deletes
+ * in a subshell, which keeps them out of the logs and out of later commands.
+ */
+export async function execWithEnv(
+  sandbox: Pick<ISandbox, "exec" | "writeFile">,
+  command: string,
+  { env = {}, cwd, ...options }: ExecOptions = {}
+) {
+  const entries = Object.entries(env);
+  if (entries.length === 0) {
+    return sandbox.exec(command, { cwd, ...options });
+  }
+
+  const invalid = entries.find(([name]) => !ENV_NAME_PATTERN.test(name));
+  if (invalid) {
+    throw new Error(`Invalid environment variable name: ${invalid[0]}`);
+  }
+
+  const envPath = `/tmp/env-${crypto.randomUUID()}`;
+  await sandbox.writeFile(
+    envPath,
+    entries.map(([name, value]) => `export ${name}=${shellQuote(value)}\n`).join("")
+  );
+
+  const script = [
+    `. ${envPath}; rm -f ${envPath}`,
+    ...(cwd ? [`cd ${shellQuote(cwd)} || exit 1`] : []),
+    command,
+  ].join("\n");
+
+  try {
+    return await sandbox.exec(`(\n${script}\n)`, options);
+  } catch (error) {
+    await sandbox.exec(`rm -f ${envPath}`).catch(() => undefined);
+    throw error;
+  }
+}
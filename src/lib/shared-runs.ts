@@ -0,0 +1,133 @@
+import "server-only";
+
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import type { RunControlState, RunInterjection, WebSocketDO } from "@/workers/websocket-do";
+import type { AgentStreamEvent, RoomUser } from "@/types/agent";
+
+// How often a run asks its room whether members paused, stopped or interjected
+const RUN_CONTROL_POLL_MS = 1_000;
+
+// Paused runs give up after this long, they hold the request and the sandbox
+const MAX_PAUSE_MS = 10 * 60_000;
+
+/**
+ * RPC surface of a WebSocketDO used by agent runs
+ */
+type RoomRunStub = Pick<WebSocketDO, "startRun" | "publishRunEvents" | "takeRunControl" | "finishRun">;
+
+function getRoomStub(room: string): RoomRunStub {
+  const { env } = getCloudflareContext();
+
+  // Cast through unknown first due to CloudflareEnv type limitations
+  const envTyped = env as unknown as { WEBSOCKET_DO?: DurableObjectNamespace<WebSocketDO> };
+  if (!envTyped.WEBSOCKET_DO) {
+    throw new Error("WEBSOCKET_DO binding not found");
+  }
+
+  return envTyped.WEBSOCKET_DO.get(envTyped.WEBSOCKET_DO.idFromName(room)) as unknown as RoomRunStub;
+}
+
+export interface SharedRunSession {
+  // Aborted when a member stops the run
+  signal: AbortSignal;
+  // Who stopped the run, once someone did
+  readonly stoppedBy: RoomUser | null;
+  // Fan an event out to the room, in order and without waiting for it
+  publish: (event: AgentStreamEvent) => void;
+  // Waits while the run is paused, then returns what members interjected since the last call
+  beforeStep: () => Promise<RunInterjection[]>;
+  finish: (result: { finishReason: string; text: string }) => Promise<void>;
+}
+
+/**
+ * Share an agent run with the room of its conversation. Members of the room see its
+ * events as they happen, and those who may steer it pause, stop or interject; the run
+ * polls the room for that, pauses take effect between steps.
+ */
+export async function startSharedRun({
+  conversationId,
+  runId,
+  user,
+}: {
+  conversationId: string;
+  runId: string;
+  user: RoomUser;
+}): Promise<SharedRunSession> {
+  const room = getRoomStub(`conversation:${conversationId}`);
+  await room.startRun({ id: runId, user });
+
+  const controller = new AbortController();
+  let control: RunControlState = { paused: false, stoppedBy: null, interjections: [] };
+  const interjections: RunInterjection[] = [];
+  let finished = false;
+
+  const poll = async () => {
+    control = await room.takeRunControl(runId);
+    interjections.push(...control.interjections);
+    if (control.stoppedBy && !controller.signal.aborted) {
+      controller.abort(new Error(`Stopped by ${control.stoppedBy.name}`));
+    }
+  };
+
+  // Stops have to reach the run in the middle of a step too
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  const schedulePoll = () => {
+    pollTimer = setTimeout(async () => {
+      await poll().catch((error) => console.error("[Shared run] Failed to poll run control:", error));
+      if (!finished) schedulePoll();
+    }, RUN_CONTROL_POLL_MS);
+  };
+  schedulePoll();
+
+  // Events published while a batch is on its way go out together with the next one
+  let pending: AgentStreamEvent[] = [];
+  let publishing = Promise.resolve();
+  let flushScheduled = false;
+
+  const publish = (event: AgentStreamEvent) => {
+    pending.push(event);
+    if (flushScheduled) return;
+
+    flushScheduled = true;
+    publishing = publishing.then(async () => {
+      flushScheduled = false;
+      const events = pending;
+      pending = [];
+      await room.publishRunEvents(runId, events).catch((error) => {
+        console.error("[Shared run] Failed to publish events:", error);
+      });
+    });
+  };
+
+  const beforeStep = async () => {
+    await poll();
+
+    const pausedAt = Date.now();
+    while (control.paused && !controller.signal.aborted) {
+      if (Date.now() - pausedAt > MAX_PAUSE_MS) {
+        throw new Error(`The run was paused for more than ${MAX_PAUSE_MS / 60_000} minutes`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, RUN_CONTROL_POLL_MS));
+      await poll();
+    }
+
+    return interjections.splice(0);
+  };
+
+  const finish = async (result: { finishReason: string; text: string }) => {
+    finished = true;
+    clearTimeout(pollTimer);
+    await publishing;
+    await room.finishRun(runId, result);
+  };
+
+  return {
+    signal: controller.signal,
+    get stoppedBy() {
+      return control.stoppedBy;
+    },
+    publish,
+    beforeStep,
+    finish,
+  };
+}
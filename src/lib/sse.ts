@@ -0,0 +1,97 @@
+import type { BufferedFrame } from "@/workers/run-stream-do";
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+  "X-Content-Type-Options": "nosniff",
+} as const;
+
+/**
+ * Format one server-sent event. Data spanning several lines is sent as several `data:`
+ * lines, which clients join back with newlines.
+ */
+export function formatServerSentEvent({ id, event, data }: { id?: number; event?: string; data: string }) {
+  let frame = "";
+  if (id !== undefined) frame += `id: ${id}\n`;
+  if (event) frame += `event: ${event}\n`;
+  for (const line of data.split(/\r\n|\r|\n/)) {
+    frame += `data: ${line}\n`;
+  }
+  return `${frame}\n`;
+}
+
+/**
+ * The ID of the last event a reconnecting client saw: the `Last-Event-ID` header sent by
+ * `EventSource`, or the `lastEventId` query parameter for clients that can't set it.
+ * 0 when the client starts from the beginning.
+ */
+export function getLastEventId(request: Request) {
+  const value = request.headers.get("Last-Event-ID") ?? new URL(request.url).searchParams.get("lastEventId");
+  const id = Number(value ?? 0);
+  return Number.isSafeInteger(id) && id > 0 ? id : 0;
+}
+
+export interface EventStreamOptions {
+  /**
+   * Events up to this ID are counted but not sent, for streams that replay from the
+   * start, like process logs, to a client resuming after them
+   */
+  skipThrough?: number;
+  // Called with every event as it is sent, to buffer it for clients resuming the stream
+  onFrame?: (frame: BufferedFrame) => void;
+  // Called once the stream was closed
+  onClose?: () => Promise<void>;
+}
+
+export interface EventStream<T> {
+  readable: ReadableStream<Uint8Array>;
+  /**
+   * Send an event with `data` as JSON. Never rejects: once the client went away, events
+   * are dropped and the producer carries on.
+   */
+  send: (data: T, event?: string) => Promise<void>;
+  // Send data as is, for markers like `[DONE]`
+  sendText: (text: string, event?: string) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+/**
+ * A server-sent events stream whose events have IDs counting up from 1, so that clients
+ * resume after the last one they saw.
+ */
+export function createEventStream<T>({ skipThrough = 0, onFrame, onClose }: EventStreamOptions = {}): EventStream<T> {
+  const encoder = new TextEncoder();
+  const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = writable.getWriter();
+  let lastId = 0;
+  let clientGone = false;
+  let closed = false;
+
+  const sendText = async (text: string, event?: string) => {
+    if (closed) return;
+
+    const id = ++lastId;
+    const frame = formatServerSentEvent({ id, event, data: text });
+    onFrame?.({ id, frame });
+    if (id <= skipThrough || clientGone) return;
+
+    await writer.write(encoder.encode(frame)).catch(() => {
+      clientGone = true;
+    });
+  };
+
+  const close = async () => {
+    if (closed) return;
+    closed = true;
+    await writer.close().catch(() => undefined);
+    await onClose?.();
+  };
+
+  return {
+    readable,
+    send: (data, event) => sendText(JSON.stringify(data), event),
+    sendText,
+    close,
+  };
+}
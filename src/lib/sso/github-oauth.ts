@@ -0,0 +1,51 @@
+import "server-only"
+
+import { SITE_URL } from "@/constants";
+import { OAuth2Client } from "arctic";
+import { getGitHubWebUrl } from "@/lib/github-client";
+import isProd from "@/utils/is-prod";
+import ms from "ms";
+import type { ResponseCookie } from "next/dist/compiled/@edge-runtime/cookies";
+
+// The state cookie lasts through authorizing and, for new users, installing the app
+export const GITHUB_STATE_COOKIE_OPTIONS: Partial<ResponseCookie> = {
+  path: "/",
+  httpOnly: true,
+  secure: isProd,
+  maxAge: Math.floor(ms("10 minutes") / 1000),
+  sameSite: "lax"
+}
+
+// Connects a GitHub account to a signed-in user, it isn't a sign-in method. The client is
+// the GitHub App's, so its user tokens reach what both the user and the app can access.
+export const getGitHubOAuthClient = () => {
+  return new OAuth2Client(
+    process.env.GITHUB_CLIENT_ID ?? "",
+    process.env.GITHUB_CLIENT_SECRET ?? "",
+    `${SITE_URL}/sso/github/callback`
+  )
+}
+
+// Scopes only apply to OAuth Apps, GitHub Apps use the permissions of the app
+export function createGitHubAuthorizationURL(state: string) {
+  return getGitHubOAuthClient().createAuthorizationURL(`${getGitHubWebUrl()}/login/oauth/authorize`, state, [])
+}
+
+export function validateGitHubAuthorizationCode(code: string) {
+  return getGitHubOAuthClient().validateAuthorizationCode(`${getGitHubWebUrl()}/login/oauth/access_token`, code, null)
+}
+
+export function refreshGitHubAccessToken(refreshToken: string) {
+  return getGitHubOAuthClient().refreshAccessToken(`${getGitHubWebUrl()}/login/oauth/access_token`, refreshToken, [])
+}
+
+/**
+ * Where users install the GitHub App on their account or organizations. With "Request user
+ * authorization (OAuth) during installation" enabled, GitHub returns to the callback with
+ * a code and the installation ID.
+ */
+export function createGitHubInstallationURL(state: string) {
+  const url = new URL(`${getGitHubWebUrl()}/apps/${process.env.GITHUB_APP_SLUG ?? ""}/installations/new`)
+  url.searchParams.set("state", state)
+  return url
+}
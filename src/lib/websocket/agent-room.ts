@@ -0,0 +1,139 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useWebSocket, type UseWebSocketOptions, type WebSocketMessage } from './client';
+import type {
+  RoomPermission,
+  RoomUser,
+  RoomWelcome,
+  RunControl,
+  RunControlAction,
+  SharedRun,
+} from '@/types/agent';
+
+// Typing indicators of others disappear when they stop sending them for this long
+const TYPING_TIMEOUT_MS = 5_000;
+// Our own indicator is refreshed at most this often while typing
+const TYPING_THROTTLE_MS = 3_000;
+
+export type UseAgentRoomOptions = Pick<UseWebSocketOptions, 'room' | 'enabled' | 'onMessage' | 'onOpen' | 'onClose' | 'onError'>;
+
+/**
+ * A room with who is in it and typing, and the agent run shared in it. Room messages
+ * are passed on to `onMessage` after the state was updated from them.
+ */
+export function useAgentRoom({ onMessage, ...options }: UseAgentRoomOptions = {}) {
+  const [users, setUsers] = useState<RoomUser[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [permission, setPermission] = useState<RoomPermission>('watch');
+  const [run, setRun] = useState<SharedRun | null>(null);
+  const [typingUsers, setTypingUsers] = useState<RoomUser[]>([]);
+  const typingTimeoutsRef = useRef(new Map<string, NodeJS.Timeout>());
+  const lastTypingSentRef = useRef(0);
+
+  const stopTyping = useCallback((userId: string) => {
+    clearTimeout(typingTimeoutsRef.current.get(userId));
+    typingTimeoutsRef.current.delete(userId);
+    setTypingUsers((current) => current.filter((user) => user.id !== userId));
+  }, []);
+
+  const handleMessage = useCallback((message: WebSocketMessage) => {
+    switch (message.type) {
+      case 'welcome': {
+        const welcome = message.data as RoomWelcome;
+        setUsers(welcome.users);
+        setCurrentUserId(welcome.user.id);
+        setPermission(welcome.permission);
+        setRun(welcome.run);
+        break;
+      }
+
+      case 'join':
+        if (message.user) {
+          const user = message.user;
+          setUsers((current) => [...current.filter((member) => member.id !== user.id), user]);
+        }
+        break;
+
+      case 'leave':
+        if (message.user) {
+          const user = message.user;
+          setUsers((current) => current.filter((member) => member.id !== user.id));
+          stopTyping(user.id);
+        }
+        break;
+
+      case 'typing': {
+        const user = message.user;
+        if (!user) break;
+
+        stopTyping(user.id);
+        if ((message.data as { typing?: boolean } | undefined)?.typing) {
+          setTypingUsers((current) => [...current, user]);
+          typingTimeoutsRef.current.set(user.id, setTimeout(() => stopTyping(user.id), TYPING_TIMEOUT_MS));
+        }
+        break;
+      }
+
+      case 'message':
+        // Whoever sent a message is done typing it
+        if (message.user) stopTyping(message.user.id);
+        break;
+
+      case 'run-start':
+        setRun(message.data as SharedRun);
+        break;
+
+      case 'run-control': {
+        const control = message.data as RunControl;
+        if (control.action === 'pause' || control.action === 'resume') {
+          setRun((current) => current?.id === control.runId ? { ...current, paused: control.action === 'pause' } : current);
+        }
+        if (message.user) stopTyping(message.user.id);
+        break;
+      }
+
+      case 'run-end':
+        setRun(null);
+        break;
+    }
+
+    onMessage?.(message);
+  }, [onMessage, stopTyping]);
+
+  const socket = useWebSocket({ ...options, onMessage: handleMessage });
+  const { sendMessage } = socket;
+
+  // Shown to the others while the input isn't empty, and cleared on send
+  const notifyTyping = useCallback((typing: boolean) => {
+    const now = Date.now();
+    if (typing && now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+
+    lastTypingSentRef.current = typing ? now : 0;
+    sendMessage({ type: 'typing', data: { typing } });
+  }, [sendMessage]);
+
+  const controlRun = useCallback((action: RunControlAction, text?: string) => {
+    if (!run) return false;
+    return sendMessage({ type: 'run-control', data: { runId: run.id, action, text } satisfies RunControl });
+  }, [run, sendMessage]);
+
+  useEffect(() => {
+    const timeouts = typingTimeoutsRef.current;
+    return () => {
+      timeouts.forEach((timeout) => clearTimeout(timeout));
+      timeouts.clear();
+    };
+  }, []);
+
+  return {
+    ...socket,
+    users,
+    currentUserId,
+    permission,
+    run,
+    typingUsers,
+    notifyTyping,
+    controlRun,
+  };
+}
+
+export type AgentRoom = ReturnType<typeof useAgentRoom>;
@@ -1,14 +1,18 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
+import type { AgentRoomTokenResponse, RoomMessage } from '@/types/agent';
 
-export interface WebSocketMessage {
-  type: string;
-  userId?: string;
-  data?: unknown;
-  timestamp: number;
-}
+export type WebSocketMessage = RoomMessage;
+
+// Answered by the room without waking it up, see WebSocketDO
+const PING_FRAME = '{"type":"ping"}';
+// The room closes connections that haven't pinged for a minute
+const PING_INTERVAL_MS = 25_000;
 
 export interface UseWebSocketOptions {
+  // `user:<id>`, `team:<id>` or `conversation:<id>`, the caller's own room when omitted
   room?: string;
+  // Stays disconnected while false
+  enabled?: boolean;
   reconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
@@ -27,7 +31,8 @@ export enum WebSocketState {
 
 export function useWebSocket(options: UseWebSocketOptions = {}) {
   const {
-    room = 'global',
+    room,
+    enabled = true,
     reconnect = true,
     reconnectInterval = 1000,
     maxReconnectAttempts = 10,
@@ -44,8 +49,18 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectCountRef = useRef(0);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const pingIntervalRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  // Last stored room message seen, reconnects replay only what came after it
+  const cursorRef = useRef<number | null>(null);
+  // Bumped by disconnect, so a connect waiting for its join token gives up
+  const connectionAttemptRef = useRef(0);
+  // The latest handlers, so passing new ones on every render doesn't reconnect
+  const handlersRef = useRef({ onMessage, onOpen, onClose, onError });
+  handlersRef.current = { onMessage, onOpen, onClose, onError };
+
+  const connect = useCallback(async () => {
+    const attempt = ++connectionAttemptRef.current;
 
-  const connect = useCallback(() => {
     try {
       // Clean up existing connection
       if (wsRef.current) {
@@ -60,12 +75,28 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
       setState(WebSocketState.CONNECTING);
       setError(null);
 
+      // Rooms are joined with a short-lived token, fetched for every connection
+      const tokenResponse = await fetch('/api/ws/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ room }),
+      });
+      const join = await tokenResponse.json() as AgentRoomTokenResponse & { error?: string; details?: string };
+      if (!tokenResponse.ok) {
+        throw new Error(join.details || join.error || `Join token request returned ${tokenResponse.status}`);
+      }
+      if (attempt !== connectionAttemptRef.current) return;
+
       // Construct WebSocket URL
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
       const host = window.location.host;
-      const url = `${protocol}//${host}/api/ws?room=${encodeURIComponent(room)}`;
+      const params = new URLSearchParams({ token: join.token });
+      if (cursorRef.current !== null) {
+        params.set('cursor', String(cursorRef.current));
+      }
+      const url = `${protocol}//${host}/api/ws?${params}`;
 
-      console.log('[WebSocket] Connecting to:', url);
+      console.log('[WebSocket] Connecting to:', join.room);
       const ws = new WebSocket(url);
       wsRef.current = ws;
 
@@ -74,20 +105,33 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
         console.log('[WebSocket] Connected');
         setState(WebSocketState.OPEN);
         reconnectCountRef.current = 0;
-        onOpen?.(event);
+
+        clearInterval(pingIntervalRef.current);
+        pingIntervalRef.current = setInterval(() => {
+          if (ws.readyState === WebSocket.OPEN) ws.send(PING_FRAME);
+        }, PING_INTERVAL_MS);
+
+        handlersRef.current.onOpen?.(event);
       };
 
       ws.onmessage = (event) => {
         try {
           const message = JSON.parse(event.data) as WebSocketMessage;
+          if (message.type === 'pong') return;
+
+          if (message.type === 'welcome' && cursorRef.current === null) {
+            // Messages stored before the first connection are replayed right after
+            cursorRef.current = 0;
+          }
+          if (message.seq !== undefined) {
+            // Replays can overlap with what was received before a reconnect
+            if (message.seq <= (cursorRef.current ?? 0)) return;
+            cursorRef.current = message.seq;
+          }
+
           console.log('[WebSocket] Message received:', message);
           setLastMessage(message);
-          onMessage?.(message);
-          
-          // Handle ping/pong for heartbeat
-          if (message.type === 'ping' && wsRef.current?.readyState === WebSocket.OPEN) {
-            wsRef.current.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
-          }
+          handlersRef.current.onMessage?.(message);
         } catch (err) {
           console.error('[WebSocket] Failed to parse message:', err);
         }
@@ -98,14 +142,15 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
         const err = new Error('WebSocket error');
         setError(err);
         setState(WebSocketState.CLOSED);
-        onError?.(event);
+        handlersRef.current.onError?.(event);
       };
 
       ws.onclose = (event) => {
         console.log('[WebSocket] Closed:', event.code, event.reason);
+        clearInterval(pingIntervalRef.current);
         setState(WebSocketState.CLOSED);
         wsRef.current = null;
-        onClose?.(event);
+        handlersRef.current.onClose?.(event);
 
         // Attempt to reconnect if enabled
         if (
@@ -132,10 +177,11 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
       setError(error);
       setState(WebSocketState.CLOSED);
     }
-  }, [room, reconnect, reconnectInterval, maxReconnectAttempts, onMessage, onOpen, onClose, onError]);
+  }, [room, reconnect, reconnectInterval, maxReconnectAttempts]);
 
   const disconnect = useCallback(() => {
     console.log('[WebSocket] Disconnecting');
+    connectionAttemptRef.current++;
     
     // Clear reconnect timeout
     if (reconnectTimeoutRef.current) {
@@ -145,6 +191,8 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     
     // Reset reconnect count
     reconnectCountRef.current = maxReconnectAttempts;
+
+    clearInterval(pingIntervalRef.current);
     
     // Close WebSocket
     if (wsRef.current) {
@@ -170,14 +218,20 @@ export function useWebSocket(options: UseWebSocketOptions = {}) {
     return false;
   }, []);
 
+  // Cursors are per room
+  useEffect(() => {
+    cursorRef.current = null;
+  }, [room]);
+
   // Auto-connect on mount and clean up on unmount
   useEffect(() => {
+    if (!enabled) return;
     connect();
     
     return () => {
       disconnect();
     };
-  }, [connect, disconnect]);
+  }, [enabled, connect, disconnect]);
 
   return {
     state,
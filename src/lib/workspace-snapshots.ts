@@ -0,0 +1,287 @@
+import "server-only";
+
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { createId } from "@paralleldrive/cuid2";
+import { and, isNotNull, isNull, lt, or, eq, gt } from "drizzle-orm";
+import type { ISandbox } from "@cloudflare/sandbox";
+import { getDB } from "@/db";
+import { agentConversationTable } from "@/db/schema";
+import { IDLE_SNAPSHOT_MINUTES, MAX_WORKSPACE_SNAPSHOT_MB } from "@/constants";
+import { getActivePlan } from "@/utils/plans";
+import { getSubscriberPlanState } from "@/utils/subscriptions";
+import { SandboxOperations } from "@/lib/agent-service";
+import { DEFAULT_CONVERSATION_ID } from "@/lib/agent-conversation";
+import { getScopedSandbox, type SandboxScope } from "@/lib/sandbox-access";
+import type { WorkspaceSnapshot, WorkspaceSnapshotReason } from "@/types/agent";
+
+export const WORKSPACE_DIR = "/workspace";
+
+const SNAPSHOT_REASONS: WorkspaceSnapshotReason[] = ["manual", "before-command", "before-restore", "idle"];
+
+// Snapshot IDs start with the creation time so keys list in order
+export const SNAPSHOT_ID_PATTERN = /^\d+-[a-z0-9]+$/;
+
+// Conversations snapshotted per run of the idle job
+const IDLE_SNAPSHOT_BATCH_SIZE = 20;
+
+// Commands that can wipe work in the workspace
+const DESTRUCTIVE_COMMAND_PATTERNS = [
+  /\brm\s+(-[a-zA-Z]*[rRf][a-zA-Z]*\s+|--recursive\s+|--force\s+)/,
+  /\bgit\s+(reset\s+--hard|clean\b|checkout\s+(--\s+)?\.|restore\b|stash\s+(drop|clear)\b)/,
+  /\bfind\b.*\s-delete\b/,
+  /\btruncate\b/,
+];
+
+function getBucket() {
+  // Cast through unknown first due to CloudflareEnv type limitations
+  const { env } = getCloudflareContext();
+  const bucket = (env as unknown as { WORKSPACE_SNAPSHOTS?: R2Bucket }).WORKSPACE_SNAPSHOTS;
+  if (!bucket) {
+    throw new Error("Workspace snapshot bucket binding not found");
+  }
+
+  return bucket;
+}
+
+function getSnapshotPrefix({ userId, teamId, conversationId }: SandboxScope) {
+  return `snapshots/${userId}/${teamId ?? "personal"}/${conversationId ?? DEFAULT_CONVERSATION_ID}/`;
+}
+
+function toSnapshot(object: R2Object, prefix: string): WorkspaceSnapshot {
+  const reason = object.customMetadata?.reason as WorkspaceSnapshotReason | undefined;
+
+  return {
+    id: object.key.slice(prefix.length).replace(/\.tar\.gz$/, ""),
+    size: object.size,
+    createdAt: Number(object.customMetadata?.createdAt) || object.uploaded.getTime(),
+    reason: reason && SNAPSHOT_REASONS.includes(reason) ? reason : "manual",
+  };
+}
+
+/**
+ * How many snapshots the plan the sandbox is billed to keeps per conversation
+ */
+async function getSnapshotRetention({ userId, teamId }: SandboxScope) {
+  const state = await getSubscriberPlanState({ userId, teamId });
+  const plan = getActivePlan({
+    planId: state?.planId ?? null,
+    planExpiresAt: state?.planExpiresAt ?? null,
+  });
+
+  return plan.snapshotRetention;
+}
+
+/**
+ * A conversation's snapshots, newest first
+ */
+export async function listWorkspaceSnapshots(scope: SandboxScope) {
+  const bucket = getBucket();
+  const prefix = getSnapshotPrefix(scope);
+
+  const snapshots: WorkspaceSnapshot[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await bucket.list({ prefix, cursor, include: ["customMetadata"] });
+    snapshots.push(...result.objects.map((object) => toSnapshot(object, prefix)));
+    cursor = result.truncated ? result.cursor : undefined;
+  } while (cursor);
+
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Delete the oldest snapshots beyond the plan's retention limit, except `keepId`
+ */
+async function pruneWorkspaceSnapshots(scope: SandboxScope, keepId?: string) {
+  const retention = await getSnapshotRetention(scope);
+  const snapshots = await listWorkspaceSnapshots(scope);
+  const expired = snapshots.slice(retention).filter((snapshot) => snapshot.id !== keepId);
+
+  if (expired.length > 0) {
+    const prefix = getSnapshotPrefix(scope);
+    await getBucket().delete(expired.map((snapshot) => `${prefix}${snapshot.id}.tar.gz`));
+  }
+}
+
+async function isWorkspaceEmpty(sandbox: ISandbox) {
+  const result = await sandbox.exec(`find ${WORKSPACE_DIR} -mindepth 1 -print -quit 2>/dev/null`);
+  return !result.stdout.trim();
+}
+
+/**
+ * Archive the workspace and store it in R2. Archives are copied out of the sandbox in
+ * chunks and stored as a multipart upload, so they're never held in memory at once.
+ * Returns null for an empty workspace, e.g. after the container was recycled, so it
+ * doesn't push real snapshots out of the retention limit. `keepId` is never pruned.
+ */
+export async function createWorkspaceSnapshot({
+  sandbox,
+  scope,
+  reason,
+  keepId,
+}: {
+  sandbox: ISandbox;
+  scope: SandboxScope;
+  reason: WorkspaceSnapshotReason;
+  keepId?: string;
+}): Promise<WorkspaceSnapshot | null> {
+  if (await isWorkspaceEmpty(sandbox)) {
+    return null;
+  }
+
+  const bucket = getBucket();
+  const operations = new SandboxOperations(sandbox);
+
+  const createdAt = Date.now();
+  const id = `${createdAt}-${createId()}`;
+  const archivePath = `/tmp/snapshot-${id}.tar.gz`;
+
+  try {
+    const size = await operations.archiveDirectory(WORKSPACE_DIR, archivePath);
+    if (size > MAX_WORKSPACE_SNAPSHOT_MB * 1024 * 1024) {
+      throw new Error(`The workspace archive is larger than the ${MAX_WORKSPACE_SNAPSHOT_MB}MB snapshot limit`);
+    }
+
+    const key = `${getSnapshotPrefix(scope)}${id}.tar.gz`;
+    const upload = await bucket.createMultipartUpload(key, {
+      httpMetadata: { contentType: "application/gzip" },
+      customMetadata: { reason, createdAt: String(createdAt) },
+    });
+
+    try {
+      const parts: R2UploadedPart[] = [];
+      for await (const chunk of operations.readFileChunks(archivePath)) {
+        parts.push(await upload.uploadPart(parts.length + 1, chunk));
+      }
+      await upload.complete(parts);
+    } catch (error) {
+      await upload.abort();
+      throw error;
+    }
+
+    if (scope.conversationId && scope.conversationId !== DEFAULT_CONVERSATION_ID) {
+      await getDB().update(agentConversationTable)
+        .set({ lastSnapshotAt: new Date(createdAt) })
+        .where(
+          and(
+            eq(agentConversationTable.id, scope.conversationId),
+            eq(agentConversationTable.userId, scope.userId)
+          )
+        );
+    }
+
+    await pruneWorkspaceSnapshots(scope, keepId);
+
+    return { id, size, createdAt, reason };
+  } finally {
+    await sandbox.exec(`rm -f ${archivePath}`);
+  }
+}
+
+/**
+ * Replace the workspace with a snapshot. The current workspace is snapshotted first so
+ * a restore can be undone.
+ */
+export async function restoreWorkspaceSnapshot({
+  sandbox,
+  scope,
+  snapshotId,
+}: {
+  sandbox: ISandbox;
+  scope: SandboxScope;
+  snapshotId: string;
+}) {
+  const bucket = getBucket();
+  const key = `${getSnapshotPrefix(scope)}${snapshotId}.tar.gz`;
+  if (!await bucket.head(key)) {
+    return null;
+  }
+
+  const backup = await createWorkspaceSnapshot({ sandbox, scope, reason: "before-restore", keepId: snapshotId });
+
+  const object = await bucket.get(key);
+  if (!object) {
+    return null;
+  }
+
+  const operations = new SandboxOperations(sandbox);
+  const archivePath = `/tmp/restore-${snapshotId}.tar.gz`;
+  try {
+    await operations.writeFileStream(archivePath, object.body);
+    await operations.extractArchive(archivePath, WORKSPACE_DIR);
+  } finally {
+    await sandbox.exec(`rm -f ${archivePath}`);
+  }
+
+  return { restored: toSnapshot(object, getSnapshotPrefix(scope)), backup };
+}
+
+/**
+ * Whether a command can destroy files, so the workspace should be snapshotted first.
+ * This is a best-effort check, not a guarantee.
+ */
+export function isDestructiveCommand(command: string) {
+  return DESTRUCTIVE_COMMAND_PATTERNS.some((pattern) => pattern.test(command));
+}
+
+/**
+ * Snapshot conversations that went idle since their last snapshot. Meant to run on a
+ * schedule; each run handles a batch of conversations.
+ */
+export async function snapshotIdleWorkspaces() {
+  const db = getDB();
+  const idleSince = new Date(Date.now() - IDLE_SNAPSHOT_MINUTES * 60 * 1000);
+
+  const conversations = await db.query.agentConversationTable.findMany({
+    where: and(
+      isNotNull(agentConversationTable.sandboxId),
+      isNull(agentConversationTable.archivedAt),
+      lt(agentConversationTable.lastActivityAt, idleSince),
+      or(
+        isNull(agentConversationTable.lastSnapshotAt),
+        gt(agentConversationTable.lastActivityAt, agentConversationTable.lastSnapshotAt)
+      )
+    ),
+    orderBy: (table, { asc }) => [asc(table.lastActivityAt)],
+    limit: IDLE_SNAPSHOT_BATCH_SIZE,
+  });
+
+  const { env } = getCloudflareContext();
+  const report = { snapshotted: 0, skipped: 0, failed: [] as { conversationId: string; error: string }[] };
+
+  for (const conversation of conversations) {
+    const scope: SandboxScope = {
+      userId: conversation.userId,
+      teamId: conversation.sandboxTeamId ?? undefined,
+      conversationId: conversation.id,
+    };
+
+    try {
+      const { sandbox } = await getScopedSandbox(env, scope);
+      const snapshot = await createWorkspaceSnapshot({ sandbox, scope, reason: "idle" });
+      if (snapshot) {
+        report.snapshotted++;
+        continue;
+      }
+
+      // Nothing to snapshot in an empty workspace, mark it so it leaves the batch until it's used again
+      report.skipped++;
+      await db.update(agentConversationTable)
+        .set({ lastSnapshotAt: new Date() })
+        .where(eq(agentConversationTable.id, conversation.id));
+    } catch (error) {
+      console.error(`Idle snapshot of conversation ${conversation.id} failed:`, error);
+      report.failed.push({
+        conversationId: conversation.id,
+        error: error instanceof Error ? error.message : "Unknown error occurred",
+      });
+
+      // Don't retry a broken conversation on every run until it's used again
+      await db.update(agentConversationTable)
+        .set({ lastSnapshotAt: new Date() })
+        .where(eq(agentConversationTable.id, conversation.id));
+    }
+  }
+
+  return report;
+}
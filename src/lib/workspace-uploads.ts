@@ -0,0 +1,90 @@
+import "server-only";
+
+import type { ISandbox } from "@cloudflare/sandbox";
+import { getActivePlan } from "@/utils/plans";
+import { getSubscriberPlanState } from "@/utils/subscriptions";
+import { shellQuote } from "@/lib/agent-helpers/shell";
+import { SandboxOperations } from "@/lib/agent-service";
+import type { SandboxScope } from "@/lib/sandbox-access";
+
+export const UPLOADS_DIR = "/workspace/uploads";
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/**
+ * Upload limits in bytes of the plan the sandbox is billed to: the team's plan for team
+ * sandboxes, the user's own plan otherwise.
+ */
+export async function getUploadLimits({ userId, teamId }: SandboxScope) {
+  const state = await getSubscriberPlanState({ userId, teamId });
+  const plan = getActivePlan({
+    planId: state?.planId ?? null,
+    planExpiresAt: state?.planExpiresAt ?? null,
+  });
+
+  return {
+    planName: plan.name,
+    maxFileSize: plan.maxUploadFileMb * BYTES_PER_MB,
+    quota: plan.uploadQuotaMb * BYTES_PER_MB,
+  };
+}
+
+/**
+ * Bytes currently stored in the uploads directory. Files removed through the file
+ * browser free up quota again.
+ */
+export async function getUploadsSize(sandbox: Pick<ISandbox, "exec">) {
+  const result = await sandbox.exec(`du -sb ${shellQuote(UPLOADS_DIR)} 2>/dev/null || echo 0`);
+  return parseInt(result.stdout.trim().split(/\s+/)[0] ?? "", 10) || 0;
+}
+
+/**
+ * Turn an uploaded file name into a safe name inside the uploads directory
+ */
+export function sanitizeUploadName(name: string) {
+  const baseName = name.split(/[\\/]/).pop() ?? "";
+  const safeName = baseName.replace(/[^\w.\- ]+/g, "_").replace(/^\.+/, "").trim();
+  return safeName || `upload-${Date.now()}`;
+}
+
+/**
+ * An upload went past `maxBytes` while it was streamed
+ */
+export class UploadTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Upload is larger than ${maxBytes} bytes`);
+    this.name = "UploadTooLargeError";
+  }
+}
+
+/**
+ * Stream a file into the uploads directory, so large uploads are never held in memory at
+ * once. The stream fails with UploadTooLargeError past `maxBytes`, and a failed upload
+ * leaves no partial file behind.
+ */
+export async function writeUpload(
+  sandbox: ISandbox,
+  stream: ReadableStream<Uint8Array>,
+  { path, maxBytes }: { path: string; maxBytes: number }
+) {
+  let bytes = 0;
+  const limited = stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytes += chunk.byteLength;
+      if (bytes > maxBytes) {
+        controller.error(new UploadTooLargeError(maxBytes));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  }));
+
+  await sandbox.mkdir(UPLOADS_DIR, { recursive: true });
+  try {
+    return await new SandboxOperations(sandbox).writeFileStream(path, limited);
+  } catch (error) {
+    await sandbox.exec(`rm -f ${shellQuote(path)} ${shellQuote(`${path}.part`)}`)
+      .catch((removeError) => console.warn(`Failed to remove the partial upload ${path}:`, removeError));
+    throw error;
+  }
+}
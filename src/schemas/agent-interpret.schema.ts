@@ -1,10 +1,16 @@
 import { z } from "zod";
+import { secretNamesSchema } from "./secret.schema";
 
 // Agent interpret request validation schema
 export const agentInterpretSchema = z.object({
   message: z.string().optional(),
   code: z.string().optional(),
   language: z.enum(['python', 'javascript', 'typescript']).default('python'),
+  conversationId: z.string().min(1).max(100).optional(),
+  // Bill the run to this team's credit pool instead of the user's own credits
+  teamId: z.string().min(1).max(100).optional(),
+  // Names of the user's or team's secrets to expose to the agent's code as environment variables
+  secrets: secretNamesSchema.optional(),
 }).refine(
   (data) => data.message || data.code,
   {
@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const gitCredentialSchema = z.object({
+  host: z.string()
+    .trim()
+    .min(1, "Host is required")
+    .regex(/^[a-zA-Z0-9.-]+(:\d+)?$/, "Enter a host name like github.com, without https://"),
+  username: z.string().trim().min(1, "Username is required").max(255),
+  token: z.string().trim().min(1, "Token is required").max(1000),
+});
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { secretNamesSchema } from "@/schemas/secret.schema";
+
+// Keeps a notebook, outputs included, well below the storage limits of its conversation
+export const MAX_NOTEBOOK_CELLS = 500;
+const MAX_CELL_SOURCE_LENGTH = 100_000;
+
+export const notebookLanguageSchema = z.enum(["python", "javascript"]);
+
+// nbformat 4.5 cell IDs
+export const notebookCellIdSchema = z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, "Invalid cell ID");
+
+export const notebookCellInputSchema = z.object({
+  id: notebookCellIdSchema.optional(),
+  type: z.enum(["code", "markdown"]),
+  source: z.string().max(MAX_CELL_SOURCE_LENGTH),
+});
+
+const notebookNameSchema = z.string().trim().min(1, "Name is required").max(255);
+
+export const notebookCreateSchema = z.object({
+  name: notebookNameSchema.default("Untitled"),
+  language: notebookLanguageSchema.default("python"),
+  secrets: secretNamesSchema.default([]),
+  cells: z.array(notebookCellInputSchema).max(MAX_NOTEBOOK_CELLS).default([]),
+});
+
+export const notebookUpdateSchema = z.object({
+  name: notebookNameSchema.optional(),
+  secrets: secretNamesSchema.optional(),
+  cells: z.array(notebookCellInputSchema).max(MAX_NOTEBOOK_CELLS).optional(),
+});
+
+// Runs every code cell in order without `cellIds`
+export const notebookRunSchema = z.object({
+  cellIds: z.array(notebookCellIdSchema).min(1).max(MAX_NOTEBOOK_CELLS).optional(),
+});
+
+// Multiline strings in .ipynb files are either a string or a list of lines
+const ipynbTextSchema = z.union([z.string(), z.array(z.string())])
+  .transform((text) => Array.isArray(text) ? text.join("") : text);
+
+const ipynbOutputSchema = z.discriminatedUnion("output_type", [
+  z.object({
+    output_type: z.literal("stream"),
+    name: z.enum(["stdout", "stderr"]),
+    text: ipynbTextSchema,
+  }),
+  z.object({
+    output_type: z.enum(["execute_result", "display_data"]),
+    data: z.record(z.string(), z.unknown()),
+  }),
+  z.object({
+    output_type: z.literal("error"),
+    ename: z.string(),
+    evalue: z.string(),
+    traceback: z.array(z.string()),
+  }),
+]);
+
+const ipynbCellSchema = z.object({
+  id: z.string().optional(),
+  cell_type: z.enum(["code", "markdown", "raw"]),
+  source: ipynbTextSchema,
+  outputs: z.array(ipynbOutputSchema).optional(),
+  execution_count: z.number().int().nullable().optional(),
+});
+
+// The parts of a Jupyter notebook (nbformat 4) that are imported
+export const ipynbSchema = z.object({
+  nbformat: z.literal(4, { errorMap: () => ({ message: "Only nbformat 4 notebooks are supported" }) }),
+  metadata: z.object({
+    kernelspec: z.object({ language: z.string().optional(), name: z.string().optional() }).passthrough().optional(),
+    language_info: z.object({ name: z.string().optional() }).passthrough().optional(),
+  }).passthrough().default({}),
+  cells: z.array(ipynbCellSchema).max(MAX_NOTEBOOK_CELLS),
+});
+
+export const notebookImportSchema = z.object({
+  // Defaults to the name of the imported file
+  name: notebookNameSchema.optional(),
+  notebook: ipynbSchema,
+  secrets: secretNamesSchema.default([]),
+});
@@ -0,0 +1,26 @@
+import { z } from "zod";
+import { PREVIEW_ACCESS } from "@/db/schema";
+import { isPreviewablePort } from "@/lib/sandbox-ports";
+
+export const previewAccessSchema = z.nativeEnum(PREVIEW_ACCESS);
+
+const previewNameSchema = z.string().trim().min(1).max(100);
+
+export const previewExposeSchema = z.object({
+  port: z.coerce.number()
+    .int()
+    .refine(isPreviewablePort, "Ports below 1024 and the sandbox's own ports (3000, 8787, 8888) can't be previewed"),
+  name: previewNameSchema.optional(),
+  access: previewAccessSchema.optional(),
+});
+
+export const previewUpdateSchema = z.object({
+  // null clears the name
+  name: previewNameSchema.nullable().optional(),
+  access: previewAccessSchema.optional(),
+});
+
+export const previewTokenSchema = z.object({
+  // A long-lived link for anyone instead of one for the signed-in caller
+  share: z.boolean().default(false),
+});
@@ -0,0 +1,10 @@
+import { z } from "zod";
+import { secretNameSchema, secretNamesSchema } from "@/schemas/secret.schema";
+
+export const processStartSchema = z.object({
+  command: z.string().trim().min(1, "Command is required").max(10_000),
+  cwd: z.string().trim().min(1).max(4096).optional(),
+  // Environment variable names follow the same shell rules as secret names
+  env: z.record(secretNameSchema, z.string().max(32 * 1024)).default({}),
+  secrets: secretNamesSchema.default([]),
+});
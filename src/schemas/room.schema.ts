@@ -0,0 +1,11 @@
+import { z } from "zod";
+
+export const roomSchema = z.string()
+  .trim()
+  .max(300)
+  .regex(/^(user|team|conversation):[A-Za-z0-9_-]+$/, "Rooms are user:<id>, team:<id> or conversation:<id>");
+
+export const roomTokenSchema = z.object({
+  // The caller's own room when omitted
+  room: roomSchema.optional(),
+});
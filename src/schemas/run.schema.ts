@@ -0,0 +1,6 @@
+import { z } from "zod";
+
+export const runCancelSchema = z.object({
+  // Recorded with the run, "Canceled by <name>" when omitted
+  reason: z.string().trim().min(1).max(500).optional(),
+});
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+// Secrets are exposed as environment variables, so names follow shell rules
+export const secretNameSchema = z.string()
+  .trim()
+  .min(1, "Name is required")
+  .max(255)
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Use letters, digits and underscores, not starting with a digit");
+
+export const secretSchema = z.object({
+  name: secretNameSchema,
+  value: z.string().min(1, "Value is required").max(32 * 1024),
+  // Share the secret with a team instead of keeping it personal
+  teamId: z.string().min(1).max(100).optional(),
+});
+
+// Names of the secrets to inject into a run
+export const secretNamesSchema = z.array(secretNameSchema).max(50);
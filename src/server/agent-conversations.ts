@@ -0,0 +1,188 @@
+import "server-only";
+import { getDB } from "@/db";
+import { agentConversationTable } from "@/db/schema";
+import { getAgentStub } from "@/lib/agent-conversation";
+import { deleteConversationPreviews } from "@/server/sandbox-previews";
+import { ZSAError } from "zsa";
+import { and, desc, eq, isNull } from "drizzle-orm";
+
+const MAX_TITLE_LENGTH = 80;
+const UNTITLED_CONVERSATION = "New conversation";
+
+/**
+ * Derive a conversation title from the first message the user sent
+ */
+export function titleFromMessage(message: string) {
+  const firstLine = message.replace(/```[\s\S]*?```/g, " ").trim().split("\n")[0]?.trim() ?? "";
+  const title = firstLine.replace(/\s+/g, " ");
+
+  if (!title) {
+    return UNTITLED_CONVERSATION;
+  }
+
+  return title.length > MAX_TITLE_LENGTH
+    ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : title;
+}
+
+/**
+ * List a user's conversations, most recently active first
+ */
+export async function getAgentConversations({
+  userId,
+  includeArchived = false,
+}: {
+  userId: string;
+  includeArchived?: boolean;
+}) {
+  const db = getDB();
+
+  return db.query.agentConversationTable.findMany({
+    where: includeArchived
+      ? eq(agentConversationTable.userId, userId)
+      : and(
+        eq(agentConversationTable.userId, userId),
+        isNull(agentConversationTable.archivedAt)
+      ),
+    orderBy: [desc(agentConversationTable.lastActivityAt)],
+  });
+}
+
+/**
+ * Get a conversation, making sure it belongs to the user
+ */
+export async function getAgentConversation({
+  userId,
+  conversationId,
+}: {
+  userId: string;
+  conversationId: string;
+}) {
+  const db = getDB();
+
+  const conversation = await db.query.agentConversationTable.findFirst({
+    where: and(
+      eq(agentConversationTable.id, conversationId),
+      eq(agentConversationTable.userId, userId)
+    ),
+  });
+
+  if (!conversation) {
+    throw new ZSAError("NOT_FOUND", "Conversation not found");
+  }
+
+  return conversation;
+}
+
+export async function createAgentConversation({
+  userId,
+  firstMessage,
+}: {
+  userId: string;
+  firstMessage?: string;
+}) {
+  const db = getDB();
+
+  const [conversation] = await db.insert(agentConversationTable).values({
+    userId,
+    title: firstMessage ? titleFromMessage(firstMessage) : UNTITLED_CONVERSATION,
+  }).returning();
+
+  return conversation;
+}
+
+/**
+ * Record activity on a conversation and the sandbox it ran in.
+ * Conversations without a row (like the default one) are ignored.
+ */
+export async function touchAgentConversation({
+  userId,
+  conversationId,
+  sandboxId,
+  teamId,
+}: {
+  userId: string;
+  conversationId: string;
+  sandboxId?: string;
+  // Team of the sandbox, unset for the user's own sandbox
+  teamId?: string;
+}) {
+  const db = getDB();
+
+  await db.update(agentConversationTable)
+    .set({
+      lastActivityAt: new Date(),
+      ...(sandboxId ? { sandboxId, sandboxTeamId: teamId ?? null } : {}),
+    })
+    .where(
+      and(
+        eq(agentConversationTable.id, conversationId),
+        eq(agentConversationTable.userId, userId)
+      )
+    );
+}
+
+export async function renameAgentConversation({
+  userId,
+  conversationId,
+  title,
+}: {
+  userId: string;
+  conversationId: string;
+  title: string;
+}) {
+  await getAgentConversation({ userId, conversationId });
+
+  const db = getDB();
+  const [conversation] = await db.update(agentConversationTable)
+    .set({ title })
+    .where(eq(agentConversationTable.id, conversationId))
+    .returning();
+
+  return conversation;
+}
+
+export async function setAgentConversationArchived({
+  userId,
+  conversationId,
+  archived,
+}: {
+  userId: string;
+  conversationId: string;
+  archived: boolean;
+}) {
+  await getAgentConversation({ userId, conversationId });
+
+  const db = getDB();
+  const [conversation] = await db.update(agentConversationTable)
+    .set({ archivedAt: archived ? new Date() : null })
+    .where(eq(agentConversationTable.id, conversationId))
+    .returning();
+
+  // Preview links of archived conversations expire at once, shared ones included
+  if (archived) {
+    await deleteConversationPreviews({ userId, conversationId });
+  }
+
+  return conversation;
+}
+
+/**
+ * Delete a conversation together with the messages stored in its AgentDO
+ */
+export async function deleteAgentConversation({
+  userId,
+  conversationId,
+}: {
+  userId: string;
+  conversationId: string;
+}) {
+  await getAgentConversation({ userId, conversationId });
+
+  await getAgentStub({ userId, conversationId }).destroy();
+  await deleteConversationPreviews({ userId, conversationId });
+
+  const db = getDB();
+  await db.delete(agentConversationTable)
+    .where(eq(agentConversationTable.id, conversationId));
+}
@@ -0,0 +1,97 @@
+import "server-only";
+import { getDB } from "@/db";
+import { gitCredentialTable } from "@/db/schema";
+import { decryptSecret, encryptSecret } from "@/utils/encryption";
+import { ZSAError } from "zsa";
+import { and, asc, eq } from "drizzle-orm";
+
+/**
+ * A user's git credentials, without the tokens
+ */
+export async function getGitCredentials(userId: string) {
+  const db = getDB();
+
+  return db.query.gitCredentialTable.findMany({
+    where: eq(gitCredentialTable.userId, userId),
+    columns: {
+      id: true,
+      host: true,
+      username: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+    orderBy: [asc(gitCredentialTable.host)],
+  });
+}
+
+/**
+ * Store the credential for a host, replacing the one the user had for it
+ */
+export async function saveGitCredential({
+  userId,
+  host,
+  username,
+  token,
+}: {
+  userId: string;
+  host: string;
+  username: string;
+  token: string;
+}) {
+  const db = getDB();
+  const normalizedHost = host.trim().toLowerCase();
+  const encryptedToken = await encryptSecret(token);
+
+  const [credential] = await db.insert(gitCredentialTable).values({
+    userId,
+    host: normalizedHost,
+    username,
+    encryptedToken,
+  }).onConflictDoUpdate({
+    target: [gitCredentialTable.userId, gitCredentialTable.host],
+    set: { username, encryptedToken },
+  }).returning({ id: gitCredentialTable.id });
+
+  return { id: credential.id, host: normalizedHost, username };
+}
+
+export async function deleteGitCredential({
+  userId,
+  credentialId,
+}: {
+  userId: string;
+  credentialId: string;
+}) {
+  const db = getDB();
+
+  const [deleted] = await db.delete(gitCredentialTable)
+    .where(
+      and(
+        eq(gitCredentialTable.id, credentialId),
+        eq(gitCredentialTable.userId, userId)
+      )
+    )
+    .returning({ id: gitCredentialTable.id });
+
+  if (!deleted) {
+    throw new ZSAError("NOT_FOUND", "Git credential not found");
+  }
+}
+
+/**
+ * A user's git credentials with decrypted tokens, for handing to git in the sandbox.
+ * Never return these to the browser.
+ */
+export async function getDecryptedGitCredentials(userId: string) {
+  const db = getDB();
+
+  const credentials = await db.query.gitCredentialTable.findMany({
+    where: eq(gitCredentialTable.userId, userId),
+  });
+
+  return Promise.all(credentials.map(async (credential) => ({
+    host: credential.host,
+    username: credential.username,
+    token: await decryptSecret(credential.encryptedToken),
+  })));
+}
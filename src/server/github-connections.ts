@@ -0,0 +1,136 @@
+import "server-only";
+import { getDB } from "@/db";
+import { githubConnectionTable } from "@/db/schema";
+import { decryptSecret, encryptSecret } from "@/utils/encryption";
+import { refreshGitHubAccessToken } from "@/lib/sso/github-oauth";
+import { GitHubClient, getGitHubGitHost } from "@/lib/github-client";
+import { eq } from "drizzle-orm";
+import type { OAuth2Tokens } from "arctic";
+
+// Tokens are refreshed this long before they expire, so they don't run out mid-request
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Encrypted token columns for the user tokens GitHub returned. They expire and come with a
+// refresh token unless token expiration is turned off for the GitHub App.
+async function toTokenColumns(tokens: OAuth2Tokens) {
+  return {
+    encryptedAccessToken: await encryptSecret(tokens.accessToken()),
+    encryptedRefreshToken: tokens.hasRefreshToken() ? await encryptSecret(tokens.refreshToken()) : null,
+    accessTokenExpiresAt: "expires_in" in tokens.data ? tokens.accessTokenExpiresAt() : null,
+  };
+}
+
+/**
+ * The user's connected GitHub account, without its tokens
+ */
+export async function getGitHubConnection(userId: string) {
+  const db = getDB();
+
+  return db.query.githubConnectionTable.findFirst({
+    where: eq(githubConnectionTable.userId, userId),
+    columns: {
+      id: true,
+      githubUserId: true,
+      login: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Store the account and user tokens of a completed OAuth flow of the GitHub App, replacing
+ * an earlier connection. The agent acts with the user's token, so it only reaches
+ * repositories both the user and an installation of the app can access. Returns null when
+ * the user can't access any installation yet.
+ */
+export async function saveGitHubConnection({
+  userId,
+  tokens,
+}: {
+  userId: string;
+  tokens: OAuth2Tokens;
+}) {
+  const db = getDB();
+  const client = new GitHubClient(tokens.accessToken());
+  const [githubUser, installations] = await Promise.all([
+    client.getAuthenticatedUser(),
+    client.listInstallations(),
+  ]);
+  if (installations.length === 0) {
+    return null;
+  }
+
+  const values = {
+    githubUserId: githubUser.id,
+    login: githubUser.login,
+    ...await toTokenColumns(tokens),
+  };
+
+  await db.insert(githubConnectionTable)
+    .values({ userId, ...values })
+    .onConflictDoUpdate({ target: githubConnectionTable.userId, set: values });
+
+  return { login: githubUser.login };
+}
+
+export async function deleteGitHubConnection(userId: string) {
+  const db = getDB();
+
+  await db.delete(githubConnectionTable).where(eq(githubConnectionTable.userId, userId));
+}
+
+/**
+ * A valid user token of the connected GitHub account, refreshed when it is about to expire,
+ * with the account's login, or null when no account is connected. Never return the token
+ * to the browser.
+ */
+async function getGitHubUserToken(userId: string) {
+  const db = getDB();
+
+  const connection = await db.query.githubConnectionTable.findFirst({
+    where: eq(githubConnectionTable.userId, userId),
+  });
+  if (!connection) {
+    return null;
+  }
+
+  const expiresAt = connection.accessTokenExpiresAt?.getTime();
+  if (!expiresAt || expiresAt - Date.now() > REFRESH_MARGIN_MS || !connection.encryptedRefreshToken) {
+    return { login: connection.login, token: await decryptSecret(connection.encryptedAccessToken) };
+  }
+
+  const tokens = await refreshGitHubAccessToken(await decryptSecret(connection.encryptedRefreshToken));
+  await db.update(githubConnectionTable)
+    .set(await toTokenColumns(tokens))
+    .where(eq(githubConnectionTable.id, connection.id));
+
+  return { login: connection.login, token: tokens.accessToken() };
+}
+
+/**
+ * A valid user token of the connected GitHub account, or null when there is none.
+ * Never return it to the browser.
+ */
+export async function getGitHubAccessToken(userId: string) {
+  return (await getGitHubUserToken(userId))?.token ?? null;
+}
+
+/**
+ * A GitHub API client for the user's connected account, or null when there is none
+ */
+export async function getGitHubClient(userId: string) {
+  const token = await getGitHubAccessToken(userId);
+  return token ? new GitHubClient(token) : null;
+}
+
+/**
+ * The connected account as a credential git can use for HTTPS remotes on GitHub
+ */
+export async function getGitHubGitCredential(userId: string) {
+  const user = await getGitHubUserToken(userId);
+  if (!user) {
+    return null;
+  }
+
+  return { host: getGitHubGitHost(), username: user.login, token: user.token };
+}
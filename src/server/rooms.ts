@@ -0,0 +1,112 @@
+import "server-only";
+import { getDB } from "@/db";
+import { agentConversationTable, SYSTEM_ROLES_ENUM, TEAM_PERMISSIONS } from "@/db/schema";
+import type { SessionValidationResult } from "@/types";
+import type { AgentRoomTokenResponse, RoomPermission } from "@/types/agent";
+import { signToken, verifyToken } from "@/utils/signed-token";
+import { hasSystemRole, hasTeamMembership, hasTeamPermission } from "@/utils/team-auth";
+import { ZSAError } from "zsa";
+import { eq } from "drizzle-orm";
+
+type RoomSession = NonNullable<SessionValidationResult>;
+
+type RoomType = "user" | "team" | "conversation";
+
+// Join tokens are only used to open the connection, reconnects fetch a new one
+const JOIN_TOKEN_TTL_SECONDS = 60;
+
+export interface RoomJoinTokenPayload {
+  room: string;
+  userId: string;
+  userName: string;
+  permission: RoomPermission;
+  // Expiry as seconds since the epoch
+  exp: number;
+}
+
+function getRoomTokenSecret() {
+  const secret = process.env.ROOM_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("ROOM_TOKEN_SECRET is not set");
+  }
+  return secret;
+}
+
+function parseRoom(room: string) {
+  const separator = room.indexOf(":");
+  return { type: room.slice(0, separator) as RoomType, id: room.slice(separator + 1) };
+}
+
+// The name other users see in the room
+export function getRoomUserName(session: RoomSession) {
+  return [session.user.firstName, session.user.lastName].filter(Boolean).join(" ") || session.user.email || session.user.id;
+}
+
+/**
+ * What the session may do in a room, throws when it may not join at all:
+ * - `user:<id>` is the user's own room
+ * - `team:<id>` is open to the team's members, guests only watch
+ * - `conversation:<id>` is the owner's to post in and steer the agent, members of the
+ *   team its sandbox belongs to can watch, and steer with the team's permission to
+ */
+export async function authorizeRoom(session: RoomSession, room: string): Promise<RoomPermission> {
+  const { type, id } = parseRoom(room);
+
+  switch (type) {
+    case "user":
+      if (id !== session.user.id) {
+        throw new ZSAError("FORBIDDEN", "You can't join another user's room");
+      }
+      return "post";
+
+    case "team": {
+      const { hasAccess } = await hasTeamMembership(id);
+      if (!hasAccess) {
+        throw new ZSAError("FORBIDDEN", "You are not a member of this team");
+      }
+      return await hasSystemRole(id, SYSTEM_ROLES_ENUM.GUEST) ? "watch" : "post";
+    }
+
+    case "conversation": {
+      const db = getDB();
+      const conversation = await db.query.agentConversationTable.findFirst({
+        where: eq(agentConversationTable.id, id),
+      });
+
+      if (conversation?.userId === session.user.id) return "steer";
+      if (conversation?.sandboxTeamId && (await hasTeamMembership(conversation.sandboxTeamId)).hasAccess) {
+        return await hasTeamPermission(conversation.sandboxTeamId, TEAM_PERMISSIONS.STEER_AGENT_RUNS) ? "steer" : "watch";
+      }
+      // Same error for conversations of others, so their IDs can't be probed
+      throw new ZSAError("NOT_FOUND", "Conversation not found");
+    }
+
+    default:
+      throw new ZSAError("NOT_FOUND", "Room not found");
+  }
+}
+
+/**
+ * A short-lived token to join a room, after checking the session may
+ */
+export async function createRoomJoinToken(session: RoomSession, room = `user:${session.user.id}`): Promise<AgentRoomTokenResponse> {
+  const permission = await authorizeRoom(session, room);
+  const exp = Math.floor(Date.now() / 1000) + JOIN_TOKEN_TTL_SECONDS;
+
+  const token = await signToken<RoomJoinTokenPayload>({
+    room,
+    userId: session.user.id,
+    userName: getRoomUserName(session),
+    permission,
+    exp,
+  }, getRoomTokenSecret());
+
+  return { room, token, permission, expiresAt: new Date(exp * 1000).toISOString() };
+}
+
+/**
+ * The payload of a join token, or null when it is malformed, forged or expired
+ */
+export async function verifyRoomJoinToken(token: string) {
+  return verifyToken<RoomJoinTokenPayload>(token, getRoomTokenSecret());
+}
@@ -0,0 +1,143 @@
+import "server-only";
+import { getDB } from "@/db";
+import { PREVIEW_ACCESS, sandboxPreviewTable, type SandboxPreview } from "@/db/schema";
+import { getPreviewHostSlug } from "@/lib/preview-access";
+import type { SessionValidationResult } from "@/types";
+import { ZSAError } from "zsa";
+import { and, asc, eq } from "drizzle-orm";
+
+type PreviewSession = NonNullable<SessionValidationResult>;
+
+export type PreviewAccess = (typeof PREVIEW_ACCESS)[keyof typeof PREVIEW_ACCESS];
+
+/**
+ * Whether the session may open a preview: its owner, or a member of the team the
+ * sandbox belongs to
+ */
+export function canOpenSandboxPreview(session: PreviewSession, preview: Pick<SandboxPreview, "userId" | "teamId">) {
+  if (preview.userId === session.user.id) return true;
+  return !!preview.teamId && (session.teams?.some((team) => team.id === preview.teamId) ?? false);
+}
+
+/**
+ * Previews of a sandbox, by port
+ */
+export async function getSandboxPreviews({ userId, sandboxId }: { userId: string; sandboxId: string }) {
+  const db = getDB();
+
+  return db.query.sandboxPreviewTable.findMany({
+    where: and(eq(sandboxPreviewTable.userId, userId), eq(sandboxPreviewTable.sandboxId, sandboxId)),
+    orderBy: [asc(sandboxPreviewTable.port)],
+  });
+}
+
+/**
+ * A preview by ID, throws NOT_FOUND when there is none
+ */
+export async function getSandboxPreview(previewId: string) {
+  const db = getDB();
+
+  const preview = await db.query.sandboxPreviewTable.findFirst({
+    where: eq(sandboxPreviewTable.id, previewId),
+  });
+  if (!preview) {
+    throw new ZSAError("NOT_FOUND", "Preview not found");
+  }
+
+  return preview;
+}
+
+/**
+ * A preview of the user's, throws NOT_FOUND for previews of other users so their IDs
+ * can't be probed
+ */
+export async function getOwnSandboxPreview({ userId, previewId }: { userId: string; previewId: string }) {
+  const preview = await getSandboxPreview(previewId);
+  if (preview.userId !== userId) {
+    throw new ZSAError("NOT_FOUND", "Preview not found");
+  }
+
+  return preview;
+}
+
+/**
+ * Record an exposed port of a sandbox. Exposing a port again keeps its access setting.
+ */
+export async function saveSandboxPreview({
+  userId,
+  teamId,
+  conversationId,
+  sandboxId,
+  port,
+  name,
+  access,
+}: {
+  userId: string;
+  teamId?: string;
+  conversationId: string;
+  sandboxId: string;
+  port: number;
+  name?: string;
+  access?: PreviewAccess;
+}) {
+  const db = getDB();
+
+  const hostSlug = await getPreviewHostSlug(sandboxId);
+
+  const [preview] = await db.insert(sandboxPreviewTable)
+    .values({ userId, teamId, conversationId, sandboxId, hostSlug, port, name, access })
+    .onConflictDoUpdate({
+      target: [sandboxPreviewTable.sandboxId, sandboxPreviewTable.port],
+      set: {
+        ...(name !== undefined ? { name } : {}),
+        ...(access ? { access } : {}),
+      },
+    })
+    .returning();
+  return preview;
+}
+
+export async function updateSandboxPreview({
+  userId,
+  previewId,
+  name,
+  access,
+}: {
+  userId: string;
+  previewId: string;
+  name?: string | null;
+  access?: PreviewAccess;
+}) {
+  await getOwnSandboxPreview({ userId, previewId });
+
+  const db = getDB();
+  const [preview] = await db.update(sandboxPreviewTable)
+    .set({
+      ...(name !== undefined ? { name } : {}),
+      ...(access ? { access } : {}),
+    })
+    .where(eq(sandboxPreviewTable.id, previewId))
+    .returning();
+
+  return preview;
+}
+
+export async function deleteSandboxPreview({ userId, previewId }: { userId: string; previewId: string }) {
+  await getOwnSandboxPreview({ userId, previewId });
+
+  const db = getDB();
+  await db.delete(sandboxPreviewTable).where(eq(sandboxPreviewTable.id, previewId));
+}
+
+/**
+ * Take down the previews of a conversation, e.g. when it is archived. Their URLs stop
+ * working at once, tokens included, even while the sandbox keeps running.
+ */
+export async function deleteConversationPreviews({ userId, conversationId }: { userId: string; conversationId: string }) {
+  const db = getDB();
+
+  await db.delete(sandboxPreviewTable).where(and(
+    eq(sandboxPreviewTable.userId, userId),
+    eq(sandboxPreviewTable.conversationId, conversationId)
+  ));
+}
@@ -0,0 +1,176 @@
+import "server-only";
+import { getDB } from "@/db";
+import { secretTable, TEAM_PERMISSIONS } from "@/db/schema";
+import { decryptSecret, encryptSecret } from "@/utils/encryption";
+import type { SessionValidationResult } from "@/types";
+import type { SandboxSecret } from "@/lib/sandbox-secrets";
+import { ZSAError } from "zsa";
+import { and, asc, eq, inArray, isNotNull, isNull } from "drizzle-orm";
+
+type SecretSession = NonNullable<SessionValidationResult>;
+
+// Personal secrets of a user, or the shared secrets of a team
+function ownerCondition({ userId, teamId }: { userId: string; teamId?: string }) {
+  return teamId
+    ? eq(secretTable.teamId, teamId)
+    : and(eq(secretTable.userId, userId), isNull(secretTable.teamId));
+}
+
+/**
+ * Whether the session may manage and use the secrets of a team
+ */
+export function canManageTeamSecrets(session: SecretSession, teamId: string) {
+  return session.teams?.some(
+    (team) => team.id === teamId && team.permissions.includes(TEAM_PERMISSIONS.MANAGE_SECRETS)
+  ) ?? false;
+}
+
+/**
+ * Personal secrets, or a team's secrets when `teamId` is given, without their values.
+ * Callers check the team permission.
+ */
+export async function getSecrets({
+  userId,
+  teamId,
+}: {
+  userId: string;
+  teamId?: string;
+}) {
+  const db = getDB();
+
+  return db.query.secretTable.findMany({
+    where: ownerCondition({ userId, teamId }),
+    columns: {
+      id: true,
+      name: true,
+      teamId: true,
+      createdAt: true,
+      updatedAt: true,
+    },
+    orderBy: [asc(secretTable.name)],
+  });
+}
+
+/**
+ * Store a secret, replacing the value of the one with the same name
+ */
+export async function saveSecret({
+  userId,
+  teamId,
+  name,
+  value,
+}: {
+  userId: string;
+  teamId?: string;
+  name: string;
+  value: string;
+}) {
+  const db = getDB();
+  const encryptedValue = await encryptSecret(value);
+
+  // Team secrets are shared by the team, whichever member saved them
+  const [secret] = await db.insert(secretTable).values({
+    userId,
+    teamId: teamId ?? null,
+    name,
+    encryptedValue,
+  }).onConflictDoUpdate({
+    target: teamId ? [secretTable.teamId, secretTable.name] : [secretTable.userId, secretTable.name],
+    targetWhere: teamId ? isNotNull(secretTable.teamId) : isNull(secretTable.teamId),
+    set: { encryptedValue },
+  }).returning({ id: secretTable.id });
+
+  return { id: secret.id, name };
+}
+
+export async function deleteSecret({
+  userId,
+  teamId,
+  secretId,
+}: {
+  userId: string;
+  teamId?: string;
+  secretId: string;
+}) {
+  const db = getDB();
+
+  const [deleted] = await db.delete(secretTable)
+    .where(and(eq(secretTable.id, secretId), ownerCondition({ userId, teamId })))
+    .returning({ id: secretTable.id });
+
+  if (!deleted) {
+    throw new ZSAError("NOT_FOUND", "Secret not found");
+  }
+}
+
+/**
+ * Names of the secrets a session can inject into a sandbox of the scope
+ */
+export async function getAvailableSecretNames({
+  session,
+  teamId,
+}: {
+  session: SecretSession;
+  teamId?: string;
+}) {
+  const userId = session.user.id;
+  const [personal, team] = await Promise.all([
+    getSecrets({ userId }),
+    teamId && canManageTeamSecrets(session, teamId) ? getSecrets({ userId, teamId }) : [],
+  ]);
+
+  return [
+    ...team.map(({ name }) => ({ name, source: "team" as const })),
+    ...personal
+      .filter(({ name }) => !team.some((secret) => secret.name === name))
+      .map(({ name }) => ({ name, source: "personal" as const })),
+  ];
+}
+
+/**
+ * Decrypt secrets for injection into a sandbox. In a team scope the team's secrets are
+ * available to members who can manage them and win over personal secrets of the same name.
+ * Without `names` every available secret is returned, which is what redacting output of
+ * earlier runs needs. Never return these to the browser.
+ */
+export async function getSandboxSecrets({
+  session,
+  teamId,
+  names,
+}: {
+  session: SecretSession;
+  teamId?: string;
+  names?: string[];
+}): Promise<SandboxSecret[]> {
+  if (names?.length === 0) {
+    return [];
+  }
+
+  const db = getDB();
+  const userId = session.user.id;
+  const owners = [ownerCondition({ userId })];
+  if (teamId && canManageTeamSecrets(session, teamId)) {
+    owners.unshift(ownerCondition({ userId, teamId }));
+  }
+
+  const rows = (await Promise.all(owners.map((owner) => db.query.secretTable.findMany({
+    where: names ? and(owner, inArray(secretTable.name, names)) : owner,
+  })))).flat();
+
+  const secrets = new Map<string, string>();
+  for (const row of rows) {
+    if (!secrets.has(row.name)) {
+      secrets.set(row.name, row.encryptedValue);
+    }
+  }
+
+  const missing = names?.filter((name) => !secrets.has(name)) ?? [];
+  if (missing.length > 0) {
+    throw new ZSAError("NOT_FOUND", `Secret not found: ${missing.join(", ")}`);
+  }
+
+  return Promise.all(Array.from(secrets, async ([name, encryptedValue]) => ({
+    name,
+    value: await decryptSecret(encryptedValue),
+  })));
+}
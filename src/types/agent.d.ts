@@ -57,6 +57,58 @@ export interface AgentProcessResponse {
   startTime: number;
 }
 
+// A process of the sandbox as listed by /api/agent/process/*
+export interface AgentProcessInfo {
+  id: string;
+  pid: number | null;
+  command: string;
+  status: ProcessStatus;
+  startTime: string;
+  endTime: string | null;
+  exitCode: number | null;
+  // The conversation that started the process, null for processes started outside the app
+  conversation: { id: string; title: string } | null;
+}
+
+export interface AgentProcessListResponse {
+  processes: AgentProcessInfo[];
+}
+
+// How a process was started, kept with the conversation so it can be restarted
+export interface StoredProcess {
+  id: string;
+  sandboxId: string;
+  command: string;
+  cwd: string | null;
+  env: Record<string, string>;
+  secretNames: string[];
+  startedAt: number;
+}
+
+// Who can open a preview URL: anyone, holders of a share link, or signed-in team members
+export type PreviewAccess = 'public' | 'token' | 'members';
+
+export interface AgentPreview {
+  id: string;
+  port: number;
+  name: string | null;
+  url: string;
+  access: PreviewAccess;
+  // `starting` while the port listens but doesn't answer HTTP yet
+  status: 'ready' | 'starting' | 'stopped';
+}
+
+export interface AgentPreviewListResponse {
+  previews: AgentPreview[];
+  // Ports servers listen on only at 127.0.0.1, which previews can't reach
+  loopbackPorts: number[];
+}
+
+export interface AgentPreviewTokenResponse {
+  url: string;
+  expiresAt: string;
+}
+
 export interface AgentFileRequest {
   path: string;
   encoding?: string;
@@ -95,6 +147,7 @@ export interface AgentInterpretRequest {
   message?: string;
   code?: string;
   language: 'python' | 'javascript' | 'typescript';
+  conversationId?: string;
 }
 
 export interface AgentInterpretResponse {
@@ -114,15 +167,107 @@ export interface AgentUploadFile {
 
 export interface AgentUploadResponse {
   success: boolean;
-  files: Array<{
-    name: string;
-    type: string;
-    size: number;
-    processed: boolean;
-  }>;
+  files: StoredUpload[];
   message: string;
 }
 
+// Workspace snapshots stored in R2
+export type WorkspaceSnapshotReason = 'manual' | 'before-command' | 'before-restore' | 'idle';
+
+export interface WorkspaceSnapshot {
+  id: string;
+  size: number;
+  createdAt: number;
+  reason: WorkspaceSnapshotReason;
+}
+
+export interface AgentSnapshotListResponse {
+  snapshots: WorkspaceSnapshot[];
+}
+
+export interface AgentSnapshotRestoreRequest {
+  snapshotId: string;
+  conversationId?: string;
+  teamId?: string;
+}
+
+// A secret that can be injected into a run, without its value
+export interface AgentSecretOption {
+  name: string;
+  source: 'personal' | 'team';
+}
+
+export interface AgentSecretListResponse {
+  secrets: AgentSecretOption[];
+}
+
+// Git workflow in the sandbox (/api/agent/git/*)
+export type GitFileChange =
+  | 'modified'
+  | 'added'
+  | 'deleted'
+  | 'renamed'
+  | 'copied'
+  | 'type-changed'
+  | 'unmerged'
+  | 'untracked';
+
+export interface GitFileStatus {
+  path: string;
+  // Set for renames and copies
+  originalPath?: string;
+  // Change in the index, null when nothing is staged for the file
+  staged: GitFileChange | null;
+  // Change in the working tree, null when it matches the index
+  unstaged: GitFileChange | null;
+}
+
+export interface GitStatus {
+  branch: string | null;
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+export interface GitDiffLine {
+  type: 'context' | 'add' | 'delete';
+  content: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface GitDiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: GitDiffLine[];
+}
+
+export interface GitDiffFile {
+  oldPath: string | null;
+  newPath: string | null;
+  binary: boolean;
+  additions: number;
+  deletions: number;
+  hunks: GitDiffHunk[];
+}
+
+export interface GitBranch {
+  name: string;
+  current: boolean;
+  upstream: string | null;
+  commit: string;
+}
+
+export interface GitCommitResult {
+  commit: string;
+  branch: string | null;
+  summary: string;
+}
+
 // Template setup requests
 export interface AgentTemplateRequest {
   projectName?: string;
@@ -135,22 +280,315 @@ export interface AgentTemplateResponse {
   projectPath?: string;
 }
 
-// Notebook types
+// Notebook types (/api/agent/notebooks/* and the legacy /api/notebook/*)
+export type NotebookLanguage = 'python' | 'javascript';
+
+export type NotebookCellType = 'code' | 'markdown';
+
+// Rich output of a cell, base64 for png and jpeg
+export interface NotebookOutputData {
+  text?: string;
+  html?: string;
+  png?: string;
+  jpeg?: string;
+  svg?: string;
+  json?: unknown;
+}
+
+export type NotebookOutput =
+  | { type: 'stream'; name: 'stdout' | 'stderr'; text: string }
+  | { type: 'result'; data: NotebookOutputData }
+  | { type: 'error'; name: string; value: string; traceback: string[] };
+
+export interface NotebookCell {
+  id: string;
+  type: NotebookCellType;
+  source: string;
+  outputs: NotebookOutput[];
+  // Set when the cell ran in the current kernel, like Jupyter's In [n]
+  executionCount: number | null;
+}
+
+// A cell as sent by clients and imports. Outputs of existing cells are kept when omitted.
+export interface NotebookCellInput {
+  id?: string;
+  type: NotebookCellType;
+  source: string;
+  outputs?: NotebookOutput[];
+  executionCount?: number | null;
+}
+
+export interface NotebookSummary {
+  id: string;
+  name: string;
+  language: NotebookLanguage;
+  cellCount: number;
+  updatedAt: number;
+}
+
+export interface Notebook {
+  id: string;
+  name: string;
+  language: NotebookLanguage;
+  // Secrets injected into the kernel as environment variables
+  secretNames: string[];
+  cells: NotebookCell[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// The code context a notebook's kernel runs in, valid only in the sandbox it was created in
+export interface NotebookKernel {
+  contextId: string;
+  sandboxId: string;
+}
+
+export interface StoredNotebook extends Notebook {
+  kernel: NotebookKernel | null;
+}
+
+export interface NotebookListResponse {
+  notebooks: NotebookSummary[];
+}
+
+export type NotebookRunEvent =
+  | { type: 'cell-start'; cellId: string }
+  | { type: 'output'; cellId: string; output: NotebookOutput }
+  | { type: 'cell-end'; cellId: string; executionCount: number | null; success: boolean }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
 export interface AgentNotebookSessionRequest {
-  sessionId?: string;
-  kernelName?: string;
+  language?: NotebookLanguage;
+  secrets?: string[];
 }
 
 export interface AgentNotebookExecuteRequest {
-  sessionId: string;
+  // The notebook ID returned when the session was created
+  sessionId?: string;
   code: string;
+  // Replaces the source of an existing cell instead of adding one
   cellId?: string;
+  language?: NotebookLanguage;
 }
 
-export interface AgentNotebookResponse {
+export interface AgentNotebookSessionResponse {
   sessionId: string;
-  status: 'created' | 'executing' | 'idle' | 'deleted';
-  result?: unknown;
-  outputs?: unknown[];
+  language: NotebookLanguage;
+}
+
+// Agent loop streaming types
+export interface AgentUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// Events of a code execution streamed by /api/agent/stream
+export type AgentExecutionStreamEvent =
+  | { type: 'start' | 'status' | 'done'; message: string }
+  | { type: 'output' | 'error_output' | 'result'; content: string }
+  | { type: 'error'; message: string };
+
+export type AgentStreamEvent =
+  | { type: 'start'; model: string }
+  | { type: 'step-start'; step: number }
+  | { type: 'text-delta'; text: string }
+  | { type: 'tool-call'; step: number; toolCallId: string; toolName: string; input: unknown }
+  | { type: 'tool-result'; step: number; toolCallId: string; toolName: string; output: unknown }
+  // Output of code still running, the tool result repeats it in full
+  | { type: 'tool-output'; step: number; toolCallId: string; toolName: string; stream: 'stdout' | 'stderr'; text: string }
+  | { type: 'tool-error'; step: number; toolCallId: string; toolName: string; error: string }
+  | { type: 'step-finish'; step: number; finishReason: string; usage: AgentUsage }
+  | { type: 'finish'; finishReason: string; text: string; usage: AgentUsage }
+  | { type: 'error'; message: string };
+
+// Realtime chat rooms (/api/ws and the WebSocketDO Durable Object)
+// Rooms are `user:<id>`, `team:<id>` or `conversation:<id>`
+// Steering is posting plus interjecting in, pausing and stopping the conversation's agent runs
+export type RoomPermission = 'steer' | 'post' | 'watch';
+
+export interface RoomUser {
+  id: string;
+  name: string;
+}
+
+export interface RoomMessage {
+  type: string;
+  userId?: string;
+  // Who sent a message or joined or left, with the name it was sent under
+  user?: RoomUser;
+  data?: unknown;
+  // Position of a stored room message, clients reconnect with the last one they saw
+  seq?: number;
+  timestamp: number;
+}
+
+export interface RoomWelcome {
+  user: RoomUser;
+  users: RoomUser[];
+  cursor: number;
+  // What the connection may do, watchers only receive messages
+  permission: RoomPermission;
+  // The agent run in progress in a conversation room
+  run: SharedRun | null;
+}
+
+// An agent run shared with the members of its conversation's room
+export interface SharedRun {
+  id: string;
+  // Who started the run
+  user: RoomUser;
+  paused: boolean;
+  startedAt: number;
+}
+
+export type RunControlAction = 'pause' | 'resume' | 'stop' | 'interject';
+
+// Data of `run-control` room messages, sent by members who may steer
+export interface RunControl {
+  runId: string;
+  action: RunControlAction;
+  // The message of an interjection
+  text?: string;
+}
+
+// Data of `agent-event` room messages, events of a run fanned out as they happen
+export interface RunEventBatch {
+  runId: string;
+  events: AgentStreamEvent[];
+}
+
+// Data of `run-end` room messages
+export interface RunEnd {
+  runId: string;
+  finishReason: string;
+  text: string;
+  // Set when a member stopped the run
+  stoppedBy?: RoomUser;
+}
+
+// Agent runs, code executions and notebook runs, tracked from start to end by run ID
+export type AgentRunKind = 'agent' | 'execution' | 'notebook';
+export type AgentRunStatus = 'running' | 'completed' | 'failed' | 'canceled' | 'timed-out';
+
+export interface AgentRun {
+  id: string;
+  kind: AgentRunKind;
+  status: AgentRunStatus;
+  sandboxId: string;
+  teamId?: string;
+  conversationId?: string;
+  startedAt: number;
+  // When the run is stopped for exceeding the time limit of the plan
+  deadline: number;
+  endedAt?: number;
+  // Why a canceled or timed out run was stopped
+  cancelReason?: string;
+  // What the run had produced when it ended, partial for stopped runs
+  output?: string;
+  // Code contexts the run is executing in, their kernels are stopped when it is canceled
+  contextIds: string[];
+}
+
+export interface AgentRunCancelRequest {
+  reason?: string;
+}
+
+export interface AgentRunCancelResponse {
+  run: AgentRun;
+}
+
+export interface AgentRoomTokenResponse {
+  room: string;
+  token: string;
+  permission: RoomPermission;
+  expiresAt: string;
+}
+
+// Conversation history persisted by the AgentDO Durable Object
+export type ConversationRole = 'user' | 'assistant';
+
+export interface StoredToolCall {
+  id: string;
+  step: number;
+  toolName: string;
+  input: unknown;
+  output?: unknown;
   error?: string;
-}
\ No newline at end of file
+}
+
+export interface StoredMessage {
+  id: string;
+  role: ConversationRole;
+  content: string;
+  toolCalls: StoredToolCall[];
+  usage?: AgentUsage;
+  createdAt: number;
+}
+
+export interface AppendMessageInput {
+  role: ConversationRole;
+  content: string;
+  toolCalls?: StoredToolCall[];
+  usage?: AgentUsage;
+}
+
+// A file the user uploaded into the conversation's workspace
+export interface StoredUpload {
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+  uploadedAt: number;
+}
+
+export interface ConversationHistory {
+  sandboxId: string | null;
+  messages: StoredMessage[];
+  uploads: StoredUpload[];
+}
+
+// GitHub repositories and pull requests (/api/agent/github/*)
+export interface GitHubRepository {
+  id: number;
+  owner: string;
+  name: string;
+  fullName: string;
+  private: boolean;
+  defaultBranch: string;
+  cloneUrl: string;
+  htmlUrl: string;
+  description: string | null;
+  pushedAt: string | null;
+}
+
+export interface GitHubBranch {
+  name: string;
+  commit: string;
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  head: string;
+  base: string;
+  // False when an open pull request for the branch already existed
+  created: boolean;
+}
+
+export interface GitHubRepositoryListResponse {
+  connected: boolean;
+  repositories: GitHubRepository[];
+}
+
+export interface GitHubBranchListResponse {
+  branches: GitHubBranch[];
+}
+
+export interface GitHubCloneResponse {
+  path: string;
+  status: GitStatus;
+}
+
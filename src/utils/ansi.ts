@@ -0,0 +1,72 @@
+export interface AnsiStyle {
+  color?: string;
+  backgroundColor?: string;
+  bold?: boolean;
+}
+
+export interface AnsiSegment {
+  text: string;
+  style: AnsiStyle;
+}
+
+// The 16 standard terminal colors, normal then bright, as xterm renders them
+const ANSI_COLORS = [
+  "#000000", "#cd3131", "#0dbc79", "#e5e510", "#2472c8", "#bc3fbc", "#11a8cd", "#e5e5e5",
+  "#666666", "#f14c4c", "#23d18b", "#f5f543", "#3b8eea", "#d670d6", "#29b8db", "#ffffff",
+];
+
+const ANSI_ESCAPE = /\u001b\[([\d;]*)([A-Za-z])/g;
+
+/**
+ * Remove ANSI escape sequences, e.g. before searching or saving terminal output
+ */
+export function stripAnsi(text: string) {
+  return text.replace(ANSI_ESCAPE, "");
+}
+
+/**
+ * Split terminal output into segments styled by its ANSI color codes. The standard and
+ * bright colors and bold are supported; other escape sequences are dropped.
+ */
+export function parseAnsi(text: string): AnsiSegment[] {
+  const segments: AnsiSegment[] = [];
+  let style: AnsiStyle = {};
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(ANSI_ESCAPE)) {
+    if (match.index > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, match.index), style });
+    }
+    lastIndex = match.index + match[0].length;
+
+    // Only SGR ("m") sequences change the style
+    if (match[2] !== "m") continue;
+
+    const codes = match[1] === "" ? [0] : match[1].split(";").map(Number);
+    style = { ...style };
+    for (let i = 0; i < codes.length; i++) {
+      const code = codes[i];
+      // 256-color and RGB colors aren't supported, skip their arguments
+      if (code === 38 || code === 48) {
+        i += codes[i + 1] === 5 ? 2 : 4;
+        continue;
+      }
+
+      if (code === 0) style = {};
+      else if (code === 1) style.bold = true;
+      else if (code === 22) style.bold = false;
+      else if (code >= 30 && code <= 37) style.color = ANSI_COLORS[code - 30];
+      else if (code >= 90 && code <= 97) style.color = ANSI_COLORS[code - 90 + 8];
+      else if (code === 39) style.color = undefined;
+      else if (code >= 40 && code <= 47) style.backgroundColor = ANSI_COLORS[code - 40];
+      else if (code >= 100 && code <= 107) style.backgroundColor = ANSI_COLORS[code - 100 + 8];
+      else if (code === 49) style.backgroundColor = undefined;
+    }
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), style });
+  }
+
+  return segments;
+}
@@ -48,6 +48,8 @@ export async function getUserFromDB(userId: string) {
       updatedAt: true,
       currentCredits: true,
       lastCreditRefreshAt: true,
+      planId: true,
+      planExpiresAt: true,
     },
   });
 }
@@ -283,6 +285,29 @@ export const getSessionFromCookie = cache(async (): Promise<SessionValidationRes
   return validateSessionToken(decoded.token, decoded.userId);
 })
 
+/**
+ * Read the session from a raw request's Cookie header, for handlers that run outside Next.js
+ */
+export async function getSessionFromRequest(request: Request): Promise<SessionValidationResult | null> {
+  const sessionCookie = request.headers.get("cookie")
+    ?.split(";")
+    .map((cookie) => cookie.trim())
+    .find((cookie) => cookie.startsWith(`${SESSION_COOKIE_NAME}=`))
+    ?.slice(SESSION_COOKIE_NAME.length + 1);
+
+  if (!sessionCookie) {
+    return null;
+  }
+
+  const decoded = decodeSessionCookie(decodeURIComponent(sessionCookie));
+
+  if (!decoded || !decoded.token || !decoded.userId) {
+    return null;
+  }
+
+  return validateSessionToken(decoded.token, decoded.userId);
+}
+
 export const requireVerifiedEmail = cache(async ({
   doNotThrowError = false,
 }: {
@@ -0,0 +1,121 @@
+import "server-only";
+import { and, eq, gt, isNull, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import { creditHoldTable, creditTransactionTable, teamTable, userTable } from "@/db/schema";
+import { releaseStaleCreditHolds } from "./credits";
+
+interface BalanceDrift {
+  storedBalance: number;
+  ledgerBalance: number;
+  // Credits held for in-flight runs
+  heldCredits: number;
+  // storedBalance minus what the ledger says it should be
+  drift: number;
+}
+
+export interface CreditDrift extends BalanceDrift {
+  userId: string;
+  email: string | null;
+}
+
+export interface TeamCreditDrift extends BalanceDrift {
+  teamId: string;
+  name: string;
+}
+
+function findDrifts<T extends Omit<BalanceDrift, "drift">>(rows: T[]) {
+  const drifts: (T & { drift: number })[] = [];
+  for (const row of rows) {
+    const drift = row.storedBalance - (row.ledgerBalance - row.heldCredits);
+    if (drift !== 0) {
+      drifts.push({ ...row, drift });
+    }
+  }
+  return drifts;
+}
+
+/**
+ * Recompute every user's and team's balance from the ledger and report the
+ * ones whose stored balance disagrees with it.
+ *
+ * The ledger balance is what's left on unexpired-or-unprocessed credit lots.
+ * Held credits are already subtracted from the stored balance, so the wallet's run
+ * holds are taken off the ledger balance before comparing. Holds of runs whose worker
+ * died are released first, so they don't hide credits forever. Team lots only count
+ * towards the team.
+ */
+export async function reconcileCreditBalances() {
+  const db = getDB();
+
+  const releasedHolds = await releaseStaleCreditHolds();
+
+  const [userRows, teamRows] = await Promise.all([
+    db
+      .select({
+        userId: userTable.id,
+        email: userTable.email,
+        storedBalance: userTable.currentCredits,
+        heldCredits: sql<number>`COALESCE((
+          SELECT SUM(${creditHoldTable.amount}) FROM ${creditHoldTable}
+          WHERE ${creditHoldTable.userId} = ${userTable.id} AND ${creditHoldTable.teamId} IS NULL
+        ), 0)`,
+        ledgerBalance: sql<number>`COALESCE(SUM(${creditTransactionTable.remainingAmount}), 0)`,
+      })
+      .from(userTable)
+      .leftJoin(
+        creditTransactionTable,
+        and(
+          eq(creditTransactionTable.userId, userTable.id),
+          isNull(creditTransactionTable.teamId),
+          gt(creditTransactionTable.remainingAmount, 0),
+          isNull(creditTransactionTable.expirationDateProcessedAt),
+        )
+      )
+      .groupBy(userTable.id),
+    db
+      .select({
+        teamId: teamTable.id,
+        name: teamTable.name,
+        storedBalance: teamTable.creditBalance,
+        heldCredits: sql<number>`COALESCE((
+          SELECT SUM(${creditHoldTable.amount}) FROM ${creditHoldTable}
+          WHERE ${creditHoldTable.teamId} = ${teamTable.id}
+        ), 0)`,
+        ledgerBalance: sql<number>`COALESCE(SUM(${creditTransactionTable.remainingAmount}), 0)`,
+      })
+      .from(teamTable)
+      .leftJoin(
+        creditTransactionTable,
+        and(
+          eq(creditTransactionTable.teamId, teamTable.id),
+          gt(creditTransactionTable.remainingAmount, 0),
+          isNull(creditTransactionTable.expirationDateProcessedAt),
+        )
+      )
+      .groupBy(teamTable.id),
+  ]);
+
+  const drifts: CreditDrift[] = findDrifts(userRows);
+  const teamDrifts: TeamCreditDrift[] = findDrifts(teamRows);
+
+  for (const drift of drifts) {
+    console.warn(
+      `[Credit Reconciliation] User ${drift.userId} has ${drift.storedBalance} credits, ledger says ${drift.ledgerBalance - drift.heldCredits} (${drift.heldCredits} held, drift ${drift.drift})`
+    );
+  }
+
+  for (const drift of teamDrifts) {
+    console.warn(
+      `[Credit Reconciliation] Team ${drift.teamId} has ${drift.storedBalance} credits, ledger says ${drift.ledgerBalance - drift.heldCredits} (${drift.heldCredits} held, drift ${drift.drift})`
+    );
+  }
+
+  return {
+    checkedUsers: userRows.length,
+    checkedTeams: teamRows.length,
+    releasedHolds,
+    drifts,
+    teamDrifts,
+    checkedAt: new Date(),
+  };
+}
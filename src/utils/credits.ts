@@ -1,9 +1,19 @@
 import "server-only";
-import { eq, sql, desc, and, lt, isNull, gt, or, asc } from "drizzle-orm";
+import { eq, ne, sql, desc, and, lt, isNull, gt, or, asc, gte, type SQL } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
 import { getDB } from "@/db";
-import { userTable, creditTransactionTable, CREDIT_TRANSACTION_TYPE, purchasedItemsTable } from "@/db/schema";
+import {
+  userTable,
+  teamTable,
+  teamMembershipTable,
+  creditTransactionTable,
+  creditHoldTable,
+  CREDIT_TRANSACTION_TYPE,
+  purchasedItemsTable,
+} from "@/db/schema";
 import { updateAllSessionsOfUser, KVSession } from "./kv-session";
-import { CREDIT_PACKAGES, FREE_MONTHLY_CREDITS } from "@/constants";
+import { CREDIT_HOLD_TTL_MINUTES, CREDIT_PACKAGES, FREE_MONTHLY_CREDITS, FREE_PLAN_ID } from "@/constants";
+import { getActivePlan } from "./plans";
 
 export type CreditPackage = typeof CREDIT_PACKAGES[number];
 
@@ -11,6 +21,181 @@ export function getCreditPackage(packageId: string): CreditPackage | undefined {
   return CREDIT_PACKAGES.find((pkg) => pkg.id === packageId);
 }
 
+/**
+ * Where credits are taken from and added to: the user's own credits, or a team's
+ * pool when `teamId` is set. `userId` is always the acting user, so team transactions
+ * record which member bought or used the credits.
+ */
+export interface CreditWallet {
+  userId: string;
+  teamId?: string;
+}
+
+// Credit lots that belong to the wallet
+function walletLots({ userId, teamId }: CreditWallet) {
+  return teamId
+    ? eq(creditTransactionTable.teamId, teamId)
+    : and(eq(creditTransactionTable.userId, userId), isNull(creditTransactionTable.teamId));
+}
+
+type LedgerStatement = BatchItem<"sqlite">;
+
+/**
+ * Change a wallet's balance by `change`
+ */
+function buildBalanceUpdate({
+  wallet,
+  change,
+}: {
+  wallet: CreditWallet;
+  change: number | SQL;
+}): LedgerStatement {
+  const db = getDB();
+
+  if (wallet.teamId) {
+    return db
+      .update(teamTable)
+      .set({ creditBalance: sql`${teamTable.creditBalance} + ${change}` })
+      .where(eq(teamTable.id, wallet.teamId));
+  }
+
+  return db
+    .update(userTable)
+    .set({ currentCredits: sql`${userTable.currentCredits} + ${change}` })
+    .where(eq(userTable.id, wallet.userId));
+}
+
+export async function getWalletBalance({ userId, teamId }: CreditWallet) {
+  const db = getDB();
+
+  if (teamId) {
+    const team = await db.query.teamTable.findFirst({
+      where: eq(teamTable.id, teamId),
+      columns: {
+        creditBalance: true,
+      },
+    });
+
+    return team?.creditBalance ?? 0;
+  }
+
+  const user = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    columns: {
+      currentCredits: true,
+    },
+  });
+
+  return user?.currentCredits ?? 0;
+}
+
+async function refreshWalletSessions(wallet: CreditWallet) {
+  // Sessions only carry the user's own balance
+  if (!wallet.teamId) {
+    // Update all KV sessions to reflect the new credit balance
+    await updateAllSessionsOfUser(wallet.userId);
+  }
+}
+
+function startOfMonth(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+// Team credits a member has used this calendar month
+function memberMonthlyUsageQuery({ userId, teamId }: { userId: string; teamId: string }) {
+  return getDB()
+    .select({ used: sql<number>`COALESCE(SUM(-${creditTransactionTable.amount}), 0)` })
+    .from(creditTransactionTable)
+    .where(and(
+      eq(creditTransactionTable.teamId, teamId),
+      eq(creditTransactionTable.userId, userId),
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.USAGE),
+      gte(creditTransactionTable.createdAt, startOfMonth(new Date())),
+    ));
+}
+
+// Team credits a member's open runs hold, except the run `exceptRunId`
+function memberHeldCreditsQuery({ userId, teamId, exceptRunId }: { userId: string; teamId: string; exceptRunId?: string }) {
+  return getDB()
+    .select({ held: sql<number>`COALESCE(SUM(${creditHoldTable.amount}), 0)` })
+    .from(creditHoldTable)
+    .where(and(
+      eq(creditHoldTable.teamId, teamId),
+      eq(creditHoldTable.userId, userId),
+      exceptRunId ? ne(creditHoldTable.runId, exceptRunId) : undefined,
+    ));
+}
+
+/**
+ * Team credits a member has used this calendar month
+ */
+export async function getMemberMonthlyTeamUsage({ userId, teamId }: { userId: string; teamId: string }) {
+  const [result] = await memberMonthlyUsageQuery({ userId, teamId });
+
+  return result?.used ?? 0;
+}
+
+async function getMemberCreditCap({ userId, teamId }: { userId: string; teamId: string }) {
+  const membership = await getDB().query.teamMembershipTable.findFirst({
+    where: and(
+      eq(teamMembershipTable.teamId, teamId),
+      eq(teamMembershipTable.userId, userId),
+    ),
+    columns: {
+      monthlyCreditCap: true,
+    },
+  });
+
+  return membership?.monthlyCreditCap ?? null;
+}
+
+/**
+ * Team credits a member may still use this month, null when they have no cap.
+ * Credits held by the member's open runs count as used, except those of `exceptRunId`
+ * when that run is being charged. Negative once the member went over the cap.
+ */
+export async function getMemberCreditCapRemaining({
+  userId,
+  teamId,
+  exceptRunId,
+}: {
+  userId: string;
+  teamId: string;
+  exceptRunId?: string;
+}) {
+  const cap = await getMemberCreditCap({ userId, teamId });
+
+  if (cap === null) {
+    return null;
+  }
+
+  const [[usage], [holds]] = await Promise.all([
+    memberMonthlyUsageQuery({ userId, teamId }),
+    memberHeldCreditsQuery({ userId, teamId, exceptRunId }),
+  ]);
+
+  return cap - (usage?.used ?? 0) - (holds?.held ?? 0);
+}
+
+/**
+ * Whether a member may use `amount` more team credits this month
+ */
+async function isWithinMemberCap({
+  userId,
+  teamId,
+  amount,
+  exceptRunId,
+}: {
+  userId: string;
+  teamId: string;
+  amount: number;
+  exceptRunId?: string;
+}) {
+  const remaining = await getMemberCreditCapRemaining({ userId, teamId, exceptRunId });
+
+  return remaining === null || amount <= remaining;
+}
+
 function shouldRefreshCredits(session: KVSession, currentTime: Date): boolean {
   // Check if it's been at least a month since last refresh
   if (!session.user.lastCreditRefreshAt) {
@@ -25,13 +210,13 @@ function shouldRefreshCredits(session: KVSession, currentTime: Date): boolean {
   return currentTime >= oneMonthAfterLastRefresh;
 }
 
-async function processExpiredCredits(userId: string, currentTime: Date) {
+async function processExpiredCredits(wallet: CreditWallet, currentTime: Date) {
   const db = getDB();
   // Find all expired transactions that haven't been processed and have remaining credits
   // Order by type to process MONTHLY_REFRESH first, then by creation date
   const expiredTransactions = await db.query.creditTransactionTable.findMany({
     where: and(
-      eq(creditTransactionTable.userId, userId),
+      walletLots(wallet),
       lt(creditTransactionTable.expirationDate, currentTime),
       isNull(creditTransactionTable.expirationDateProcessedAt),
       gt(creditTransactionTable.remainingAmount, 0),
@@ -47,22 +232,28 @@ async function processExpiredCredits(userId: string, currentTime: Date) {
   // Process each expired transaction
   for (const transaction of expiredTransactions) {
     try {
-      // First, mark the transaction as processed to prevent double processing
-      await db
-        .update(creditTransactionTable)
-        .set({
-          expirationDateProcessedAt: currentTime,
-          remainingAmount: 0, // All remaining credits are expired
-        })
-        .where(eq(creditTransactionTable.id, transaction.id));
-
-      // Then deduct the expired credits from user's balance
-      await db
-        .update(userTable)
-        .set({
-          currentCredits: sql`${userTable.currentCredits} - ${transaction.remainingAmount}`,
-        })
-        .where(eq(userTable.id, userId));
+      // Both statements only act while the lot is unprocessed, so a concurrent
+      // or retried run can't expire the same credits twice
+      await db.batch([
+        buildBalanceUpdate({
+          wallet,
+          change: sql`-COALESCE((
+            SELECT ${creditTransactionTable.remainingAmount} FROM ${creditTransactionTable}
+            WHERE ${creditTransactionTable.id} = ${transaction.id}
+              AND ${creditTransactionTable.expirationDateProcessedAt} IS NULL
+          ), 0)`,
+        }),
+        db
+          .update(creditTransactionTable)
+          .set({
+            expirationDateProcessedAt: currentTime,
+            remainingAmount: 0, // All remaining credits are expired
+          })
+          .where(and(
+            eq(creditTransactionTable.id, transaction.id),
+            isNull(creditTransactionTable.expirationDateProcessedAt),
+          )),
+      ]);
     } catch (error) {
       console.error(`Failed to process expired credits for transaction ${transaction.id}:`, error);
       continue;
@@ -70,59 +261,292 @@ async function processExpiredCredits(userId: string, currentTime: Date) {
   }
 }
 
-export async function updateUserCredits(userId: string, creditsToAdd: number) {
+async function isIdempotencyKeyUsed(idempotencyKey: string) {
+  const transaction = await getDB().query.creditTransactionTable.findFirst({
+    where: eq(creditTransactionTable.idempotencyKey, idempotencyKey),
+    columns: {
+      id: true,
+    },
+  });
+
+  return Boolean(transaction);
+}
+
+/**
+ * Apply credit mutations as a single D1 batch, which commits or rolls back as a whole.
+ * The first statement must insert the ledger row carrying the idempotency key: a replay
+ * hits its unique index and the batch is rolled back. Returns false for replays.
+ */
+async function applyLedgerBatch({
+  idempotencyKey,
+  statements: [first, ...rest],
+}: {
+  idempotencyKey: string;
+  statements: [LedgerStatement, ...LedgerStatement[]];
+}) {
+  if (await isIdempotencyKeyUsed(idempotencyKey)) {
+    return false;
+  }
+
+  try {
+    await getDB().batch([first, ...rest]);
+    return true;
+  } catch (error) {
+    // Lost a race against another request with the same key
+    if (await isIdempotencyKeyUsed(idempotencyKey)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+interface GrantCreditsParams extends CreditWallet {
+  amount: number;
+  description: string;
+  type: keyof typeof CREDIT_TRANSACTION_TYPE;
+  idempotencyKey: string;
+  expirationDate?: Date;
+  paymentIntentId?: string;
+}
+
+function buildGrantStatements({
+  userId,
+  teamId,
+  amount,
+  description,
+  type,
+  idempotencyKey,
+  expirationDate,
+  paymentIntentId,
+}: GrantCreditsParams): [LedgerStatement, LedgerStatement] {
   const db = getDB();
-  await db
+
+  return [
+    db.insert(creditTransactionTable).values({
+      userId,
+      teamId,
+      amount,
+      remainingAmount: amount, // Initialize remaining amount to be the same as amount
+      type,
+      description,
+      expirationDate,
+      paymentIntentId,
+      idempotencyKey,
+    }),
+    buildBalanceUpdate({ wallet: { userId, teamId }, change: amount }),
+  ];
+}
+
+/**
+ * Add a credit lot to the ledger and the wallet's balance in one batch.
+ * Returns false when a grant with the same idempotency key was already applied.
+ */
+export async function grantCredits(params: GrantCreditsParams) {
+  const applied = await applyLedgerBatch({
+    idempotencyKey: params.idempotencyKey,
+    statements: buildGrantStatements(params),
+  });
+
+  if (applied) {
+    await refreshWalletSessions(params);
+  }
+
+  return applied;
+}
+
+type CreditReversalType = typeof CREDIT_TRANSACTION_TYPE.REFUND | typeof CREDIT_TRANSACTION_TYPE.DISPUTE;
+
+/**
+ * Flag the account for an admin to review, e.g. when refunded credits were already spent.
+ * Reasons from repeated flags are kept, oldest first.
+ */
+export async function flagCreditReview({ userId, reason }: { userId: string; reason: string }) {
+  await getDB()
     .update(userTable)
     .set({
-      currentCredits: sql`${userTable.currentCredits} + ${creditsToAdd}`,
+      creditReviewFlaggedAt: new Date(),
+      creditReviewReason: sql`substr(COALESCE(${userTable.creditReviewReason} || char(10), '') || ${reason}, 1, 1000)`,
     })
     .where(eq(userTable.id, userId));
-
-  // Update all KV sessions to reflect the new credit balance
-  await updateAllSessionsOfUser(userId);
 }
 
-async function updateLastRefreshDate(userId: string, date: Date) {
-  const db = getDB();
-  await db
+export async function clearCreditReview(userId: string) {
+  await getDB()
     .update(userTable)
     .set({
-      lastCreditRefreshAt: date,
+      creditReviewFlaggedAt: null,
+      creditReviewReason: null,
     })
     .where(eq(userTable.id, userId));
 }
 
+/**
+ * Take back a share (0 to 1) of a purchase's credits after a refund or while its charge
+ * is disputed. Only what's left of the purchase lot can be taken back. When the buyer already spent
+ * more than that, the shortfall is recorded and their account is flagged for review.
+ * Returns null when no purchase matches the payment intent.
+ */
+export async function reverseCreditPurchase({
+  paymentIntentId,
+  share,
+  type,
+  description,
+  idempotencyKey,
+}: {
+  paymentIntentId: string;
+  share: number;
+  type: CreditReversalType;
+  description: string;
+  idempotencyKey: string;
+}) {
+  const db = getDB();
+
+  const purchase = await db.query.creditTransactionTable.findFirst({
+    where: and(
+      eq(creditTransactionTable.paymentIntentId, paymentIntentId),
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.PURCHASE),
+    ),
+  });
+
+  if (!purchase) {
+    return null;
+  }
+
+  const wallet = { userId: purchase.userId, teamId: purchase.teamId ?? undefined };
+  const toReverse = Math.min(Math.max(Math.round(purchase.amount * share), 0), purchase.amount);
+  // Expired credits are already gone from the balance
+  const available = purchase.expirationDateProcessedAt ? 0 : purchase.remainingAmount;
+  const reversed = Math.min(toReverse, available);
+  const shortfall = toReverse - reversed;
+
+  const statements: [LedgerStatement, ...LedgerStatement[]] = [
+    db.insert(creditTransactionTable).values({
+      ...wallet,
+      amount: -reversed,
+      remainingAmount: 0,
+      type,
+      description: shortfall > 0 ? `${description} (${shortfall} already spent)` : description,
+      paymentIntentId,
+      idempotencyKey,
+    }),
+  ];
+
+  if (reversed > 0) {
+    statements.push(
+      db
+        .update(creditTransactionTable)
+        .set({
+          remainingAmount: sql`MAX(${creditTransactionTable.remainingAmount} - ${reversed}, 0)`,
+        })
+        .where(eq(creditTransactionTable.id, purchase.id)),
+      buildBalanceUpdate({ wallet, change: -reversed }),
+    );
+  }
+
+  const applied = await applyLedgerBatch({ idempotencyKey, statements });
+
+  if (applied) {
+    if (shortfall > 0) {
+      await flagCreditReview({
+        userId: purchase.userId,
+        reason: `${description}: ${shortfall} of ${toReverse} credits were already spent (payment ${paymentIntentId})`,
+      });
+    }
+
+    await refreshWalletSessions(wallet);
+  }
+
+  return { applied, reversed, shortfall };
+}
+
+/**
+ * Give back the credits a dispute took, once the dispute is won.
+ * `reversalIdempotencyKey` is the key the credits were taken back with.
+ */
+export async function restoreReversedCredits({
+  reversalIdempotencyKey,
+  description,
+  idempotencyKey,
+}: {
+  reversalIdempotencyKey: string;
+  description: string;
+  idempotencyKey: string;
+}) {
+  const db = getDB();
+
+  const reversal = await db.query.creditTransactionTable.findFirst({
+    where: eq(creditTransactionTable.idempotencyKey, reversalIdempotencyKey),
+  });
+
+  if (!reversal || reversal.amount >= 0) {
+    return false;
+  }
+
+  // The restored credits expire with the purchase they came from
+  const purchase = reversal.paymentIntentId
+    ? await db.query.creditTransactionTable.findFirst({
+      where: and(
+        eq(creditTransactionTable.paymentIntentId, reversal.paymentIntentId),
+        eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.PURCHASE),
+      ),
+      columns: {
+        expirationDate: true,
+      },
+    })
+    : undefined;
+
+  return grantCredits({
+    userId: reversal.userId,
+    teamId: reversal.teamId ?? undefined,
+    amount: -reversal.amount,
+    description,
+    type: reversal.type as CreditReversalType,
+    idempotencyKey,
+    expirationDate: purchase?.expirationDate ?? undefined,
+    paymentIntentId: reversal.paymentIntentId ?? undefined,
+  });
+}
+
+/**
+ * Record a transaction that doesn't change the balance, like a failed purchase.
+ * Use grantCredits or consumeCredits for anything that moves credits.
+ */
 export async function logTransaction({
   userId,
-  amount,
   description,
   type,
   expirationDate,
-  paymentIntentId
+  paymentIntentId,
+  idempotencyKey,
 }: {
   userId: string;
-  amount: number;
   description: string;
   type: keyof typeof CREDIT_TRANSACTION_TYPE;
   expirationDate?: Date;
   paymentIntentId?: string;
+  idempotencyKey?: string;
 }) {
   const db = getDB();
   await db.insert(creditTransactionTable).values({
     userId,
-    amount,
-    remainingAmount: amount, // Initialize remaining amount to be the same as amount
+    amount: 0,
+    remainingAmount: 0,
     type,
     description,
     expirationDate,
-    paymentIntentId
-  });
+    paymentIntentId,
+    idempotencyKey,
+  }).onConflictDoNothing();
 }
 
 export async function addFreeMonthlyCreditsIfNeeded(session: KVSession): Promise<number> {
   const currentTime = new Date();
 
+  // Paid plans get their monthly credits when the subscription invoice is paid
+  if (getActivePlan(session.user).id !== FREE_PLAN_ID) {
+    return session.user.currentCredits;
+  }
+
   // Check if it's been at least a month since last refresh
   if (shouldRefreshCredits(session, currentTime)) {
     // Double check the last refresh date from the database to prevent race conditions
@@ -141,23 +565,38 @@ export async function addFreeMonthlyCreditsIfNeeded(session: KVSession): Promise
     }
 
     // Process any expired credits first
-    await processExpiredCredits(session.userId, currentTime);
+    await processExpiredCredits({ userId: session.userId }, currentTime);
 
     // Add free monthly credits with 1 month expiration
     const expirationDate = new Date(currentTime);
     expirationDate.setMonth(expirationDate.getMonth() + 1);
 
-    await updateUserCredits(session.userId, FREE_MONTHLY_CREDITS);
-    await logTransaction({
-      userId: session.userId,
-      amount: FREE_MONTHLY_CREDITS,
-      description: 'Free monthly credits',
-      type: CREDIT_TRANSACTION_TYPE.MONTHLY_REFRESH,
-      expirationDate
+    // The previous refresh identifies the period, so concurrent sessions grant it only once
+    const idempotencyKey = `monthly-refresh:${session.userId}:${user?.lastCreditRefreshAt?.getTime() ?? "initial"}`;
+    const applied = await applyLedgerBatch({
+      idempotencyKey,
+      statements: [
+        ...buildGrantStatements({
+          userId: session.userId,
+          amount: FREE_MONTHLY_CREDITS,
+          description: 'Free monthly credits',
+          type: CREDIT_TRANSACTION_TYPE.MONTHLY_REFRESH,
+          idempotencyKey,
+          expirationDate,
+        }),
+        // Update last refresh date
+        db
+          .update(userTable)
+          .set({
+            lastCreditRefreshAt: currentTime,
+          })
+          .where(eq(userTable.id, session.userId)),
+      ],
     });
 
-    // Update last refresh date
-    await updateLastRefreshDate(session.userId, currentTime);
+    if (applied) {
+      await updateAllSessionsOfUser(session.userId);
+    }
 
     // Get the updated credit balance from the database
     const updatedUser = await db.query.userTable.findFirst({
@@ -185,25 +624,216 @@ export async function hasEnoughCredits({ userId, requiredCredits }: { userId: st
   return user.currentCredits >= requiredCredits;
 }
 
-export async function consumeCredits({ userId, amount, description }: { userId: string; amount: number; description: string }) {
+export const CREDIT_HOLD_RESULT = {
+  HELD: 'held',
+  INSUFFICIENT_CREDITS: 'insufficient_credits',
+  MEMBER_CAP_REACHED: 'member_cap_reached',
+} as const;
+
+// What a run holds, read when a batch runs so a hold released in the meantime counts as 0
+function heldCreditsOf(runId: string) {
+  return sql`COALESCE((
+    SELECT ${creditHoldTable.amount} FROM ${creditHoldTable}
+    WHERE ${creditHoldTable.runId} = ${runId}
+  ), 0)`;
+}
+
+// Whether the run still holds credits, read when a batch runs
+function holdExists(runId: string) {
+  return sql`EXISTS (SELECT 1 FROM ${creditHoldTable} WHERE ${creditHoldTable.runId} = ${runId})`;
+}
+
+/**
+ * Hold credits for a run whose cost is only known afterwards, recorded per run until it is
+ * settled or released. Team holds count against the member's monthly cap while they are open.
+ */
+export async function holdCredits({ userId, teamId, runId, amount }: CreditWallet & { runId: string; amount: number }) {
   const db = getDB();
 
-  // First check if user has enough credits
-  const user = await db.query.userTable.findFirst({
-    where: eq(userTable.id, userId),
+  // Holds left behind by dead runs would keep the credits from this one
+  await releaseStaleCreditHolds({ userId, teamId });
+
+  const cap = teamId ? await getMemberCreditCap({ userId, teamId }) : null;
+  // Counts this hold and every other open hold of the member, read when the batch runs
+  const overCap = teamId && cap !== null
+    ? sql`${memberMonthlyUsageQuery({ userId, teamId })} + ${memberHeldCreditsQuery({ userId, teamId })} > ${cap}`
+    : sql`0`;
+
+  // One batch so the hold, the cap check and the balance change commit together, which
+  // keeps concurrent runs from all passing the cap. A hold over the cap is deleted again.
+  // The balance is checked and lowered in a single statement so two holds can't both pass
+  // the check; when it doesn't change, the hold is deleted again.
+  const [, overCapHold, held] = await db.batch([
+    db.insert(creditHoldTable).values({ userId, teamId, runId, amount }),
+    db
+      .delete(creditHoldTable)
+      .where(and(eq(creditHoldTable.runId, runId), overCap))
+      .returning({ id: creditHoldTable.id }),
+    teamId
+      ? db
+        .update(teamTable)
+        .set({ creditBalance: sql`${teamTable.creditBalance} - ${amount}` })
+        .where(and(eq(teamTable.id, teamId), gte(teamTable.creditBalance, amount), holdExists(runId)))
+        .returning({ id: teamTable.id })
+      : db
+        .update(userTable)
+        .set({ currentCredits: sql`${userTable.currentCredits} - ${amount}` })
+        .where(and(eq(userTable.id, userId), gte(userTable.currentCredits, amount), holdExists(runId)))
+        .returning({ id: userTable.id }),
+    db
+      .delete(creditHoldTable)
+      .where(and(eq(creditHoldTable.runId, runId), sql`changes() = 0`)),
+  ]);
+
+  if (overCapHold.length > 0) {
+    return CREDIT_HOLD_RESULT.MEMBER_CAP_REACHED;
+  }
+
+  return held.length > 0 ? CREDIT_HOLD_RESULT.HELD : CREDIT_HOLD_RESULT.INSUFFICIENT_CREDITS;
+}
+
+/**
+ * Credits held for a run, 0 once it was settled or released
+ */
+export async function getHeldCredits(runId: string) {
+  const hold = await getDB().query.creditHoldTable.findFirst({
+    where: eq(creditHoldTable.runId, runId),
     columns: {
-      currentCredits: true,
+      amount: true,
+    },
+  });
+
+  return hold?.amount ?? 0;
+}
+
+/**
+ * Give the credits held for a run back without charging anything.
+ * Returns false when the run holds nothing, e.g. because it was settled already.
+ */
+export async function releaseHeldCredits(runId: string) {
+  const db = getDB();
+
+  const hold = await db.query.creditHoldTable.findFirst({
+    where: eq(creditHoldTable.runId, runId),
+    columns: {
+      userId: true,
+      teamId: true,
     },
   });
 
-  if (!user || user.currentCredits < amount) {
+  if (!hold) {
+    return false;
+  }
+
+  const wallet = { userId: hold.userId, teamId: hold.teamId ?? undefined };
+  // The amount is read in the batch, so releasing twice gives the credits back once
+  await db.batch([
+    buildBalanceUpdate({ wallet, change: heldCreditsOf(runId) }),
+    db.delete(creditHoldTable).where(eq(creditHoldTable.runId, runId)),
+  ]);
+  await refreshWalletSessions(wallet);
+
+  return true;
+}
+
+/**
+ * Release holds older than CREDIT_HOLD_TTL_MINUTES, of one wallet or of every wallet.
+ * Runs settle or release their hold when they end, so these belong to runs whose
+ * worker died. Returns how many holds were released.
+ */
+export async function releaseStaleCreditHolds(wallet?: CreditWallet) {
+  const staleBefore = new Date(Date.now() - CREDIT_HOLD_TTL_MINUTES * 60_000);
+
+  const staleHolds = await getDB().query.creditHoldTable.findMany({
+    where: and(
+      lt(creditHoldTable.createdAt, staleBefore),
+      wallet?.teamId ? eq(creditHoldTable.teamId, wallet.teamId) : undefined,
+      wallet && !wallet.teamId
+        ? and(eq(creditHoldTable.userId, wallet.userId), isNull(creditHoldTable.teamId))
+        : undefined,
+    ),
+    columns: {
+      runId: true,
+      amount: true,
+    },
+  });
+
+  let released = 0;
+  for (const hold of staleHolds) {
+    try {
+      if (await releaseHeldCredits(hold.runId)) {
+        console.warn(`[Credits] Released ${hold.amount} credits held by run ${hold.runId} since before ${staleBefore.toISOString()}`);
+        released++;
+      }
+    } catch (error) {
+      console.error(`Failed to release the stale hold of run ${hold.runId}:`, error);
+    }
+  }
+
+  return released;
+}
+
+export interface CreditUsageItem {
+  amount: number;
+  description: string;
+}
+
+/**
+ * Charge one or more usage items in a single batch: every item is written as a USAGE
+ * transaction, the credits are taken from the wallet's oldest active lots and its balance
+ * is lowered. With `releaseHold`, the credits held for `runId` are released in the same batch.
+ * Replaying an idempotency key returns the current balance without charging again.
+ */
+export async function consumeCreditItems({
+  userId,
+  teamId,
+  items,
+  idempotencyKey,
+  releaseHold = false,
+  conversationId,
+  runId,
+}: CreditWallet & {
+  items: [CreditUsageItem, ...CreditUsageItem[]];
+  idempotencyKey: string;
+  releaseHold?: boolean;
+  conversationId?: string;
+  runId?: string;
+}) {
+  const db = getDB();
+  const wallet = { userId, teamId };
+
+  if (await isIdempotencyKeyUsed(idempotencyKey)) {
+    return getWalletBalance(wallet);
+  }
+
+  const amount = items.reduce((sum, item) => sum + item.amount, 0);
+  const hold = releaseHold && runId
+    ? await db.query.creditHoldTable.findFirst({
+      where: eq(creditHoldTable.runId, runId),
+      columns: {
+        amount: true,
+      },
+    })
+    : undefined;
+  const heldAmount = hold?.amount ?? 0;
+
+  // Team lots and paid plans aren't covered by the free monthly refresh, so expire lots here
+  await processExpiredCredits(wallet, new Date());
+
+  // First check if the wallet has enough credits
+  if (await getWalletBalance(wallet) + heldAmount < amount) {
     throw new Error("Insufficient credits");
   }
 
+  // The charge replaces the run's hold, so the hold doesn't count against the cap here
+  if (teamId && !await isWithinMemberCap({ userId, teamId, amount, exceptRunId: hold ? runId : undefined })) {
+    throw new Error("Monthly team credit cap reached");
+  }
+
   // Get all non-expired transactions with remaining credits, ordered by creation date
   const activeTransactionsWithBalance = await db.query.creditTransactionTable.findMany({
     where: and(
-      eq(creditTransactionTable.userId, userId),
+      walletLots(wallet),
       gt(creditTransactionTable.remainingAmount, 0),
       isNull(creditTransactionTable.expirationDateProcessedAt),
       or(
@@ -214,6 +844,22 @@ export async function consumeCredits({ userId, amount, description }: { userId:
     orderBy: [asc(creditTransactionTable.createdAt)],
   });
 
+  // Log the usage transactions first so a replayed key aborts the batch
+  const [firstItem, ...otherItems] = items.map((item, index) =>
+    db.insert(creditTransactionTable).values({
+      userId,
+      teamId,
+      amount: -item.amount,
+      remainingAmount: 0, // Usage transactions don't have remaining amount
+      type: CREDIT_TRANSACTION_TYPE.USAGE,
+      description: item.description,
+      conversationId,
+      runId,
+      idempotencyKey: index === 0 ? idempotencyKey : `${idempotencyKey}:${index}`,
+    })
+  );
+  const statements: [LedgerStatement, ...LedgerStatement[]] = [firstItem, ...otherItems];
+
   let remainingToDeduct = amount;
 
   // Deduct from each transaction until we've deducted the full amount
@@ -222,61 +868,76 @@ export async function consumeCredits({ userId, amount, description }: { userId:
 
     const deductFromThis = Math.min(transaction.remainingAmount, remainingToDeduct);
 
-    await db
-      .update(creditTransactionTable)
-      .set({
-        remainingAmount: transaction.remainingAmount - deductFromThis,
-      })
-      .where(eq(creditTransactionTable.id, transaction.id));
+    // Relative to the stored value, so a concurrent deduction can't be overwritten
+    statements.push(
+      db
+        .update(creditTransactionTable)
+        .set({
+          remainingAmount: sql`MAX(${creditTransactionTable.remainingAmount} - ${deductFromThis}, 0)`,
+        })
+        .where(eq(creditTransactionTable.id, transaction.id))
+    );
 
     remainingToDeduct -= deductFromThis;
   }
 
-  // Update total credits
-  await db
-    .update(userTable)
-    .set({
-      currentCredits: sql`${userTable.currentCredits} - ${amount}`,
-    })
-    .where(eq(userTable.id, userId));
+  // Update the balance, giving back what the run held in the same step
+  if (hold && runId) {
+    statements.push(
+      buildBalanceUpdate({ wallet, change: sql`${heldCreditsOf(runId)} - ${amount}` }),
+      db.delete(creditHoldTable).where(eq(creditHoldTable.runId, runId)),
+    );
+  } else {
+    statements.push(buildBalanceUpdate({ wallet, change: -amount }));
+  }
 
-  // Log the usage transaction
-  await db.insert(creditTransactionTable).values({
-    userId,
-    amount: -amount,
-    remainingAmount: 0, // Usage transactions don't have remaining amount
-    type: CREDIT_TRANSACTION_TYPE.USAGE,
-    description,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-  });
+  const applied = await applyLedgerBatch({ idempotencyKey, statements });
 
-  // Get updated credit balance
-  const updatedUser = await db.query.userTable.findFirst({
-    where: eq(userTable.id, userId),
-    columns: {
-      currentCredits: true,
-    },
-  });
+  if (applied) {
+    await refreshWalletSessions(wallet);
+  }
 
-  // Update all KV sessions to reflect the new credit balance
-  await updateAllSessionsOfUser(userId);
+  return getWalletBalance(wallet);
+}
 
-  return updatedUser?.currentCredits ?? 0;
+export async function consumeCredits({
+  userId,
+  teamId,
+  amount,
+  description,
+  idempotencyKey,
+  conversationId,
+  runId,
+}: CreditWallet & {
+  amount: number;
+  description: string;
+  idempotencyKey: string;
+  conversationId?: string;
+  runId?: string;
+}) {
+  return consumeCreditItems({
+    userId,
+    teamId,
+    items: [{ amount, description }],
+    idempotencyKey,
+    conversationId,
+    runId,
+  });
 }
 
 export async function getCreditTransactions({
   userId,
+  teamId,
   page = 1,
   limit = 10
-}: {
-  userId: string;
+}: CreditWallet & {
   page?: number;
   limit?: number;
 }) {
   const db = getDB();
+  const where = walletLots({ userId, teamId });
   const transactions = await db.query.creditTransactionTable.findMany({
-    where: eq(creditTransactionTable.userId, userId),
+    where,
     orderBy: [desc(creditTransactionTable.createdAt)],
     limit,
     offset: (page - 1) * limit,
@@ -284,17 +945,31 @@ export async function getCreditTransactions({
       expirationDateProcessedAt: false,
       remainingAmount: false,
       userId: false,
-    }
+    },
+    with: {
+      // Team transactions show which member bought or used the credits
+      user: {
+        columns: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+        },
+      },
+    },
   });
 
   const total = await db
     .select({ count: sql<number>`count(*)` })
     .from(creditTransactionTable)
-    .where(eq(creditTransactionTable.userId, userId))
+    .where(where)
     .then((result) => result[0].count);
 
   return {
-    transactions,
+    transactions: transactions.map(({ user, ...transaction }) => ({
+      ...transaction,
+      member: teamId ? user : undefined,
+    })),
     pagination: {
       total,
       pages: Math.ceil(total / limit),
@@ -303,6 +978,81 @@ export async function getCreditTransactions({
   };
 }
 
+/**
+ * Team credits each member has used this calendar month, with their spending cap
+ */
+export async function getTeamMemberCreditUsage(teamId: string) {
+  const db = getDB();
+
+  const [memberships, usage] = await Promise.all([
+    db.query.teamMembershipTable.findMany({
+      where: eq(teamMembershipTable.teamId, teamId),
+      columns: {
+        id: true,
+        userId: true,
+        monthlyCreditCap: true,
+      },
+      with: {
+        user: {
+          columns: {
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+    }),
+    db
+      .select({
+        userId: creditTransactionTable.userId,
+        used: sql<number>`COALESCE(SUM(-${creditTransactionTable.amount}), 0)`,
+      })
+      .from(creditTransactionTable)
+      .where(and(
+        eq(creditTransactionTable.teamId, teamId),
+        eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.USAGE),
+        gte(creditTransactionTable.createdAt, startOfMonth(new Date())),
+      ))
+      .groupBy(creditTransactionTable.userId),
+  ]);
+
+  const usageByUser = new Map(usage.map((row) => [row.userId, row.used]));
+
+  return memberships.map((membership) => ({
+    membershipId: membership.id,
+    userId: membership.userId,
+    firstName: membership.user.firstName,
+    lastName: membership.user.lastName,
+    email: membership.user.email,
+    monthlyCreditCap: membership.monthlyCreditCap,
+    usedThisMonth: usageByUser.get(membership.userId) ?? 0,
+  }));
+}
+
+/**
+ * Set or clear (with null) the team credits a member may use per calendar month
+ */
+export async function setMemberCreditCap({
+  teamId,
+  userId,
+  monthlyCreditCap,
+}: {
+  teamId: string;
+  userId: string;
+  monthlyCreditCap: number | null;
+}) {
+  const [membership] = await getDB()
+    .update(teamMembershipTable)
+    .set({ monthlyCreditCap })
+    .where(and(
+      eq(teamMembershipTable.teamId, teamId),
+      eq(teamMembershipTable.userId, userId),
+    ))
+    .returning({ id: teamMembershipTable.id });
+
+  return membership ?? null;
+}
+
 export async function getUserPurchasedItems(userId: string) {
   const db = getDB();
   const purchasedItems = await db.query.purchasedItemsTable.findMany({
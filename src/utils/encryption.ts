@@ -0,0 +1,58 @@
+import "server-only";
+
+// Ciphertexts look like `v1.<iv>.<data>` so the scheme can change later
+const VERSION = "v1";
+
+function toBase64(bytes: Uint8Array) {
+  return Buffer.from(bytes).toString("base64");
+}
+
+function fromBase64(value: string) {
+  return new Uint8Array(Buffer.from(value, "base64"));
+}
+
+async function getKey() {
+  const secret = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("SECRETS_ENCRYPTION_KEY is not set");
+  }
+
+  const raw = fromBase64(secret);
+  if (raw.length !== 32) {
+    throw new Error("SECRETS_ENCRYPTION_KEY must be 32 bytes encoded as base64");
+  }
+
+  return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Encrypt a secret with AES-GCM for storage in the database
+ */
+export async function encryptSecret(plaintext: string) {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getKey(),
+    new TextEncoder().encode(plaintext)
+  );
+
+  return [VERSION, toBase64(iv), toBase64(new Uint8Array(data))].join(".");
+}
+
+/**
+ * Decrypt a secret encrypted with `encryptSecret`
+ */
+export async function decryptSecret(ciphertext: string) {
+  const [version, iv, data] = ciphertext.split(".");
+  if (version !== VERSION || !iv || !data) {
+    throw new Error("Unsupported ciphertext format");
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    await getKey(),
+    fromBase64(data)
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
@@ -0,0 +1,232 @@
+import "server-only";
+import { z } from "zod";
+import {
+  CREDIT_HOLD_RESULT,
+  consumeCreditItems,
+  getHeldCredits,
+  getMemberCreditCapRemaining,
+  getWalletBalance,
+  holdCredits,
+  releaseHeldCredits,
+} from "./credits";
+import { METERED_USAGE_PRICES, MIN_METERED_RUN_CREDITS } from "@/constants";
+
+export type MeteringPrices = {
+  [K in keyof typeof METERED_USAGE_PRICES]: number;
+};
+
+export interface MeteredUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  sandboxSeconds?: number;
+  // Wall-clock time of background processes started in the sandbox
+  processSeconds?: number;
+}
+
+export interface UsageLineItem {
+  label: string;
+  quantity: number;
+  credits: number;
+}
+
+export interface CreditReservation {
+  userId: string;
+  // Set when the run is billed to a team's credit pool
+  teamId?: string;
+  runId: string;
+  conversationId?: string;
+  amount: number;
+}
+
+const pricesOverrideSchema = z.object({
+  inputTokensPer1k: z.number().nonnegative(),
+  outputTokensPer1k: z.number().nonnegative(),
+  sandboxSecond: z.number().nonnegative(),
+  processSecond: z.number().nonnegative(),
+}).partial();
+
+export function getMeteringPrices(): MeteringPrices {
+  const override = process.env.METERED_USAGE_PRICES;
+  if (!override) {
+    return { ...METERED_USAGE_PRICES };
+  }
+
+  try {
+    return { ...METERED_USAGE_PRICES, ...pricesOverrideSchema.parse(JSON.parse(override)) };
+  } catch (error) {
+    console.error("Invalid METERED_USAGE_PRICES, using defaults:", error);
+    return { ...METERED_USAGE_PRICES };
+  }
+}
+
+/**
+ * Price metered usage as whole-credit line items.
+ * The run total is rounded up once and spread over the items, so rounding
+ * doesn't add a credit per item. Every run costs at least MIN_METERED_RUN_CREDITS.
+ */
+export function priceUsage(usage: MeteredUsage, prices: MeteringPrices = getMeteringPrices()): UsageLineItem[] {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+  const sandboxSeconds = Math.ceil(usage.sandboxSeconds ?? 0);
+  const processSeconds = Math.ceil(usage.processSeconds ?? 0);
+
+  const items = [
+    { label: "input tokens", quantity: inputTokens, cost: (inputTokens / 1000) * prices.inputTokensPer1k },
+    { label: "output tokens", quantity: outputTokens, cost: (outputTokens / 1000) * prices.outputTokensPer1k },
+    { label: "sandbox seconds", quantity: sandboxSeconds, cost: sandboxSeconds * prices.sandboxSecond },
+    { label: "process seconds", quantity: processSeconds, cost: processSeconds * prices.processSecond },
+  ].filter((item) => item.quantity > 0);
+
+  if (items.length === 0) {
+    return [{ label: "minimum charge", quantity: 1, credits: MIN_METERED_RUN_CREDITS }];
+  }
+
+  const totalCost = items.reduce((sum, item) => sum + item.cost, 0);
+  const total = Math.max(MIN_METERED_RUN_CREDITS, Math.ceil(totalCost - 1e-9));
+
+  // Largest remainder: floor every item, then hand out what's left to the biggest fractions
+  const lineItems = items.map((item) => ({
+    label: item.label,
+    quantity: item.quantity,
+    credits: Math.floor(item.cost),
+    remainder: item.cost - Math.floor(item.cost),
+  }));
+  let leftover = total - lineItems.reduce((sum, item) => sum + item.credits, 0);
+  const byRemainder = [...lineItems].sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; leftover > 0; i = (i + 1) % byRemainder.length, leftover--) {
+    byRemainder[i].credits++;
+  }
+
+  return lineItems.map(({ label, quantity, credits }) => ({ label, quantity, credits }));
+}
+
+export type ReserveCreditsResult =
+  | { success: true; reservation: CreditReservation }
+  | { success: false; error: string };
+
+/**
+ * Hold credits for a run before it starts so concurrent runs can't overspend.
+ * Runs with a `teamId` are held against the team's pool and the member's monthly cap.
+ */
+export async function reserveCredits({
+  userId,
+  teamId,
+  runId,
+  conversationId,
+  amount,
+}: {
+  userId: string;
+  teamId?: string;
+  runId: string;
+  conversationId?: string;
+  amount: number;
+}): Promise<ReserveCreditsResult> {
+  const result = await holdCredits({ userId, teamId, runId, amount });
+
+  switch (result) {
+    case CREDIT_HOLD_RESULT.HELD:
+      return { success: true, reservation: { userId, teamId, runId, conversationId, amount } };
+    case CREDIT_HOLD_RESULT.MEMBER_CAP_REACHED:
+      return { success: false, error: "You have reached your monthly team credit limit" };
+    default:
+      return {
+        success: false,
+        error: teamId ? "Insufficient team credits" : "Insufficient credits",
+      };
+  }
+}
+
+/**
+ * Give held credits back without charging anything, e.g. when a run fails to start.
+ */
+export async function releaseReservation(reservation: CreditReservation) {
+  await releaseHeldCredits(reservation.runId);
+}
+
+// Attempts to charge a run before its hold is released without charging
+const SETTLE_ATTEMPTS = 2;
+
+/**
+ * Charge priced items as USAGE transactions and release the run's hold, in one ledger
+ * batch keyed by the run ID. Items are cut down to what the wallet and, for team runs,
+ * the member's monthly cap can still cover; items stay on the ledger even when nothing
+ * could be charged for them.
+ */
+async function chargeReservation({
+  reservation,
+  items,
+  description,
+}: {
+  reservation: CreditReservation;
+  items: UsageLineItem[];
+  description: string;
+}) {
+  const { userId, teamId, runId, conversationId } = reservation;
+
+  const [balance, held, capRemaining] = await Promise.all([
+    getWalletBalance({ userId, teamId }),
+    getHeldCredits(runId),
+    teamId ? getMemberCreditCapRemaining({ userId, teamId, exceptRunId: runId }) : null,
+  ]);
+  let available = Math.min(balance + held, capRemaining ?? Infinity);
+
+  const total = items.reduce((sum, item) => sum + item.credits, 0);
+  if (total > available) {
+    console.warn(`Run ${runId} cost ${total} credits but only ${Math.max(available, 0)} are available`);
+  }
+
+  const [first, ...rest] = items.map((item) => {
+    const amount = Math.min(item.credits, Math.max(available, 0));
+    available -= amount;
+
+    return {
+      amount,
+      description: `${description}: ${item.quantity.toLocaleString("en-US")} ${item.label}`,
+    };
+  });
+
+  const balanceAfter = await consumeCreditItems({
+    userId,
+    teamId,
+    items: [first, ...rest],
+    idempotencyKey: `run:${runId}`,
+    releaseHold: true,
+    conversationId,
+    runId,
+  });
+
+  return { charged: first.amount + rest.reduce((sum, item) => sum + item.amount, 0), items, balance: balanceAfter };
+}
+
+/**
+ * Charge the real cost of a run and release its hold, so settling twice charges once.
+ * A run that cost more than the wallet or the member's cap can cover is charged what's
+ * available. Balances can change between reading them and charging, so a charge that
+ * fails is tried again; when it keeps failing the hold is released uncharged rather
+ * than kept, and the error is thrown.
+ */
+export async function settleReservation({
+  reservation,
+  usage,
+  description,
+}: {
+  reservation: CreditReservation;
+  usage: MeteredUsage;
+  description: string;
+}) {
+  const items = priceUsage(usage);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await chargeReservation({ reservation, items, description });
+    } catch (error) {
+      if (attempt < SETTLE_ATTEMPTS) {
+        console.warn(`Failed to charge run ${reservation.runId}, trying again:`, error);
+        continue;
+      }
+
+      await releaseReservation(reservation);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { FREE_PLAN_ID, SUBSCRIPTION_PLANS } from "@/constants";
+
+export type SubscriptionPlan = typeof SUBSCRIPTION_PLANS[number];
+export type SubscriptionPlanId = SubscriptionPlan["id"];
+
+export function getPlan(planId: string | null | undefined): SubscriptionPlan | undefined {
+  return SUBSCRIPTION_PLANS.find((plan) => plan.id === planId);
+}
+
+/**
+ * The plan a user or team is on right now. A paid plan lapses back to Free once
+ * its period has ended without being renewed.
+ */
+export function getActivePlan({
+  planId,
+  planExpiresAt,
+}: {
+  planId: string | null;
+  // Sessions store dates as strings
+  planExpiresAt: Date | string | null;
+}): SubscriptionPlan {
+  const plan = getPlan(planId);
+  if (!plan || plan.id === FREE_PLAN_ID || !planExpiresAt || new Date(planExpiresAt) <= new Date()) {
+    return getPlan(FREE_PLAN_ID)!;
+  }
+
+  return plan;
+}
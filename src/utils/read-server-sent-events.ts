@@ -0,0 +1,129 @@
+import { RUN_ID_HEADER } from "@/constants";
+
+export interface ServerSentEventMeta {
+  // The event's `id:`, for streams that number their events
+  id?: number;
+  // The event's `event:` name, when it isn't a plain message
+  event?: string;
+}
+
+/**
+ * Read the events of a server-sent events response until it ends, parsing the data of
+ * each one as JSON. Events that aren't valid JSON are logged and skipped.
+ */
+export async function readServerSentEvents<T>(
+  response: Response,
+  onEvent: (event: T, meta: ServerSentEventMeta) => void
+) {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let meta: ServerSentEventMeta = {};
+  let data: string[] = [];
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      try {
+        onEvent(JSON.parse(data.join("\n")) as T, meta);
+      } catch (e) {
+        console.error("Failed to parse SSE data:", e);
+      }
+    }
+    meta = {};
+    data = [];
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const rawLine of lines) {
+      const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+      // A blank line ends an event, lines starting with a colon are comments
+      if (line === "") {
+        dispatch();
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const fieldValue = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "data") {
+        data.push(fieldValue);
+      } else if (field === "event") {
+        meta.event = fieldValue;
+      } else if (field === "id" && /^\d+$/.test(fieldValue)) {
+        meta.id = Number(fieldValue);
+      }
+    }
+  }
+
+  // Streams that ended without a blank line after their last event
+  dispatch();
+}
+
+// Dropped streams are resumed at most this many times in a row without new events
+const MAX_RESUME_ATTEMPTS = 3;
+const RESUME_DELAY_MS = 1_000;
+
+/**
+ * Read a server-sent events response like `readServerSentEvents`, reconnecting when the
+ * connection drops. `resume` opens the stream again after the last event seen; streams of
+ * runs, named by the `X-Run-Id` header, are resumed from the run's buffer without it.
+ * Events seen before are skipped. Other streams fail like with `readServerSentEvents`.
+ */
+export async function readResumableServerSentEvents<T>(
+  response: Response,
+  onEvent: (event: T, meta: ServerSentEventMeta) => void,
+  { signal, resume }: { signal?: AbortSignal; resume?: (lastEventId: number) => Promise<Response> } = {}
+) {
+  const runId = response.headers.get(RUN_ID_HEADER);
+  const reconnect = resume ?? (runId
+    ? (lastEventId: number) => fetch(`/api/agent/runs/${encodeURIComponent(runId)}/events`, {
+      headers: { "Last-Event-ID": String(lastEventId) },
+      signal,
+    })
+    : undefined);
+  let lastEventId = 0;
+  let attempts = 0;
+
+  const handleEvent = (event: T, meta: ServerSentEventMeta) => {
+    if (meta.id !== undefined) {
+      if (meta.id <= lastEventId) return;
+      lastEventId = meta.id;
+      attempts = 0;
+    }
+    onEvent(event, meta);
+  };
+
+  let current: Response | undefined = response;
+  while (true) {
+    try {
+      if (!current) {
+        await new Promise((resolve) => setTimeout(resolve, RESUME_DELAY_MS * attempts));
+        current = await reconnect?.(lastEventId);
+        if (!current?.ok) {
+          throw new Error(`Failed to resume the stream: ${current?.status} ${current?.statusText}`);
+        }
+      }
+      await readServerSentEvents<T>(current, handleEvent);
+      return;
+    } catch (error) {
+      if (!reconnect || signal?.aborted || attempts >= MAX_RESUME_ATTEMPTS) {
+        throw error;
+      }
+      attempts++;
+      current = undefined;
+      console.warn(`Stream dropped, resuming after event ${lastEventId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,50 @@
+// HMAC-signed tokens with an expiry, for links and handshakes the server hands out and
+// checks later without storing them. Works in the worker as well as in Next.js.
+
+function toBase64Url(bytes: Uint8Array) {
+  return Buffer.from(bytes).toString("base64url");
+}
+
+async function getSigningKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Sign a payload as `<payload>.<HMAC-SHA256 signature>`, both base64url encoded.
+ * `exp` is the expiry as seconds since the epoch.
+ */
+export async function signToken<T extends { exp: number }>(payload: T, secret: string) {
+  const encodedPayload = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await getSigningKey(secret), new TextEncoder().encode(encodedPayload));
+
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The payload of a token, or null when it is malformed, forged or expired
+ */
+export async function verifyToken<T extends { exp: number }>(token: string, secret: string): Promise<T | null> {
+  const [encodedPayload, encodedSignature] = token.split(".");
+  if (!encodedPayload || !encodedSignature) return null;
+
+  const valid = await crypto.subtle.verify(
+    "HMAC",
+    await getSigningKey(secret),
+    Buffer.from(encodedSignature, "base64url"),
+    new TextEncoder().encode(encodedPayload)
+  );
+  if (!valid) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString()) as T;
+    return payload.exp * 1000 > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,559 @@
+import "server-only";
+import type Stripe from "stripe";
+import ms from "ms";
+import { and, count, desc, eq, lt, or, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import { getStripe } from "@/lib/stripe";
+import { CREDIT_TRANSACTION_TYPE, STRIPE_EVENT_STATUS, stripeEventTable } from "@/db/schema";
+import { CREDITS_EXPIRATION_YEARS } from "@/constants";
+import {
+  getCreditPackage,
+  grantCredits,
+  logTransaction,
+  restoreReversedCredits,
+  reverseCreditPurchase,
+} from "./credits";
+import {
+  getPlanByPriceId,
+  grantPlanCredits,
+  isActiveSubscriptionStatus,
+  syncSubscriptionPlan,
+} from "./subscriptions";
+
+// Stripe webhook events we handle
+const WEBHOOK_EVENTS = {
+  PAYMENT_INTENT_SUCCEEDED: "payment_intent.succeeded",
+  CHECKOUT_SESSION_COMPLETED: "checkout.session.completed",
+  PAYMENT_INTENT_FAILED: "payment_intent.payment_failed",
+  CHARGE_SUCCEEDED: "charge.succeeded",
+  CHARGE_FAILED: "charge.failed",
+  SUBSCRIPTION_CREATED: "customer.subscription.created",
+  SUBSCRIPTION_UPDATED: "customer.subscription.updated",
+  SUBSCRIPTION_DELETED: "customer.subscription.deleted",
+  INVOICE_PAID: "invoice.paid",
+  INVOICE_PAYMENT_FAILED: "invoice.payment_failed",
+  CHARGE_REFUNDED: "charge.refunded",
+  CHARGE_DISPUTE_CREATED: "charge.dispute.created",
+  CHARGE_DISPUTE_CLOSED: "charge.dispute.closed",
+} as const;
+
+// Invoices for a new subscription or a renewal grant the plan's monthly credits
+const PLAN_CREDIT_BILLING_REASONS = ["subscription_create", "subscription_cycle"];
+
+// Type definitions for Stripe webhook objects
+interface StripePaymentIntent {
+  id: string;
+  metadata?: {
+    userId?: string;
+    packageId?: string;
+    credits?: string;
+    // Set when the credits were bought for a team's pool
+    teamId?: string;
+  };
+  last_payment_error?: {
+    message?: string;
+  };
+}
+
+interface StripeCheckoutSession {
+  id: string;
+  mode?: string;
+  payment_status?: string;
+  payment_intent?: string;
+  metadata?: {
+    userId?: string;
+    packageId?: string;
+    credits?: string;
+  };
+}
+
+interface StripeCharge {
+  id: string;
+  amount: number;
+  // Total refunded so far, in cents
+  amount_refunded: number;
+  payment_intent?: string | null;
+}
+
+interface StripeDispute {
+  id: string;
+  amount: number;
+  charge: string;
+  payment_intent?: string | null;
+  status: string;
+}
+
+// Set on subscriptions at checkout: the user who subscribed and, for team plans, the team
+interface StripeSubscriptionMetadata {
+  userId?: string;
+  teamId?: string;
+}
+
+interface StripeSubscription {
+  id: string;
+  status: string;
+  customer: string;
+  current_period_end: number;
+  metadata?: StripeSubscriptionMetadata;
+  items: {
+    data: Array<{
+      price: { id: string };
+    }>;
+  };
+}
+
+interface StripeInvoice {
+  id: string;
+  billing_reason?: string | null;
+  subscription_details?: {
+    metadata?: StripeSubscriptionMetadata | null;
+  } | null;
+  lines: {
+    data: Array<{
+      price?: { id: string } | null;
+      period: { start: number; end: number };
+    }>;
+  };
+  last_finalization_error?: {
+    message?: string;
+  } | null;
+}
+
+// An event still PROCESSING after this long is assumed to have crashed and can be claimed again
+const STALE_PROCESSING_MS = ms("10 minutes");
+
+/**
+ * Apply a Stripe event. Throws when it couldn't be applied so it can be retried.
+ * Credit grants carry their own idempotency keys, so applying an event twice is safe.
+ */
+async function applyStripeEvent(event: Stripe.Event) {
+  // Handle the event based on type
+  switch (event.type) {
+    case WEBHOOK_EVENTS.PAYMENT_INTENT_SUCCEEDED: {
+      const paymentIntent = event.data.object as StripePaymentIntent;
+      console.log(`[Stripe Webhook] Payment intent succeeded: ${paymentIntent.id}`);
+      
+      // Extract metadata
+      const { userId, packageId, credits, teamId } = paymentIntent.metadata || {};
+      
+      if (!userId || !packageId || !credits) {
+        console.warn("[Stripe Webhook] Missing metadata in payment intent");
+        break;
+      }
+
+      // Get the credit package details
+      const creditPackage = getCreditPackage(packageId);
+      
+      if (!creditPackage) {
+        console.error(`[Stripe Webhook] Invalid package ID: ${packageId}`);
+        break;
+      }
+
+      // Verify the credits match
+      if (parseInt(credits) !== creditPackage.credits) {
+        console.error("[Stripe Webhook] Credit mismatch in payment intent");
+        break;
+      }
+
+      try {
+        // Add credits to user account and log the transaction. The key is shared with
+        // confirmPayment, so credits are granted once per payment intent
+        const applied = await grantCredits({
+          userId,
+          teamId,
+          amount: creditPackage.credits,
+          description: `Purchased ${creditPackage.credits} credits via Stripe webhook`,
+          type: CREDIT_TRANSACTION_TYPE.PURCHASE,
+          expirationDate: new Date(Date.now() + ms(`${CREDITS_EXPIRATION_YEARS} years`)),
+          paymentIntentId: paymentIntent.id,
+          idempotencyKey: `purchase:${paymentIntent.id}`,
+        });
+        
+        console.log(applied
+          ? `[Stripe Webhook] Successfully added ${creditPackage.credits} credits to ${teamId ? `team ${teamId}` : `user ${userId}`}`
+          : `[Stripe Webhook] Credits for payment intent ${paymentIntent.id} were already granted`);
+      } catch (error) {
+        console.error("[Stripe Webhook] Error processing payment:", error);
+        throw error;
+      }
+      break;
+    }
+
+    case WEBHOOK_EVENTS.CHECKOUT_SESSION_COMPLETED: {
+      const session = event.data.object as StripeCheckoutSession;
+      console.log(`[Stripe Webhook] Checkout session completed: ${session.id}`);
+      
+      // Subscription checkouts are handled through the subscription and invoice events
+      if (session.mode === "subscription") {
+        break;
+      }
+
+      // If using checkout sessions, handle similar to payment intent
+      if (session.payment_status === "paid") {
+        const { userId, packageId, credits } = session.metadata || {};
+        
+        if (!userId || !packageId || !credits) {
+          console.warn("[Stripe Webhook] Missing metadata in checkout session");
+          break;
+        }
+
+        const creditPackage = getCreditPackage(packageId);
+        
+        if (!creditPackage || parseInt(credits) !== creditPackage.credits) {
+          console.error("[Stripe Webhook] Invalid package or credit mismatch");
+          break;
+        }
+
+        try {
+          await grantCredits({
+            userId,
+            amount: creditPackage.credits,
+            description: `Purchased ${creditPackage.credits} credits via Stripe checkout`,
+            type: CREDIT_TRANSACTION_TYPE.PURCHASE,
+            expirationDate: new Date(Date.now() + ms(`${CREDITS_EXPIRATION_YEARS} years`)),
+            paymentIntentId: session.payment_intent,
+            idempotencyKey: `purchase:${session.payment_intent ?? session.id}`,
+          });
+          
+          console.log(`[Stripe Webhook] Successfully processed checkout for user ${userId}`);
+        } catch (error) {
+          console.error("[Stripe Webhook] Error processing checkout:", error);
+          throw error;
+        }
+      }
+      break;
+    }
+
+    case WEBHOOK_EVENTS.PAYMENT_INTENT_FAILED: {
+      const paymentIntent = event.data.object as StripePaymentIntent;
+      console.error(`[Stripe Webhook] Payment failed for intent: ${paymentIntent.id}`);
+      
+      // You could log failed payment attempts here for analytics
+      const { userId } = paymentIntent.metadata || {};
+      if (userId) {
+        await logTransaction({
+          userId,
+          description: `Payment failed: ${paymentIntent.last_payment_error?.message || "Unknown error"}`,
+          type: CREDIT_TRANSACTION_TYPE.FAILED_PURCHASE,
+          expirationDate: new Date(),
+          paymentIntentId: paymentIntent.id,
+          idempotencyKey: `failed-purchase:${event.id}`,
+        });
+      }
+      break;
+    }
+
+    case WEBHOOK_EVENTS.CHARGE_SUCCEEDED: {
+      const charge = event.data.object as StripeCharge;
+      console.log(`[Stripe Webhook] Charge succeeded: ${charge.id}`);
+      // Charge events are handled via payment_intent.succeeded
+      break;
+    }
+
+    case WEBHOOK_EVENTS.CHARGE_FAILED: {
+      const charge = event.data.object as StripeCharge;
+      console.error(`[Stripe Webhook] Charge failed: ${charge.id}`);
+      // Log for monitoring purposes
+      break;
+    }
+
+    case WEBHOOK_EVENTS.CHARGE_REFUNDED: {
+      const charge = event.data.object as StripeCharge;
+      console.log(`[Stripe Webhook] Charge refunded: ${charge.id}`);
+
+      if (!charge.payment_intent || charge.amount <= 0) {
+        break;
+      }
+
+      // Partial refunds arrive one event each, only the newly refunded part is reversed
+      const previouslyRefunded = event.data.previous_attributes?.amount_refunded ?? 0;
+      const refunded = charge.amount_refunded - previouslyRefunded;
+      if (refunded <= 0) {
+        break;
+      }
+
+      const result = await reverseCreditPurchase({
+        paymentIntentId: charge.payment_intent,
+        share: refunded / charge.amount,
+        type: CREDIT_TRANSACTION_TYPE.REFUND,
+        description: `Refunded $${(refunded / 100).toFixed(2)}`,
+        idempotencyKey: `refund:${charge.id}:${charge.amount_refunded}`,
+      });
+
+      console.log(result
+        ? `[Stripe Webhook] Reversed ${result.reversed} credits for refund of ${charge.id}${result.shortfall > 0 ? `, ${result.shortfall} already spent` : ""}`
+        : `[Stripe Webhook] No credit purchase found for refunded charge ${charge.id}`);
+      break;
+    }
+
+    case WEBHOOK_EVENTS.CHARGE_DISPUTE_CREATED: {
+      const dispute = event.data.object as StripeDispute;
+      console.warn(`[Stripe Webhook] Charge ${dispute.charge} disputed: ${dispute.id}`);
+
+      if (!dispute.payment_intent) {
+        break;
+      }
+
+      // Disputes don't carry the charge amount, which is needed for partial disputes
+      const charge = await getStripe().charges.retrieve(dispute.charge);
+      if (charge.amount <= 0) {
+        break;
+      }
+
+      const result = await reverseCreditPurchase({
+        paymentIntentId: dispute.payment_intent,
+        share: Math.min(dispute.amount / charge.amount, 1),
+        type: CREDIT_TRANSACTION_TYPE.DISPUTE,
+        description: `Charge disputed ($${(dispute.amount / 100).toFixed(2)})`,
+        idempotencyKey: `dispute:${dispute.id}`,
+      });
+
+      console.log(result
+        ? `[Stripe Webhook] Held ${result.reversed} credits for dispute ${dispute.id}${result.shortfall > 0 ? `, ${result.shortfall} already spent` : ""}`
+        : `[Stripe Webhook] No credit purchase found for disputed charge ${dispute.charge}`);
+      break;
+    }
+
+    case WEBHOOK_EVENTS.CHARGE_DISPUTE_CLOSED: {
+      const dispute = event.data.object as StripeDispute;
+      console.log(`[Stripe Webhook] Dispute ${dispute.id} closed as ${dispute.status}`);
+
+      // Lost disputes keep the credits taken back when the dispute was opened
+      if (dispute.status !== "won") {
+        break;
+      }
+
+      const restored = await restoreReversedCredits({
+        reversalIdempotencyKey: `dispute:${dispute.id}`,
+        description: "Dispute won, credits restored",
+        idempotencyKey: `dispute-won:${dispute.id}`,
+      });
+
+      if (restored) {
+        console.log(`[Stripe Webhook] Restored credits for won dispute ${dispute.id}`);
+      }
+      break;
+    }
+
+    case WEBHOOK_EVENTS.SUBSCRIPTION_CREATED:
+    case WEBHOOK_EVENTS.SUBSCRIPTION_UPDATED:
+    case WEBHOOK_EVENTS.SUBSCRIPTION_DELETED: {
+      const subscription = event.data.object as StripeSubscription;
+      console.log(`[Stripe Webhook] Subscription ${subscription.id} is ${subscription.status}`);
+
+      const { userId, teamId } = subscription.metadata || {};
+      if (!userId) {
+        console.warn("[Stripe Webhook] Missing metadata in subscription");
+        break;
+      }
+
+      const plan = getPlanByPriceId(subscription.items.data[0]?.price.id);
+      if (!plan) {
+        console.error(`[Stripe Webhook] No plan for subscription ${subscription.id}`);
+        break;
+      }
+
+      const isActive = event.type !== WEBHOOK_EVENTS.SUBSCRIPTION_DELETED
+        && isActiveSubscriptionStatus(subscription.status);
+
+      // An incomplete subscription hasn't been paid yet, wait for it to become active
+      if (!isActive && subscription.status === "incomplete") {
+        break;
+      }
+
+      try {
+        await syncSubscriptionPlan({
+          userId,
+          teamId,
+          plan: isActive ? plan : null,
+          subscriptionId: subscription.id,
+          customerId: subscription.customer,
+          expiresAt: isActive ? new Date(subscription.current_period_end * 1000) : null,
+        });
+      } catch (error) {
+        console.error("[Stripe Webhook] Error updating subscription plan:", error);
+        throw error;
+      }
+      break;
+    }
+
+    case WEBHOOK_EVENTS.INVOICE_PAID: {
+      const invoice = event.data.object as StripeInvoice;
+      console.log(`[Stripe Webhook] Invoice paid: ${invoice.id}`);
+
+      if (!invoice.billing_reason || !PLAN_CREDIT_BILLING_REASONS.includes(invoice.billing_reason)) {
+        break;
+      }
+
+      const { userId, teamId } = invoice.subscription_details?.metadata || {};
+      const line = invoice.lines.data[0];
+      const plan = getPlanByPriceId(line?.price?.id);
+
+      if (!userId || !line || !plan) {
+        console.warn(`[Stripe Webhook] Invoice ${invoice.id} is not for a known plan`);
+        break;
+      }
+
+      try {
+        const applied = await grantPlanCredits({
+          userId,
+          teamId,
+          plan,
+          invoiceId: invoice.id,
+          periodEnd: new Date(line.period.end * 1000),
+        });
+
+        console.log(applied
+          ? `[Stripe Webhook] Granted ${plan.monthlyCredits} ${plan.name} plan credits to ${teamId ? `team ${teamId}` : `user ${userId}`}`
+          : `[Stripe Webhook] Plan credits for invoice ${invoice.id} were already granted`);
+      } catch (error) {
+        console.error("[Stripe Webhook] Error granting plan credits:", error);
+        throw error;
+      }
+      break;
+    }
+
+    case WEBHOOK_EVENTS.INVOICE_PAYMENT_FAILED: {
+      const invoice = event.data.object as StripeInvoice;
+      console.error(`[Stripe Webhook] Payment failed for invoice: ${invoice.id}`);
+
+      // Stripe retries the payment, the plan lapses if the subscription is canceled
+      const { userId } = invoice.subscription_details?.metadata || {};
+      if (userId) {
+        await logTransaction({
+          userId,
+          description: `Subscription payment failed: ${invoice.last_finalization_error?.message || "Unknown error"}`,
+          type: CREDIT_TRANSACTION_TYPE.FAILED_PURCHASE,
+          expirationDate: new Date(),
+          idempotencyKey: `failed-invoice:${event.id}`,
+        });
+      }
+      break;
+    }
+
+    default:
+      console.log(`[Stripe Webhook] Unhandled event type: ${event.type}`);
+  }
+}
+
+/**
+ * Record the event and claim it for processing. Returns false when it was already
+ * processed or another delivery of the same event is processing it right now.
+ */
+async function claimStripeEvent(event: Stripe.Event) {
+  const db = getDB();
+
+  await db.insert(stripeEventTable).values({
+    id: event.id,
+    type: event.type,
+    payload: JSON.stringify(event),
+  }).onConflictDoNothing();
+
+  // A new event has no attempts yet, a failed or stalled one can be claimed again
+  const claimed = await db
+    .update(stripeEventTable)
+    .set({
+      status: STRIPE_EVENT_STATUS.PROCESSING,
+      attempts: sql`${stripeEventTable.attempts} + 1`,
+      error: null,
+    })
+    .where(and(
+      eq(stripeEventTable.id, event.id),
+      or(
+        eq(stripeEventTable.status, STRIPE_EVENT_STATUS.FAILED),
+        and(
+          eq(stripeEventTable.status, STRIPE_EVENT_STATUS.PROCESSING),
+          or(
+            eq(stripeEventTable.attempts, 0),
+            lt(stripeEventTable.updatedAt, new Date(Date.now() - STALE_PROCESSING_MS)),
+          ),
+        ),
+      ),
+    ))
+    .returning({ id: stripeEventTable.id });
+
+  return claimed.length > 0;
+}
+
+/**
+ * Process a Stripe event once. Returns false for duplicates, throws when processing
+ * fails; the event is then marked FAILED and can be retried by Stripe or an admin.
+ */
+export async function processStripeEvent(event: Stripe.Event) {
+  if (!await claimStripeEvent(event)) {
+    return false;
+  }
+
+  const db = getDB();
+
+  try {
+    await applyStripeEvent(event);
+  } catch (error) {
+    await db
+      .update(stripeEventTable)
+      .set({
+        status: STRIPE_EVENT_STATUS.FAILED,
+        error: (error instanceof Error ? error.message : String(error)).slice(0, 1000),
+      })
+      .where(eq(stripeEventTable.id, event.id));
+    throw error;
+  }
+
+  await db
+    .update(stripeEventTable)
+    .set({
+      status: STRIPE_EVENT_STATUS.PROCESSED,
+      processedAt: new Date(),
+    })
+    .where(eq(stripeEventTable.id, event.id));
+
+  return true;
+}
+
+/**
+ * Process a stored event again from its payload, e.g. after fixing what made it fail.
+ */
+export async function reprocessStripeEvent(eventId: string) {
+  const stored = await getDB().query.stripeEventTable.findFirst({
+    where: eq(stripeEventTable.id, eventId),
+    columns: {
+      payload: true,
+    },
+  });
+
+  if (!stored) {
+    throw new Error("Event not found");
+  }
+
+  return processStripeEvent(JSON.parse(stored.payload) as Stripe.Event);
+}
+
+export async function getStripeEvents({
+  page,
+  pageSize,
+  status,
+  type,
+}: {
+  page: number;
+  pageSize: number;
+  status?: keyof typeof STRIPE_EVENT_STATUS;
+  type?: string;
+}) {
+  const db = getDB();
+  const where = and(
+    status ? eq(stripeEventTable.status, status) : undefined,
+    type ? eq(stripeEventTable.type, type) : undefined,
+  );
+
+  const [[{ total }], events] = await Promise.all([
+    db.select({ total: count() }).from(stripeEventTable).where(where),
+    db.query.stripeEventTable.findMany({
+      where,
+      orderBy: [desc(stripeEventTable.createdAt)],
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    }),
+  ]);
+
+  return { events, total };
+}
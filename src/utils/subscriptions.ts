@@ -0,0 +1,143 @@
+import "server-only";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import { teamTable, userTable, CREDIT_TRANSACTION_TYPE } from "@/db/schema";
+import { SUBSCRIPTION_PLANS } from "@/constants";
+import { grantCredits, type CreditWallet } from "./credits";
+import type { SubscriptionPlan } from "./plans";
+import { updateAllSessionsOfUser } from "./kv-session";
+
+// Stripe subscription statuses that still give access to the plan
+const ACTIVE_SUBSCRIPTION_STATUSES = ["active", "trialing", "past_due"];
+
+export function getPlanPriceId(plan: SubscriptionPlan) {
+  return plan.stripePriceEnv ? process.env[plan.stripePriceEnv] || undefined : undefined;
+}
+
+export function getPlanByPriceId(priceId: string | null | undefined) {
+  if (!priceId) return undefined;
+
+  return SUBSCRIPTION_PLANS.find((plan) => getPlanPriceId(plan) === priceId);
+}
+
+export function isActiveSubscriptionStatus(status: string) {
+  return ACTIVE_SUBSCRIPTION_STATUSES.includes(status);
+}
+
+export async function getSubscriberPlanState({ userId, teamId }: CreditWallet) {
+  const db = getDB();
+
+  if (teamId) {
+    return db.query.teamTable.findFirst({
+      where: eq(teamTable.id, teamId),
+      columns: {
+        planId: true,
+        planExpiresAt: true,
+        stripeCustomerId: true,
+        stripeSubscriptionId: true,
+      },
+    });
+  }
+
+  return db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    columns: {
+      planId: true,
+      planExpiresAt: true,
+      stripeCustomerId: true,
+      stripeSubscriptionId: true,
+    },
+  });
+}
+
+export async function setStripeCustomerId({ userId, teamId, stripeCustomerId }: CreditWallet & { stripeCustomerId: string }) {
+  const db = getDB();
+
+  if (teamId) {
+    await db.update(teamTable).set({ stripeCustomerId }).where(eq(teamTable.id, teamId));
+  } else {
+    await db.update(userTable).set({ stripeCustomerId }).where(eq(userTable.id, userId));
+  }
+}
+
+/**
+ * Store the plan of a Stripe subscription on the user or team it was bought for.
+ * Passing a null plan puts the subscriber back on the free plan.
+ */
+export async function syncSubscriptionPlan({
+  userId,
+  teamId,
+  plan,
+  subscriptionId,
+  customerId,
+  expiresAt,
+}: CreditWallet & {
+  plan: SubscriptionPlan | null;
+  subscriptionId: string;
+  customerId: string;
+  expiresAt: Date | null;
+}) {
+  const db = getDB();
+  const values = plan
+    ? {
+      planId: plan.id,
+      planExpiresAt: expiresAt,
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: subscriptionId,
+    }
+    : {
+      planId: null,
+      planExpiresAt: null,
+      stripeSubscriptionId: null,
+    };
+
+  if (teamId) {
+    // Only the subscription the team is on can change its plan, so a stale
+    // event for a replaced subscription can't downgrade it
+    const team = await db.query.teamTable.findFirst({
+      where: eq(teamTable.id, teamId),
+      columns: { stripeSubscriptionId: true },
+    });
+    if (!plan && team?.stripeSubscriptionId !== subscriptionId) return;
+
+    await db.update(teamTable).set(values).where(eq(teamTable.id, teamId));
+    return;
+  }
+
+  const user = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    columns: { stripeSubscriptionId: true },
+  });
+  if (!plan && user?.stripeSubscriptionId !== subscriptionId) return;
+
+  await db.update(userTable).set(values).where(eq(userTable.id, userId));
+
+  // Sessions carry the user's plan
+  await updateAllSessionsOfUser(userId);
+}
+
+/**
+ * Grant a paid plan's monthly credits for an invoice, as a MONTHLY_REFRESH lot that
+ * expires with the billing period. Keyed by the invoice so retried webhooks grant once.
+ */
+export async function grantPlanCredits({
+  userId,
+  teamId,
+  plan,
+  invoiceId,
+  periodEnd,
+}: CreditWallet & {
+  plan: SubscriptionPlan;
+  invoiceId: string;
+  periodEnd: Date;
+}) {
+  return grantCredits({
+    userId,
+    teamId,
+    amount: plan.monthlyCredits,
+    description: `${plan.name} plan monthly credits`,
+    type: CREDIT_TRANSACTION_TYPE.MONTHLY_REFRESH,
+    idempotencyKey: `plan-credits:${invoiceId}`,
+    expirationDate: periodEnd,
+  });
+}
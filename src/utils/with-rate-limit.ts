@@ -72,6 +72,11 @@ export const RATE_LIMITS = {
     limit: 15,
     windowInSeconds: Math.floor(ms("60 minutes") / 1000),
   },
+  GITHUB_CONNECT: {
+    identifier: "github-connect",
+    limit: 15,
+    windowInSeconds: Math.floor(ms("60 minutes") / 1000),
+  },
   SIGN_UP: {
     identifier: "sign-up",
     limit: 3,
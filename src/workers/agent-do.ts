@@ -0,0 +1,526 @@
+import { DurableObject } from 'cloudflare:workers';
+import type {
+  AgentUsage,
+  AppendMessageInput,
+  ConversationHistory,
+  ConversationRole,
+  NotebookCell,
+  NotebookCellInput,
+  NotebookCellType,
+  NotebookKernel,
+  NotebookLanguage,
+  NotebookOutput,
+  NotebookSummary,
+  StoredMessage,
+  StoredNotebook,
+  StoredProcess,
+  StoredToolCall,
+  StoredUpload,
+} from '../types/agent';
+
+type MessageRow = {
+  id: string;
+  role: string;
+  content: string;
+  usage: string | null;
+  created_at: number;
+};
+
+type UploadRow = {
+  path: string;
+  name: string;
+  type: string;
+  size: number;
+  uploaded_at: number;
+};
+
+type ToolCallRow = {
+  id: string;
+  message_id: string;
+  step: number;
+  tool_name: string;
+  input: string;
+  output: string | null;
+  error: string | null;
+};
+
+type NotebookRow = {
+  id: string;
+  name: string;
+  language: string;
+  secret_names: string;
+  context_id: string | null;
+  context_sandbox_id: string | null;
+  created_at: number;
+  updated_at: number;
+};
+
+type NotebookCellRow = {
+  id: string;
+  type: string;
+  source: string;
+  outputs: string;
+  execution_count: number | null;
+};
+
+type ProcessRow = {
+  id: string;
+  sandbox_id: string;
+  command: string;
+  cwd: string | null;
+  env: string;
+  secret_names: string;
+  started_at: number;
+};
+
+const SANDBOX_ID_KEY = 'sandboxId';
+
+function parseJson<T>(value: string | null): T | undefined {
+  if (value === null) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function toStoredProcess(row: ProcessRow): StoredProcess {
+  return {
+    id: row.id,
+    sandboxId: row.sandbox_id,
+    command: row.command,
+    cwd: row.cwd,
+    env: parseJson<Record<string, string>>(row.env) ?? {},
+    secretNames: parseJson<string[]>(row.secret_names) ?? [],
+    startedAt: row.started_at,
+  };
+}
+
+/**
+ * One AgentDO instance owns a single conversation. Messages, tool calls,
+ * their outputs, uploaded files, notebooks, the processes the conversation started and
+ * the linked sandbox ID live in the object's SQLite storage.
+ */
+export class AgentDO extends DurableObject {
+  private sql: SqlStorage;
+
+  constructor(ctx: DurableObjectState, env: unknown) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+
+    ctx.blockConcurrencyWhile(async () => {
+      this.migrate();
+    });
+  }
+
+  private migrate() {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS conversation_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS messages (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        usage TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS tool_calls (
+        id TEXT PRIMARY KEY,
+        message_id TEXT NOT NULL,
+        step INTEGER NOT NULL,
+        tool_name TEXT NOT NULL,
+        input TEXT NOT NULL,
+        output TEXT,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS tool_calls_message_id_idx ON tool_calls (message_id);
+      CREATE TABLE IF NOT EXISTS uploads (
+        path TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        uploaded_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS notebooks (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        language TEXT NOT NULL,
+        secret_names TEXT NOT NULL,
+        context_id TEXT,
+        context_sandbox_id TEXT,
+        execution_count INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS notebook_cells (
+        notebook_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        source TEXT NOT NULL,
+        outputs TEXT NOT NULL,
+        execution_count INTEGER,
+        PRIMARY KEY (notebook_id, id)
+      );
+      CREATE TABLE IF NOT EXISTS processes (
+        sandbox_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        command TEXT NOT NULL,
+        cwd TEXT,
+        env TEXT NOT NULL,
+        secret_names TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        PRIMARY KEY (sandbox_id, id)
+      );
+    `);
+  }
+
+  private getMeta(key: string): string | null {
+    const rows = this.sql
+      .exec<{ value: string }>('SELECT value FROM conversation_meta WHERE key = ?', key)
+      .toArray();
+    return rows[0]?.value ?? null;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.sql.exec(
+      'INSERT INTO conversation_meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      key,
+      value
+    );
+  }
+
+  async getHistory(): Promise<ConversationHistory> {
+    const messageRows = this.sql
+      .exec<MessageRow>('SELECT id, role, content, usage, created_at FROM messages ORDER BY seq')
+      .toArray();
+    const toolCallRows = this.sql
+      .exec<ToolCallRow>('SELECT id, message_id, step, tool_name, input, output, error FROM tool_calls ORDER BY rowid')
+      .toArray();
+
+    const toolCallsByMessage = new Map<string, StoredToolCall[]>();
+    for (const row of toolCallRows) {
+      const toolCalls = toolCallsByMessage.get(row.message_id) ?? [];
+      toolCalls.push({
+        id: row.id,
+        step: row.step,
+        toolName: row.tool_name,
+        input: parseJson(row.input),
+        output: parseJson(row.output),
+        error: row.error ?? undefined,
+      });
+      toolCallsByMessage.set(row.message_id, toolCalls);
+    }
+
+    const messages: StoredMessage[] = messageRows.map((row) => ({
+      id: row.id,
+      role: row.role as ConversationRole,
+      content: row.content,
+      toolCalls: toolCallsByMessage.get(row.id) ?? [],
+      usage: parseJson<AgentUsage>(row.usage),
+      createdAt: row.created_at,
+    }));
+
+    const uploads: StoredUpload[] = this.sql
+      .exec<UploadRow>('SELECT path, name, type, size, uploaded_at FROM uploads ORDER BY uploaded_at')
+      .toArray()
+      .map((row) => ({
+        path: row.path,
+        name: row.name,
+        type: row.type,
+        size: row.size,
+        uploadedAt: row.uploaded_at,
+      }));
+
+    return {
+      sandboxId: this.getMeta(SANDBOX_ID_KEY),
+      messages,
+      uploads,
+    };
+  }
+
+  async appendMessage(input: AppendMessageInput): Promise<StoredMessage> {
+    const message: StoredMessage = {
+      id: crypto.randomUUID(),
+      role: input.role,
+      content: input.content,
+      toolCalls: input.toolCalls ?? [],
+      usage: input.usage,
+      createdAt: Date.now(),
+    };
+
+    // Synchronous storage calls without an await in between are committed atomically
+    this.sql.exec(
+      'INSERT INTO messages (id, role, content, usage, created_at) VALUES (?, ?, ?, ?, ?)',
+      message.id,
+      message.role,
+      message.content,
+      message.usage ? JSON.stringify(message.usage) : null,
+      message.createdAt
+    );
+    for (const toolCall of message.toolCalls) {
+      this.sql.exec(
+        'INSERT OR REPLACE INTO tool_calls (id, message_id, step, tool_name, input, output, error) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        toolCall.id,
+        message.id,
+        toolCall.step,
+        toolCall.toolName,
+        JSON.stringify(toolCall.input ?? null),
+        toolCall.output === undefined ? null : JSON.stringify(toolCall.output),
+        toolCall.error ?? null
+      );
+    }
+
+    return message;
+  }
+
+  // Uploading to the same path again replaces the earlier entry
+  async registerUpload(upload: StoredUpload) {
+    this.sql.exec(
+      'INSERT OR REPLACE INTO uploads (path, name, type, size, uploaded_at) VALUES (?, ?, ?, ?, ?)',
+      upload.path,
+      upload.name,
+      upload.type,
+      upload.size,
+      upload.uploadedAt
+    );
+  }
+
+  async listNotebooks(): Promise<NotebookSummary[]> {
+    return this.sql
+      .exec<{ id: string; name: string; language: string; updated_at: number; cell_count: number }>(
+        `SELECT n.id, n.name, n.language, n.updated_at, COUNT(c.id) AS cell_count
+         FROM notebooks n LEFT JOIN notebook_cells c ON c.notebook_id = n.id
+         GROUP BY n.id ORDER BY n.updated_at DESC`
+      )
+      .toArray()
+      .map((row) => ({
+        id: row.id,
+        name: row.name,
+        language: row.language as NotebookLanguage,
+        cellCount: row.cell_count,
+        updatedAt: row.updated_at,
+      }));
+  }
+
+  async getNotebook(id: string): Promise<StoredNotebook | null> {
+    const [row] = this.sql
+      .exec<NotebookRow>(
+        'SELECT id, name, language, secret_names, context_id, context_sandbox_id, created_at, updated_at FROM notebooks WHERE id = ?',
+        id
+      )
+      .toArray();
+    if (!row) return null;
+
+    const cells: NotebookCell[] = this.sql
+      .exec<NotebookCellRow>(
+        'SELECT id, type, source, outputs, execution_count FROM notebook_cells WHERE notebook_id = ? ORDER BY position',
+        id
+      )
+      .toArray()
+      .map((cell) => ({
+        id: cell.id,
+        type: cell.type as NotebookCellType,
+        source: cell.source,
+        outputs: parseJson<NotebookOutput[]>(cell.outputs) ?? [],
+        executionCount: cell.execution_count,
+      }));
+
+    return {
+      id: row.id,
+      name: row.name,
+      language: row.language as NotebookLanguage,
+      secretNames: parseJson<string[]>(row.secret_names) ?? [],
+      cells,
+      kernel: row.context_id && row.context_sandbox_id
+        ? { contextId: row.context_id, sandboxId: row.context_sandbox_id }
+        : null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async createNotebook(input: {
+    name: string;
+    language: NotebookLanguage;
+    secretNames: string[];
+    cells: NotebookCellInput[];
+  }): Promise<StoredNotebook> {
+    const id = crypto.randomUUID();
+    const now = Date.now();
+
+    this.sql.exec(
+      'INSERT INTO notebooks (id, name, language, secret_names, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)',
+      id,
+      input.name,
+      input.language,
+      JSON.stringify(input.secretNames),
+      now,
+      now
+    );
+    this.replaceCells(id, input.cells);
+
+    return (await this.getNotebook(id))!;
+  }
+
+  /**
+   * Rename a notebook, change its secrets or replace its cells. Cells are stored in the
+   * given order; existing cells keep their outputs unless new ones are given.
+   */
+  async updateNotebook(
+    id: string,
+    input: { name?: string; secretNames?: string[]; cells?: NotebookCellInput[] }
+  ): Promise<StoredNotebook | null> {
+    const exists = this.sql.exec('SELECT 1 FROM notebooks WHERE id = ?', id).toArray().length > 0;
+    if (!exists) return null;
+
+    if (input.name !== undefined) {
+      this.sql.exec('UPDATE notebooks SET name = ? WHERE id = ?', input.name, id);
+    }
+    if (input.secretNames !== undefined) {
+      this.sql.exec('UPDATE notebooks SET secret_names = ? WHERE id = ?', JSON.stringify(input.secretNames), id);
+    }
+    if (input.cells !== undefined) {
+      this.replaceCells(id, input.cells);
+    }
+    this.sql.exec('UPDATE notebooks SET updated_at = ? WHERE id = ?', Date.now(), id);
+
+    return this.getNotebook(id);
+  }
+
+  private replaceCells(notebookId: string, cells: NotebookCellInput[]) {
+    const existing = new Map(
+      this.sql
+        .exec<NotebookCellRow>('SELECT id, type, source, outputs, execution_count FROM notebook_cells WHERE notebook_id = ?', notebookId)
+        .toArray()
+        .map((row) => [row.id, row])
+    );
+
+    this.sql.exec('DELETE FROM notebook_cells WHERE notebook_id = ?', notebookId);
+    const seen = new Set<string>();
+    cells.forEach((cell, position) => {
+      // Duplicate IDs, e.g. from a hand-edited import, get a new one
+      const id = cell.id && !seen.has(cell.id) ? cell.id : crypto.randomUUID();
+      seen.add(id);
+      const previous = existing.get(id);
+
+      this.sql.exec(
+        'INSERT INTO notebook_cells (notebook_id, id, position, type, source, outputs, execution_count) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        notebookId,
+        id,
+        position,
+        cell.type,
+        cell.source,
+        cell.outputs ? JSON.stringify(cell.outputs) : previous?.outputs ?? '[]',
+        cell.executionCount !== undefined ? cell.executionCount : previous?.execution_count ?? null
+      );
+    });
+  }
+
+  /**
+   * Store the outputs of a cell run and number it with the notebook's next execution
+   * count. Returns the count, or null when the cell no longer exists.
+   */
+  async recordCellOutputs(notebookId: string, cellId: string, outputs: NotebookOutput[]): Promise<number | null> {
+    const cellExists = this.sql
+      .exec('SELECT 1 FROM notebook_cells WHERE notebook_id = ? AND id = ?', notebookId, cellId)
+      .toArray().length > 0;
+    if (!cellExists) return null;
+
+    const [{ execution_count: executionCount }] = this.sql
+      .exec<{ execution_count: number }>(
+        'UPDATE notebooks SET execution_count = execution_count + 1, updated_at = ? WHERE id = ? RETURNING execution_count',
+        Date.now(),
+        notebookId
+      )
+      .toArray();
+    this.sql.exec(
+      'UPDATE notebook_cells SET outputs = ?, execution_count = ? WHERE notebook_id = ? AND id = ?',
+      JSON.stringify(outputs),
+      executionCount,
+      notebookId,
+      cellId
+    );
+
+    return executionCount;
+  }
+
+  // Clearing the kernel also restarts execution counts, like restarting a Jupyter kernel
+  async setNotebookKernel(id: string, kernel: NotebookKernel | null) {
+    if (kernel) {
+      this.sql.exec(
+        'UPDATE notebooks SET context_id = ?, context_sandbox_id = ? WHERE id = ?',
+        kernel.contextId,
+        kernel.sandboxId,
+        id
+      );
+    } else {
+      this.sql.exec(
+        'UPDATE notebooks SET context_id = NULL, context_sandbox_id = NULL, execution_count = 0 WHERE id = ?',
+        id
+      );
+    }
+  }
+
+  async deleteNotebook(id: string) {
+    this.sql.exec('DELETE FROM notebook_cells WHERE notebook_id = ?', id);
+    this.sql.exec('DELETE FROM notebooks WHERE id = ?', id);
+  }
+
+  // Processes are keyed by sandbox, since team runs of the conversation use a sandbox of their own
+  async listProcesses(sandboxId: string): Promise<StoredProcess[]> {
+    return this.sql
+      .exec<ProcessRow>(
+        'SELECT id, sandbox_id, command, cwd, env, secret_names, started_at FROM processes WHERE sandbox_id = ? ORDER BY started_at',
+        sandboxId
+      )
+      .toArray()
+      .map(toStoredProcess);
+  }
+
+  async getProcess(sandboxId: string, id: string): Promise<StoredProcess | null> {
+    const row = this.sql
+      .exec<ProcessRow>(
+        'SELECT id, sandbox_id, command, cwd, env, secret_names, started_at FROM processes WHERE sandbox_id = ? AND id = ?',
+        sandboxId,
+        id
+      )
+      .toArray()[0];
+    return row ? toStoredProcess(row) : null;
+  }
+
+  async recordProcess(process: StoredProcess) {
+    this.sql.exec(
+      'INSERT OR REPLACE INTO processes (sandbox_id, id, command, cwd, env, secret_names, started_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      process.sandboxId,
+      process.id,
+      process.command,
+      process.cwd,
+      JSON.stringify(process.env),
+      JSON.stringify(process.secretNames),
+      process.startedAt
+    );
+  }
+
+  async deleteProcess(sandboxId: string, id: string) {
+    this.sql.exec('DELETE FROM processes WHERE sandbox_id = ? AND id = ?', sandboxId, id);
+  }
+
+  async linkSandbox(sandboxId: string) {
+    this.setMeta(SANDBOX_ID_KEY, sandboxId);
+  }
+
+  // Clears the conversation but keeps the linked sandbox, uploads, notebooks and processes so the workspace survives
+  async reset() {
+    this.sql.exec('DELETE FROM tool_calls');
+    this.sql.exec('DELETE FROM messages');
+  }
+
+  // Drops everything, including the sandbox link, when the conversation is deleted
+  async destroy() {
+    await this.ctx.storage.deleteAll();
+  }
+}
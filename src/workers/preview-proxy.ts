@@ -0,0 +1,112 @@
+import { getSandbox, type SandboxEnv } from '@cloudflare/sandbox';
+import {
+  parsePreviewHost,
+  PREVIEW_TOKEN_COOKIE,
+  PREVIEW_TOKEN_PARAM,
+  verifyPreviewToken,
+  type PreviewTokenPayload,
+} from '../lib/preview-access';
+
+interface PreviewEnv extends SandboxEnv {
+  NEXT_TAG_CACHE_D1: D1Database;
+  PREVIEW_TOKEN_SECRET?: string;
+}
+
+interface PreviewRow {
+  id: string;
+  sandboxId: string;
+  port: number;
+  access: 'public' | 'token' | 'members';
+}
+
+function readCookie(request: Request, name: string) {
+  const header = request.headers.get('Cookie') ?? '';
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return value.join('=');
+  }
+  return null;
+}
+
+// Member tokens only open members previews, share tokens only previews shared by link
+function tokenOpens(payload: PreviewTokenPayload | null, preview: PreviewRow) {
+  if (!payload || payload.previewId !== preview.id) return false;
+  return preview.access === 'members' ? payload.kind === 'member' : true;
+}
+
+function denied(message: string, status: number) {
+  return new Response(message, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+}
+
+// Like the SDK's proxyToSandbox, which only routes hosts that carry the sandbox ID
+function proxyToPreview(request: Request, env: PreviewEnv, preview: PreviewRow) {
+  const url = new URL(request.url);
+  const proxyRequest = new Request(`http://localhost:${preview.port}${url.pathname}${url.search}`, {
+    method: request.method,
+    headers: {
+      ...Object.fromEntries(request.headers),
+      'X-Original-URL': request.url,
+      'X-Forwarded-Host': url.hostname,
+      'X-Forwarded-Proto': url.protocol.replace(':', ''),
+      'X-Sandbox-Name': preview.sandboxId,
+    },
+    body: request.body,
+  });
+
+  return getSandbox(env.Sandbox, preview.sandboxId).containerFetch(proxyRequest, preview.port);
+}
+
+/**
+ * Gate in front of sandbox preview URLs (`<port>-<host slug>.<host>`). Only recorded
+ * previews are proxied, and those not public need a token from the app: it comes in
+ * as a query parameter, is traded for a cookie on the preview host, and the request is
+ * redirected without it. Returns null for requests to other hosts.
+ */
+export async function handlePreviewRequest(request: Request, env: PreviewEnv): Promise<Response | null> {
+  const url = new URL(request.url);
+  const target = parsePreviewHost(url.hostname);
+  if (!target) return null;
+
+  const preview = await env.NEXT_TAG_CACHE_D1
+    .prepare('SELECT id, sandboxId, port, access FROM sandbox_preview WHERE hostSlug = ? AND port = ? LIMIT 1')
+    .bind(target.hostSlug, target.port)
+    .first<PreviewRow>();
+  if (!preview) {
+    return denied('Preview not found', 404);
+  }
+
+  if (preview.access !== 'public') {
+    if (!env.PREVIEW_TOKEN_SECRET) {
+      console.error('[Preview] PREVIEW_TOKEN_SECRET is not set');
+      return denied('Previews are not configured', 503);
+    }
+
+    const queryToken = url.searchParams.get(PREVIEW_TOKEN_PARAM);
+    if (queryToken) {
+      const payload = await verifyPreviewToken(queryToken, env.PREVIEW_TOKEN_SECRET);
+      if (!payload || !tokenOpens(payload, preview)) {
+        return denied('Preview link is invalid or expired', 401);
+      }
+
+      url.searchParams.delete(PREVIEW_TOKEN_PARAM);
+      const maxAge = payload.exp - Math.floor(Date.now() / 1000);
+      const secure = url.protocol === 'https:' ? '; Secure' : '';
+
+      return new Response(null, {
+        status: 302,
+        headers: {
+          Location: url.toString(),
+          'Set-Cookie': `${PREVIEW_TOKEN_COOKIE}=${queryToken}; Path=/; Max-Age=${maxAge}; HttpOnly; SameSite=Lax${secure}`,
+        },
+      });
+    }
+
+    const cookieToken = readCookie(request, PREVIEW_TOKEN_COOKIE);
+    const payload = cookieToken ? await verifyPreviewToken(cookieToken, env.PREVIEW_TOKEN_SECRET) : null;
+    if (!tokenOpens(payload, preview)) {
+      return denied('Open this preview from the app or with a share link', 401);
+    }
+  }
+
+  return proxyToPreview(request, env, preview);
+}
@@ -0,0 +1,223 @@
+import { DurableObject } from 'cloudflare:workers';
+import type { AgentRun, AgentRunStatus } from '../types/agent';
+
+// A server-sent event frame with its ID, formatted by the run's stream
+export interface BufferedFrame {
+  id: number;
+  frame: string;
+}
+
+// Events kept for replay, older ones are dropped as new ones come in
+const MAX_BUFFERED_EVENTS = 1_000;
+
+// Finished runs can still be resumed for this long, then their events are deleted
+const RETENTION_MS = 15 * 60_000;
+
+// Output kept with the record of a finished run
+const MAX_RUN_OUTPUT_CHARS = 10_000;
+
+const OWNER_KEY = 'owner';
+const ENDED_KEY = 'ended';
+const RUN_KEY = 'run';
+
+/**
+ * One RunStreamDO instance buffers the server-sent events of one run, like an agent run
+ * or a code execution. The route streaming the run appends its events here as it sends
+ * them, so a client whose connection dropped reconnects with the last event ID it saw
+ * and gets what it missed, followed by the rest of the run as it happens.
+ *
+ * It also keeps the run's record: its status, the code contexts it executes in and why
+ * it was stopped. Runs are canceled here, the route running them polls for that.
+ */
+export class RunStreamDO extends DurableObject {
+  private sql: SqlStorage;
+  // Resumed streams waiting for more events of the run
+  private tails = new Set<WritableStreamDefaultWriter<Uint8Array>>();
+  private encoder = new TextEncoder();
+
+  constructor(ctx: DurableObjectState, env: unknown) {
+    super(ctx, env);
+    this.sql = ctx.storage.sql;
+
+    ctx.blockConcurrencyWhile(async () => {
+      this.migrate();
+    });
+  }
+
+  private migrate() {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS run_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS events (
+        id INTEGER PRIMARY KEY,
+        frame TEXT NOT NULL
+      );
+    `);
+  }
+
+  /**
+   * Replay the run's events after the `Last-Event-ID` header, then stream new ones until
+   * the run ends. Only the user the run belongs to, passed by the app as `userId`, gets
+   * them; others get a 404 like for unknown runs.
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const owner = this.getMeta(OWNER_KEY);
+    if (!owner || owner !== url.searchParams.get('userId')) {
+      return new Response('Run not found', { status: 404 });
+    }
+
+    const lastEventId = Number(request.headers.get('Last-Event-ID') ?? 0);
+    const frames = this.sql
+      .exec<{ id: number; frame: string }>(
+        'SELECT id, frame FROM events WHERE id > ? ORDER BY id',
+        Number.isFinite(lastEventId) ? lastEventId : 0
+      )
+      .toArray();
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+
+    // Events the client missed that were already dropped can't be sent anymore
+    if (frames.length > 0 && frames[0].id > lastEventId + 1) {
+      writer.write(this.encoder.encode(': earlier events of the run are no longer available\n\n')).catch(() => undefined);
+    }
+    for (const { frame } of frames) {
+      writer.write(this.encoder.encode(frame)).catch(() => undefined);
+    }
+
+    if (this.getMeta(ENDED_KEY)) {
+      writer.close().catch(() => undefined);
+    } else {
+      this.tails.add(writer);
+      writer.closed.catch(() => undefined).finally(() => this.tails.delete(writer));
+    }
+
+    return new Response(readable, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  }
+
+  /**
+   * Buffer events of the run and pass them on to resumed streams. The first call claims
+   * the run for the user, later calls for another user are ignored.
+   */
+  async append(userId: string, frames: BufferedFrame[]) {
+    const owner = this.getMeta(OWNER_KEY);
+    if (owner && owner !== userId) return;
+    if (!owner) this.setMeta(OWNER_KEY, userId);
+
+    for (const { id, frame } of frames) {
+      this.sql.exec('INSERT OR REPLACE INTO events (id, frame) VALUES (?, ?)', id, frame);
+    }
+    this.sql.exec(
+      'DELETE FROM events WHERE id <= (SELECT MAX(id) FROM events) - ?',
+      MAX_BUFFERED_EVENTS
+    );
+
+    const chunk = this.encoder.encode(frames.map(({ frame }) => frame).join(''));
+    for (const tail of this.tails) {
+      tail.write(chunk).catch(() => this.tails.delete(tail));
+    }
+  }
+
+  // Record a run as it starts, claiming it for the user like `append`
+  async register(userId: string, run: Omit<AgentRun, 'status' | 'contextIds'>) {
+    const owner = this.getMeta(OWNER_KEY);
+    if (owner && owner !== userId) {
+      throw new Error('The run belongs to another user');
+    }
+    if (!owner) this.setMeta(OWNER_KEY, userId);
+
+    this.saveRun({ ...run, status: 'running', contextIds: [] });
+  }
+
+  async getRun(userId: string): Promise<AgentRun | null> {
+    if (this.getMeta(OWNER_KEY) !== userId) return null;
+    return this.loadRun();
+  }
+
+  // Code contexts are tracked while the run executes in them
+  async trackCodeContext(userId: string, contextId: string, active: boolean) {
+    const run = await this.getRun(userId);
+    if (!run) return;
+
+    const contextIds = run.contextIds.filter((id) => id !== contextId);
+    this.saveRun({ ...run, contextIds: active ? [...contextIds, contextId] : contextIds });
+  }
+
+  /**
+   * Stop a running run, for the user or for exceeding its time limit. Returns the run,
+   * unchanged when it had already ended, or null for unknown runs.
+   */
+  async cancel(userId: string, { status, reason }: { status: 'canceled' | 'timed-out'; reason: string }) {
+    const run = await this.getRun(userId);
+    if (!run || run.status !== 'running') return run;
+
+    const canceled: AgentRun = { ...run, status, cancelReason: reason };
+    this.saveRun(canceled);
+    return canceled;
+  }
+
+  // Record how the run ended and what it produced. Canceled runs stay canceled.
+  async finish(userId: string, { status, output }: { status: AgentRunStatus; output?: string }) {
+    const run = await this.getRun(userId);
+    if (!run || run.endedAt) return;
+
+    this.saveRun({
+      ...run,
+      status: run.status === 'running' ? status : run.status,
+      endedAt: Date.now(),
+      output: output?.slice(0, MAX_RUN_OUTPUT_CHARS),
+    });
+  }
+
+  // The run is over: resumed streams end, and the events are kept a while for late resumes
+  async end(userId: string) {
+    if (this.getMeta(OWNER_KEY) !== userId) return;
+
+    this.setMeta(ENDED_KEY, String(Date.now()));
+    for (const tail of this.tails) {
+      tail.close().catch(() => undefined);
+    }
+    this.tails.clear();
+
+    await this.ctx.storage.setAlarm(Date.now() + RETENTION_MS);
+  }
+
+  async alarm() {
+    await this.ctx.storage.deleteAll();
+    // The object may stay in memory, answering resumes of the deleted run with a 404
+    this.migrate();
+  }
+
+  private loadRun(): AgentRun | null {
+    const run = this.getMeta(RUN_KEY);
+    return run ? JSON.parse(run) as AgentRun : null;
+  }
+
+  private saveRun(run: AgentRun) {
+    this.setMeta(RUN_KEY, JSON.stringify(run));
+  }
+
+  private getMeta(key: string): string | null {
+    const rows = this.sql
+      .exec<{ value: string }>('SELECT value FROM run_meta WHERE key = ?', key)
+      .toArray();
+    return rows[0]?.value ?? null;
+  }
+
+  private setMeta(key: string, value: string) {
+    this.sql.exec(
+      'INSERT INTO run_meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+      key,
+      value
+    );
+  }
+}
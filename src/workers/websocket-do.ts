@@ -1,199 +1,465 @@
 import { DurableObject } from 'cloudflare:workers';
+import type {
+  AgentStreamEvent,
+  RoomMessage,
+  RoomPermission,
+  RoomUser,
+  RunControl,
+  RunEnd,
+  RunEventBatch,
+  SharedRun,
+} from '../types/agent';
 
-interface WebSocketMessage {
-  type: 'join' | 'leave' | 'message' | 'ping' | 'pong';
-  userId?: string;
+interface IncomingMessage {
+  type: string;
   data?: unknown;
-  timestamp: number;
 }
 
-interface Client {
-  websocket: WebSocket;
-  userId: string;
-  lastPing: number;
+// Kept with each socket, so it survives hibernation
+interface ConnectionAttachment {
+  connectionId: string;
+  user: RoomUser;
+  permission: RoomPermission;
+  // Last time the client sent anything besides the auto-answered ping
+  lastSeen: number;
 }
 
+// Clients send this exact frame as a heartbeat, answered without waking the object
+const PING_FRAME = '{"type":"ping"}';
+const PONG_FRAME = '{"type":"pong"}';
+
+// Connections that haven't pinged for this long are closed
+const CONNECTION_TIMEOUT_MS = 60_000;
+const TIMEOUT_CHECK_INTERVAL_MS = 30_000;
+
+// Messages kept for replay
+const MAX_HISTORY = 200;
+
+// Messages of these types are relayed to the room and kept for replay
+const ROOM_MESSAGE_TYPES = new Set(['message', 'agent-response']);
+
+// A run that stopped asking for its controls has died without finishing
+const RUN_TIMEOUT_MS = 30_000;
+
+const MAX_INTERJECTION_LENGTH = 4_000;
+
+const CURSOR_KEY = 'cursor';
+const RUN_KEY = 'run';
+
+export interface RunInterjection {
+  user: RoomUser;
+  text: string;
+}
+
+// What members asked of a run, see takeRunControl
+export interface RunControlState {
+  paused: boolean;
+  stoppedBy: RoomUser | null;
+  interjections: RunInterjection[];
+}
+
+interface StoredRun extends SharedRun, RunControlState {}
+
+function messageKey(seq: number) {
+  // Zero-padded so storage lists messages in order
+  return `message:${String(seq).padStart(12, '0')}`;
+}
+
+// Steering includes posting, anything unknown only watches
+function parsePermission(value: string | null): RoomPermission {
+  return value === 'steer' || value === 'post' ? value : 'watch';
+}
+
+/**
+ * One WebSocketDO instance is one chat room. Connections use the WebSocket Hibernation
+ * API, so the object is evicted from memory between messages; who is connected lives in
+ * socket attachments and recent messages in storage, numbered by a cursor that
+ * reconnecting clients pass to replay what they missed.
+ *
+ * Conversation rooms also share the conversation's agent run: the run publishes its
+ * events here over RPC, and members who may steer pause, stop or interject in it.
+ */
 export class WebSocketDO extends DurableObject {
-  private clients: Map<string, Client> = new Map();
-  private heartbeatInterval?: number;
+  // Sequence number of the last stored message
+  private cursor = 0;
+  // Agent run of the conversation the room belongs to
+  private run: StoredRun | null = null;
+  // When the run last polled takeRunControl, kept in memory only
+  private runPolledAt = 0;
 
   constructor(ctx: DurableObjectState, env: unknown) {
     super(ctx, env);
-    
-    // Start heartbeat interval
-    this.startHeartbeat();
-  }
-
-  private startHeartbeat() {
-    // Send ping every 30 seconds, close if no pong in 60 seconds
-    this.heartbeatInterval = setInterval(() => {
-      const now = Date.now();
-      for (const [id, client] of this.clients) {
-        if (now - client.lastPing > 60000) {
-          // Client hasn't responded in 60 seconds
-          console.log(`Closing inactive WebSocket for ${id}`);
-          client.websocket.close(1000, 'Connection timeout');
-          this.clients.delete(id);
-        } else {
-          // Send ping
-          this.sendToClient(client, {
-            type: 'ping',
-            timestamp: now
-          });
-        }
-      }
-    }, 30000) as unknown as number;
+
+    ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair(PING_FRAME, PONG_FRAME));
+
+    ctx.blockConcurrencyWhile(async () => {
+      this.cursor = (await ctx.storage.get<number>(CURSOR_KEY)) ?? 0;
+      this.run = (await ctx.storage.get<StoredRun>(RUN_KEY)) ?? null;
+      // Polls aren't stored, so a run restored after hibernation gets a full timeout again
+      if (this.run) this.runPolledAt = Date.now();
+    });
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
-    
+
     if (request.headers.get('Upgrade') !== 'websocket') {
       return new Response('Expected WebSocket', { status: 400 });
     }
 
-    // Extract user ID from query params or headers
+    // Set by /api/ws from a verified join token, never by the browser
     const userId = url.searchParams.get('userId') || 'anonymous';
-    const clientId = crypto.randomUUID();
+    const user: RoomUser = { id: userId, name: url.searchParams.get('userName') || userId };
+    const permission = parsePermission(url.searchParams.get('permission'));
+    const since = Number(url.searchParams.get('cursor'));
 
-    // Create WebSocket pair
     const { 0: client, 1: server } = new WebSocketPair();
 
-    // Accept WebSocket connection
-    server.accept();
-
-    // Store client
-    const clientInfo: Client = {
-      websocket: server,
-      userId,
-      lastPing: Date.now()
-    };
-    this.clients.set(clientId, clientInfo);
-
-    // Set up event listeners
-    server.addEventListener('message', async (event) => {
-      try {
-        const message = JSON.parse(event.data as string) as WebSocketMessage;
-        await this.handleMessage(clientId, message);
-      } catch (error) {
-        console.error('Error handling message:', error);
-        this.sendToClient(clientInfo, {
-          type: 'error',
-          data: 'Invalid message format',
-          timestamp: Date.now()
-        });
-      }
-    });
-
-    server.addEventListener('close', () => {
-      console.log(`WebSocket closed for ${clientId}`);
-      this.clients.delete(clientId);
-      this.broadcast({
-        type: 'leave',
-        userId,
-        timestamp: Date.now()
-      }, clientId);
-    });
+    // Another tab of the same user isn't a new member of the room
+    const alreadyPresent = this.getUsers().some((member) => member.id === user.id);
 
-    server.addEventListener('error', (error) => {
-      console.error(`WebSocket error for ${clientId}:`, error);
-      this.clients.delete(clientId);
-    });
+    await this.endAbandonedRun();
 
-    // Notify others about new connection
-    this.broadcast({
-      type: 'join',
-      userId,
-      timestamp: Date.now()
-    }, clientId);
+    this.ctx.acceptWebSocket(server, [user.id]);
+    server.serializeAttachment({
+      connectionId: crypto.randomUUID(),
+      user,
+      permission,
+      lastSeen: Date.now(),
+    } satisfies ConnectionAttachment);
 
-    // Send welcome message
-    this.sendToClient(clientInfo, {
+    this.send(server, {
       type: 'welcome',
       data: {
-        clientId,
-        userId,
-        connectedClients: Array.from(this.clients.keys())
+        user,
+        users: this.getUsers(),
+        cursor: this.cursor,
+        permission,
+        run: this.getSharedRun(),
       },
-      timestamp: Date.now()
+      timestamp: Date.now(),
     });
 
+    // Without a cursor the client gets the room's recent messages
+    for (const message of await this.getMessagesAfter(Number.isFinite(since) ? since : 0)) {
+      this.send(server, message);
+    }
+
+    if (!alreadyPresent) {
+      this.broadcast({ type: 'join', userId: user.id, user, timestamp: Date.now() }, server);
+    }
+
+    await this.scheduleTimeoutCheck();
+
     return new Response(null, {
       status: 101,
       webSocket: client,
     });
   }
 
-  private async handleMessage(clientId: string, message: WebSocketMessage) {
-    const client = this.clients.get(clientId);
-    if (!client) return;
+  async webSocketMessage(ws: WebSocket, raw: string | ArrayBuffer) {
+    const attachment = ws.deserializeAttachment() as ConnectionAttachment;
+    attachment.lastSeen = Date.now();
+    ws.serializeAttachment(attachment);
 
-    // Update last ping time
-    client.lastPing = Date.now();
+    let message: IncomingMessage;
+    try {
+      message = JSON.parse(typeof raw === 'string' ? raw : new TextDecoder().decode(raw)) as IncomingMessage;
+    } catch {
+      this.send(ws, { type: 'error', data: 'Invalid message format', timestamp: Date.now() });
+      return;
+    }
 
     switch (message.type) {
       case 'ping':
-        // Respond with pong
-        this.sendToClient(client, {
-          type: 'pong',
-          timestamp: Date.now()
-        });
+        // Pings with extra fields miss the auto-response
+        this.send(ws, { type: 'pong', timestamp: Date.now() });
         break;
 
       case 'pong':
-        // Update last ping time (already done above)
         break;
 
-      case 'message':
-        // Broadcast message to all clients
+      case 'typing':
+        // Not kept, typing indicators only matter while they are shown
+        if (attachment.permission === 'watch') return;
         this.broadcast({
-          type: 'message',
-          userId: client.userId,
+          type: 'typing',
+          userId: attachment.user.id,
+          user: attachment.user,
+          data: { typing: Boolean((message.data as { typing?: unknown } | undefined)?.typing) },
+          timestamp: Date.now(),
+        }, ws);
+        break;
+
+      case 'run-control':
+        await this.controlRun(ws, attachment, message.data);
+        break;
+
+      default: {
+        if (!ROOM_MESSAGE_TYPES.has(message.type)) {
+          console.warn(`Unknown message type: ${message.type}`);
+          return;
+        }
+        if (attachment.permission === 'watch') {
+          this.send(ws, { type: 'error', data: 'You can only watch this room', timestamp: Date.now() });
+          return;
+        }
+
+        const stored = await this.storeMessage({
+          type: message.type,
+          userId: attachment.user.id,
+          user: attachment.user,
           data: message.data,
-          timestamp: Date.now()
+          timestamp: Date.now(),
         });
-        break;
+        this.broadcast(stored, ws);
+        // The sender already shows its message, it only needs the cursor to resume from
+        this.send(ws, { type: 'ack', seq: stored.seq, timestamp: stored.timestamp });
+      }
+    }
+  }
 
-      default:
-        console.warn(`Unknown message type: ${message.type}`);
+  /**
+   * Share an agent run of the room's conversation, replacing a previous one. Called by
+   * the run itself, which then publishes its events and polls takeRunControl.
+   */
+  async startRun(run: { id: string; user: RoomUser }) {
+    this.run = { ...run, paused: false, startedAt: Date.now(), stoppedBy: null, interjections: [] };
+    this.runPolledAt = Date.now();
+    await this.ctx.storage.put(RUN_KEY, this.run);
+
+    this.broadcast(await this.storeMessage({
+      type: 'run-start',
+      userId: run.user.id,
+      user: run.user,
+      data: this.getSharedRun(),
+      timestamp: Date.now(),
+    }));
+  }
+
+  /**
+   * Fan events of a run out to the room. They aren't kept: members who join later see
+   * the run's answer once it ends.
+   */
+  async publishRunEvents(runId: string, events: AgentStreamEvent[]) {
+    if (this.run?.id !== runId) return;
+
+    this.broadcast({
+      type: 'agent-event',
+      data: { runId, events } satisfies RunEventBatch,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Whether members paused or stopped the run, and what they interjected since the
+   * last call
+   */
+  async takeRunControl(runId: string): Promise<RunControlState> {
+    if (this.run?.id !== runId) {
+      return { paused: false, stoppedBy: null, interjections: [] };
     }
+
+    this.runPolledAt = Date.now();
+    const { paused, stoppedBy, interjections } = this.run;
+    if (interjections.length > 0) {
+      this.run = { ...this.run, interjections: [] };
+      await this.ctx.storage.put(RUN_KEY, this.run);
+    }
+
+    return { paused, stoppedBy, interjections };
+  }
+
+  async finishRun(runId: string, { finishReason, text }: { finishReason: string; text: string }) {
+    if (this.run?.id !== runId) return;
+
+    const { stoppedBy } = this.run;
+    this.run = null;
+    await this.ctx.storage.delete(RUN_KEY);
+
+    this.broadcast(await this.storeMessage({
+      type: 'run-end',
+      data: { runId, finishReason, text, stoppedBy: stoppedBy ?? undefined } satisfies RunEnd,
+      timestamp: Date.now(),
+    }));
   }
 
-  private sendToClient(client: Client, message: unknown) {
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    this.disconnect(ws);
     try {
-      if (client.websocket.readyState === WebSocket.OPEN) {
-        client.websocket.send(JSON.stringify(message));
+      ws.close(code, reason);
+    } catch {
+      // Already closed by the client
+    }
+  }
+
+  async webSocketError(ws: WebSocket, error: unknown) {
+    console.error('WebSocket error:', error);
+    this.disconnect(ws);
+  }
+
+  /**
+   * Close connections that stopped pinging. Runs while anyone is connected, the object
+   * hibernates in between.
+   */
+  async alarm() {
+    const now = Date.now();
+
+    for (const ws of this.ctx.getWebSockets()) {
+      const attachment = ws.deserializeAttachment() as ConnectionAttachment;
+      const lastPing = this.ctx.getWebSocketAutoResponseTimestamp(ws)?.getTime() ?? 0;
+
+      if (now - Math.max(attachment.lastSeen, lastPing) > CONNECTION_TIMEOUT_MS) {
+        console.log(`Closing inactive WebSocket for ${attachment.user.id}`);
+        ws.close(1000, 'Connection timeout');
+        this.disconnect(ws);
       }
-    } catch (error) {
-      console.error('Error sending to client:', error);
     }
+
+    await this.scheduleTimeoutCheck();
   }
 
-  private broadcast(message: unknown, excludeClientId?: string) {
-    const messageStr = JSON.stringify(message);
-    
-    for (const [id, client] of this.clients) {
-      if (id !== excludeClientId && client.websocket.readyState === WebSocket.OPEN) {
-        try {
-          client.websocket.send(messageStr);
-        } catch (error) {
-          console.error(`Error broadcasting to ${id}:`, error);
+  // Pause, resume, stop or interject in the run, seen by everyone in the room
+  private async controlRun(ws: WebSocket, { user, permission }: ConnectionAttachment, data: unknown) {
+    const control = (data ?? {}) as Partial<RunControl>;
+    const fail = (message: string) => this.send(ws, { type: 'error', data: message, timestamp: Date.now() });
+
+    if (permission !== 'steer') {
+      fail('You can only watch the agent in this room');
+      return;
+    }
+    if (!this.run || control.runId !== this.run.id) {
+      fail('The agent run already finished');
+      return;
+    }
+    if (this.run.stoppedBy) {
+      fail(`${this.run.stoppedBy.name} already stopped the agent run`);
+      return;
+    }
+
+    const text = typeof control.text === 'string' ? control.text.trim() : '';
+    switch (control.action) {
+      case 'pause':
+      case 'resume':
+        this.run.paused = control.action === 'pause';
+        break;
+
+      case 'stop':
+        this.run.stoppedBy = user;
+        this.run.paused = false;
+        break;
+
+      case 'interject':
+        if (!text || text.length > MAX_INTERJECTION_LENGTH) {
+          fail(`Interjections need a message of at most ${MAX_INTERJECTION_LENGTH} characters`);
+          return;
         }
-      }
+        this.run.interjections.push({ user, text });
+        break;
+
+      default:
+        fail('Unknown run control');
+        return;
     }
+    await this.ctx.storage.put(RUN_KEY, this.run);
+
+    // The sender gets it too, its buttons follow the run's state like everyone's
+    this.broadcast(await this.storeMessage({
+      type: 'run-control',
+      userId: user.id,
+      user,
+      data: {
+        runId: this.run.id,
+        action: control.action,
+        ...(control.action === 'interject' ? { text } : {}),
+      } satisfies RunControl,
+      timestamp: Date.now(),
+    }));
   }
 
-  // Clean up when DO is being destroyed
-  async destroy() {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
+  // Runs end themselves, unless the worker running them went away
+  private async endAbandonedRun() {
+    if (!this.run || Date.now() - this.runPolledAt < RUN_TIMEOUT_MS) return;
+
+    console.warn(`Ending abandoned agent run ${this.run.id}`);
+    await this.finishRun(this.run.id, { finishReason: 'abandoned', text: '' });
+  }
+
+  private getSharedRun(): SharedRun | null {
+    if (!this.run) return null;
+
+    const { id, user, paused, startedAt } = this.run;
+    return { id, user, paused, startedAt };
+  }
+
+  private async scheduleTimeoutCheck() {
+    if (this.ctx.getWebSockets().length === 0) return;
+    if (await this.ctx.storage.getAlarm()) return;
+
+    await this.ctx.storage.setAlarm(Date.now() + TIMEOUT_CHECK_INTERVAL_MS);
+  }
+
+  // Announce that a user left once their last connection is gone
+  private disconnect(ws: WebSocket) {
+    const { user } = ws.deserializeAttachment() as ConnectionAttachment;
+    const remaining = this.ctx.getWebSockets(user.id).filter((socket) => socket !== ws);
+
+    if (remaining.length === 0) {
+      this.broadcast({ type: 'leave', userId: user.id, user, timestamp: Date.now() }, ws);
+    }
+  }
+
+  // Connected users, once each however many tabs they have open
+  private getUsers() {
+    const users = new Map<string, RoomUser>();
+    for (const ws of this.ctx.getWebSockets()) {
+      const { user } = ws.deserializeAttachment() as ConnectionAttachment;
+      users.set(user.id, user);
+    }
+    return Array.from(users.values());
+  }
+
+  private async storeMessage(message: Omit<RoomMessage, 'seq'>) {
+    const seq = this.cursor + 1;
+    const stored: RoomMessage = { ...message, seq };
+
+    this.cursor = seq;
+    await this.ctx.storage.put({ [messageKey(seq)]: stored, [CURSOR_KEY]: seq });
+    if (seq > MAX_HISTORY) {
+      await this.ctx.storage.delete(messageKey(seq - MAX_HISTORY));
+    }
+
+    return stored;
+  }
+
+  private async getMessagesAfter(cursor: number) {
+    if (cursor >= this.cursor) return [];
+
+    const messages = await this.ctx.storage.list<RoomMessage>({
+      start: messageKey(cursor + 1),
+      end: messageKey(this.cursor + 1),
+    });
+    return Array.from(messages.values());
+  }
+
+  private send(ws: WebSocket, message: RoomMessage) {
+    try {
+      ws.send(JSON.stringify(message));
+    } catch (error) {
+      console.error('Error sending to client:', error);
     }
-    
-    // Close all connections
-    for (const [, client] of this.clients) {
-      client.websocket.close(1000, 'Server shutting down');
+  }
+
+  private broadcast(message: RoomMessage, exclude?: WebSocket) {
+    const messageStr = JSON.stringify(message);
+
+    for (const ws of this.ctx.getWebSockets()) {
+      if (ws === exclude) continue;
+      try {
+        ws.send(messageStr);
+      } catch (error) {
+        console.error('Error broadcasting to client:', error);
+      }
     }
-    
-    this.clients.clear();
   }
-}
\ No newline at end of file
+}